@@ -0,0 +1,63 @@
+// Minimal OpenAI-compatible server for developing the coach panel without a
+// model. Answers POST /v1/chat/completions with deterministic advice built
+// from the summary it receives. Point the coach at http://localhost:8787/v1.
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const DELAY_MS = Number(process.env.DELAY_MS ?? 500);
+
+const addDays = (date, days) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+const adviceFor = (summary) => {
+  const focus = [
+    ...(summary.weakTopics ?? []).map(t => `${t.subject}: ${t.topic}`),
+    ...(summary.subjects ?? []).map(s => s.subject),
+  ];
+  return {
+    summary: `Mock coach: ${summary.totals?.sets ?? 0} sets at ${summary.totals?.accuracy ?? 0}% accuracy.`,
+    plan: Array.from({ length: 7 }, (_, i) => ({
+      day: addDays(summary.today, i + 1),
+      focus: focus.length > 0 ? focus[i % focus.length] : 'Mixed practice',
+      tasks: ['Two timed sets', 'Review every wrong answer'],
+    })),
+    feedback: (summary.recentLearnings ?? []).slice(0, 3).map(l => ({
+      mistake: `${l.subject} · ${l.topic || 'Untagged'}`,
+      advice: `Revisit: ${l.text}`,
+    })),
+  };
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  });
+  res.end(JSON.stringify(body));
+};
+
+createServer((req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204, {});
+  if (req.method !== 'POST' || !req.url?.endsWith('/chat/completions')) return send(res, 404, { error: { message: 'Not found' } });
+
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    try {
+      const request = JSON.parse(raw);
+      const summary = JSON.parse(request.messages.find(m => m.role === 'user').content);
+      setTimeout(() => send(res, 200, {
+        id: 'mock',
+        object: 'chat.completion',
+        model: request.model,
+        choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: JSON.stringify(adviceFor(summary)) } }],
+      }), DELAY_MS);
+    } catch (error) {
+      send(res, 400, { error: { message: String(error) } });
+    }
+  });
+}).listen(PORT, () => console.log(`Mock coach listening on http://localhost:${PORT}/v1`));
@@ -0,0 +1,124 @@
+// Self-hosted sync server for tracker entries. Keeps the latest version of
+// each record per space in one JSON file and follows the rules in
+// src/lib/sync/types.ts: a push is accepted only if it names the record's
+// current revision. Set SYNC_TOKEN to require `Authorization: Bearer <token>`.
+// Point the Sync panel at http://localhost:8788.
+import { createServer } from 'node:http';
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+
+const PORT = Number(process.env.PORT ?? 8788);
+const DATA_FILE = process.env.SYNC_DATA ?? 'sync-data.json';
+const TOKEN = process.env.SYNC_TOKEN ?? '';
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const ROUTE = /^\/v1\/spaces\/([^/]+)\/changes$/;
+// Names and ids come from clients, so they are checked before use; both are
+// Map keys, never object properties, so `__proto__` and the like are plain
+// strings here.
+const SPACE_NAME = /^[^\u0000-\u001f\u007f]{1,100}$/;
+const RECORD_ID = /^[A-Za-z0-9][A-Za-z0-9._:-]{0,127}$/;
+
+// Map of space name to { seq, records: Map of id to record }. The file holds
+// the same as plain objects.
+const load = () => {
+  const saved = existsSync(DATA_FILE) ? JSON.parse(readFileSync(DATA_FILE, 'utf8')) : {};
+  return new Map(Object.entries(saved).map(([name, space]) => [name, { seq: space.seq, records: new Map(Object.entries(space.records)) }]));
+};
+const spaces = load();
+
+// Written to a temporary file first so a crash never leaves half a file.
+const persist = () => {
+  const saved = Object.fromEntries(Array.from(spaces, ([name, space]) => [name, { seq: space.seq, records: Object.fromEntries(space.records) }]));
+  writeFileSync(`${DATA_FILE}.tmp`, JSON.stringify(saved));
+  renameSync(`${DATA_FILE}.tmp`, DATA_FILE);
+};
+
+const spaceFor = name => {
+  if (!spaces.has(name)) spaces.set(name, { seq: 0, records: new Map() });
+  return spaces.get(name);
+};
+
+const decodeSpace = encoded => {
+  try {
+    const name = decodeURIComponent(encoded);
+    return SPACE_NAME.test(name) ? name : null;
+  } catch {
+    return null;
+  }
+};
+
+const accept = (space, deviceId, push) => {
+  const current = space.records.get(push.id);
+  // A retried push whose first answer was lost is accepted again as-is.
+  if (current && current.updatedAt === push.updatedAt && current.deleted === push.deleted) return current.rev;
+  if ((current?.rev ?? 0) !== push.baseRev) return null;
+  const rev = push.baseRev + 1;
+  space.records.set(push.id, {
+    id: push.id, rev, seq: ++space.seq, updatedAt: push.updatedAt, deviceId, deleted: push.deleted, entry: push.deleted ? null : push.entry,
+  });
+  return rev;
+};
+
+const isPushRecord = r => r && typeof r.id === 'string' && RECORD_ID.test(r.id) && Number.isInteger(r.baseRev) && typeof r.updatedAt === 'string'
+  && typeof r.deleted === 'boolean' && (r.deleted || (r.entry && typeof r.entry === 'object'));
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  });
+  res.end(JSON.stringify(body));
+};
+
+createServer((req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204, {});
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const match = url.pathname.match(ROUTE);
+  if (!match) return send(res, 404, { error: 'Not found' });
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) return send(res, 401, { error: 'Unauthorized' });
+  const name = decodeSpace(match[1]);
+  if (name === null) return send(res, 400, { error: 'Invalid space name' });
+
+  if (req.method === 'GET') {
+    const since = Number(url.searchParams.get('since') ?? 0);
+    if (!Number.isInteger(since) || since < 0) return send(res, 400, { error: 'Invalid since' });
+    const space = spaces.get(name);
+    if (!space) return send(res, 200, { seq: 0, records: [] });
+    const records = Array.from(space.records.values()).filter(r => r.seq > since).sort((a, b) => a.seq - b.seq);
+    return send(res, 200, { seq: space.seq, records });
+  }
+  if (req.method !== 'POST') return send(res, 405, { error: 'Method not allowed' });
+
+  let raw = '';
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      send(res, 413, { error: 'Request too large' });
+      req.destroy();
+      return;
+    }
+    raw += chunk;
+  });
+  req.on('end', () => {
+    try {
+      const { deviceId, records } = JSON.parse(raw);
+      if (typeof deviceId !== 'string' || !Array.isArray(records) || !records.every(isPushRecord)) {
+        return send(res, 400, { error: 'Expected { deviceId, records } with valid record ids' });
+      }
+      const space = spaceFor(name);
+      const accepted = [];
+      const rejected = [];
+      records.forEach(record => {
+        const rev = accept(space, deviceId, record);
+        if (rev === null) rejected.push(record.id);
+        else accepted.push({ id: record.id, rev });
+      });
+      if (accepted.length > 0) persist();
+      send(res, 200, { accepted, rejected });
+    } catch (error) {
+      send(res, 400, { error: String(error) });
+    }
+  });
+}).listen(PORT, () => console.log(`Sync server listening on http://localhost:${PORT} (data in ${DATA_FILE})`));
@@ -1,103 +1,96 @@
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Cell } from 'recharts';
-import { Edit, Trash2, Target, TrendingUp, BarChart2, BookOpen, AlertTriangle, Save, XCircle, BrainCircuit, Sparkles, Check, Calendar, Zap, ChevronLeft, ChevronRight, Search, Loader } from 'lucide-react';
-import { clsx, type ClassValue } from 'clsx';
-import { twMerge } from 'tailwind-merge';
-
-// Utility for combining Tailwind classes
-function cn(...inputs: ClassValue[]) {
-  return twMerge(clsx(inputs));
-}
-
-// --- DATA STRUCTURE & TYPES ---
-type Subject = 'LR' | 'DI' | 'QUANT' | 'VARC';
-
-type Entry = {
-  id: string;
-  date: string;
-  subject: Subject;
-  topic: string;
-  lrSets: number;
-  diSets: number;
-  vaultSets: number;
-  sectionalSets: number;
-  timeTaken: number;
-  questionsAttempted: number;
-  correctAnswers: number;
-  confidence: number;
-  learnings: string;
-  isWeakTopic: boolean;
-};
-
-type TimePeriod = 'daily' | 'weekly' | 'monthly';
-type View = 'dashboard' | 'calendar';
-
-const initialFormState: Omit<Entry, 'id'> = {
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { Line, BarChart, Bar, ComposedChart, Area, ReferenceLine, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Cell } from 'recharts';
+import { Edit, Trash2, Target, TrendingUp, BarChart2, BookOpen, AlertTriangle, Save, XCircle, BrainCircuit, Sparkles, Check, Calendar, Zap, ChevronLeft, ChevronRight, Search, Loader, ClipboardList, MinusCircle, Layers, RefreshCw, CalendarClock, Gauge, ArrowUp, ArrowDown, Users, FileText, ListChecks } from 'lucide-react';
+import type { CanonicalTopic, Entry, EntryFilters, EntrySort, EntrySortKey, ExamProfile, MockTest, QuestionLog, StudyMaterial, QuestionRetry, ScoreView, Student, StudentDirectory, Subject, TimePeriod, TrashedEntry, TrendModel, TrendTargets, View } from './types';
+import { cn, calculateTotalSets, calculateAccuracy, calculateSpeed, createRecordId, formatDate } from './lib/utils';
+import { coachSettingsStore, studentsStore } from './lib/schema';
+import { buildCards, dueCards } from './lib/spacedRepetition';
+import { RED_FLAG_ACCURACY, RED_FLAG_NET_SCORE, scoreEntry } from './lib/scoring';
+import { DAILY_CHART_POINTS, bucketEntries, summarizeMetrics } from './lib/metrics';
+import { usePersistentState } from './hooks/usePersistentState';
+import { useEntries } from './hooks/useEntries';
+import { useVirtualRows } from './hooks/useVirtualRows';
+import { useUndoHistory, type UndoPatcher } from './hooks/useUndoHistory';
+import { useInsights } from './hooks/useInsights';
+import type { InsightFinding } from './lib/insights';
+import BackupPanel from './components/BackupPanel';
+import ImportExport from './components/ImportExport';
+import type { ImportPlan } from './lib/importExport';
+import { MockTestForm, MocksTable, MockTrendCharts } from './components/MockTests';
+import TopicsView from './components/TopicsView';
+import ReviseView from './components/ReviseView';
+import { PlannerView, PlanProgress } from './components/Planner';
+import ActivityHeatmap from './components/ActivityHeatmap';
+import { SessionTimer, SetTimeDistribution } from './components/SessionTimer';
+import type { EntryDraft } from './lib/sessionTimer';
+import EntryFiltersPanel from './components/EntryFiltersPanel';
+import { DEFAULT_SORT, EMPTY_FILTERS, applyFilters, singleDate, sortEntries } from './lib/entryFilters';
+import { applyBulkEdit, applyEntryStatePatch, describeBulkAction, diffEntryState, moveToTrash, patchedEntries, purgeExpired, restoreFromTrash, type BulkAction, type EntryState, type EntryStatePatch } from './lib/bulkEdit';
+import { deleteQuestionImage, questionImageIds } from './lib/questionImages';
+import { BulkActionBar, HistoryControls } from './components/BulkActionBar';
+import TrashPanel from './components/TrashPanel';
+import TrendCallouts from './components/TrendCallouts';
+import SpeedAccuracyView from './components/SpeedAccuracyView';
+import SessionPatterns from './components/SessionPatterns';
+import { ROLLING_WINDOWS, TREND_WINDOW_DAYS, fitTrend, rollingValue, trendAt } from './lib/trends';
+import CoachPanel from './components/CoachPanel';
+import { emptySets, subjectsInUse } from './lib/examProfiles';
+import ExamProfilePanel from './components/ExamProfilePanel';
+import { clearStudentStores, studentStores } from './lib/students';
+import { WRITE_FAILURE_KEY, clearWriteFailure, lastWriteFailure, subscribe } from './lib/storage';
+import { deleteEntryData } from './lib/adapters';
+import { buildSnapshot, snapshotFileName } from './lib/snapshots';
+import { downloadFile } from './lib/importExport';
+import { StudentSwitcher } from './components/StudentSwitcher';
+import ComparisonView from './components/ComparisonView';
+import ReportView from './components/ReportView';
+import ReminderPanel from './components/ReminderPanel';
+import SyncPanel from './components/SyncPanel';
+import QuestionLogPanel from './components/QuestionLogPanel';
+import ReattemptQueue from './components/ReattemptQueue';
+import { ERROR_CATEGORIES, errorBreakdown, withQuestions, withRetry } from './lib/questionLog';
+import UpdatePrompt from './components/UpdatePrompt';
+import CommandPalette, { type PaletteCommand } from './components/CommandPalette';
+import { CoverageField, MaterialProgressPanel, MaterialsPanel } from './components/Materials';
+import { useReminders } from './hooks/useReminders';
+import { useSync } from './hooks/useSync';
+import { ENERGY_LEVELS } from './lib/sessionPatterns';
+
+const initialFormState = (profile: ExamProfile): Omit<Entry, 'id'> => ({
   date: new Date().toISOString().split('T')[0],
-  subject: 'QUANT', // Default subject
+  subject: profile.subjects[0], // Default subject
   topic: '',
-  lrSets: 0,
-  diSets: 0,
-  vaultSets: 0,
-  sectionalSets: 0,
+  sets: emptySets(profile),
+  custom: {},
   timeTaken: 0,
   questionsAttempted: 0,
   correctAnswers: 0,
+  incorrectMcq: 0,
+  incorrectTita: 0,
+  skipped: 0,
   confidence: 3,
   learnings: '',
   isWeakTopic: false,
-};
-
-// --- LOCALSTORAGE HOOK ---
-function useLocalStorage<T>(key: string, initialValue: T): [T, React.Dispatch<React.SetStateAction<T>>] {
-  const [storedValue, setStoredValue] = useState<T>(() => {
-    if (typeof window === "undefined") return initialValue;
-    try {
-      const item = window.localStorage.getItem(key);
-      return item ? JSON.parse(item) : initialValue;
-    } catch (error) {
-      console.error(error);
-      return initialValue;
-    }
-  });
-
-  const setValue: React.Dispatch<React.SetStateAction<T>> = (value) => {
-    try {
-      const valueToStore = value instanceof Function ? value(storedValue) : value;
-      setStoredValue(valueToStore);
-      if (typeof window !== "undefined") {
-        window.localStorage.setItem(key, JSON.stringify(valueToStore));
-      }
-    } catch (error) {
-      console.error(error);
-    }
-  };
-  return [storedValue, setValue];
-}
-
-// --- HELPER FUNCTIONS ---
-const calculateTotalSets = (entry: Partial<Entry>) => (entry.lrSets || 0) + (entry.diSets || 0) + (entry.vaultSets || 0) + (entry.sectionalSets || 0);
-const calculateAccuracy = (entry: Partial<Entry>) => {
-  if (!entry.questionsAttempted || entry.questionsAttempted === 0) return 0;
-  return ((entry.correctAnswers || 0) / entry.questionsAttempted) * 100;
-};
-const calculateSpeed = (entry: Partial<Entry>) => {
-  const totalSets = calculateTotalSets(entry);
-  if (!totalSets || totalSets === 0) return 0;
-  return (entry.timeTaken || 0) / totalSets;
-};
-const formatDate = (date: Date) => date.toISOString().split('T')[0];
+});
 
 // --- UI COMPONENTS ---
 
-const Header = () => (
-  <header className="bg-surface/80 backdrop-blur-lg sticky top-0 z-20 border-b border-border">
+const Header = ({ dueCount, onOpenRevise, children }: { dueCount: number; onOpenRevise: () => void; children: React.ReactNode }) => (
+  <header className="bg-surface/80 backdrop-blur-lg sticky top-0 z-20 border-b border-border print:hidden">
     <div className="container mx-auto px-4 sm:px-6 lg:px-8">
       <div className="flex items-center justify-between h-16">
         <div className="flex items-center space-x-3">
           <BrainCircuit className="h-8 w-8 text-primary" />
           <h1 className="text-xl sm:text-2xl font-bold text-text tracking-tight">CAT Mastery Tracker</h1>
         </div>
+        <div className="flex items-center gap-4">
+          {children}
+          <button onClick={onOpenRevise} className="flex items-center px-3 py-1.5 rounded-md text-sm font-medium text-textSecondary hover:bg-background transition" title="Mistake cards due for revision">
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Revise
+            <span className={cn("ml-2 px-2 py-0.5 rounded-full text-xs font-semibold", dueCount > 0 ? 'bg-accent text-accent-foreground' : 'bg-background text-textSecondary')}>{dueCount}</span>
+          </button>
+        </div>
       </div>
     </div>
   </header>
@@ -165,26 +158,35 @@ const DailyTargetProgress = ({ entries, dailyTarget, setDailyTarget }: { entries
   );
 };
 
-const DashboardMetrics = ({ entries }: { entries: Entry[] }) => {
+const DashboardMetrics = ({ entries, scoreView }: { entries: Entry[]; scoreView: ScoreView }) => {
   const metrics = useMemo(() => {
-    if (entries.length === 0) {
-      return { totalSets: 0, overallAccuracy: '0.00', avgSpeed: '0.00' };
-    }
-    const totalSets = entries.reduce((acc, entry) => acc + calculateTotalSets(entry), 0);
-    const totalCorrect = entries.reduce((acc, entry) => acc + entry.correctAnswers, 0);
-    const totalAttempted = entries.reduce((acc, entry) => acc + entry.questionsAttempted, 0);
-    const totalTime = entries.reduce((acc, entry) => acc + entry.timeTaken, 0);
-
-    const overallAccuracy = totalAttempted > 0 ? (totalCorrect / totalAttempted) * 100 : 0;
-    const avgSpeed = totalSets > 0 ? totalTime / totalSets : 0;
-
+    const { totalSets, avgSpeed, score } = summarizeMetrics(entries);
     return {
       totalSets,
-      overallAccuracy: overallAccuracy.toFixed(2),
+      overallAccuracy: score.accuracy.toFixed(2),
       avgSpeed: avgSpeed.toFixed(2),
+      netScore: score.netScore,
+      maxScore: score.maxScore,
+      marksLost: score.marksLost,
+      attemptRate: score.attemptRate.toFixed(2),
+      isEstimated: score.isEstimated,
     };
   }, [entries]);
 
+  if (scoreView === 'netScore') {
+    return (
+      <div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+          <StatCard title="Cumulative Sets" value={metrics.totalSets} icon={BarChart2} />
+          <StatCard title="Net Score" value={metrics.netScore} icon={TrendingUp} unit={`/ ${metrics.maxScore}`} />
+          <StatCard title="Lost to Negatives" value={metrics.marksLost} icon={MinusCircle} unit="marks" />
+          <StatCard title="Attempt Rate" value={metrics.attemptRate} icon={Zap} unit="%" />
+        </div>
+        {metrics.isEstimated && <p className="mt-2 text-xs text-textSecondary">Some entries have no MCQ/TITA split; their wrong answers are scored as MCQ.</p>}
+      </div>
+    );
+  }
+
   return (
     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
       <StatCard title="Cumulative Sets" value={metrics.totalSets} icon={BarChart2} />
@@ -194,92 +196,78 @@ const DashboardMetrics = ({ entries }: { entries: Entry[] }) => {
   );
 };
 
-const PerformanceCharts = ({ entries, timePeriod }: { entries: Entry[]; timePeriod: TimePeriod }) => {
+const PerformanceCharts = ({ entries, subjects, timePeriod, scoreView, trendTargets, setTrendTargets }: { entries: Entry[]; subjects: Subject[]; timePeriod: TimePeriod; scoreView: ScoreView; trendTargets: TrendTargets; setTrendTargets: (targets: TrendTargets) => void }) => {
   const [selectedSubject, setSelectedSubject] = useState<Subject | 'Overall'>('Overall');
+  const [trendModel, setTrendModel] = useState<TrendModel>('linear');
 
-  const getWeekLabel = (date: Date) => {
-    const firstDay = new Date(date.getFullYear(), 0, 1);
-    const pastDays = (date.getTime() - firstDay.getTime()) / 86400000;
-    return `W${Math.ceil((pastDays + firstDay.getDay() + 1) / 7)}`;
-  };
-
-  const chartData = useMemo(() => {
-    let filteredEntries = entries;
-    if (selectedSubject !== 'Overall') {
-      filteredEntries = entries.filter(e => e.subject === selectedSubject);
-    }
-
-    const sorted = [...filteredEntries].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-
-    if (timePeriod === 'daily') {
-      return sorted.map(entry => ({
-        name: new Date(entry.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-        Accuracy: parseFloat(calculateAccuracy(entry).toFixed(2)),
-        'Total Sets': calculateTotalSets(entry),
-      })).slice(-30);
-    }
+  const filteredEntries = useMemo(() => (selectedSubject === 'Overall' ? entries : entries.filter(e => e.subject === selectedSubject)), [entries, selectedSubject]);
+  const trend = useMemo(() => fitTrend(filteredEntries, scoreView, trendModel), [filteredEntries, scoreView, trendModel]);
 
-    const groupedData: { [key: string]: Entry[] } = {};
-    sorted.forEach(entry => {
-      const date = new Date(entry.date);
-      let key: string;
-      if (timePeriod === 'weekly') {
-        key = `${date.getFullYear()}-${getWeekLabel(date)}`;
-      } else { // monthly
-        key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-      }
-      if (!groupedData[key]) groupedData[key] = [];
-      groupedData[key].push(entry);
-    });
+  const bucketData = useMemo(() => {
+    const buckets = bucketEntries(filteredEntries, timePeriod);
+    return timePeriod === 'daily' ? buckets.slice(-DAILY_CHART_POINTS) : buckets;
+  }, [filteredEntries, timePeriod]);
 
-    return Object.entries(groupedData).map(([key, groupEntries]) => {
-      const totalSets = groupEntries.reduce((sum, e) => sum + calculateTotalSets(e), 0);
-      const totalCorrect = groupEntries.reduce((sum, e) => sum + e.correctAnswers, 0);
-      const totalAttempted = groupEntries.reduce((sum, e) => sum + e.questionsAttempted, 0);
-      const accuracy = totalAttempted > 0 ? (totalCorrect / totalAttempted) * 100 : 0;
-
-      let name = key;
-      if (timePeriod === 'monthly') {
-        const [year, month] = key.split('-');
-        name = new Date(parseInt(year), parseInt(month) - 1).toLocaleString('en-US', { month: 'short', year: 'numeric' });
-      }
-
-      return {
-        name,
-        Accuracy: parseFloat(accuracy.toFixed(2)),
-        'Total Sets': totalSets,
-      };
-    });
-  }, [entries, timePeriod, selectedSubject]);
+  // Rolling averages only make sense on the daily view; weekly and monthly
+  // buckets are already averages.
+  const chartData = useMemo(() => bucketData.map(point => {
+    const fitted = trend && trendAt(trend, point.date);
+    const round = (value: number | null) => (value === null ? null : parseFloat(value.toFixed(2)));
+    return {
+      ...point,
+      ...(timePeriod === 'daily' && Object.fromEntries(ROLLING_WINDOWS.map(days => [`${days}-day avg`, round(rollingValue(filteredEntries, scoreView, point.date, days))]))),
+      Trend: fitted ? round(fitted.value) : null,
+      '95% band': fitted ? [round(fitted.low), round(fitted.high)] : null,
+    };
+  }), [bucketData, trend, timePeriod, filteredEntries, scoreView]);
 
-  const colors = { text: '#64748b', grid: '#e2e8f0', tooltipBg: '#ffffff', tooltipBorder: '#e2e8f0', primary: 'hsl(var(--primary))', success: 'hsl(var(--success))', secondary: '#0ea5e9', warning: 'hsl(var(--warning))' };
+  const colors = { text: '#64748b', grid: '#e2e8f0', tooltipBg: '#ffffff', tooltipBorder: '#e2e8f0', primary: 'hsl(var(--primary))', success: 'hsl(var(--success))', secondary: '#0ea5e9', warning: 'hsl(var(--warning))', accent: 'hsl(var(--accent))' };
+  const metricKey = scoreView === 'netScore' ? 'Net Score' : 'Accuracy';
+  // Bar colour bands: net score runs lower than accuracy for the same work.
+  const [good, fair] = scoreView === 'netScore' ? [70, RED_FLAG_NET_SCORE] : [80, RED_FLAG_ACCURACY];
 
   return (
     <div className="mt-6">
-      <div className="flex justify-end mb-4">
+      <div className="flex justify-end gap-2 mb-4">
+        <select
+          value={trendModel}
+          onChange={(e) => setTrendModel(e.target.value as TrendModel)}
+          className="bg-background border border-border rounded-md p-2 text-text focus:ring-2 focus:ring-primary focus:border-primary transition"
+          title={`Fitted to the last ${TREND_WINDOW_DAYS} days`}
+        >
+          <option value="linear">Linear trend</option>
+          <option value="exponential">Exponential trend</option>
+        </select>
         <select
           value={selectedSubject}
           onChange={(e) => setSelectedSubject(e.target.value as Subject | 'Overall')}
           className="bg-background border border-border rounded-md p-2 text-text focus:ring-2 focus:ring-primary focus:border-primary transition"
         >
           <option value="Overall">Overall</option>
-          <option value="LR">LR</option>
-          <option value="DI">DI</option>
-          <option value="QUANT">QUANT</option>
-          <option value="VARC">VARC</option>
+          {subjects.map(s => <option key={s} value={s}>{s}</option>)}
         </select>
       </div>
+      <TrendCallouts entries={entries} subjects={subjects} subject={selectedSubject} scoreView={scoreView} model={trendModel} targets={trendTargets} setTargets={setTrendTargets} />
       <div className="bg-surface p-5 rounded-lg border border-border">
-        <h3 className="text-lg font-semibold text-text mb-4">Accuracy Trend (%)</h3>
+        <h3 className="text-lg font-semibold text-text mb-4">{scoreView === 'netScore' ? 'Net Score Trend (% of max marks)' : 'Accuracy Trend (%)'}</h3>
         <ResponsiveContainer width="100%" height={300}>
-          <LineChart data={chartData}>
+          <ComposedChart data={chartData}>
             <CartesianGrid strokeDasharray="3 3" stroke={colors.grid} />
             <XAxis dataKey="name" stroke={colors.text} />
-            <YAxis stroke={colors.text} domain={[0, 100]} />
+            <YAxis stroke={colors.text} domain={scoreView === 'netScore' ? ['auto', 100] : [0, 100]} />
             <Tooltip contentStyle={{ backgroundColor: colors.tooltipBg, border: `1px solid ${colors.tooltipBorder}` }} itemStyle={{ color: colors.text }} labelStyle={{ color: colors.text }} />
             <Legend />
-            <Line type="monotone" dataKey="Accuracy" stroke={colors.primary} strokeWidth={2} dot={{ r: 4 }} activeDot={{ r: 8 }} />
-          </LineChart>
+            <Area type="monotone" dataKey="95% band" stroke="none" fill={colors.accent} fillOpacity={0.15} />
+            <Line type="monotone" dataKey={metricKey} stroke={colors.primary} strokeWidth={2} dot={{ r: 4 }} activeDot={{ r: 8 }} />
+            {timePeriod === 'daily' && (
+              <>
+                <Line type="monotone" dataKey="7-day avg" stroke={colors.secondary} strokeWidth={1.5} dot={false} />
+                <Line type="monotone" dataKey="30-day avg" stroke={colors.success} strokeWidth={1.5} dot={false} />
+              </>
+            )}
+            <Line type="linear" dataKey="Trend" stroke={colors.accent} strokeWidth={2} strokeDasharray="6 4" dot={false} />
+            {trendTargets[scoreView] > 0 && <ReferenceLine y={trendTargets[scoreView]} stroke={colors.warning} strokeDasharray="3 3" label={{ value: 'Target', fill: colors.text, fontSize: 12, position: 'insideTopRight' }} />}
+          </ComposedChart>
         </ResponsiveContainer>
       </div>
       <div className="bg-surface p-5 rounded-lg border border-border">
@@ -293,7 +281,7 @@ const PerformanceCharts = ({ entries, timePeriod }: { entries: Entry[]; timePeri
             <Legend />
             <Bar dataKey="Total Sets">
               {chartData.map((entry, index) => (
-                <Cell key={`cell-${index}`} fill={entry.Accuracy >= 80 ? colors.success : entry.Accuracy >= 60 ? colors.secondary : colors.warning} />
+                <Cell key={`cell-${index}`} fill={entry[metricKey] >= good ? colors.success : entry[metricKey] >= fair ? colors.secondary : colors.warning} />
               ))}
             </Bar>
           </BarChart>
@@ -304,9 +292,10 @@ const PerformanceCharts = ({ entries, timePeriod }: { entries: Entry[]; timePeri
 };
 
 const AIInsights = ({ entries }: { entries: Entry[] }) => {
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [analysisResult, setAnalysisResult] = useState<string[]>([]);
+  const { report, isAnalyzing, analyze } = useInsights();
+  const [expandedFinding, setExpandedFinding] = useState<string | null>(null);
   const [currentTipIndex, setCurrentTipIndex] = useState(0);
+  const entriesById = useMemo(() => new Map(entries.map(e => [e.id, e])), [entries]);
 
   const staticTips = [
     "For RC passages, try to identify the author's main point before answering questions.",
@@ -323,44 +312,7 @@ const AIInsights = ({ entries }: { entries: Entry[] }) => {
     return () => clearInterval(tipInterval);
   }, [staticTips.length]);
 
-  const handleAnalyzeMistakes = () => {
-    setIsAnalyzing(true);
-    setAnalysisResult([]);
-
-    setTimeout(() => {
-      const allLearnings = entries.map(e => e.learnings).filter(l => l.trim() !== '').join(' ');
-      if (allLearnings.trim() === '') {
-        setAnalysisResult(["No mistakes logged yet. Add learnings to your entries to analyze patterns."]);
-        setIsAnalyzing(false);
-        return;
-      }
-
-      const stopWords = new Set(['a', 'an', 'the', 'in', 'on', 'is', 'was', 'to', 'for', 'of', 'and', 'i', 'my', 'it', 'with', 'not', 'did', 'had', 'but']);
-      const words = allLearnings.toLowerCase().replace(/[.,]/g, '').split(/\s+/);
-      const wordFrequencies: { [key: string]: number } = {};
-
-      words.forEach(word => {
-        if (!stopWords.has(word) && word.length > 3) {
-          wordFrequencies[word] = (wordFrequencies[word] || 0) + 1;
-        }
-      });
-
-      const sortedKeywords = Object.entries(wordFrequencies)
-        .sort(([, a], [, b]) => b - a)
-        .slice(0, 5)
-        .map(([word]) => word);
-
-      if (sortedKeywords.length === 0) {
-        setAnalysisResult(["Not enough data to identify key patterns. Keep logging your mistakes!"]);
-      } else {
-        setAnalysisResult([
-          "Based on your log, you should focus on:",
-          ...sortedKeywords.map(k => `- **${k.charAt(0).toUpperCase() + k.slice(1)}**: This appears frequently in your notes.`)
-        ]);
-      }
-      setIsAnalyzing(false);
-    }, 1500); // Simulate analysis time
-  };
+  const findingEntries = (finding: InsightFinding) => finding.entryIds.map(id => entriesById.get(id)).filter((e): e is Entry => !!e);
 
   return (
     <div className="bg-surface p-6 rounded-lg border border-border">
@@ -370,18 +322,49 @@ const AIInsights = ({ entries }: { entries: Entry[] }) => {
           <p className="text-sm text-textSecondary leading-relaxed transition-opacity duration-500">{staticTips[currentTipIndex]}</p>
         </div>
         <div>
-          <button onClick={handleAnalyzeMistakes} disabled={isAnalyzing} className="w-full flex items-center justify-center px-4 py-2 border border-border rounded-md shadow-sm text-sm font-medium text-textSecondary bg-surface hover:bg-background transition disabled:opacity-50 disabled:cursor-not-allowed">
+          <button onClick={() => analyze(entries)} disabled={isAnalyzing} className="w-full flex items-center justify-center px-4 py-2 border border-border rounded-md shadow-sm text-sm font-medium text-textSecondary bg-surface hover:bg-background transition disabled:opacity-50 disabled:cursor-not-allowed">
             {isAnalyzing ? <><Loader className="h-4 w-4 mr-2 animate-spin" /> Analyzing...</> : <><Search className="h-4 w-4 mr-2" /> Analyze My Mistakes</>}
           </button>
         </div>
-        {analysisResult.length > 0 && (
+        {report && (
           <div className="mt-4 p-3 bg-background rounded-md border border-primary/50">
-            <h4 className="font-semibold text-text mb-2">Key Problem Areas:</h4>
-            <div className="space-y-1">
-              {analysisResult.map((line, i) => (
-                <p key={i} className="text-sm text-textSecondary" dangerouslySetInnerHTML={{ __html: line.replace(/\*\*(.*?)\*\*/g, '<strong class="text-text">$1</strong>') }}></p>
-              ))}
-            </div>
+            <h4 className="font-semibold text-text mb-1">Key Problem Areas:</h4>
+            <p className="text-xs text-textSecondary mb-3">From {report.analyzedEntries} logged learnings · accuracy compared with your other entries in the same subjects</p>
+            {report.analyzedEntries === 0 ? (
+              <p className="text-sm text-textSecondary">No mistakes logged yet. Add learnings to your entries to analyze patterns.</p>
+            ) : report.findings.length === 0 ? (
+              <p className="text-sm text-textSecondary">Not enough data to identify key patterns. Keep logging your mistakes!</p>
+            ) : (
+              <div className="space-y-2 max-h-96 overflow-y-auto pr-1">
+                {report.findings.map(finding => (
+                  <div key={finding.id} className="border border-border rounded-md">
+                    <button onClick={() => setExpandedFinding(expandedFinding === finding.id ? null : finding.id)} className="w-full text-left p-2 hover:bg-surface/50 transition">
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-semibold text-text">{finding.kind === 'phrase' ? `"${finding.label}"` : finding.label}</span>
+                        <span className="text-xs text-textSecondary">{finding.entryIds.length} {finding.entryIds.length === 1 ? 'entry' : 'entries'}</span>
+                      </div>
+                      <p className="text-xs text-textSecondary mt-1">
+                        Accuracy <span className={cn("font-semibold", finding.accuracyDrop > 0 ? 'text-error' : 'text-success')}>{finding.accuracy.toFixed(0)}%</span>
+                        {' '}vs {finding.baselineAccuracy.toFixed(0)}% otherwise
+                        {' · '}{Object.entries(finding.bySubject).map(([subject, count]) => `${subject} ${count}`).join(', ')}
+                        {finding.topTopics.length > 0 && ` · ${finding.topTopics.map(t => t.topic).join(', ')}`}
+                      </p>
+                      {finding.advice && <p className="text-xs text-text mt-1">{finding.advice}</p>}
+                    </button>
+                    {expandedFinding === finding.id && (
+                      <div className="border-t border-border p-2 space-y-2">
+                        {findingEntries(finding).map(entry => (
+                          <div key={entry.id} className="text-xs">
+                            <p className="text-textSecondary">{new Date(entry.date).toLocaleDateString()} · <span className="text-primary">{entry.subject}</span> · {entry.topic || 'Untagged'} · {calculateAccuracy(entry).toFixed(0)}%</p>
+                            <p className="text-text">{entry.learnings}</p>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -389,21 +372,45 @@ const AIInsights = ({ entries }: { entries: Entry[] }) => {
   );
 };
 
-const EntryForm = ({ onSave, editingEntry, setEditingEntry }: { onSave: (entry: Omit<Entry, 'id'>, id: string | null) => void; editingEntry: Entry | null; setEditingEntry: (entry: Entry | null) => void; }) => {
-  const [formState, setFormState] = useState(initialFormState);
+const EntryForm = ({ profile, materials, onSave, editingEntry, setEditingEntry, draft, setDraft }: { profile: ExamProfile; materials: StudyMaterial[]; onSave: (entry: Omit<Entry, 'id'>, id: string | null) => void; editingEntry: Entry | null; setEditingEntry: (entry: Entry | null) => void; draft: EntryDraft | null; setDraft: (draft: EntryDraft | null) => void; }) => {
+  const blankForm = useMemo(() => initialFormState(profile), [profile]);
+  const [formState, setFormState] = useState(blankForm);
 
   useEffect(() => {
     if (editingEntry) {
       setFormState(editingEntry);
+    } else if (draft) {
+      setFormState({ ...blankForm, ...draft });
     } else {
-      setFormState(initialFormState);
+      setFormState(blankForm);
     }
-  }, [editingEntry]);
+  }, [editingEntry, draft, blankForm]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value, type } = e.target;
     const isCheckbox = type === 'checkbox';
-    const isNumber = ['lrSets', 'diSets', 'vaultSets', 'sectionalSets', 'timeTaken', 'questionsAttempted', 'correctAnswers', 'confidence'].includes(name);
+    const isNumber = ['timeTaken', 'questionsAttempted', 'correctAnswers', 'incorrectMcq', 'incorrectTita', 'skipped', 'confidence'].includes(name);
+
+    // Set counts and custom fields are named "sets.<id>" / "custom.<id>".
+    const [group, key] = name.split('.');
+    if (group === 'sets') {
+      setFormState(prev => ({ ...prev, sets: { ...prev.sets, [key]: Number(value) } }));
+      return;
+    }
+    // Start time and energy are optional; clearing them unsets the field.
+    if (name === 'startTime' || name === 'energy') {
+      setFormState(prev => ({ ...prev, [name]: value === '' ? undefined : name === 'energy' ? Number(value) : value }));
+      return;
+    }
+    if (group === 'custom') {
+      setFormState(prev => {
+        const custom = { ...prev.custom };
+        if (value === '') delete custom[key];
+        else custom[key] = Number(value);
+        return { ...prev, custom };
+      });
+      return;
+    }
 
     setFormState(prev => ({
       ...prev,
@@ -411,41 +418,72 @@ const EntryForm = ({ onSave, editingEntry, setEditingEntry }: { onSave: (entry:
     }));
   };
 
+  // An entry being edited may use a subject the profile has since dropped.
+  const subjectOptions = profile.subjects.includes(formState.subject) ? profile.subjects : [...profile.subjects, formState.subject];
+
+  const unclassifiedWrong = formState.questionsAttempted - formState.correctAnswers - (formState.incorrectMcq ?? 0) - (formState.incorrectTita ?? 0);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (unclassifiedWrong < 0) return;
     onSave(formState, editingEntry ? editingEntry.id : null);
-    setFormState(initialFormState);
+    setFormState(blankForm);
     setEditingEntry(null);
+    setDraft(null);
   };
 
   const handleCancel = () => {
-    setFormState(initialFormState);
+    setFormState(blankForm);
     setEditingEntry(null);
+    setDraft(null);
+  };
+
+  // Ctrl/Cmd+Enter saves from any field (Enter alone adds a line in learnings);
+  // Esc abandons an edit or draft.
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLFormElement>) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      e.currentTarget.requestSubmit();
+    } else if (e.key === 'Escape' && (editingEntry || draft)) {
+      e.preventDefault();
+      handleCancel();
+    }
   };
 
   return (
     <div className="bg-surface p-6 rounded-lg border border-border">
-      <h3 className="text-xl font-semibold text-text mb-4">{editingEntry ? 'Edit Entry' : 'Add New Entry'}</h3>
-      <form onSubmit={handleSubmit} className="space-y-4">
+      <h3 className="text-xl font-semibold text-text mb-4">{editingEntry ? 'Edit Entry' : draft ? (draft.setTimes ? 'Save Timed Session' : 'Review Quick Entry') : 'Add New Entry'}</h3>
+      {!editingEntry && formState.setTimes && formState.setTimes.length > 0 && (
+        <p className="text-xs text-textSecondary -mt-2 mb-4">
+          Timed sets: {formState.setTimes.map(seconds => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`).join(' · ')}
+        </p>
+      )}
+      <form id="entry-form" onSubmit={handleSubmit} onKeyDown={handleKeyDown} className="space-y-4">
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <InputField label="Date" name="date" type="date" value={formState.date} onChange={handleChange} />
           <div>
             <label className="block text-sm font-medium text-textSecondary mb-1">Subject</label>
             <select name="subject" value={formState.subject} onChange={handleChange} className="w-full bg-background border border-border rounded-md p-2 text-text focus:ring-2 focus:ring-primary focus:border-primary transition">
-              <option value="LR">LR</option>
-              <option value="DI">DI</option>
-              <option value="QUANT">QUANT</option>
-              <option value="VARC">VARC</option>
+              {subjectOptions.map(s => <option key={s} value={s}>{s}</option>)}
             </select>
           </div>
           <InputField label="Topic / Lecture" name="topic" value={formState.topic} onChange={handleChange} placeholder="e.g., Games & Tournaments" />
+          <div className="grid grid-cols-2 gap-4">
+            <InputField label="Start Time" name="startTime" type="time" value={formState.startTime ?? ''} onChange={handleChange} />
+            <div>
+              <label className="block text-sm font-medium text-textSecondary mb-1">Energy</label>
+              <select name="energy" value={formState.energy ?? ''} onChange={handleChange} className="w-full bg-background border border-border rounded-md p-2 text-text focus:ring-2 focus:ring-primary focus:border-primary transition">
+                <option value="">Not rated</option>
+                {ENERGY_LEVELS.map(level => <option key={level.value} value={level.value}>{level.value} · {level.label}</option>)}
+              </select>
+            </div>
+          </div>
         </div>
         <p className="text-sm font-medium text-textSecondary pt-2">Set Breakdown</p>
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-          <InputField label="LR Sets" name="lrSets" type="number" value={formState.lrSets} onChange={handleChange} />
-          <InputField label="DI Sets" name="diSets" type="number" value={formState.diSets} onChange={handleChange} />
-          <InputField label="Vault Sets" name="vaultSets" type="number" value={formState.vaultSets} onChange={handleChange} />
-          <InputField label="Sectionals" name="sectionalSets" type="number" value={formState.sectionalSets} onChange={handleChange} />
+          {profile.setCategories.map(c => (
+            <InputField key={c.id} label={`${c.label} Sets`} name={`sets.${c.id}`} type="number" value={formState.sets[c.id] ?? 0} onChange={handleChange} />
+          ))}
         </div>
         <p className="text-sm font-medium text-textSecondary pt-2">Performance Metrics</p>
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -453,10 +491,35 @@ const EntryForm = ({ onSave, editingEntry, setEditingEntry }: { onSave: (entry:
           <InputField label="Attempted" name="questionsAttempted" type="number" value={formState.questionsAttempted} onChange={handleChange} />
           <InputField label="Correct" name="correctAnswers" type="number" value={formState.correctAnswers} onChange={handleChange} />
         </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <InputField label="Wrong (MCQ, −1)" name="incorrectMcq" type="number" value={formState.incorrectMcq ?? 0} onChange={handleChange} />
+          <InputField label="Wrong (TITA, no penalty)" name="incorrectTita" type="number" value={formState.incorrectTita ?? 0} onChange={handleChange} />
+          <InputField label="Skipped" name="skipped" type="number" value={formState.skipped ?? 0} onChange={handleChange} />
+        </div>
+        {unclassifiedWrong !== 0 && (
+          <p className={cn("text-xs", unclassifiedWrong < 0 ? 'text-error' : 'text-textSecondary')}>
+            {unclassifiedWrong < 0
+              ? 'MCQ + TITA wrong answers are more than attempted minus correct.'
+              : `${unclassifiedWrong} wrong answer${unclassifiedWrong === 1 ? '' : 's'} not split into MCQ/TITA will be scored as MCQ (−1).`}
+          </p>
+        )}
+        {profile.customFields.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {profile.customFields.map(f => (
+              <InputField key={f.id} label={f.label} name={`custom.${f.id}`} type="number" value={formState.custom?.[f.id] ?? ''} onChange={handleChange} />
+            ))}
+          </div>
+        )}
         <div>
           <label className="block text-sm font-medium text-textSecondary mb-2">Confidence: <span className="font-bold text-primary">{formState.confidence}</span></label>
           <input type="range" name="confidence" min="1" max="5" value={formState.confidence} onChange={handleChange} className="w-full h-2 bg-background rounded-lg appearance-none cursor-pointer accent-primary" />
         </div>
+        <CoverageField
+          materials={materials}
+          subject={formState.subject}
+          coverage={formState.coverage ?? []}
+          onChange={(coverage) => setFormState(prev => ({ ...prev, coverage }))}
+        />
         <div>
           <label className="block text-sm font-medium text-textSecondary mb-1">Key Learnings / Mistakes</label>
           <textarea name="learnings" value={formState.learnings} onChange={handleChange} rows={3} className="w-full bg-background border border-border rounded-md p-2 text-text focus:ring-2 focus:ring-primary focus:border-primary transition" placeholder="e.g., Misread the conditions for player X..."></textarea>
@@ -464,9 +527,10 @@ const EntryForm = ({ onSave, editingEntry, setEditingEntry }: { onSave: (entry:
         <div className="flex items-center">
           <input type="checkbox" id="isWeakTopic" name="isWeakTopic" checked={formState.isWeakTopic} onChange={handleChange} className="h-4 w-4 rounded border-border text-primary focus:ring-primary" />
           <label htmlFor="isWeakTopic" className="ml-2 block text-sm text-text">Mark as Weak Topic Focus</label>
+          <span className="ml-2 text-xs text-textSecondary">(weak topics are also flagged automatically in Topics)</span>
         </div>
         <div className="flex justify-end space-x-3 pt-2">
-          {editingEntry && <button type="button" onClick={handleCancel} className="flex items-center justify-center px-4 py-2 border border-border rounded-md shadow-sm text-sm font-medium text-textSecondary bg-surface hover:bg-background transition"><XCircle className="h-4 w-4 mr-2" />Cancel</button>}
+          {(editingEntry || draft) && <button type="button" onClick={handleCancel} className="flex items-center justify-center px-4 py-2 border border-border rounded-md shadow-sm text-sm font-medium text-textSecondary bg-surface hover:bg-background transition"><XCircle className="h-4 w-4 mr-2" />Cancel</button>}
           <button type="submit" className="flex items-center justify-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-primary-foreground bg-primary hover:bg-primary/90 transition"><Save className="h-4 w-4 mr-2" />{editingEntry ? 'Update Entry' : 'Save Entry'}</button>
         </div>
       </form>
@@ -481,42 +545,90 @@ const InputField = ({ label, ...props }: { label: string; name: string; type?: s
   </div>
 );
 
-const EntriesTable = ({ entries, onEdit, onDelete, selectedDate }: { entries: Entry[]; onEdit: (entry: Entry) => void; onDelete: (id: string) => void; selectedDate: string | null; }) => {
-  const filteredEntries = useMemo(() => {
-    if (!selectedDate) return entries;
-    return entries.filter(entry => entry.date === selectedDate);
-  }, [entries, selectedDate]);
+const ENTRY_ROW_HEIGHT = 53;
+const ENTRY_TABLE_HEIGHT = 640;
+
+const EntriesTable = ({ entries, profile, onEdit, onDelete, onQuestions, scoreView, sort, setSort, selectedIds, setSelectedIds }: { entries: Entry[]; profile: ExamProfile; onEdit: (entry: Entry) => void; onDelete: (id: string) => void; onQuestions: (entry: Entry) => void; scoreView: ScoreView; sort: EntrySort; setSort: (sort: EntrySort) => void; selectedIds: Set<string>; setSelectedIds: (ids: Set<string>) => void; }) => {
+  const { start, end, padTop, padBottom, onScroll } = useVirtualRows(entries.length, ENTRY_ROW_HEIGHT, ENTRY_TABLE_HEIGHT);
+  const allSelected = entries.length > 0 && entries.every(e => selectedIds.has(e.id));
+  const toggleAll = () => setSelectedIds(allSelected ? new Set() : new Set(entries.map(e => e.id)));
+  const toggleOne = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelectedIds(next);
+  };
+  const columns: { label: string; key?: EntrySortKey }[] = [
+    { label: 'Date', key: 'date' },
+    { label: 'Subject', key: 'subject' },
+    { label: 'Topic', key: 'topic' },
+    { label: 'Total Sets', key: 'sets' },
+    { label: scoreView === 'netScore' ? 'Net Score' : 'Accuracy', key: 'score' },
+    { label: 'Speed (min/set)', key: 'speed' },
+    ...profile.customFields.map(f => ({ label: f.label })),
+    { label: 'Actions' },
+  ];
+  const setBreakdown = (entry: Entry) => profile.setCategories.map(c => `${c.label}: ${entry.sets[c.id] ?? 0}`).join(' · ');
+
+  const handleSort = (key: EntrySortKey) => setSort(sort.key === key
+    ? { key, direction: sort.direction === 'asc' ? 'desc' : 'asc' }
+    : { key, direction: key === 'subject' || key === 'topic' ? 'asc' : 'desc' });
 
   return (
-    <div className="bg-surface rounded-lg border border-border mt-6 overflow-x-auto">
+    <div className="bg-surface rounded-lg border border-border mt-4 overflow-auto" style={{ maxHeight: ENTRY_TABLE_HEIGHT }} onScroll={onScroll}>
       <table className="min-w-full divide-y divide-border">
-        <thead className="bg-surface/50">
+        <thead className="bg-surface sticky top-0 z-10">
           <tr>
-            {['Date', 'Subject', 'Topic', 'Total Sets', 'Accuracy', 'Speed (min/set)', 'Actions'].map(header => (
-              <th key={header} scope="col" className="px-6 py-3 text-left text-xs font-medium text-textSecondary uppercase tracking-wider">{header}</th>
+            <th scope="col" className="pl-6 py-3 text-left">
+              <input type="checkbox" checked={allSelected} onChange={toggleAll} className="h-4 w-4 rounded border-border text-primary focus:ring-primary" aria-label="Select all shown entries" />
+            </th>
+            {columns.map(({ label, key }) => (
+              <th key={label} scope="col" className="px-6 py-3 text-left text-xs font-medium text-textSecondary uppercase tracking-wider">
+                {key ? (
+                  <button onClick={() => handleSort(key)} className={cn("flex items-center uppercase tracking-wider hover:text-text", sort.key === key && 'text-text')}>
+                    {label}
+                    {sort.key === key && (sort.direction === 'asc' ? <ArrowUp className="h-3 w-3 ml-1" /> : <ArrowDown className="h-3 w-3 ml-1" />)}
+                  </button>
+                ) : label}
+              </th>
             ))}
           </tr>
         </thead>
         <tbody className="bg-background divide-y divide-border">
-          {filteredEntries.length > 0 ? filteredEntries.map(entry => {
-            const accuracy = calculateAccuracy(entry);
-            const isRedFlag = accuracy < 60;
+          {padTop > 0 && <tr style={{ height: padTop }} />}
+          {entries.length > 0 ? entries.slice(start, end).map(entry => {
+            const score = scoreEntry(entry);
+            const isRedFlag = scoreView === 'netScore' ? score.netScorePercent < RED_FLAG_NET_SCORE : score.accuracy < RED_FLAG_ACCURACY;
             return (
-              <tr key={entry.id} className={cn("hover:bg-surface/50 transition-colors", { 'bg-red-500/10': isRedFlag })}>
+              <tr key={entry.id} style={{ height: ENTRY_ROW_HEIGHT }} className={cn("hover:bg-surface/50 transition-colors", { 'bg-red-500/10': isRedFlag, 'bg-primary/10': selectedIds.has(entry.id) })}>
+                <td className="pl-6 py-4">
+                  <input type="checkbox" checked={selectedIds.has(entry.id)} onChange={() => toggleOne(entry.id)} className="h-4 w-4 rounded border-border text-primary focus:ring-primary" aria-label="Select entry" />
+                </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-text">{new Date(entry.date).toLocaleDateString()}</td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-text font-medium text-primary">{entry.subject}</td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-text">{entry.topic}</td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-text">{calculateTotalSets(entry)}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-text max-w-xs truncate" title={entry.topic}>{entry.topic}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-text" title={setBreakdown(entry)}>{calculateTotalSets(entry)}</td>
                 <td className={cn("px-6 py-4 whitespace-nowrap text-sm font-semibold", isRedFlag ? 'text-red-500' : 'text-text')}>
                   <div className="flex items-center">
                     {isRedFlag && <AlertTriangle className="h-4 w-4 mr-2 text-red-500" />}
-                    {accuracy.toFixed(2)}%
+                    {scoreView === 'netScore' ? (
+                      <span title={`${score.marksLost} lost to negatives${score.isEstimated ? ' (MCQ/TITA split estimated)' : ''}`}>
+                        {score.netScore} / {score.maxScore}{score.isEstimated && '*'}
+                      </span>
+                    ) : `${score.accuracy.toFixed(2)}%`}
                   </div>
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-text">{calculateSpeed(entry).toFixed(2)}</td>
+                {profile.customFields.map(f => (
+                  <td key={f.id} className="px-6 py-4 whitespace-nowrap text-sm text-text">{entry.custom?.[f.id] ?? '—'}</td>
+                ))}
                 <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                   <div className="flex items-center space-x-3">
                     <button onClick={() => onEdit(entry)} className="text-primary hover:text-primary/80 transition"><Edit className="h-4 w-4" /></button>
+                    <button onClick={() => onQuestions(entry)} className="flex items-center text-textSecondary hover:text-text transition" title="Question log">
+                      <ListChecks className="h-4 w-4" />
+                      {entry.questions && entry.questions.length > 0 && <span className="ml-1 text-xs">{entry.questions.length}</span>}
+                    </button>
                     <button onClick={() => onDelete(entry.id)} className="text-error hover:text-error/80 transition"><Trash2 className="h-4 w-4" /></button>
                   </div>
                 </td>
@@ -524,20 +636,45 @@ const EntriesTable = ({ entries, onEdit, onDelete, selectedDate }: { entries: En
             );
           }) : (
             <tr>
-              <td colSpan={6} className="text-center py-10 text-textSecondary">No entries found for this selection.</td>
+              <td colSpan={columns.length + 1} className="text-center py-10 text-textSecondary">No entries found for this selection.</td>
             </tr>
           )}
+          {padBottom > 0 && <tr style={{ height: padBottom }} />}
         </tbody>
       </table>
     </div>
   );
 };
 
-const MistakeLog = ({ entries }: { entries: Entry[] }) => {
+const MistakeLog = ({ entries, catalog }: { entries: Entry[]; catalog: CanonicalTopic[] }) => {
   const mistakes = useMemo(() => entries.filter(e => e.learnings.trim() !== '').reverse(), [entries]);
+  const [breakdownBy, setBreakdownBy] = useState<'subject' | 'topic'>('subject');
+  const breakdown = useMemo(() => errorBreakdown(entries, breakdownBy, catalog), [entries, breakdownBy, catalog]);
   return (
     <div className="bg-surface p-6 rounded-lg border border-border">
       <h3 className="text-xl font-semibold text-text mb-4 flex items-center"><BookOpen className="mr-2 h-5 w-5 text-primary" /> Mistake & Learning Log</h3>
+      {breakdown.length > 0 && (
+        <div className="mb-4">
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-sm font-medium text-textSecondary">Logged errors by {breakdownBy}</p>
+            <div className="flex text-xs border border-border rounded-md overflow-hidden">
+              {(['subject', 'topic'] as const).map(by => (
+                <button key={by} onClick={() => setBreakdownBy(by)} className={cn("px-2 py-1 capitalize transition", breakdownBy === by ? 'bg-primary text-primary-foreground' : 'text-textSecondary hover:bg-background')}>{by}</button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2 max-h-48 overflow-y-auto pr-2">
+            {breakdown.map(row => (
+              <div key={row.key} className="text-xs">
+                <p className="text-text"><span className="font-semibold">{row.label}</span> <span className="text-textSecondary">· {row.total} error{row.total === 1 ? '' : 's'}</span></p>
+                <p className="text-textSecondary">
+                  {ERROR_CATEGORIES.filter(c => row.counts[c.id]).map(c => `${c.label} ${row.counts[c.id]}`).join(' · ')}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
       <div className="space-y-4 max-h-80 overflow-y-auto pr-2">
         {mistakes.length > 0 ? mistakes.map(entry => (
           <div key={entry.id} className="p-3 bg-background rounded-md border border-border">
@@ -603,26 +740,107 @@ const CalendarView = ({ entries, onDateSelect, selectedDate }: { entries: Entry[
   );
 };
 
+const viewIcons: Record<View, React.ElementType> = { dashboard: BarChart2, calendar: Calendar, mocks: ClipboardList, topics: Layers, revise: RefreshCw, planner: CalendarClock, speed: Gauge, compare: Users, report: FileText };
+
 // --- MAIN APP COMPONENT ---
-export default function CatMasteryTracker() {
-  const [entries, setEntries] = useLocalStorage<Entry[]>('cat-tracker-entries', []);
+// Keyed by student in CatMasteryTracker, so switching students remounts it and
+// every store below is read afresh under the new student's keys.
+const entryStatePatcher: UndoPatcher<EntryState, EntryStatePatch> = {
+  diff: diffEntryState,
+  apply: (state, patch, direction) => applyEntryStatePatch(state, patch, direction),
+};
+
+function StudentTracker({ student, directory, setDirectory }: { student: Student; directory: StudentDirectory; setDirectory: (directory: StudentDirectory) => void }) {
+  const stores = useMemo(() => studentStores(student.id), [student.id]);
+  const { entries, setEntries, applyRemote, backend, blocked: storageBlocked, outdated: storageOutdated, snapshots } = useEntries(student.id);
+  const [writeFailure, setWriteFailure] = useState(lastWriteFailure);
+  useEffect(() => subscribe(WRITE_FAILURE_KEY, () => setWriteFailure(lastWriteFailure())), []);
   const [editingEntry, setEditingEntry] = useState<Entry | null>(null);
-  const [dailyTarget, setDailyTarget] = useLocalStorage<number>('cat-tracker-target', 6);
+  const [dailyTarget, setDailyTarget] = usePersistentState(stores.dailyTarget);
   const [timePeriod, setTimePeriod] = useState<TimePeriod>('daily');
   const [activeView, setActiveView] = useState<View>('dashboard');
-  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [scoreView, setScoreView] = useState<ScoreView>('accuracy');
+  const [filters, setFilters] = useState<EntryFilters>(EMPTY_FILTERS);
+  const [sort, setSort] = useState<EntrySort>(DEFAULT_SORT);
+  const [savedViews, setSavedViews] = usePersistentState(stores.savedViews);
+  const [filtersDriveStats, setFiltersDriveStats] = useState(false);
+  const [mocks, setMocks] = usePersistentState(stores.mocks);
+  const [editingMock, setEditingMock] = useState<MockTest | null>(null);
+  const [topicCatalog, setTopicCatalog] = usePersistentState(stores.topics);
+  const [reviews, setReviews] = usePersistentState(stores.reviews);
+  const [planner, setPlanner] = usePersistentState(stores.planner);
+  const [streakSettings, setStreakSettings] = usePersistentState(stores.streakSettings);
+  const [timerSession, setTimerSession] = usePersistentState(stores.timer);
+  const [entryDraft, setEntryDraft] = useState<EntryDraft | null>(null);
+  const [trash, setTrash] = usePersistentState(stores.trash);
+  const [coachSettings, setCoachSettings] = usePersistentState(coachSettingsStore);
+  const [trendTargets, setTrendTargets] = usePersistentState(stores.trendTargets);
+  const [quadrantThresholds, setQuadrantThresholds] = usePersistentState(stores.quadrantThresholds);
+  const [examProfile, setExamProfile] = usePersistentState(stores.examProfile);
+  const [reminders, setReminders] = usePersistentState(stores.reminders);
+  const [materials, setMaterials] = usePersistentState(stores.materials);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const [questionEntryId, setQuestionEntryId] = useState<string | null>(null);
+  const questionEntry = entries.find(e => e.id === questionEntryId) ?? null;
+
+  // Every change to entries goes through `perform` so it can be undone.
+  const entryState = useMemo(() => ({ entries, trash }), [entries, trash]);
+  const applyEntryState = useCallback((state: EntryState) => {
+    setEntries(state.entries);
+    setTrash(state.trash);
+  }, [setEntries, setTrash]);
+  const { perform, undo, redo, undoLabel, redoLabel, patches } = useUndoHistory(entryState, applyEntryState, entryStatePatcher);
+
+  // Screenshots of entries leaving the trash for good are deleted, unless an
+  // entry still kept, trashed or restorable by undo points at them.
+  const referencedRef = useRef({ entryState, patches });
+  referencedRef.current = { entryState, patches };
+  const dropTrash = useCallback((kept: TrashedEntry[]) => {
+    const { entryState: current, patches: history } = referencedRef.current;
+    const keptIds = new Set(kept.map(item => item.entry.id));
+    const dropped = current.trash.filter(item => !keptIds.has(item.entry.id)).map(item => item.entry);
+    setTrash(kept);
+    const referenced = new Set(questionImageIds([...current.entries, ...kept.map(item => item.entry), ...history.flatMap(patchedEntries)]));
+    questionImageIds(dropped)
+      .filter(id => !referenced.has(id))
+      .forEach(id => deleteQuestionImage(student.id, id).catch(error => console.error(error)));
+  }, [setTrash, student.id]);
+
+  useEffect(() => {
+    const kept = purgeExpired(trash);
+    if (kept.length !== trash.length) dropTrash(kept);
+  }, [trash, dropTrash]);
 
   const handleSaveEntry = useCallback((entryData: Omit<Entry, 'id'>, id: string | null) => {
-    setEntries(prev => {
-      if (id) { // Update
-        return prev.map(e => e.id === id ? { ...e, ...entryData } : e);
-      } else { // Create
-        const newEntry = { ...entryData, id: new Date().toISOString() };
-        return [...prev, newEntry];
-      }
-    });
+    perform(id ? 'Edit entry' : 'Add entry', state => ({
+      ...state,
+      entries: id
+        // The question log is edited separately and may have changed since the form opened.
+        ? state.entries.map(e => e.id === id ? { ...e, ...entryData, questions: e.questions } : e) // Update
+        : [...state.entries, { ...entryData, id: createRecordId() }], // Create
+    }));
+    setEditingEntry(null);
+  }, [perform]);
+
+  const handleImportEntries = useCallback(({ create, update }: ImportPlan) => {
+    const updates = new Map(update.map(e => [e.id, e]));
+    perform(`Import ${create.length + update.length} entries`, state => ({
+      ...state,
+      entries: [
+        ...state.entries.map(e => updates.get(e.id) ?? e),
+        ...create.map(entryData => ({ ...entryData, id: createRecordId() })),
+      ],
+    }));
+  }, [perform]);
+
+  const handleFinishSession = useCallback((draft: EntryDraft) => {
     setEditingEntry(null);
-  }, [setEntries]);
+    setEntryDraft(draft);
+  }, []);
+
+  const handleSelectDate = useCallback((date: string | null) => {
+    setFilters(prev => ({ ...prev, dateFrom: date, dateTo: date }));
+  }, []);
 
   const handleEdit = useCallback((entry: Entry) => {
     setEditingEntry(entry);
@@ -630,32 +848,173 @@ export default function CatMasteryTracker() {
   }, []);
 
   const handleDelete = useCallback((id: string) => {
-    if (window.confirm('Are you sure you want to delete this entry?')) {
-      setEntries(prev => prev.filter(e => e.id !== id));
+    perform('Delete entry', state => moveToTrash(state, new Set([id])));
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      next.delete(id);
+      return next;
+    });
+  }, [perform]);
+
+  const handleUpdateQuestions = useCallback((label: string, update: (questions: QuestionLog[]) => QuestionLog[]) => {
+    if (!questionEntryId) return;
+    perform(label, state => ({ ...state, entries: state.entries.map(e => e.id === questionEntryId ? withQuestions(e, update) : e) }));
+  }, [perform, questionEntryId]);
+
+  const handleRetry = useCallback((entryId: string, questionId: string, retry: QuestionRetry) => {
+    perform('Record re-attempt', state => ({ ...state, entries: state.entries.map(e => e.id === entryId ? withRetry(e, questionId, retry) : e) }));
+  }, [perform]);
+
+  const focusEntryForm = useCallback(() => {
+    const field = document.querySelector<HTMLInputElement>('#entry-form [name="date"]');
+    field?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    field?.focus({ preventScroll: true });
+  }, []);
+
+  const handleQuickEntry = useCallback((entry: Omit<Entry, 'id'>) => handleSaveEntry(entry, null), [handleSaveEntry]);
+
+  const handleOpenQuickEntry = useCallback((entry: Omit<Entry, 'id'>) => {
+    setEditingEntry(null);
+    setEntryDraft(entry);
+    // Let the form pick up the draft before focusing it.
+    window.setTimeout(focusEntryForm);
+  }, [focusEntryForm]);
+
+  const handleBulkAction = useCallback((action: BulkAction) => {
+    perform(describeBulkAction(action, selectedIds.size), state => ({ ...state, entries: applyBulkEdit(state.entries, selectedIds, action) }));
+  }, [perform, selectedIds]);
+
+  const handleBulkDelete = useCallback(() => {
+    perform(`Delete ${selectedIds.size} entries`, state => moveToTrash(state, selectedIds));
+    setSelectedIds(new Set());
+  }, [perform, selectedIds]);
+
+  const handleRestore = useCallback((ids: string[]) => {
+    perform(`Restore ${ids.length === 1 ? 'entry' : `${ids.length} entries`}`, state => restoreFromTrash(state, new Set(ids)));
+  }, [perform]);
+
+  // Emptying is permanent, as the confirmation says, so it is not undoable.
+  const handleEmptyTrash = useCallback(() => dropTrash([]), [dropTrash]);
+
+  const handleSaveMock = useCallback((mockData: Omit<MockTest, 'id'>, id: string | null) => {
+    setMocks(prev => id
+      ? prev.map(m => m.id === id ? { ...m, ...mockData } : m)
+      : [...prev, { ...mockData, id: createRecordId() }]);
+    setEditingMock(null);
+  }, [setMocks]);
+
+  const handleDeleteMock = useCallback((id: string) => {
+    if (window.confirm('Are you sure you want to delete this mock?')) {
+      setMocks(prev => prev.filter(m => m.id !== id));
     }
-  }, [setEntries]);
+  }, [setMocks]);
 
   const sortedEntries = useMemo(() => [...entries].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()), [entries]);
+
+  const paletteCommands = useMemo(() => {
+    const lastEntry = sortedEntries[0];
+    const commands: PaletteCommand[] = [
+      { id: 'new-entry', label: 'New entry', group: 'Entries', keywords: 'add log form', run: focusEntryForm },
+      ...(lastEntry ? [
+        { id: 'edit-last', label: `Edit last entry (${lastEntry.subject} · ${new Date(lastEntry.date).toLocaleDateString()})`, group: 'Entries', keywords: 'latest recent', run: () => handleEdit(lastEntry) },
+        { id: 'questions-last', label: 'Question log of last entry', group: 'Entries', keywords: 'latest recent questions', run: () => setQuestionEntryId(lastEntry.id) },
+      ] : []),
+      ...(Object.keys(viewIcons) as View[]).map(view => ({ id: `view-${view}`, label: `Go to ${view}`, group: 'View', keywords: 'open show switch', run: () => setActiveView(view) })),
+      ...(['daily', 'weekly', 'monthly'] as TimePeriod[]).map(period => ({
+        id: `period-${period}`, label: `Show ${period} charts`, group: 'Time period', keywords: 'period chart', run: () => { setActiveView('dashboard'); setTimePeriod(period); },
+      })),
+      ...([['accuracy', 'Accuracy'], ['netScore', 'Net Score']] as [ScoreView, string][]).map(([mode, label]) => ({
+        id: `score-${mode}`, label: `Score by ${label}`, group: 'Score view', keywords: 'metric', run: () => setScoreView(mode),
+      })),
+      ...(filters.dateFrom || filters.dateTo ? [{ id: 'clear-date', label: 'Clear date filter', group: 'Date', keywords: 'all dates reset', run: () => handleSelectDate(null) }] : []),
+      ...(undoLabel ? [{ id: 'undo', label: `Undo ${undoLabel.toLowerCase()}`, group: 'History', run: undo }] : []),
+      ...(redoLabel ? [{ id: 'redo', label: `Redo ${redoLabel.toLowerCase()}`, group: 'History', run: redo }] : []),
+    ];
+    return commands;
+  }, [sortedEntries, focusEntryForm, handleEdit, filters.dateFrom, filters.dateTo, handleSelectDate, undoLabel, redoLabel, undo, redo]);
+
+  const handleJumpToDate = useCallback((date: string) => {
+    handleSelectDate(date);
+    setActiveView('calendar');
+  }, [handleSelectDate]);
   const chronologicalEntries = useMemo(() => [...entries].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()), [entries]);
+  const filteredEntries = useMemo(() => applyFilters(entries, filters), [entries, filters]);
+  const visibleEntries = useMemo(() => sortEntries(filteredEntries, sort, scoreView), [filteredEntries, sort, scoreView]);
+  const statsEntries = useMemo(
+    () => (filtersDriveStats ? [...filteredEntries].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()) : chronologicalEntries),
+    [filtersDriveStats, filteredEntries, chronologicalEntries],
+  );
+  const selectedDate = singleDate(filters);
+  const reviewCards = useMemo(() => buildCards(entries, reviews), [entries, reviews]);
+  const dueCount = useMemo(() => dueCards(reviewCards).length, [reviewCards]);
+  const subjects = useMemo(() => subjectsInUse(examProfile, entries), [examProfile, entries]);
+  const sortedMocks = useMemo(() => [...mocks].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()), [mocks]);
+  const liveSnapshot = useMemo(
+    () => buildSnapshot(student, { profile: examProfile, entries, topics: topicCatalog, mocks }),
+    [student, examProfile, entries, topicCatalog, mocks],
+  );
+
+  useReminders(reminders, setReminders, entries, dailyTarget);
+  const sync = useSync(stores, entries, applyRemote);
+
+  const handleExportSnapshot = () => {
+    const snapshot = buildSnapshot(student, { profile: examProfile, entries, topics: topicCatalog, mocks });
+    downloadFile(snapshotFileName(snapshot), JSON.stringify(snapshot, null, 2), 'application/json');
+  };
+  const handleRemoveStudent = (studentId: string) => {
+    clearStudentStores(studentId);
+    deleteEntryData(studentId);
+  };
 
   return (
     <div className="bg-background min-h-screen text-text font-sans">
-      <Header />
+      <CommandPalette profile={examProfile} commands={paletteCommands} onJumpToDate={handleJumpToDate} onSaveEntry={handleQuickEntry} onOpenInForm={handleOpenQuickEntry} />
+      <Header dueCount={dueCount} onOpenRevise={() => setActiveView('revise')}>
+        <StudentSwitcher directory={directory} setDirectory={setDirectory} onRemove={handleRemoveStudent} onExport={handleExportSnapshot} />
+      </Header>
       <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {storageBlocked && (
+          <div className="mb-6 flex items-center p-3 rounded-lg border border-warning/50 bg-surface text-sm text-text print:hidden" role="alert">
+            <AlertTriangle className="h-4 w-4 mr-2 shrink-0 text-warning" />
+            Another open tab of the tracker is holding an older copy of the database. Close it to finish loading; changes made here are saved once it opens.
+          </div>
+        )}
+        {storageOutdated && (
+          <div className="mb-6 flex items-center p-3 rounded-lg border border-error/50 bg-surface text-sm text-text print:hidden" role="alert">
+            <AlertTriangle className="h-4 w-4 mr-2 shrink-0 text-error" />
+            <span className="flex-1">Another tab upgraded the tracker's database or removed this student, so this tab can no longer save. Reload to keep working; changes made here since then were not saved.</span>
+            <button onClick={() => window.location.reload()} className="ml-3 px-3 py-1 rounded-md bg-primary text-primary-foreground text-xs font-semibold">Reload</button>
+          </div>
+        )}
+        {writeFailure && (
+          <div className="mb-6 flex items-center p-3 rounded-lg border border-error/50 bg-surface text-sm text-text print:hidden" role="alert">
+            <AlertTriangle className="h-4 w-4 mr-2 shrink-0 text-error" />
+            <span className="flex-1">
+              {writeFailure.quota
+                ? 'Browser storage is full, so recent changes were not saved. Export your data, then delete old snapshots or trashed entries to free space.'
+                : `Recent changes could not be saved (${writeFailure.message}). Export your data before closing this tab.`}
+            </span>
+            <button onClick={() => clearWriteFailure()} className="ml-3 px-3 py-1 rounded-md border border-border text-xs font-semibold">Dismiss</button>
+          </div>
+        )}
         <div className="space-y-8">
-          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 print:hidden">
             <div className="lg:col-span-2">
-              <DashboardMetrics entries={chronologicalEntries} />
+              <DashboardMetrics entries={statsEntries} scoreView={scoreView} />
             </div>
             <div className="lg:col-span-1">
               <DailyTargetProgress entries={chronologicalEntries} dailyTarget={dailyTarget} setDailyTarget={setDailyTarget} />
             </div>
           </div>
 
+          <div className="print:hidden">
+            <PlanProgress planner={planner} entries={entries} profile={examProfile} onOpenPlanner={() => setActiveView('planner')} />
+          </div>
+
           <div>
-            <div className="flex justify-center mb-6">
+            <div className="flex justify-center mb-6 print:hidden">
               <div className="bg-surface p-1 rounded-lg border border-border flex space-x-1">
-                {(['dashboard', 'calendar'] as View[]).map(view => (
+                {(Object.keys(viewIcons) as View[]).map(view => (
                   <button
                     key={view}
                     onClick={() => setActiveView(view)}
@@ -664,7 +1023,7 @@ export default function CatMasteryTracker() {
                       activeView === view ? 'bg-primary text-primary-foreground' : 'text-textSecondary hover:bg-surface/80'
                     )}
                   >
-                    {view === 'dashboard' ? <BarChart2 className="h-4 w-4 mr-2" /> : <Calendar className="h-4 w-4 mr-2" />}
+                    {React.createElement(viewIcons[view], { className: "h-4 w-4 mr-2" })}
                     {view}
                   </button>
                 ))}
@@ -672,7 +1031,7 @@ export default function CatMasteryTracker() {
             </div>
             {activeView === 'dashboard' ? (
               <>
-                <div className="flex justify-center mb-6">
+                <div className="flex flex-wrap justify-center gap-4 mb-6">
                   <div className="bg-surface p-1 rounded-lg border border-border flex space-x-1">
                     {(['daily', 'weekly', 'monthly'] as TimePeriod[]).map(period => (
                       <button
@@ -687,34 +1046,144 @@ export default function CatMasteryTracker() {
                       </button>
                     ))}
                   </div>
+                  <div className="bg-surface p-1 rounded-lg border border-border flex space-x-1">
+                    {([['accuracy', 'Accuracy'], ['netScore', 'Net Score']] as [ScoreView, string][]).map(([mode, label]) => (
+                      <button
+                        key={mode}
+                        onClick={() => setScoreView(mode)}
+                        className={cn(
+                          "px-4 py-2 text-sm font-semibold rounded-md transition-colors",
+                          scoreView === mode ? 'bg-primary text-primary-foreground' : 'text-textSecondary hover:bg-surface/80'
+                        )}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
                 </div>
-                <PerformanceCharts entries={chronologicalEntries} timePeriod={timePeriod} />
+                <PerformanceCharts entries={statsEntries} subjects={subjects} timePeriod={timePeriod} scoreView={scoreView} trendTargets={trendTargets} setTrendTargets={setTrendTargets} />
+                <SetTimeDistribution entries={entries} subjects={subjects} />
+                <MaterialProgressPanel materials={materials} entries={entries} examDate={planner.examDate} />
+                <MockTrendCharts mocks={mocks} />
               </>
+            ) : activeView === 'calendar' ? (
+              <div className="space-y-6">
+                <ActivityHeatmap
+                  entries={entries}
+                  dailyTarget={dailyTarget}
+                  settings={streakSettings}
+                  setSettings={setStreakSettings}
+                  selectedDate={selectedDate}
+                  onDateSelect={handleSelectDate}
+                />
+                <CalendarView entries={chronologicalEntries} onDateSelect={handleSelectDate} selectedDate={selectedDate} />
+              </div>
+            ) : activeView === 'revise' ? (
+              <>
+                <ReviseView cards={reviewCards} reviews={reviews} setReviews={setReviews} />
+                <ReattemptQueue entries={chronologicalEntries} studentId={student.id} onRetry={handleRetry} />
+              </>
+            ) : activeView === 'planner' ? (
+              <PlannerView planner={planner} setPlanner={setPlanner} profile={examProfile} />
+            ) : activeView === 'topics' ? (
+              <TopicsView entries={chronologicalEntries} subjects={subjects} catalog={topicCatalog} setCatalog={setTopicCatalog} onEdit={handleEdit} />
+            ) : activeView === 'report' ? (
+              <ReportView student={student.name} profile={examProfile} entries={chronologicalEntries} catalog={topicCatalog} dailyTarget={dailyTarget} streakSettings={streakSettings} />
+            ) : activeView === 'compare' ? (
+              <ComparisonView students={directory.students} current={liveSnapshot} />
+            ) : activeView === 'speed' ? (
+              <div className="space-y-6">
+                <SpeedAccuracyView entries={chronologicalEntries} subjects={subjects} catalog={topicCatalog} thresholds={quadrantThresholds} setThresholds={setQuadrantThresholds} onEdit={handleEdit} />
+                <SessionPatterns entries={chronologicalEntries} subjects={subjects} />
+              </div>
             ) : (
-              <CalendarView entries={chronologicalEntries} onDateSelect={setSelectedDate} selectedDate={selectedDate} />
+              <>
+                <MockTestForm onSave={handleSaveMock} editingMock={editingMock} setEditingMock={setEditingMock} />
+                <MocksTable mocks={sortedMocks} onEdit={setEditingMock} onDelete={handleDeleteMock} />
+              </>
             )}
           </div>
 
-          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 items-start">
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 items-start print:hidden">
             <div className="lg:col-span-2">
-              <EntryForm onSave={handleSaveEntry} editingEntry={editingEntry} setEditingEntry={setEditingEntry} />
+              <EntryForm profile={examProfile} materials={materials} onSave={handleSaveEntry} editingEntry={editingEntry} setEditingEntry={setEditingEntry} draft={entryDraft} setDraft={setEntryDraft} />
             </div>
             <div className="lg:col-span-1 space-y-6">
+              <SessionTimer profile={examProfile} session={timerSession} setSession={setTimerSession} onFinish={handleFinishSession} />
               <AIInsights entries={chronologicalEntries} />
-              <MistakeLog entries={chronologicalEntries} />
+              <CoachPanel entries={chronologicalEntries} catalog={topicCatalog} examDate={planner.examDate} profile={examProfile} settings={coachSettings} setSettings={setCoachSettings} />
+              <MistakeLog entries={chronologicalEntries} catalog={topicCatalog} />
+              <ImportExport entries={sortedEntries} profile={examProfile} onImport={handleImportEntries} />
+              <TrashPanel trash={trash} onRestore={handleRestore} onEmpty={handleEmptyTrash} />
+              <ReminderPanel settings={reminders} setSettings={setReminders} entries={entries} dailyTarget={dailyTarget} />
+              <SyncPanel
+                settings={sync.settings}
+                saveSettings={sync.saveSettings}
+                conflicts={sync.journal.conflicts}
+                lastSyncedAt={sync.journal.lastSyncedAt}
+                status={sync.status}
+                error={sync.error}
+                pending={sync.pending}
+                onSync={sync.syncNow}
+                onResolve={sync.resolve}
+              />
+              <MaterialsPanel materials={materials} setMaterials={setMaterials} subjects={examProfile.subjects} />
+              <ExamProfilePanel profile={examProfile} setProfile={setExamProfile} entries={entries} />
+              <BackupPanel studentId={student.id} backend={backend} snapshots={snapshots} />
             </div>
           </div>
 
-          {selectedDate && (
-            <div className="flex justify-center mt-4">
-              <button onClick={() => setSelectedDate(null)} className="text-sm text-primary hover:underline">
-                Show all entries
-              </button>
+          <div className="print:hidden">
+            <EntryFiltersPanel
+              subjects={subjects}
+              filters={filters}
+              setFilters={setFilters}
+              sort={sort}
+              setSort={setSort}
+              views={savedViews}
+              setViews={setSavedViews}
+              applyToStats={filtersDriveStats}
+              setApplyToStats={setFiltersDriveStats}
+              shown={visibleEntries.length}
+              total={entries.length}
+            />
+            <div className="flex flex-wrap items-start justify-between gap-4 mt-6">
+              <div className="flex-1">
+                {selectedIds.size > 0 && (
+                  <BulkActionBar count={selectedIds.size} subjects={examProfile.subjects} onAction={handleBulkAction} onDelete={handleBulkDelete} onClear={() => setSelectedIds(new Set())} />
+                )}
+              </div>
+              <HistoryControls undoLabel={undoLabel} redoLabel={redoLabel} onUndo={undo} onRedo={redo} />
             </div>
-          )}
-          <EntriesTable entries={sortedEntries} onEdit={handleEdit} onDelete={handleDelete} selectedDate={selectedDate} />
+            <EntriesTable
+              entries={visibleEntries}
+              profile={examProfile}
+              onEdit={handleEdit}
+              onDelete={handleDelete}
+              onQuestions={entry => setQuestionEntryId(entry.id)}
+              scoreView={scoreView}
+              sort={sort}
+              setSort={setSort}
+              selectedIds={selectedIds}
+              setSelectedIds={setSelectedIds}
+            />
+            {questionEntry && (
+              <QuestionLogPanel key={questionEntry.id} entry={questionEntry} studentId={student.id} onUpdate={handleUpdateQuestions} onClose={() => setQuestionEntryId(null)} />
+            )}
+          </div>
         </div>
       </main>
     </div>
   );
 }
+
+export default function CatMasteryTracker() {
+  const [directory, setDirectory] = usePersistentState(studentsStore);
+  const student = directory.students.find(s => s.id === directory.activeId)!;
+  return (
+    <>
+      <StudentTracker key={student.id} student={student} directory={directory} setDirectory={setDirectory} />
+      <UpdatePrompt />
+    </>
+  );
+}
@@ -0,0 +1,143 @@
+import { useMemo, useState } from 'react';
+import { Flame, Trophy, Activity } from 'lucide-react';
+import type { Entry, HeatmapMetric, StreakSettings } from '../types';
+import { cn, formatDate } from '../lib/utils';
+import { CONSISTENCY_WINDOW_DAYS, activityValue, dailyActivity, heatmapWeeks, intensityLevel, isRestDay, summarizeStreaks } from '../lib/streaks';
+
+const LEVEL_CLASSES = ['bg-background', 'bg-primary/25', 'bg-primary/50', 'bg-primary/75', 'bg-primary'];
+const DAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const StreakStat = ({ icon: Icon, label, value, detail }: { icon: React.ElementType; label: string; value: string; detail: string }) => (
+  <div className="flex items-center space-x-3">
+    <div className="p-2 bg-background rounded-md border border-border"><Icon className="h-5 w-5 text-accent" /></div>
+    <div>
+      <p className="text-xs text-textSecondary">{label}</p>
+      <p className="text-lg font-bold text-text">{value} <span className="text-xs font-normal text-textSecondary">{detail}</span></p>
+    </div>
+  </div>
+);
+
+const ActivityHeatmap = ({ entries, dailyTarget, settings, setSettings, selectedDate, onDateSelect }: {
+  entries: Entry[];
+  dailyTarget: number;
+  settings: StreakSettings;
+  setSettings: (settings: StreakSettings) => void;
+  selectedDate: string | null;
+  onDateSelect: (date: string | null) => void;
+}) => {
+  const [hoveredDate, setHoveredDate] = useState<string | null>(null);
+  const today = formatDate(new Date());
+  const activity = useMemo(() => dailyActivity(entries), [entries]);
+  const weeks = useMemo(() => heatmapWeeks(today), [today]);
+  const summary = useMemo(() => summarizeStreaks(activity, dailyTarget, settings, today), [activity, dailyTarget, settings, today]);
+  const max = useMemo(
+    () => Math.max(0, ...weeks.flat().map(date => (date ? activityValue(activity.get(date), settings.metric) : 0))),
+    [weeks, activity, settings.metric],
+  );
+
+  const focusDate = hoveredDate ?? selectedDate;
+  const focus = focusDate ? activity.get(focusDate) : undefined;
+
+  const toggleRestDay = (day: number) => setSettings({
+    ...settings,
+    restDays: settings.restDays.includes(day) ? settings.restDays.filter(d => d !== day) : [...settings.restDays, day].sort(),
+  });
+
+  return (
+    <div className="bg-surface p-5 rounded-lg border border-border space-y-5">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex flex-wrap gap-6">
+          <StreakStat icon={Flame} label="Current streak" value={`${summary.current}`} detail={summary.current === 1 ? 'day' : 'days'} />
+          <StreakStat icon={Trophy} label="Longest streak" value={`${summary.longest}`} detail={summary.longest === 1 ? 'day' : 'days'} />
+          <StreakStat
+            icon={Activity}
+            label={`Consistency (${CONSISTENCY_WINDOW_DAYS}d)`}
+            value={`${summary.consistency.toFixed(0)}%`}
+            detail={`${summary.daysMet}/${summary.daysCounted} days on target`}
+          />
+        </div>
+        <div className="bg-background p-1 rounded-lg border border-border flex space-x-1">
+          {(['sets', 'minutes'] as HeatmapMetric[]).map(metric => (
+            <button
+              key={metric}
+              onClick={() => setSettings({ ...settings, metric })}
+              className={cn(
+                "px-3 py-1 text-xs font-semibold rounded-md transition-colors capitalize",
+                settings.metric === metric ? 'bg-primary text-primary-foreground' : 'text-textSecondary hover:bg-surface/80'
+              )}
+            >
+              {metric}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <div className="flex gap-[3px]" onMouseLeave={() => setHoveredDate(null)}>
+          <div className="flex flex-col gap-[3px] mr-1">
+            {DAY_LABELS.map((label, i) => (
+              <span key={i} className={cn("h-3 text-[10px] leading-3", settings.restDays.includes(i) ? 'text-textSecondary/50' : 'text-textSecondary')}>{label}</span>
+            ))}
+          </div>
+          {weeks.map((week, w) => (
+            <div key={w} className="flex flex-col gap-[3px]">
+              {week.map((date, d) => {
+                if (!date) return <span key={d} className="h-3 w-3" />;
+                const level = intensityLevel(activityValue(activity.get(date), settings.metric), max);
+                return (
+                  <button
+                    key={date}
+                    onMouseEnter={() => setHoveredDate(date)}
+                    onClick={() => onDateSelect(selectedDate === date ? null : date)}
+                    className={cn(
+                      "h-3 w-3 rounded-sm border",
+                      LEVEL_CLASSES[level],
+                      selectedDate === date ? 'border-accent' : date === today ? 'border-primary' : 'border-border/60'
+                    )}
+                    aria-label={date}
+                  />
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-start justify-between gap-4 text-sm">
+        <div className="min-h-[3rem]">
+          {focusDate ? (
+            <>
+              <p className="font-semibold text-text">
+                {new Date(focusDate).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })}
+                {isRestDay(focusDate, settings.restDays) && <span className="ml-2 text-xs font-normal text-textSecondary">rest day</span>}
+              </p>
+              {focus ? (
+                <p className="text-textSecondary">
+                  {focus.sets} sets · {focus.minutes} min —{' '}
+                  {Object.entries(focus.bySubject).map(([subject, s]) => `${subject} ${s.sets} sets / ${s.minutes} min`).join(', ')}
+                </p>
+              ) : <p className="text-textSecondary">No practice logged.</p>}
+            </>
+          ) : <p className="text-textSecondary">Hover a day for its breakdown; click to filter the entries table.</p>}
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-textSecondary">Rest days</span>
+          {DAY_LABELS.map((label, i) => (
+            <button
+              key={i}
+              onClick={() => toggleRestDay(i)}
+              className={cn(
+                "h-6 w-6 text-xs rounded-full border transition-colors",
+                settings.restDays.includes(i) ? 'bg-primary text-primary-foreground border-primary' : 'border-border text-textSecondary hover:bg-background'
+              )}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ActivityHeatmap;
@@ -0,0 +1,101 @@
+import { useState, useEffect } from 'react';
+import { History, RotateCcw, Trash2, ShieldAlert, Archive } from 'lucide-react';
+import { BACKUPS_KEY, QUARANTINE_KEY, type BackupSnapshot, deleteBackup, discardQuarantined, listBackups, listQuarantine, restoreBackup, subscribe } from '../lib/storage';
+import { entriesStore } from '../lib/schema';
+import { forStudent } from '../lib/students';
+import type { useEntries } from '../hooks/useEntries';
+
+type EntrySnapshots = ReturnType<typeof useEntries>['snapshots'];
+
+const BackupPanel = ({ studentId, backend, snapshots }: { studentId: string; backend: 'indexeddb' | 'localstorage' | null; snapshots: EntrySnapshots }) => {
+  const entryKey = forStudent(entriesStore, studentId).key;
+  const [backups, setBackups] = useState<BackupSnapshot[]>([]);
+  const [quarantined, setQuarantined] = useState(() => listQuarantine());
+  const [showQuarantine, setShowQuarantine] = useState(false);
+
+  // This student's entry snapshots come from their backend; everything else is
+  // backed up in localStorage.
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => {
+      snapshots.list()
+        .then(entrySnapshots => {
+          if (cancelled) return;
+          const others = listBackups().filter(b => b.key !== entryKey);
+          setBackups([...entrySnapshots, ...others].sort((a, b) => b.createdAt.localeCompare(a.createdAt)));
+        })
+        .catch(error => console.error(error));
+    };
+    refresh();
+    const unsubBackups = subscribe(BACKUPS_KEY, refresh);
+    const unsubQuarantine = subscribe(QUARANTINE_KEY, () => setQuarantined(listQuarantine()));
+    return () => {
+      cancelled = true;
+      unsubBackups();
+      unsubQuarantine();
+    };
+  }, [entryKey, snapshots, backend]);
+
+  const handleRestore = async (backup: BackupSnapshot) => {
+    if (!window.confirm(`Restore the snapshot from ${new Date(backup.createdAt).toLocaleString()}? Your current data will be backed up first.`)) return;
+    if (backup.key !== entryKey) return restoreBackup(backup.id);
+    if (!(await snapshots.restore(backup.id))) window.alert('This snapshot could not be read, so nothing was restored.');
+  };
+
+  const handleDelete = (backup: BackupSnapshot) => {
+    if (backup.key === entryKey) snapshots.remove(backup.id).catch(error => console.error(error));
+    else deleteBackup(backup.id);
+  };
+
+  return (
+    <div className="bg-surface p-6 rounded-lg border border-border">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-semibold text-text flex items-center"><History className="mr-2 h-5 w-5 text-primary" /> Backups</h3>
+        <button onClick={() => snapshots.take('Manual snapshot')} className="flex items-center text-sm text-primary hover:underline">
+          <Archive className="h-4 w-4 mr-1" /> Snapshot now
+        </button>
+      </div>
+      {backend && (
+        <p className="text-xs text-textSecondary mb-3">Stored in {backend === 'indexeddb' ? 'IndexedDB' : 'localStorage (fallback)'}</p>
+      )}
+      <div className="space-y-2 max-h-60 overflow-y-auto pr-2">
+        {backups.length > 0 ? backups.map(backup => (
+          <div key={backup.id} className="flex items-center justify-between p-2 bg-background rounded-md border border-border">
+            <div>
+              <p className="text-sm text-text">{new Date(backup.createdAt).toLocaleString()}</p>
+              <p className="text-xs text-textSecondary">{backup.key} · v{backup.version} · {backup.reason}</p>
+            </div>
+            <div className="flex items-center space-x-3">
+              <button onClick={() => handleRestore(backup)} title="Restore" className="text-primary hover:text-primary/80 transition"><RotateCcw className="h-4 w-4" /></button>
+              <button onClick={() => handleDelete(backup)} title="Delete snapshot" className="text-error hover:text-error/80 transition"><Trash2 className="h-4 w-4" /></button>
+            </div>
+          </div>
+        )) : <p className="text-sm text-textSecondary text-center py-4">No snapshots yet. One is taken automatically each day you log.</p>}
+      </div>
+      {quarantined.length > 0 && (
+        <div className="mt-4 p-3 bg-background rounded-md border border-warning/50">
+          <button onClick={() => setShowQuarantine(prev => !prev)} className="w-full flex items-center text-sm font-semibold text-text">
+            <ShieldAlert className="h-4 w-4 mr-2 text-warning" /> {quarantined.length} record{quarantined.length === 1 ? '' : 's'} in quarantine
+          </button>
+          {showQuarantine && (
+            <div className="mt-3 space-y-2">
+              {quarantined.map(record => (
+                <div key={record.id} className="p-2 rounded-md border border-border">
+                  <div className="flex items-start justify-between">
+                    <ul className="text-xs text-error list-disc pl-4">
+                      {record.errors.map(error => <li key={error}>{error}</li>)}
+                    </ul>
+                    <button onClick={() => discardQuarantined(record.id)} title="Discard" className="text-error hover:text-error/80 transition"><Trash2 className="h-4 w-4" /></button>
+                  </div>
+                  <pre className="mt-1 text-xs text-textSecondary whitespace-pre-wrap break-all">{JSON.stringify(record.raw)}</pre>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BackupPanel;
@@ -0,0 +1,65 @@
+import { useState } from 'react';
+import { Trash2, Undo2, Redo2, XCircle, Tag, CalendarDays, Flag } from 'lucide-react';
+import type { Subject } from '../types';
+import { cn } from '../lib/utils';
+import type { BulkAction } from '../lib/bulkEdit';
+
+const fieldClass = "bg-background border border-border rounded-md p-1.5 text-sm text-text focus:ring-2 focus:ring-primary focus:border-primary transition";
+const actionClass = "flex items-center px-3 py-1.5 border border-border rounded-md text-sm font-medium text-textSecondary bg-surface hover:bg-background transition disabled:opacity-50";
+
+export const BulkActionBar = ({ count, subjects, onAction, onDelete, onClear }: {
+  count: number;
+  subjects: Subject[];
+  onAction: (action: BulkAction) => void;
+  onDelete: () => void;
+  onClear: () => void;
+}) => {
+  const [topic, setTopic] = useState('');
+  const [days, setDays] = useState(1);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 p-3 bg-primary/10 border border-primary rounded-lg">
+      <span className="text-sm font-semibold text-text mr-2">{count} selected</span>
+      <select
+        value=""
+        onChange={(e) => e.target.value && onAction({ type: 'subject', subject: e.target.value as Subject })}
+        className={fieldClass}
+      >
+        <option value="">Change subject…</option>
+        {subjects.map(s => <option key={s} value={s}>{s}</option>)}
+      </select>
+      <div className="flex items-center gap-1">
+        <input value={topic} onChange={(e) => setTopic(e.target.value)} placeholder="New topic" className={cn(fieldClass, 'w-36')} />
+        <button onClick={() => { onAction({ type: 'topic', topic: topic.trim() }); setTopic(''); }} disabled={!topic.trim()} className={actionClass}>
+          <Tag className="h-4 w-4 mr-1" /> Retag
+        </button>
+      </div>
+      <button onClick={() => onAction({ type: 'weak', isWeakTopic: true })} className={actionClass}><Flag className="h-4 w-4 mr-1" /> Flag weak</button>
+      <button onClick={() => onAction({ type: 'weak', isWeakTopic: false })} className={actionClass}>Unflag</button>
+      <div className="flex items-center gap-1">
+        <input type="number" value={days} onChange={(e) => setDays(Math.trunc(Number(e.target.value)))} className={cn(fieldClass, 'w-16 text-center')} aria-label="Days to shift" />
+        <button onClick={() => onAction({ type: 'shiftDate', days })} disabled={days === 0} className={actionClass}>
+          <CalendarDays className="h-4 w-4 mr-1" /> Shift days
+        </button>
+      </div>
+      <button onClick={onDelete} className={cn(actionClass, 'text-error')}><Trash2 className="h-4 w-4 mr-1" /> Delete</button>
+      <button onClick={onClear} className="ml-auto flex items-center text-sm text-textSecondary hover:text-text"><XCircle className="h-4 w-4 mr-1" /> Clear selection</button>
+    </div>
+  );
+};
+
+export const HistoryControls = ({ undoLabel, redoLabel, onUndo, onRedo }: {
+  undoLabel: string | null;
+  redoLabel: string | null;
+  onUndo: () => void;
+  onRedo: () => void;
+}) => (
+  <div className="flex items-center gap-2">
+    <button onClick={onUndo} disabled={!undoLabel} title={undoLabel ? `Undo: ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'} className={actionClass}>
+      <Undo2 className="h-4 w-4 mr-1" /> Undo
+    </button>
+    <button onClick={onRedo} disabled={!redoLabel} title={redoLabel ? `Redo: ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'} className={actionClass}>
+      <Redo2 className="h-4 w-4 mr-1" /> Redo
+    </button>
+  </div>
+);
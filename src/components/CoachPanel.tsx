@@ -0,0 +1,142 @@
+import { useState, useRef, useEffect } from 'react';
+import { GraduationCap, Settings, Loader, XCircle } from 'lucide-react';
+import type { CanonicalTopic, CoachSettings, Entry, ExamProfile } from '../types';
+import { cn } from '../lib/utils';
+import { DEFAULT_COACH_SETTINGS } from '../lib/schema';
+import { buildCoachSummary, clearCachedAdvice, createCoach, isCancelled, requestCoaching, SUMMARY_WINDOW_DAYS, type CoachAdvice } from '../lib/coach';
+
+const fieldClass = "w-full bg-background border border-border rounded-md p-2 text-sm text-text focus:ring-2 focus:ring-primary focus:border-primary transition";
+
+const CoachSettingsForm = ({ settings, setSettings }: { settings: CoachSettings; setSettings: (settings: CoachSettings) => void }) => {
+  const update = <K extends keyof CoachSettings>(key: K, value: CoachSettings[K]) => setSettings({ ...settings, [key]: value });
+
+  return (
+    <div className="space-y-3 p-3 bg-background rounded-md border border-border">
+      <div className="bg-surface p-1 rounded-lg border border-border flex space-x-1">
+        {(['offline', 'openai'] as const).map(provider => (
+          <button key={provider} onClick={() => update('provider', provider)} className={cn('flex-1 px-3 py-1 rounded-md text-sm font-medium transition', settings.provider === provider ? 'bg-primary text-white' : 'text-textSecondary hover:bg-background')}>
+            {provider === 'offline' ? 'Offline' : 'OpenAI-compatible'}
+          </button>
+        ))}
+      </div>
+      {settings.provider === 'openai' ? (
+        <>
+          <label className="block text-xs text-textSecondary">Base URL
+            <input value={settings.baseUrl} onChange={(e) => update('baseUrl', e.target.value)} placeholder={DEFAULT_COACH_SETTINGS.baseUrl} className={cn(fieldClass, 'mt-1')} />
+          </label>
+          <label className="block text-xs text-textSecondary">Model
+            <input value={settings.model} onChange={(e) => update('model', e.target.value)} className={cn(fieldClass, 'mt-1')} />
+          </label>
+          <label className="block text-xs text-textSecondary">API key (optional)
+            <input type="password" value={settings.apiKey} onChange={(e) => update('apiKey', e.target.value)} autoComplete="off" className={cn(fieldClass, 'mt-1')} />
+          </label>
+          <label className="block text-xs text-textSecondary">Timeout (seconds)
+            <input type="number" min="5" value={settings.timeoutSeconds} onChange={(e) => update('timeoutSeconds', Math.max(5, Number(e.target.value) || DEFAULT_COACH_SETTINGS.timeoutSeconds))} className={cn(fieldClass, 'mt-1')} />
+          </label>
+          <p className="text-xs text-textSecondary">The key is stored in this browser. Only aggregates and your latest notes are sent.</p>
+        </>
+      ) : (
+        <p className="text-xs text-textSecondary">Rule-based coaching that runs entirely in the browser.</p>
+      )}
+      <button onClick={clearCachedAdvice} className="text-xs text-primary hover:underline">Clear cached responses</button>
+    </div>
+  );
+};
+
+const CoachPanel = ({ entries, catalog, examDate, profile, settings, setSettings }: { entries: Entry[]; catalog: CanonicalTopic[]; examDate: string | null; profile: ExamProfile; settings: CoachSettings; setSettings: (settings: CoachSettings) => void }) => {
+  const [advice, setAdvice] = useState<CoachAdvice | null>(null);
+  const [isCached, setIsCached] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const handleCoach = async (skipCache = false) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const summary = buildCoachSummary(entries, catalog, examDate, profile);
+      const result = await requestCoaching(createCoach(settings), summary, { timeoutSeconds: settings.timeoutSeconds, signal: controller.signal, skipCache });
+      setAdvice(result.advice);
+      setIsCached(result.cached);
+    } catch (err) {
+      if (!isCancelled(err)) setError(err instanceof Error ? err.message : 'Coaching failed');
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsLoading(false);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setIsLoading(false);
+  };
+
+  return (
+    <div className="bg-surface p-6 rounded-lg border border-border">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-semibold text-text flex items-center"><GraduationCap className="mr-2 h-5 w-5 text-primary" /> Coach</h3>
+        <button onClick={() => setShowSettings(!showSettings)} className={cn('text-textSecondary hover:text-text transition', showSettings && 'text-primary')} title="Coach settings"><Settings className="h-4 w-4" /></button>
+      </div>
+      <div className="space-y-4">
+        {showSettings && <CoachSettingsForm settings={settings} setSettings={setSettings} />}
+        <div className="flex gap-2">
+          <button onClick={() => handleCoach()} disabled={isLoading} className="flex-1 flex items-center justify-center px-4 py-2 border border-border rounded-md shadow-sm text-sm font-medium text-textSecondary bg-surface hover:bg-background transition disabled:opacity-50 disabled:cursor-not-allowed">
+            {isLoading ? <><Loader className="h-4 w-4 mr-2 animate-spin" /> Thinking...</> : <><GraduationCap className="h-4 w-4 mr-2" /> Get Coaching</>}
+          </button>
+          {isLoading && (
+            <button onClick={handleCancel} className="flex items-center px-3 py-2 border border-border rounded-md text-sm text-error hover:bg-background transition"><XCircle className="h-4 w-4 mr-1" /> Cancel</button>
+          )}
+        </div>
+        {error && <p className="text-sm text-error">{error}</p>}
+        {advice && (
+          <div className="p-3 bg-background rounded-md border border-primary/50 space-y-3">
+            <div className="flex items-center justify-between text-xs text-textSecondary">
+              <span>Last {SUMMARY_WINDOW_DAYS} days · {settings.provider === 'offline' ? 'offline coach' : settings.model}</span>
+              {isCached && <button onClick={() => handleCoach(true)} className="px-2 py-0.5 rounded-full bg-accent/20 text-accent hover:bg-accent/30" title="Ask again without the cache">cached · refresh</button>}
+            </div>
+            {advice.summary && <p className="text-sm text-text">{advice.summary}</p>}
+            {advice.plan.length > 0 && (
+              <div>
+                <h4 className="font-semibold text-text mb-1">Next 7 days</h4>
+                <div className="space-y-2">
+                  {advice.plan.map((item, i) => (
+                    <div key={`${item.day}-${i}`} className="text-xs">
+                      <p className="text-text"><span className="text-textSecondary mr-2">{item.day}</span><span className="font-semibold">{item.focus}</span></p>
+                      <ul className="list-disc list-inside text-textSecondary">
+                        {item.tasks.map((task, j) => <li key={j}>{task}</li>)}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            {advice.feedback.length > 0 && (
+              <div>
+                <h4 className="font-semibold text-text mb-1">Mistake feedback</h4>
+                <div className="space-y-2">
+                  {advice.feedback.map((item, i) => (
+                    <div key={i} className="text-xs">
+                      <p className="font-semibold text-text">{item.mistake}</p>
+                      <p className="text-textSecondary">{item.advice}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CoachPanel;
@@ -0,0 +1,183 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { Command, CornerDownLeft, AlertTriangle } from 'lucide-react';
+import type { Entry, ExamProfile } from '../types';
+import { cn, calculateTotalSets } from '../lib/utils';
+import { looksLikeQuickEntry, parseDateWord, parseQuickEntry } from '../lib/quickEntry';
+
+export type PaletteCommand = {
+  id: string;
+  label: string;
+  group: string;
+  keywords?: string;
+  run: () => void;
+};
+
+// Every word typed has to appear somewhere in the label or keywords.
+const matches = (command: PaletteCommand, query: string) => {
+  const haystack = `${command.group} ${command.label} ${command.keywords ?? ''}`.toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every(word => haystack.includes(word));
+};
+
+const EXAMPLE = 'LR "Games & Tournaments" 3 lr 1 vault 52m 18/24 c4 weak -- note';
+
+const CommandPalette = ({ profile, commands, onJumpToDate, onSaveEntry, onOpenInForm }: {
+  profile: ExamProfile;
+  commands: PaletteCommand[];
+  onJumpToDate: (date: string) => void;
+  onSaveEntry: (entry: Omit<Entry, 'id'>) => void;
+  onOpenInForm: (entry: Omit<Entry, 'id'>) => void;
+}) => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Ctrl/Cmd+K toggles the palette from anywhere, text fields included.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'k') return;
+      event.preventDefault();
+      setOpen(prev => !prev);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    setQuery('');
+    setSelected(0);
+    inputRef.current?.focus();
+  }, [open]);
+
+  const isEntry = looksLikeQuickEntry(query, profile);
+  const parsed = useMemo(() => (isEntry ? parseQuickEntry(query, profile) : null), [isEntry, query, profile]);
+
+  const results = useMemo(() => {
+    if (isEntry) return [];
+    const stripped = query.trim().replace(/^(go to|goto|jump to|jump|date)\s+/i, '');
+    const date = stripped ? parseDateWord(stripped, new Date()) : null;
+    const jump: PaletteCommand[] = date
+      ? [{ id: 'jump-date', label: `Jump to ${new Date(date).toLocaleDateString()}`, group: 'Date', run: () => onJumpToDate(date) }]
+      : [];
+    return [...jump, ...commands.filter(c => matches(c, query))];
+  }, [isEntry, query, commands, onJumpToDate]);
+
+  if (!open) return null;
+
+  const close = () => setOpen(false);
+  const runCommand = (command: PaletteCommand | undefined) => {
+    if (!command) return;
+    close();
+    command.run();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      close();
+    } else if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setSelected(prev => (results.length === 0 ? 0 : (prev + step + results.length) % results.length));
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      if (!parsed) return runCommand(results[selected]);
+      // Alt+Enter hands the parsed entry to the form for finishing touches.
+      if (event.altKey) {
+        close();
+        onOpenInForm(parsed.entry);
+      } else if (parsed.errors.length === 0) {
+        close();
+        onSaveEntry(parsed.entry);
+      }
+    }
+  };
+
+  const preview = parsed && [
+    ['Date', new Date(parsed.entry.date).toLocaleDateString()],
+    ['Subject', parsed.entry.subject || '—'],
+    ['Topic', parsed.entry.topic || '—'],
+    ['Sets', `${calculateTotalSets(parsed.entry)} (${profile.setCategories.filter(c => parsed.entry.sets[c.id]).map(c => `${c.label} ${parsed.entry.sets[c.id]}`).join(', ') || 'none'})`],
+    ['Time', `${parsed.entry.timeTaken} min`],
+    ['Correct / attempted', `${parsed.entry.correctAnswers} / ${parsed.entry.questionsAttempted}`],
+    ['Wrong MCQ / TITA · skipped', `${parsed.entry.incorrectMcq} / ${parsed.entry.incorrectTita} · ${parsed.entry.skipped}`],
+    ['Confidence', String(parsed.entry.confidence)],
+    ...(parsed.entry.startTime ? [['Start time', parsed.entry.startTime]] : []),
+    ...(parsed.entry.energy ? [['Energy', String(parsed.entry.energy)]] : []),
+    ['Weak topic', parsed.entry.isWeakTopic ? 'Yes' : 'No'],
+    ...profile.customFields.filter(f => parsed.entry.custom?.[f.id]).map(f => [f.label, String(parsed.entry.custom![f.id])]),
+    ...(parsed.entry.learnings ? [['Learnings', parsed.entry.learnings]] : []),
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/40 p-4 pt-24 print:hidden" onMouseDown={close}>
+      <div role="dialog" aria-label="Command palette" className="w-full max-w-2xl bg-surface border border-border rounded-lg shadow-xl overflow-hidden" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="flex items-center border-b border-border px-4">
+          <Command className="h-4 w-4 text-textSecondary mr-3" />
+          <input
+            ref={inputRef}
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setSelected(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder={`Type a command, a date, or an entry: ${EXAMPLE}`}
+            className="w-full bg-transparent py-4 text-sm text-text placeholder:text-textSecondary focus:outline-none"
+            aria-label="Command or entry"
+          />
+        </div>
+
+        {parsed && preview ? (
+          <div className="p-4 space-y-3">
+            <div className="flex flex-wrap gap-1">
+              {parsed.tokens.map((token, i) => (
+                <span key={i} className={cn("px-2 py-0.5 rounded text-xs border", token.field ? 'border-border text-text' : 'border-error text-error')}>
+                  {token.text}{token.field && <span className="text-textSecondary"> · {token.field}</span>}
+                </span>
+              ))}
+            </div>
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+              {preview.map(([label, value]) => (
+                <div key={label} className="contents">
+                  <dt className="text-textSecondary">{label}</dt>
+                  <dd className="text-text truncate" title={value}>{value}</dd>
+                </div>
+              ))}
+            </dl>
+            {parsed.errors.length > 0 ? (
+              <ul className="text-xs text-error space-y-1">
+                {parsed.errors.map(error => <li key={error} className="flex items-center"><AlertTriangle className="h-3 w-3 mr-1 shrink-0" />{error}</li>)}
+              </ul>
+            ) : (
+              <p className="text-xs text-textSecondary flex items-center"><CornerDownLeft className="h-3 w-3 mr-1" /> Enter saves · Alt+Enter opens in the form · Esc closes</p>
+            )}
+          </div>
+        ) : (
+          <ul className="max-h-80 overflow-y-auto py-2" role="listbox">
+            {results.length > 0 ? results.map((command, i) => (
+              <li
+                key={command.id}
+                role="option"
+                aria-selected={i === selected}
+                onMouseEnter={() => setSelected(i)}
+                onClick={() => runCommand(command)}
+                className={cn("flex items-center justify-between px-4 py-2 text-sm cursor-pointer", i === selected ? 'bg-primary/10 text-text' : 'text-textSecondary')}
+              >
+                <span>{command.label}</span>
+                <span className="text-xs text-textSecondary">{command.group}</span>
+              </li>
+            )) : (
+              <li className="px-4 py-6 text-sm text-textSecondary text-center">
+                No matching command. Start with a subject ({profile.subjects.join(', ')}) to log an entry.
+              </li>
+            )}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,207 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Users, Upload, XCircle, Loader, Lock } from 'lucide-react';
+import type { Student, StudentSnapshot } from '../types';
+import { cn } from '../lib/utils';
+import { loadStudentSnapshot, parseSnapshot } from '../lib/snapshots';
+import { sharedTopics, summarize, weeklySeries, type Participant } from '../lib/comparison';
+
+const chipClass = (active: boolean) => cn(
+  "px-3 py-1 text-xs font-semibold rounded-md border transition-colors",
+  active ? 'bg-primary text-primary-foreground border-primary' : 'border-border text-textSecondary hover:bg-background'
+);
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${value.toFixed(1)}%`);
+const weekLabel = (week: string) => new Date(week).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+// The active student is passed in live; the others are read from storage when
+// selected, and snapshot files are held in memory only.
+const ComparisonView = ({ students, current }: { students: Student[]; current: StudentSnapshot }) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>(() => students.map(s => s.id));
+  const [loaded, setLoaded] = useState<Record<string, StudentSnapshot>>({});
+  const [files, setFiles] = useState<Participant[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const missing = students.filter(s => selectedIds.includes(s.id) && s.id !== current.student.id && !loaded[s.id]);
+    if (missing.length === 0) return;
+    let cancelled = false;
+    setLoading(true);
+    Promise.all(missing.map(loadStudentSnapshot))
+      .then(snapshots => {
+        if (!cancelled) setLoaded(prev => ({ ...prev, ...Object.fromEntries(snapshots.map(s => [s.student.id, s])) }));
+      })
+      .catch(err => setError(`Could not load student data: ${err instanceof Error ? err.message : String(err)}`))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [students, selectedIds, current.student.id, loaded]);
+
+  const participants = useMemo<Participant[]>(() => [
+    ...students
+      .filter(s => selectedIds.includes(s.id))
+      .map(s => (s.id === current.student.id ? current : loaded[s.id]))
+      .filter((snapshot): snapshot is StudentSnapshot => snapshot !== undefined)
+      .map(snapshot => ({ key: snapshot.student.id, label: snapshot.student.name, readOnly: false, snapshot })),
+    ...files,
+  ], [students, selectedIds, current, loaded, files]);
+
+  const summaries = useMemo(() => participants.map(p => summarize(p)), [participants]);
+  const series = useMemo(() => weeklySeries(participants), [participants]);
+  const topics = useMemo(() => sharedTopics(participants), [participants]);
+
+  const colors = { text: '#64748b', grid: '#e2e8f0', tooltipBg: '#ffffff', tooltipBorder: '#e2e8f0' };
+  const palette = ['hsl(var(--primary))', '#0ea5e9', 'hsl(var(--warning))', 'hsl(var(--success))', 'hsl(var(--accent))', '#a855f7'];
+  const colorOf = (i: number) => palette[i % palette.length];
+
+  const toggleStudent = (id: string) => setSelectedIds(prev => (prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]));
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const snapshot = parseSnapshot(await file.text());
+      const label = `${snapshot.student.name} (${snapshot.exportedAt ? new Date(snapshot.exportedAt).toLocaleDateString() : 'snapshot'})`;
+      setFiles(prev => [...prev, { key: `file-${prev.length}-${file.name}`, label, readOnly: true, snapshot }]);
+    } catch (err) {
+      setError(`Could not read ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const tooltipProps = {
+    contentStyle: { backgroundColor: colors.tooltipBg, border: `1px solid ${colors.tooltipBorder}` },
+    itemStyle: { color: colors.text },
+    labelStyle: { color: colors.text },
+    labelFormatter: (week: string) => `Week of ${weekLabel(week)}`,
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h3 className="text-xl font-semibold text-text flex items-center"><Users className="mr-2 h-5 w-5 text-primary" /> Compare Students</h3>
+        <div className="flex flex-wrap items-center gap-2">
+          {students.map(s => (
+            <button key={s.id} onClick={() => toggleStudent(s.id)} className={chipClass(selectedIds.includes(s.id))}>{s.name}</button>
+          ))}
+          {files.map(p => (
+            <span key={p.key} className="flex items-center gap-1 px-3 py-1 text-xs font-semibold rounded-md border border-border text-text" title="Read-only snapshot">
+              <Lock className="h-3 w-3" /> {p.label}
+              <button onClick={() => setFiles(prev => prev.filter(f => f.key !== p.key))} className="text-textSecondary hover:text-error" aria-label={`Remove ${p.label}`}><XCircle className="h-3 w-3" /></button>
+            </span>
+          ))}
+          <label className="flex items-center px-3 py-1 text-xs font-semibold rounded-md border border-dashed border-border text-textSecondary hover:border-primary cursor-pointer transition">
+            <Upload className="h-3 w-3 mr-1" /> Open snapshot
+            <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+          </label>
+          {loading && <Loader className="h-4 w-4 animate-spin text-textSecondary" />}
+        </div>
+      </div>
+      {error && <p className="text-sm text-error">{error}</p>}
+
+      {participants.length < 2 ? (
+        <p className="text-center py-10 text-textSecondary">Pick at least two students, or open a shared snapshot, to compare.</p>
+      ) : (
+        <>
+          <div className="bg-surface rounded-lg border border-border overflow-x-auto">
+            <table className="min-w-full divide-y divide-border text-sm">
+              <thead>
+                <tr>
+                  {['Student', 'Exam', 'Entries', 'Sets', 'Hours', 'Accuracy', 'Last 30 days', 'Min/set', 'Topics', 'Avg mastery', 'Weak'].map(label => (
+                    <th key={label} className="px-4 py-3 text-left text-xs font-medium text-textSecondary uppercase tracking-wider">{label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-background divide-y divide-border">
+                {summaries.map((s, i) => (
+                  <tr key={s.key}>
+                    <td className="px-4 py-3 whitespace-nowrap font-medium" style={{ color: colorOf(i) }}>{s.label}</td>
+                    <td className="px-4 py-3 text-textSecondary">{s.exam}</td>
+                    <td className="px-4 py-3 text-text">{s.entries}</td>
+                    <td className="px-4 py-3 text-text">{s.sets}</td>
+                    <td className="px-4 py-3 text-text">{(s.minutes / 60).toFixed(1)}</td>
+                    <td className="px-4 py-3 text-text">{formatPercent(s.accuracy)}</td>
+                    <td className="px-4 py-3 text-text">{formatPercent(s.recentAccuracy)}</td>
+                    <td className="px-4 py-3 text-text">{s.minutesPerSet === null ? '—' : s.minutesPerSet.toFixed(1)}</td>
+                    <td className="px-4 py-3 text-text">{s.topics}</td>
+                    <td className="px-4 py-3 text-text">{s.averageMastery === null ? '—' : Math.round(s.averageMastery)}</td>
+                    <td className="px-4 py-3 text-text">{s.weakTopics}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-surface p-5 rounded-lg border border-border">
+              <h3 className="text-lg font-semibold text-text mb-4">Weekly Accuracy (%)</h3>
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart data={series.map(s => s.accuracy)}>
+                  <CartesianGrid strokeDasharray="3 3" stroke={colors.grid} />
+                  <XAxis dataKey="week" tickFormatter={weekLabel} stroke={colors.text} />
+                  <YAxis stroke={colors.text} domain={[0, 100]} />
+                  <Tooltip {...tooltipProps} />
+                  <Legend />
+                  {participants.map((p, i) => (
+                    <Line key={p.key} type="monotone" dataKey={p.key} name={p.label} stroke={colorOf(i)} strokeWidth={2} strokeDasharray={p.readOnly ? '4 2' : undefined} dot={{ r: 3 }} connectNulls />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="bg-surface p-5 rounded-lg border border-border">
+              <h3 className="text-lg font-semibold text-text mb-4">Weekly Volume (Sets)</h3>
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={series.map(s => s.volume)}>
+                  <CartesianGrid strokeDasharray="3 3" stroke={colors.grid} />
+                  <XAxis dataKey="week" tickFormatter={weekLabel} stroke={colors.text} />
+                  <YAxis stroke={colors.text} allowDecimals={false} />
+                  <Tooltip {...tooltipProps} />
+                  <Legend />
+                  {participants.map((p, i) => <Bar key={p.key} dataKey={p.key} name={p.label} fill={colorOf(i)} />)}
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="bg-surface p-5 rounded-lg border border-border">
+            <h3 className="text-lg font-semibold text-text mb-1">Topic Mastery</h3>
+            <p className="text-xs text-textSecondary mb-4">Topics practised by more than one student, widest gap first.</p>
+            {topics.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-textSecondary uppercase tracking-wider">Topic</th>
+                      {participants.map((p, i) => <th key={p.key} className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider" style={{ color: colorOf(i) }}>{p.label}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    {topics.map(topic => {
+                      const best = Math.max(...Object.values(topic.mastery));
+                      return (
+                        <tr key={`${topic.subject}-${topic.name}`}>
+                          <td className="px-3 py-2 text-text"><span className="text-xs font-semibold text-primary mr-2">{topic.subject}</span>{topic.name}</td>
+                          {participants.map(p => {
+                            const value = topic.mastery[p.key];
+                            return <td key={p.key} className={cn("px-3 py-2", value === best ? 'font-semibold text-text' : 'text-textSecondary')}>{value ?? '—'}</td>;
+                          })}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            ) : <p className="text-center py-6 text-textSecondary">No topics in common yet.</p>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonView;
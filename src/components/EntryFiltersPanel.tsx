@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { Filter, Search, Save, Trash2, XCircle } from 'lucide-react';
+import type { EntryFilters, EntrySort, SavedView, Subject } from '../types';
+import { cn, createRecordId } from '../lib/utils';
+import { EMPTY_FILTERS, isFilterActive } from '../lib/entryFilters';
+
+const fieldClass = "bg-background border border-border rounded-md p-2 text-sm text-text focus:ring-2 focus:ring-primary focus:border-primary transition";
+const chipClass = (active: boolean) => cn(
+  "px-3 py-1 text-xs font-semibold rounded-md border transition-colors",
+  active ? 'bg-primary text-primary-foreground border-primary' : 'border-border text-textSecondary hover:bg-background'
+);
+
+const toggle = <T,>(list: T[], value: T) => (list.includes(value) ? list.filter(v => v !== value) : [...list, value]);
+const toBound = (value: string) => (value === '' ? null : Math.min(Math.max(Number(value), 0), 100));
+
+const EntryFiltersPanel = ({ subjects, filters, setFilters, sort, setSort, views, setViews, applyToStats, setApplyToStats, shown, total }: {
+  subjects: Subject[];
+  filters: EntryFilters;
+  setFilters: (filters: EntryFilters) => void;
+  sort: EntrySort;
+  setSort: (sort: EntrySort) => void;
+  views: SavedView[];
+  setViews: (views: SavedView[]) => void;
+  applyToStats: boolean;
+  setApplyToStats: (apply: boolean) => void;
+  shown: number;
+  total: number;
+}) => {
+  const [viewName, setViewName] = useState('');
+  const [activeViewId, setActiveViewId] = useState('');
+  const update = (changes: Partial<EntryFilters>) => {
+    setFilters({ ...filters, ...changes });
+    setActiveViewId('');
+  };
+
+  const handleSaveView = () => {
+    const name = viewName.trim();
+    if (!name) return;
+    const existing = views.find(v => v.name.toLowerCase() === name.toLowerCase());
+    if (existing && !window.confirm(`Replace the saved view "${existing.name}"?`)) return;
+    const view: SavedView = { id: existing?.id ?? createRecordId(), name, filters, sort };
+    setViews(existing ? views.map(v => (v.id === existing.id ? view : v)) : [...views, view]);
+    setActiveViewId(view.id);
+    setViewName('');
+  };
+
+  const handleSelectView = (id: string) => {
+    setActiveViewId(id);
+    const view = views.find(v => v.id === id);
+    if (!view) return;
+    setFilters({ ...EMPTY_FILTERS, ...view.filters });
+    setSort(view.sort);
+  };
+
+  return (
+    <div className="bg-surface p-5 rounded-lg border border-border space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h3 className="text-lg font-semibold text-text flex items-center"><Filter className="mr-2 h-5 w-5 text-primary" /> Entries</h3>
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={activeViewId} onChange={(e) => handleSelectView(e.target.value)} className={fieldClass}>
+            <option value="">Saved views…</option>
+            {views.map(view => <option key={view.id} value={view.id}>{view.name}</option>)}
+          </select>
+          {activeViewId && (
+            <button
+              onClick={() => { setViews(views.filter(v => v.id !== activeViewId)); setActiveViewId(''); }}
+              className="p-2 text-error hover:text-error/80 transition"
+              title="Delete this saved view"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          )}
+          <input value={viewName} onChange={(e) => setViewName(e.target.value)} placeholder="Name this view" className={cn(fieldClass, 'w-36')} />
+          <button onClick={handleSaveView} disabled={!viewName.trim()} className="flex items-center px-3 py-2 border border-border rounded-md text-sm font-medium text-textSecondary bg-surface hover:bg-background transition disabled:opacity-50">
+            <Save className="h-4 w-4 mr-2" /> Save view
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-3">
+        <div className="relative lg:col-span-2">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-textSecondary" />
+          <input value={filters.search} onChange={(e) => update({ search: e.target.value })} placeholder="Search topics and learnings" className={cn(fieldClass, 'w-full pl-9')} />
+        </div>
+        <input value={filters.topic} onChange={(e) => update({ topic: e.target.value })} placeholder="Topic" className={fieldClass} />
+        <select value={filters.weak} onChange={(e) => update({ weak: e.target.value as EntryFilters['weak'] })} className={fieldClass}>
+          <option value="any">Weak and strong topics</option>
+          <option value="weak">Weak topics only</option>
+          <option value="notWeak">Exclude weak topics</option>
+        </select>
+        <div className="flex items-center gap-2">
+          <input type="date" value={filters.dateFrom ?? ''} onChange={(e) => update({ dateFrom: e.target.value || null })} className={cn(fieldClass, 'flex-1 min-w-0')} aria-label="From date" />
+          <span className="text-textSecondary text-sm">to</span>
+          <input type="date" value={filters.dateTo ?? ''} onChange={(e) => update({ dateTo: e.target.value || null })} className={cn(fieldClass, 'flex-1 min-w-0')} aria-label="To date" />
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-textSecondary text-sm">Accuracy</span>
+          <input type="number" min="0" max="100" value={filters.accuracyMin ?? ''} onChange={(e) => update({ accuracyMin: toBound(e.target.value) })} placeholder="0" className={cn(fieldClass, 'w-16')} />
+          <span className="text-textSecondary text-sm">–</span>
+          <input type="number" min="0" max="100" value={filters.accuracyMax ?? ''} onChange={(e) => update({ accuracyMax: toBound(e.target.value) })} placeholder="100" className={cn(fieldClass, 'w-16')} />
+          <span className="text-textSecondary text-sm">%</span>
+        </div>
+        <div className="flex flex-wrap items-center gap-1">
+          {subjects.map(subject => (
+            <button key={subject} onClick={() => update({ subjects: toggle<Subject>(filters.subjects, subject) })} className={chipClass(filters.subjects.includes(subject))}>{subject}</button>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="text-textSecondary text-sm mr-1">Confidence</span>
+          {[1, 2, 3, 4, 5].map(level => (
+            <button key={level} onClick={() => update({ confidence: toggle(filters.confidence, level) })} className={chipClass(filters.confidence.includes(level))}>{level}</button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4 text-sm">
+        <span className="text-textSecondary">Showing {shown} of {total} entries</span>
+        <div className="flex items-center gap-4">
+          <label className="flex items-center text-textSecondary">
+            <input type="checkbox" checked={applyToStats} onChange={(e) => setApplyToStats(e.target.checked)} className="h-4 w-4 rounded border-border text-primary focus:ring-primary mr-2" />
+            Apply to dashboard stats
+          </label>
+          {isFilterActive(filters) && (
+            <button onClick={() => update(EMPTY_FILTERS)} className="flex items-center text-primary hover:underline">
+              <XCircle className="h-4 w-4 mr-1" /> Clear filters
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EntryFiltersPanel;
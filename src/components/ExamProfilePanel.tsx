@@ -0,0 +1,136 @@
+import { useEffect, useMemo, useState } from 'react';
+import { SlidersHorizontal, Plus, XCircle, AlertTriangle } from 'lucide-react';
+import type { Entry, ExamProfile } from '../types';
+import { cn } from '../lib/utils';
+import { PRESET_PROFILES, createFieldId } from '../lib/examProfiles';
+
+const fieldClass = "bg-background border border-border rounded-md p-1.5 text-sm text-text focus:ring-2 focus:ring-primary focus:border-primary transition";
+const removeClass = "text-textSecondary hover:text-error transition";
+
+type NamedList = 'setCategories' | 'customFields';
+
+const AddField = ({ placeholder, onAdd }: { placeholder: string; onAdd: (label: string) => void }) => {
+  const [label, setLabel] = useState('');
+  const handleAdd = () => {
+    if (!label.trim()) return;
+    onAdd(label.trim());
+    setLabel('');
+  };
+  return (
+    <div className="flex gap-1">
+      <input value={label} onChange={(e) => setLabel(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleAdd()} placeholder={placeholder} className={cn(fieldClass, 'flex-1 min-w-0')} />
+      <button onClick={handleAdd} disabled={!label.trim()} className="p-1.5 rounded-md text-primary-foreground bg-primary hover:bg-primary/90 transition disabled:opacity-50" aria-label={placeholder}><Plus className="h-4 w-4" /></button>
+    </div>
+  );
+};
+
+// Edits a draft and only saves it on request: subjects are stored on entries
+// by name, so a half-typed rename would otherwise orphan them.
+const ExamProfilePanel = ({ profile, setProfile, entries }: { profile: ExamProfile; setProfile: (profile: ExamProfile) => void; entries: Entry[] }) => {
+  const [draft, setDraft] = useState(profile);
+  useEffect(() => setDraft(profile), [profile]);
+
+  const dirty = JSON.stringify(draft) !== JSON.stringify(profile);
+
+  // Data the draft would stop showing in forms and pickers; it stays in the log.
+  const orphaned = useMemo(() => {
+    const subjects = new Map<string, number>();
+    const categories = new Map<string, number>();
+    entries.forEach(e => {
+      if (!draft.subjects.includes(e.subject)) subjects.set(e.subject, (subjects.get(e.subject) ?? 0) + 1);
+      Object.entries(e.sets).forEach(([id, count]) => {
+        if (count > 0 && !draft.setCategories.some(c => c.id === id)) categories.set(id, (categories.get(id) ?? 0) + 1);
+      });
+    });
+    return { subjects: Array.from(subjects), categories: Array.from(categories) };
+  }, [draft, entries]);
+
+  const problems = [
+    draft.name.trim() === '' && 'Give the profile a name.',
+    draft.subjects.length === 0 && 'Add at least one subject.',
+    draft.setCategories.length === 0 && 'Add at least one set category.',
+    [...draft.setCategories, ...draft.customFields].some(c => c.label.trim() === '') && 'Labels cannot be empty.',
+  ].filter((p): p is string => typeof p === 'string');
+
+  const addSubject = (subject: string) => {
+    if (!draft.subjects.includes(subject)) setDraft({ ...draft, subjects: [...draft.subjects, subject] });
+  };
+  const addNamed = (list: NamedList, label: string) => {
+    const id = createFieldId(label, draft[list].map(c => c.id));
+    setDraft({ ...draft, [list]: [...draft[list], { id, label }] });
+  };
+  const relabel = (list: NamedList, id: string, label: string) => setDraft({ ...draft, [list]: draft[list].map(c => (c.id === id ? { ...c, label } : c)) });
+  const removeNamed = (list: NamedList, id: string) => setDraft({ ...draft, [list]: draft[list].filter(c => c.id !== id) });
+
+  const handlePreset = (id: string) => {
+    const preset = PRESET_PROFILES.find(p => p.id === id);
+    if (preset) setDraft(preset);
+  };
+
+  const handleSave = () => setProfile({ ...draft, name: draft.name.trim(), setCategories: draft.setCategories.map(c => ({ ...c, label: c.label.trim() })), customFields: draft.customFields.map(f => ({ ...f, label: f.label.trim() })) });
+
+  const renderNamed = (list: NamedList) => draft[list].map(item => (
+    <div key={item.id} className="flex items-center gap-2">
+      <input value={item.label} onChange={(e) => relabel(list, item.id, e.target.value)} className={cn(fieldClass, 'flex-1 min-w-0')} aria-label={`Label for ${item.id}`} />
+      <span className="text-xs text-textSecondary w-24 truncate" title="Stored as">{item.id}</span>
+      <button onClick={() => removeNamed(list, item.id)} className={removeClass} aria-label={`Remove ${item.label}`}><XCircle className="h-4 w-4" /></button>
+    </div>
+  ));
+
+  return (
+    <div className="bg-surface p-6 rounded-lg border border-border">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-semibold text-text flex items-center"><SlidersHorizontal className="mr-2 h-5 w-5 text-primary" /> Exam Profile</h3>
+        <select value="" onChange={(e) => handlePreset(e.target.value)} className={fieldClass}>
+          <option value="">Load preset…</option>
+          {PRESET_PROFILES.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+      </div>
+      <div className="space-y-4">
+        <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="Profile name" className={cn(fieldClass, 'w-full')} />
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-textSecondary">Subjects</p>
+          <div className="flex flex-wrap gap-1">
+            {draft.subjects.map(subject => (
+              <span key={subject} className="flex items-center gap-1 px-2 py-1 text-xs font-semibold rounded-md border border-border text-text">
+                {subject}
+                <button onClick={() => setDraft({ ...draft, subjects: draft.subjects.filter(s => s !== subject) })} className={removeClass} aria-label={`Remove ${subject}`}><XCircle className="h-3 w-3" /></button>
+              </span>
+            ))}
+          </div>
+          <AddField placeholder="Add subject" onAdd={addSubject} />
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-textSecondary">Set categories</p>
+          {renderNamed('setCategories')}
+          <AddField placeholder="Add set category" onAdd={label => addNamed('setCategories', label)} />
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-textSecondary">Custom numeric fields</p>
+          {renderNamed('customFields')}
+          <AddField placeholder="Add custom field" onAdd={label => addNamed('customFields', label)} />
+        </div>
+
+        {(orphaned.subjects.length > 0 || orphaned.categories.length > 0) && (
+          <div className="p-3 bg-background rounded-md border border-warning/50 text-xs text-textSecondary space-y-1">
+            <p className="flex items-center font-semibold text-text"><AlertTriangle className="h-4 w-4 mr-1 text-warning" /> Not in this profile</p>
+            {orphaned.subjects.map(([subject, count]) => <p key={subject}>{subject}: {count} entr{count === 1 ? 'y' : 'ies'}</p>)}
+            {orphaned.categories.map(([id, count]) => <p key={id}>{id} sets: {count} entr{count === 1 ? 'y' : 'ies'}</p>)}
+            <p>These stay in your log, charts and exports but can't be picked for new entries.</p>
+          </div>
+        )}
+        {problems.map(problem => <p key={problem} className="text-xs text-error">{problem}</p>)}
+
+        <div className="flex justify-end gap-3">
+          {dirty && <button onClick={() => setDraft(profile)} className="text-sm text-textSecondary hover:text-text">Discard</button>}
+          <button onClick={handleSave} disabled={!dirty || problems.length > 0} className="px-4 py-2 border border-transparent rounded-md text-sm font-medium text-primary-foreground bg-primary hover:bg-primary/90 transition disabled:opacity-50">Save profile</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExamProfilePanel;
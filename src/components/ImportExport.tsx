@@ -0,0 +1,211 @@
+import React, { useState, useMemo } from 'react';
+import { Download, Upload, FileText, AlertTriangle, CheckCircle2, Copy, XCircle } from 'lucide-react';
+import type { Entry, ExamProfile, Subject } from '../types';
+import { cn } from '../lib/utils';
+import { subjectsInUse } from '../lib/examProfiles';
+import {
+  buildPreview, downloadFile, entryFields, exportEntries, guessMapping, planImport, readCsv, readJson,
+  type ColumnMapping, type DuplicateStrategy, type ExportFormat, type ImportPlan, type RawTable,
+} from '../lib/importExport';
+
+type Step = 'idle' | 'mapping' | 'preview' | 'done';
+
+const selectClass = "w-full bg-background border border-border rounded-md p-2 text-sm text-text focus:ring-2 focus:ring-primary focus:border-primary transition";
+
+const ExportSection = ({ entries, profile }: { entries: Entry[]; profile: ExamProfile }) => {
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [subject, setSubject] = useState<Subject | 'All'>('All');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const selected = useMemo(() => entries.filter(e =>
+    (subject === 'All' || e.subject === subject) && (!from || e.date >= from) && (!to || e.date <= to)
+  ), [entries, subject, from, to]);
+
+  const handleExport = () => {
+    const stamp = new Date().toISOString().split('T')[0];
+    downloadFile(`cat-tracker-${stamp}.${format}`, exportEntries(selected, format, profile), format === 'csv' ? 'text/csv' : 'application/json');
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm font-medium text-textSecondary">Export</p>
+      <div className="grid grid-cols-2 gap-2">
+        <select value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)} className={selectClass}>
+          <option value="csv">CSV</option>
+          <option value="json">JSON</option>
+        </select>
+        <select value={subject} onChange={(e) => setSubject(e.target.value as Subject | 'All')} className={selectClass}>
+          <option value="All">All subjects</option>
+          {subjectsInUse(profile, entries).map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={selectClass} aria-label="From date" />
+        <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={selectClass} aria-label="To date" />
+      </div>
+      <button onClick={handleExport} disabled={selected.length === 0} className="w-full flex items-center justify-center px-4 py-2 border border-border rounded-md shadow-sm text-sm font-medium text-textSecondary bg-surface hover:bg-background transition disabled:opacity-50 disabled:cursor-not-allowed">
+        <Download className="h-4 w-4 mr-2" /> Export {selected.length} entr{selected.length === 1 ? 'y' : 'ies'}
+      </button>
+    </div>
+  );
+};
+
+const ImportExport = ({ entries, profile, onImport }: { entries: Entry[]; profile: ExamProfile; onImport: (plan: ImportPlan) => void }) => {
+  const [step, setStep] = useState<Step>('idle');
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<RawTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [strategy, setStrategy] = useState<DuplicateStrategy>('skip');
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<ImportPlan | null>(null);
+
+  const preview = useMemo(() => table ? buildPreview(table, mapping, entries, profile) : [], [table, mapping, entries, profile]);
+  const plan = useMemo(() => planImport(preview, mapping, strategy, profile), [preview, mapping, strategy, profile]);
+  const duplicates = preview.filter(row => row.duplicateOf && row.errors.length === 0 && row.repeatOf === null).length;
+  const repeats = preview.filter(row => row.repeatOf !== null).length;
+
+  const reset = () => {
+    setStep('idle');
+    setTable(null);
+    setMapping({});
+    setError(null);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    setResult(null);
+    try {
+      const text = await file.text();
+      const isJson = file.name.toLowerCase().endsWith('.json');
+      const parsed = isJson ? readJson(text) : readCsv(text);
+      if (parsed.rows.length === 0) throw new Error('The file has no rows.');
+      setFileName(file.name);
+      setTable(parsed);
+      setMapping(guessMapping(parsed.headers, profile));
+      // JSON keys are our own field names; only CSV headers need mapping.
+      setStep(isJson ? 'preview' : 'mapping');
+    } catch (err) {
+      setError(`Could not read ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleImport = () => {
+    onImport(plan);
+    setResult(plan);
+    setStep('done');
+    setTable(null);
+  };
+
+  return (
+    <div className="bg-surface p-6 rounded-lg border border-border">
+      <h3 className="text-xl font-semibold text-text mb-4 flex items-center"><FileText className="mr-2 h-5 w-5 text-primary" /> Import & Export</h3>
+      <div className="space-y-6">
+        <ExportSection entries={entries} profile={profile} />
+
+        <div className="space-y-3">
+          <p className="text-sm font-medium text-textSecondary">Import</p>
+          {(step === 'idle' || step === 'done') && (
+            <label className="w-full flex items-center justify-center px-4 py-2 border border-dashed border-border rounded-md text-sm font-medium text-textSecondary bg-background hover:border-primary cursor-pointer transition">
+              <Upload className="h-4 w-4 mr-2" /> Choose a CSV or JSON file
+              <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFile} className="hidden" />
+            </label>
+          )}
+          {error && <p className="text-sm text-error flex items-center"><AlertTriangle className="h-4 w-4 mr-2" />{error}</p>}
+          {step === 'done' && result && (
+            <p className="text-sm text-success flex items-center">
+              <CheckCircle2 className="h-4 w-4 mr-2" />
+              Added {result.create.length}, updated {result.update.length}, skipped {result.skipped}, rejected {result.invalid}.
+            </p>
+          )}
+
+          {step === 'mapping' && table && (
+            <div className="space-y-3">
+              <p className="text-xs text-textSecondary">Match the columns in <span className="font-semibold">{fileName}</span> to tracker fields.</p>
+              <div className="grid grid-cols-2 gap-2 max-h-72 overflow-y-auto pr-2">
+                {[{ key: 'id', label: 'Entry ID', required: false }, ...entryFields(profile)].map(({ key, label, required }) => (
+                  <label key={key} className="text-xs text-textSecondary">
+                    {label}{required && <span className="text-error"> *</span>}
+                    <select
+                      value={mapping[key] ?? ''}
+                      onChange={(e) => setMapping(prev => ({ ...prev, [key]: e.target.value || undefined }))}
+                      className={cn(selectClass, 'mt-1')}
+                    >
+                      <option value="">— not imported —</option>
+                      {table.headers.map(header => <option key={header} value={header}>{header}</option>)}
+                    </select>
+                  </label>
+                ))}
+              </div>
+              <div className="flex justify-end space-x-3">
+                <button onClick={reset} className="flex items-center px-3 py-2 border border-border rounded-md text-sm font-medium text-textSecondary bg-surface hover:bg-background transition"><XCircle className="h-4 w-4 mr-2" />Cancel</button>
+                <button onClick={() => setStep('preview')} className="px-3 py-2 rounded-md text-sm font-medium text-primary-foreground bg-primary hover:bg-primary/90 transition">Preview</button>
+              </div>
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <div className="space-y-3">
+              <div className="max-h-72 overflow-y-auto border border-border rounded-md">
+                <table className="min-w-full divide-y divide-border text-xs">
+                  <thead className="bg-surface/50 sticky top-0">
+                    <tr>
+                      {['Row', 'Date', 'Subject', 'Topic', 'Score', 'Status'].map(header => (
+                        <th key={header} className="px-2 py-2 text-left font-medium text-textSecondary uppercase tracking-wider">{header}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="bg-background divide-y divide-border">
+                    {preview.map(row => (
+                      <tr key={row.index} className={cn({ 'bg-red-500/10': row.errors.length > 0 })}>
+                        <td className="px-2 py-1 text-textSecondary">{row.index}</td>
+                        <td className="px-2 py-1 text-text whitespace-nowrap">{String(row.entry.date)}</td>
+                        <td className="px-2 py-1 text-text">{String(row.entry.subject)}</td>
+                        <td className="px-2 py-1 text-text">{row.entry.topic}</td>
+                        <td className="px-2 py-1 text-text whitespace-nowrap">{row.entry.correctAnswers}/{row.entry.questionsAttempted}</td>
+                        <td className="px-2 py-1">
+                          {row.errors.length > 0
+                            ? <ul className="text-error list-disc pl-4">{row.errors.map(err => <li key={err}>{err}</li>)}</ul>
+                            : row.repeatOf !== null
+                              ? <span className="flex items-center text-textSecondary"><Copy className="h-3 w-3 mr-1" />Repeats row {row.repeatOf}</span>
+                              : row.duplicateOf
+                              ? <span className="flex items-center text-warning"><Copy className="h-3 w-3 mr-1" />Duplicate</span>
+                              : <span className="text-success">New</span>}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {duplicates > 0 && (
+                <label className="block text-xs text-textSecondary">
+                  {duplicates} row{duplicates === 1 ? '' : 's'} match existing entries:
+                  <select value={strategy} onChange={(e) => setStrategy(e.target.value as DuplicateStrategy)} className={cn(selectClass, 'mt-1')}>
+                    <option value="skip">Skip duplicates</option>
+                    <option value="merge">Update mapped columns, append learnings</option>
+                    <option value="overwrite">Overwrite existing entries</option>
+                  </select>
+                </label>
+              )}
+              <div className="flex justify-between items-center">
+                <p className="text-xs text-textSecondary">
+                  {plan.invalid} row{plan.invalid === 1 ? '' : 's'} with errors will be left out.
+                  {repeats > 0 && ` ${repeats} repeated row${repeats === 1 ? '' : 's'} will be skipped.`}
+                </p>
+                <div className="flex space-x-3">
+                  <button onClick={() => (fileName.toLowerCase().endsWith('.json') ? reset() : setStep('mapping'))} className="px-3 py-2 border border-border rounded-md text-sm font-medium text-textSecondary bg-surface hover:bg-background transition">Back</button>
+                  <button onClick={handleImport} disabled={plan.create.length + plan.update.length === 0} className="px-3 py-2 rounded-md text-sm font-medium text-primary-foreground bg-primary hover:bg-primary/90 transition disabled:opacity-50 disabled:cursor-not-allowed">
+                    Import {plan.create.length + plan.update.length}
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportExport;
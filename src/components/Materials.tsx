@@ -0,0 +1,230 @@
+import { useState, useMemo } from 'react';
+import { Library, Plus, Trash2, X } from 'lucide-react';
+import type { Entry, MaterialCoverage, StudyMaterial, Subject } from '../types';
+import { cn, createRecordId, formatDate } from '../lib/utils';
+import { MATERIAL_KINDS, formatSetList, materialProgress, materialTotal, parseSetList } from '../lib/materials';
+
+const fieldClass = "bg-background border border-border rounded-md p-2 text-sm text-text focus:ring-2 focus:ring-primary focus:border-primary transition";
+
+const kindLabel = (kind: StudyMaterial['kind']) => MATERIAL_KINDS.find(k => k.id === kind)?.label ?? kind;
+
+// --- CATALOG ---
+const AddSectionForm = ({ onAdd }: { onAdd: (name: string, sets: number) => void }) => {
+  const [name, setName] = useState('');
+  const [sets, setSets] = useState(10);
+  const handleAdd = () => {
+    if (!name.trim() || sets < 1) return;
+    onAdd(name.trim(), sets);
+    setName('');
+  };
+  return (
+    <div className="flex gap-1 mt-1">
+      <input value={name} onChange={(e) => setName(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleAdd()} placeholder="Section, e.g. Arrangements" className={cn(fieldClass, 'flex-1 p-1')} />
+      <input type="number" min={1} value={sets} onChange={(e) => setSets(Math.max(1, Math.round(Number(e.target.value))))} className={cn(fieldClass, 'w-16 p-1')} aria-label="Sets in section" />
+      <button onClick={handleAdd} className="px-2 text-primary hover:bg-background rounded-md" aria-label="Add section"><Plus className="h-4 w-4" /></button>
+    </div>
+  );
+};
+
+export const MaterialsPanel = ({ materials, setMaterials, subjects }: {
+  materials: StudyMaterial[];
+  setMaterials: (update: (materials: StudyMaterial[]) => StudyMaterial[]) => void;
+  subjects: Subject[];
+}) => {
+  const [name, setName] = useState('');
+  const [subject, setSubject] = useState<Subject>(subjects[0]);
+  const [kind, setKind] = useState<StudyMaterial['kind']>('book');
+
+  const handleAdd = () => {
+    if (!name.trim()) return;
+    setMaterials(prev => [...prev, { id: createRecordId(), name: name.trim(), subject, kind, sections: [] }]);
+    setName('');
+  };
+  const updateMaterial = (id: string, update: (material: StudyMaterial) => StudyMaterial) => setMaterials(prev => prev.map(m => (m.id === id ? update(m) : m)));
+
+  return (
+    <div className="bg-surface p-6 rounded-lg border border-border">
+      <h3 className="text-xl font-semibold text-text mb-4 flex items-center"><Library className="mr-2 h-5 w-5 text-primary" /> Study Material</h3>
+      <div className="space-y-4 max-h-96 overflow-y-auto pr-1">
+        {materials.length === 0 && <p className="text-sm text-textSecondary">Add the books, vaults and test series you are working through to track how much of each is left.</p>}
+        {materials.map(material => (
+          <div key={material.id} className="p-3 bg-background rounded-md border border-border">
+            <div className="flex items-start justify-between">
+              <div>
+                <p className="text-sm font-semibold text-text">{material.name}</p>
+                <p className="text-xs text-textSecondary">{material.subject} · {kindLabel(material.kind)} · {materialTotal(material)} sets</p>
+              </div>
+              <button
+                onClick={() => window.confirm(`Remove ${material.name}? Entries keep their coverage but it will no longer be shown.`) && setMaterials(prev => prev.filter(m => m.id !== material.id))}
+                className="text-error hover:text-error/80 transition"
+                aria-label={`Remove ${material.name}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+            <ul className="mt-2 space-y-1">
+              {material.sections.map(section => (
+                <li key={section.id} className="flex items-center justify-between text-xs text-text">
+                  <span>{section.name}</span>
+                  <span className="flex items-center gap-2 text-textSecondary">
+                    {section.sets} sets
+                    <button
+                      onClick={() => updateMaterial(material.id, m => ({ ...m, sections: m.sections.filter(s => s.id !== section.id) }))}
+                      className="hover:text-error"
+                      aria-label={`Remove ${section.name}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                </li>
+              ))}
+            </ul>
+            <AddSectionForm onAdd={(sectionName, sets) => updateMaterial(material.id, m => ({ ...m, sections: [...m.sections, { id: createRecordId(), name: sectionName, sets }] }))} />
+          </div>
+        ))}
+      </div>
+      <div className="mt-4 pt-4 border-t border-border space-y-2">
+        <input value={name} onChange={(e) => setName(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleAdd()} placeholder="Material name, e.g. LR Vault 2026" className={cn(fieldClass, 'w-full')} />
+        <div className="flex gap-2">
+          <select value={subject} onChange={(e) => setSubject(e.target.value)} className={cn(fieldClass, 'flex-1')} aria-label="Subject">
+            {subjects.map(s => <option key={s} value={s}>{s}</option>)}
+          </select>
+          <select value={kind} onChange={(e) => setKind(e.target.value as StudyMaterial['kind'])} className={cn(fieldClass, 'flex-1')} aria-label="Kind">
+            {MATERIAL_KINDS.map(k => <option key={k.id} value={k.id}>{k.label}</option>)}
+          </select>
+          <button onClick={handleAdd} disabled={!name.trim()} className="flex items-center px-3 py-2 text-sm font-medium rounded-md text-primary-foreground bg-primary hover:bg-primary/90 transition disabled:opacity-50">
+            <Plus className="h-4 w-4 mr-1" /> Add
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- ENTRY COVERAGE ---
+export const CoverageField = ({ materials, subject, coverage, onChange }: {
+  materials: StudyMaterial[];
+  subject: Subject;
+  coverage: MaterialCoverage[];
+  onChange: (coverage: MaterialCoverage[]) => void;
+}) => {
+  const options = materials.filter(m => m.subject === subject && m.sections.length > 0);
+  const [materialId, setMaterialId] = useState('');
+  const [sectionId, setSectionId] = useState('');
+  const [text, setText] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const material = options.find(m => m.id === materialId) ?? options[0];
+  const section = material?.sections.find(s => s.id === sectionId) ?? material?.sections[0];
+  const describe = (item: MaterialCoverage) => {
+    const m = materials.find(x => x.id === item.materialId);
+    const s = m?.sections.find(x => x.id === item.sectionId);
+    return m && s ? `${m.name} · ${s.name} · sets ${formatSetList(item.sets)}` : `Unknown material · sets ${formatSetList(item.sets)}`;
+  };
+
+  const handleAdd = () => {
+    if (!material || !section) return;
+    const parsed = parseSetList(text, section.sets);
+    setErrors(parsed.errors);
+    if (parsed.errors.length > 0 || parsed.sets.length === 0) return;
+    const existing = coverage.find(c => c.materialId === material.id && c.sectionId === section.id);
+    onChange(existing
+      ? coverage.map(c => (c === existing ? { ...c, sets: Array.from(new Set([...c.sets, ...parsed.sets])).sort((a, b) => a - b) } : c))
+      : [...coverage, { materialId: material.id, sectionId: section.id, sets: parsed.sets }]);
+    setText('');
+  };
+
+  if (options.length === 0 && coverage.length === 0) return null;
+  return (
+    <div>
+      <label className="block text-sm font-medium text-textSecondary mb-1">Material Covered</label>
+      {coverage.length > 0 && (
+        <ul className="mb-2 space-y-1">
+          {coverage.map(item => (
+            <li key={`${item.materialId}:${item.sectionId}`} className="flex items-center justify-between text-sm text-text bg-background border border-border rounded-md px-2 py-1">
+              {describe(item)}
+              <button type="button" onClick={() => onChange(coverage.filter(c => c !== item))} className="text-textSecondary hover:text-error" aria-label="Remove coverage"><X className="h-4 w-4" /></button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {material && section && (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+          <select value={material.id} onChange={(e) => { setMaterialId(e.target.value); setSectionId(''); }} className={fieldClass} aria-label="Material">
+            {options.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+          </select>
+          <select value={section.id} onChange={(e) => setSectionId(e.target.value)} className={fieldClass} aria-label="Section">
+            {material.sections.map(s => <option key={s.id} value={s.id}>{s.name} ({s.sets})</option>)}
+          </select>
+          <input
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key !== 'Enter' || e.ctrlKey || e.metaKey) return;
+              e.preventDefault();
+              handleAdd();
+            }}
+            placeholder={`Sets, e.g. 1-3, 5 (of ${section.sets})`}
+            className={fieldClass}
+            aria-label="Sets covered"
+          />
+          <button type="button" onClick={handleAdd} className="flex items-center justify-center px-3 py-2 border border-border rounded-md text-sm text-text hover:bg-background transition">
+            <Plus className="h-4 w-4 mr-1" /> Add sets
+          </button>
+        </div>
+      )}
+      {errors.length > 0 && <p className="text-xs text-error mt-1">{errors.join('; ')}</p>}
+    </div>
+  );
+};
+
+// --- DASHBOARD ---
+export const MaterialProgressPanel = ({ materials, entries, examDate }: { materials: StudyMaterial[]; entries: Entry[]; examDate: string | null }) => {
+  const today = formatDate(new Date());
+  const progress = useMemo(
+    () => materials.filter(m => materialTotal(m) > 0).map(m => materialProgress(m, entries, today, examDate)),
+    [materials, entries, today, examDate],
+  );
+  if (progress.length === 0) return null;
+
+  return (
+    <div className="bg-surface p-6 rounded-lg border border-border mt-6">
+      <h3 className="text-xl font-semibold text-text mb-4 flex items-center"><Library className="mr-2 h-5 w-5 text-primary" /> Material Completion</h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {progress.map(p => (
+          <div key={p.material.id} className="p-4 bg-background rounded-md border border-border">
+            <div className="flex items-baseline justify-between mb-1">
+              <p className="text-sm font-semibold text-text">{p.material.name} <span className="text-xs font-normal text-textSecondary">· {p.material.subject}</span></p>
+              <span className="text-sm font-semibold text-text">{p.percent}%</span>
+            </div>
+            <div className="w-full bg-surface rounded-full h-2 mb-2">
+              <div className={cn("h-2 rounded-full", p.percent === 100 ? 'bg-success' : 'bg-primary')} style={{ width: `${p.percent}%` }} />
+            </div>
+            <p className="text-xs text-textSecondary">
+              {p.done} of {p.total} sets · {p.total - p.done} left
+              {p.pace > 0 && ` · ${(p.pace * 7).toFixed(1)} new sets/week`}
+            </p>
+            {p.done < p.total && (
+              <p className={cn("text-xs mt-1", p.finishesBeforeExam === false ? 'text-error' : 'text-textSecondary')}>
+                {p.projectedFinish ? `Finishes around ${new Date(p.projectedFinish).toLocaleDateString()} at this pace` : 'No sets covered in the last four weeks'}
+                {p.finishesBeforeExam === false && p.neededPace !== null && ` — needs ${(p.neededPace * 7).toFixed(1)}/week to finish before the exam`}
+              </p>
+            )}
+            {p.untouched.length > 0 && (
+              <details className="mt-2 text-xs">
+                <summary className="cursor-pointer text-textSecondary">Never attempted ({p.untouched.reduce((sum, u) => sum + u.sets.length, 0)})</summary>
+                <ul className="mt-1 space-y-0.5 text-text">
+                  {p.untouched.map(({ section, sets }) => (
+                    <li key={section.id}>
+                      <span className="text-textSecondary">{section.name}:</span> {formatSetList(sets)}
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,236 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Edit, Trash2, Save, XCircle, ClipboardList } from 'lucide-react';
+import type { MockSection, MockSectionResult, MockTest } from '../types';
+import { cn } from '../lib/utils';
+import { validateMock } from '../lib/schema';
+import { MOCK_SECTIONS, emptySection, mockAccuracy, mockAttempted, mockMaxScore, mockScore, sectionAttempted, sectionScore } from '../lib/mockScoring';
+
+const inputClass = "w-full bg-background border border-border rounded-md p-2 text-text focus:ring-2 focus:ring-primary focus:border-primary transition";
+
+const createInitialMockState = (): Omit<MockTest, 'id'> => ({
+  date: new Date().toISOString().split('T')[0],
+  name: '',
+  sections: { VARC: emptySection('VARC'), DILR: emptySection('DILR'), QA: emptySection('QA') },
+  percentile: null,
+  notes: '',
+});
+
+const SECTION_FIELDS: { field: keyof MockSectionResult; label: string }[] = [
+  { field: 'totalQuestions', label: 'Questions' },
+  { field: 'correct', label: 'Correct' },
+  { field: 'incorrectMcq', label: 'Wrong (MCQ)' },
+  { field: 'incorrectTita', label: 'Wrong (TITA)' },
+  { field: 'timeTaken', label: 'Time (mins)' },
+];
+
+export const MockTestForm = ({ onSave, editingMock, setEditingMock }: { onSave: (mock: Omit<MockTest, 'id'>, id: string | null) => void; editingMock: MockTest | null; setEditingMock: (mock: MockTest | null) => void; }) => {
+  const [formState, setFormState] = useState(createInitialMockState);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    setFormState(editingMock ?? createInitialMockState());
+    setErrors([]);
+  }, [editingMock]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormState(prev => ({
+      ...prev,
+      [name]: name === 'percentile' ? (value === '' ? null : Number(value)) : value,
+    }));
+  };
+
+  const handleSectionChange = (section: MockSection, field: keyof MockSectionResult, value: string) => {
+    setFormState(prev => ({
+      ...prev,
+      sections: { ...prev.sections, [section]: { ...prev.sections[section], [field]: Number(value) } },
+    }));
+  };
+
+  const overAttempted = MOCK_SECTIONS.filter(section => sectionAttempted(formState.sections[section]) > formState.sections[section].totalQuestions);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (overAttempted.length > 0) return;
+    // Anything validateMock rejects would be quarantined on the next load.
+    const problems = [
+      ...(formState.name.trim() ? [] : ['Give the mock a name']),
+      ...validateMock({ ...formState, id: editingMock?.id ?? 'new' }),
+    ];
+    setErrors(problems);
+    if (problems.length > 0) return;
+    onSave({ ...formState, name: formState.name.trim() }, editingMock ? editingMock.id : null);
+    setFormState(createInitialMockState());
+    setEditingMock(null);
+  };
+
+  const handleCancel = () => {
+    setFormState(createInitialMockState());
+    setErrors([]);
+    setEditingMock(null);
+  };
+
+  const preview = { ...formState, id: '' };
+
+  return (
+    <div className="bg-surface p-6 rounded-lg border border-border">
+      <h3 className="text-xl font-semibold text-text mb-4">{editingMock ? 'Edit Mock' : 'Log a Mock Test'}</h3>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-textSecondary mb-1">Date</label>
+            <input type="date" name="date" value={formState.date} onChange={handleChange} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-textSecondary mb-1">Mock Name</label>
+            <input name="name" value={formState.name} onChange={handleChange} placeholder="e.g., SimCAT 5" className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-textSecondary mb-1">Percentile (optional)</label>
+            <input type="number" name="percentile" min="0" max="100" step="0.01" value={formState.percentile ?? ''} onChange={handleChange} className={inputClass} />
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr>
+                <th className="px-2 py-2 text-left text-xs font-medium text-textSecondary uppercase tracking-wider">Section</th>
+                {SECTION_FIELDS.map(({ label }) => (
+                  <th key={label} className="px-2 py-2 text-left text-xs font-medium text-textSecondary uppercase tracking-wider">{label}</th>
+                ))}
+                <th className="px-2 py-2 text-left text-xs font-medium text-textSecondary uppercase tracking-wider">Score</th>
+              </tr>
+            </thead>
+            <tbody>
+              {MOCK_SECTIONS.map(section => (
+                <tr key={section}>
+                  <td className={cn("px-2 py-1 font-medium", overAttempted.includes(section) ? 'text-error' : 'text-primary')}>{section}</td>
+                  {SECTION_FIELDS.map(({ field }) => (
+                    <td key={field} className="px-2 py-1">
+                      <input
+                        type="number"
+                        min="0"
+                        value={formState.sections[section][field]}
+                        onChange={(e) => handleSectionChange(section, field, e.target.value)}
+                        className="w-20 bg-background border border-border rounded-md p-1 text-text text-center"
+                      />
+                    </td>
+                  ))}
+                  <td className="px-2 py-1 font-semibold text-text">{sectionScore(formState.sections[section])}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {overAttempted.length > 0 && <p className="text-sm text-error">Attempts exceed the number of questions in {overAttempted.join(', ')}.</p>}
+        {errors.length > 0 && (
+          <ul className="text-sm text-error list-disc pl-5">
+            {errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+        <p className="text-sm text-textSecondary">
+          Total: <span className="font-bold text-text">{mockScore(preview)}</span> / {mockMaxScore(preview)} · {mockAttempted(preview)} attempted
+        </p>
+        <div>
+          <label className="block text-sm font-medium text-textSecondary mb-1">Analysis Notes</label>
+          <textarea name="notes" value={formState.notes} onChange={handleChange} rows={2} className={inputClass} placeholder="e.g., Spent too long on the second DILR set..."></textarea>
+        </div>
+        <div className="flex justify-end space-x-3 pt-2">
+          {editingMock && <button type="button" onClick={handleCancel} className="flex items-center justify-center px-4 py-2 border border-border rounded-md shadow-sm text-sm font-medium text-textSecondary bg-surface hover:bg-background transition"><XCircle className="h-4 w-4 mr-2" />Cancel</button>}
+          <button type="submit" className="flex items-center justify-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-primary-foreground bg-primary hover:bg-primary/90 transition"><Save className="h-4 w-4 mr-2" />{editingMock ? 'Update Mock' : 'Save Mock'}</button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export const MocksTable = ({ mocks, onEdit, onDelete }: { mocks: MockTest[]; onEdit: (mock: MockTest) => void; onDelete: (id: string) => void; }) => (
+  <div className="bg-surface rounded-lg border border-border mt-6 overflow-x-auto">
+    <table className="min-w-full divide-y divide-border">
+      <thead className="bg-surface/50">
+        <tr>
+          {['Date', 'Mock', ...MOCK_SECTIONS, 'Total', 'Accuracy', 'Percentile', 'Actions'].map(header => (
+            <th key={header} scope="col" className="px-6 py-3 text-left text-xs font-medium text-textSecondary uppercase tracking-wider">{header}</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody className="bg-background divide-y divide-border">
+        {mocks.length > 0 ? mocks.map(mock => (
+          <tr key={mock.id} className="hover:bg-surface/50 transition-colors">
+            <td className="px-6 py-4 whitespace-nowrap text-sm text-text">{new Date(mock.date).toLocaleDateString()}</td>
+            <td className="px-6 py-4 whitespace-nowrap text-sm text-text font-medium">{mock.name || '—'}</td>
+            {MOCK_SECTIONS.map(section => (
+              <td key={section} className="px-6 py-4 whitespace-nowrap text-sm text-text" title={`${mock.sections[section].correct} correct, ${mock.sections[section].incorrectMcq + mock.sections[section].incorrectTita} wrong`}>
+                {sectionScore(mock.sections[section])}
+              </td>
+            ))}
+            <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-primary">{mockScore(mock)} / {mockMaxScore(mock)}</td>
+            <td className="px-6 py-4 whitespace-nowrap text-sm text-text">{mockAccuracy(mock).toFixed(2)}%</td>
+            <td className="px-6 py-4 whitespace-nowrap text-sm text-text">{mock.percentile !== null ? mock.percentile.toFixed(2) : '—'}</td>
+            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+              <div className="flex items-center space-x-3">
+                <button onClick={() => onEdit(mock)} className="text-primary hover:text-primary/80 transition"><Edit className="h-4 w-4" /></button>
+                <button onClick={() => onDelete(mock.id)} className="text-error hover:text-error/80 transition"><Trash2 className="h-4 w-4" /></button>
+              </div>
+            </td>
+          </tr>
+        )) : (
+          <tr>
+            <td colSpan={MOCK_SECTIONS.length + 5} className="text-center py-10 text-textSecondary">No mocks logged yet.</td>
+          </tr>
+        )}
+      </tbody>
+    </table>
+  </div>
+);
+
+export const MockTrendCharts = ({ mocks }: { mocks: MockTest[] }) => {
+  const chartData = useMemo(() => [...mocks]
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .map(mock => ({
+      name: mock.name || new Date(mock.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+      Score: mockScore(mock),
+      ...Object.fromEntries(MOCK_SECTIONS.map(section => [section, sectionScore(mock.sections[section])])),
+      Percentile: mock.percentile,
+    })), [mocks]);
+
+  const colors = { text: '#64748b', grid: '#e2e8f0', tooltipBg: '#ffffff', tooltipBorder: '#e2e8f0', primary: 'hsl(var(--primary))', success: 'hsl(var(--success))', secondary: '#0ea5e9', warning: 'hsl(var(--warning))', accent: 'hsl(var(--accent))' };
+  const sectionColors: Record<MockSection, string> = { VARC: colors.secondary, DILR: colors.warning, QA: colors.accent };
+
+  if (mocks.length === 0) return null;
+
+  return (
+    <div className="mt-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <div className="bg-surface p-5 rounded-lg border border-border">
+        <h3 className="text-lg font-semibold text-text mb-4 flex items-center"><ClipboardList className="mr-2 h-5 w-5 text-primary" /> Mock Score Trend</h3>
+        <ResponsiveContainer width="100%" height={300}>
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke={colors.grid} />
+            <XAxis dataKey="name" stroke={colors.text} />
+            <YAxis stroke={colors.text} />
+            <Tooltip contentStyle={{ backgroundColor: colors.tooltipBg, border: `1px solid ${colors.tooltipBorder}` }} itemStyle={{ color: colors.text }} labelStyle={{ color: colors.text }} />
+            <Legend />
+            <Line type="monotone" dataKey="Score" stroke={colors.primary} strokeWidth={2} dot={{ r: 4 }} activeDot={{ r: 8 }} />
+            {MOCK_SECTIONS.map(section => (
+              <Line key={section} type="monotone" dataKey={section} stroke={sectionColors[section]} strokeWidth={1} strokeDasharray="4 2" dot={false} />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="bg-surface p-5 rounded-lg border border-border">
+        <h3 className="text-lg font-semibold text-text mb-4">Percentile Trend</h3>
+        <ResponsiveContainer width="100%" height={300}>
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke={colors.grid} />
+            <XAxis dataKey="name" stroke={colors.text} />
+            <YAxis stroke={colors.text} domain={[0, 100]} />
+            <Tooltip contentStyle={{ backgroundColor: colors.tooltipBg, border: `1px solid ${colors.tooltipBorder}` }} itemStyle={{ color: colors.text }} labelStyle={{ color: colors.text }} />
+            <Legend />
+            <Line type="monotone" dataKey="Percentile" stroke={colors.success} strokeWidth={2} dot={{ r: 4 }} activeDot={{ r: 8 }} connectNulls />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
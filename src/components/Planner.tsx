@@ -0,0 +1,190 @@
+import { useState } from 'react';
+import { CalendarClock, ChevronLeft, ChevronRight, Copy, Plus, Trash2, Hourglass, ListChecks } from 'lucide-react';
+import type { Entry, ExamProfile, PlanTarget, PlannerData, SetType, Subject } from '../types';
+import { addDays, cn, createRecordId, daysUntil, formatDate } from '../lib/utils';
+import { setCategoryLabel } from '../lib/examProfiles';
+import {
+  WEEKDAYS, copyWeek, getWeekPlan, todayProgress, updateDay, weekDates, weekStartOf, weekTotals,
+} from '../lib/planner';
+
+const fieldClass = "bg-background border border-border rounded-md p-1 text-sm text-text focus:ring-2 focus:ring-primary focus:border-primary transition";
+
+const describeTarget = (target: PlanTarget, profile: ExamProfile) => `${target.sets} ${setCategoryLabel(profile, target.setType)} · ${target.subject}${target.topic ? ` · ${target.topic}` : ''}`;
+
+const ExamCountdown = ({ examDate }: { examDate: string | null }) => {
+  if (!examDate) return null;
+  const days = daysUntil(examDate);
+  return (
+    <span className="flex items-center text-sm font-semibold text-accent">
+      <Hourglass className="h-4 w-4 mr-1" />
+      {days > 0 ? `${days} day${days === 1 ? '' : 's'} to exam` : days === 0 ? 'Exam day' : 'Exam done'}
+    </span>
+  );
+};
+
+const AddTargetForm = ({ profile, onAdd }: { profile: ExamProfile; onAdd: (target: PlanTarget) => void }) => {
+  const [subject, setSubject] = useState<Subject>(profile.subjects[0]);
+  const [setType, setSetType] = useState<SetType>(profile.setCategories[0].id);
+  const [sets, setSets] = useState(2);
+  const [topic, setTopic] = useState('');
+
+  const handleAdd = () => {
+    if (sets <= 0) return;
+    onAdd({ id: createRecordId(), subject, setType, sets, topic: topic.trim() || undefined });
+    setTopic('');
+  };
+
+  return (
+    <div className="space-y-1 pt-2 border-t border-border">
+      <div className="flex gap-1">
+        <select value={subject} onChange={(e) => setSubject(e.target.value as Subject)} className={cn(fieldClass, 'flex-1')}>
+          {profile.subjects.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <input type="number" min="1" value={sets} onChange={(e) => setSets(Number(e.target.value))} className={cn(fieldClass, 'w-12 text-center')} aria-label="Sets" />
+      </div>
+      <select value={setType} onChange={(e) => setSetType(e.target.value as SetType)} className={cn(fieldClass, 'w-full')}>
+        {profile.setCategories.map(c => <option key={c.id} value={c.id}>{c.label} sets</option>)}
+      </select>
+      <div className="flex gap-1">
+        <input value={topic} onChange={(e) => setTopic(e.target.value)} placeholder="Topic (optional)" className={cn(fieldClass, 'flex-1 min-w-0')} />
+        <button onClick={handleAdd} className="p-1 rounded-md text-primary-foreground bg-primary hover:bg-primary/90 transition" aria-label="Add target"><Plus className="h-4 w-4" /></button>
+      </div>
+    </div>
+  );
+};
+
+export const PlannerView = ({ planner, setPlanner, profile }: { planner: PlannerData; setPlanner: (planner: PlannerData) => void; profile: ExamProfile }) => {
+  const today = formatDate(new Date());
+  const [weekStart, setWeekStart] = useState(() => weekStartOf(today));
+  const plan = getWeekPlan(planner, weekStart);
+  const dates = weekDates(weekStart);
+  const previousWeek = addDays(weekStart, -7);
+  const weekTotal = plan.days.flat().reduce((sum, t) => sum + t.sets, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-surface p-5 rounded-lg border border-border flex flex-wrap items-center justify-between gap-4">
+        <h3 className="text-xl font-semibold text-text flex items-center"><CalendarClock className="mr-2 h-5 w-5 text-primary" /> Study Planner</h3>
+        <div className="flex items-center gap-4">
+          <label className="text-sm text-textSecondary flex items-center gap-2">
+            Exam date
+            <input type="date" value={planner.examDate ?? ''} onChange={(e) => setPlanner({ ...planner, examDate: e.target.value || null })} className={fieldClass} />
+          </label>
+          <ExamCountdown examDate={planner.examDate} />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center">
+          <button onClick={() => setWeekStart(previousWeek)} className="p-2 rounded-full hover:bg-background"><ChevronLeft className="h-5 w-5 text-textSecondary" /></button>
+          <span className="text-lg font-semibold text-text mx-2">
+            Week of {new Date(weekStart).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+          </span>
+          <button onClick={() => setWeekStart(addDays(weekStart, 7))} className="p-2 rounded-full hover:bg-background"><ChevronRight className="h-5 w-5 text-textSecondary" /></button>
+          <span className="text-sm text-textSecondary ml-2">{weekTotal} sets planned</span>
+        </div>
+        <div className="flex gap-2">
+          {planner.weeks[previousWeek] && (
+            <button onClick={() => setPlanner(copyWeek(planner, previousWeek, weekStart))} className="flex items-center px-3 py-2 border border-border rounded-md text-sm font-medium text-textSecondary bg-surface hover:bg-background transition">
+              <Copy className="h-4 w-4 mr-2" /> Copy previous week
+            </button>
+          )}
+          {weekTotal > 0 && (
+            <button
+              onClick={() => window.confirm('Clear every target for this week?') && setPlanner({ ...planner, weeks: Object.fromEntries(Object.entries(planner.weeks).filter(([key]) => key !== weekStart)) })}
+              className="flex items-center px-3 py-2 border border-border rounded-md text-sm font-medium text-error bg-surface hover:bg-background transition"
+            >
+              <Trash2 className="h-4 w-4 mr-2" /> Clear week
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-7 gap-3">
+        {WEEKDAYS.map((day, i) => (
+          <div key={day} className={cn("bg-surface p-3 rounded-lg border space-y-2", dates[i] === today ? 'border-primary' : 'border-border')}>
+            <p className="text-sm font-semibold text-text">{day} <span className="text-xs font-normal text-textSecondary">{new Date(dates[i]).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}</span></p>
+            {plan.days[i].map(target => (
+              <div key={target.id} className="flex items-start justify-between text-xs p-1.5 bg-background rounded-md border border-border">
+                <span className="text-text">{describeTarget(target, profile)}</span>
+                <button onClick={() => setPlanner(updateDay(planner, weekStart, i, targets => targets.filter(t => t.id !== target.id)))} className="text-error hover:text-error/80 ml-1"><Trash2 className="h-3 w-3" /></button>
+              </div>
+            ))}
+            <AddTargetForm profile={profile} onAdd={target => setPlanner(updateDay(planner, weekStart, i, targets => [...targets, target]))} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const ProgressRow = ({ label, done, planned, note }: { label: string; done: number; planned: number; note?: string }) => {
+  const progress = planned > 0 ? Math.min((done / planned) * 100, 100) : 0;
+  return (
+    <div>
+      <div className="flex justify-between text-sm">
+        <span className="text-text">{label}{note && <span className="text-xs text-textSecondary ml-2">{note}</span>}</span>
+        <span className={cn("font-semibold", done >= planned ? 'text-success' : 'text-textSecondary')}>{done} / {planned}</span>
+      </div>
+      <div className="w-full bg-background rounded-full h-2 border border-border mt-1">
+        <div className={cn("h-2 rounded-full transition-all duration-500", done >= planned ? 'bg-success' : 'bg-primary')} style={{ width: `${progress}%` }}></div>
+      </div>
+    </div>
+  );
+};
+
+export const PlanProgress = ({ planner, entries, profile, onOpenPlanner }: { planner: PlannerData; entries: Entry[]; profile: ExamProfile; onOpenPlanner: () => void }) => {
+  const today = formatDate(new Date());
+  const plan = planner.weeks[weekStartOf(today)];
+
+  if (!plan || plan.days.every(day => day.length === 0)) {
+    return (
+      <div className="bg-surface p-5 rounded-lg border border-border flex items-center justify-between">
+        <p className="text-sm text-textSecondary">No study plan for this week yet.</p>
+        <div className="flex items-center gap-4">
+          <ExamCountdown examDate={planner.examDate} />
+          <button onClick={onOpenPlanner} className="text-sm text-primary hover:underline">Plan this week</button>
+        </div>
+      </div>
+    );
+  }
+
+  const { planned, carried } = todayProgress(plan, entries, today);
+  const totals = weekTotals(plan, entries, today);
+
+  return (
+    <div className="bg-surface p-5 rounded-lg border border-border">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-text flex items-center"><ListChecks className="mr-2 h-5 w-5 text-primary" /> Plan vs. Actual</h3>
+        <div className="flex items-center gap-4">
+          <ExamCountdown examDate={planner.examDate} />
+          <button onClick={onOpenPlanner} className="text-sm text-primary hover:underline">Edit plan</button>
+        </div>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          <p className="text-sm font-medium text-textSecondary">Today</p>
+          {planned.length === 0 && carried.length === 0 && <p className="text-sm text-textSecondary">Rest day — nothing planned.</p>}
+          {planned.map(({ target, done }) => (
+            <ProgressRow key={target.id} label={describeTarget(target, profile)} done={done} planned={target.sets} />
+          ))}
+          {carried.map(({ target, done, from }) => (
+            <ProgressRow key={target.id} label={describeTarget(target, profile)} done={done} planned={target.sets} note={`carried over from ${from.join(', ')}`} />
+          ))}
+        </div>
+        <div className="space-y-3">
+          <p className="text-sm font-medium text-textSecondary">This week</p>
+          {Array.from(totals.entries()).map(([subject, total]) => (
+            <ProgressRow
+              key={subject}
+              label={subject}
+              done={total.done}
+              planned={total.planned}
+              note={total.done < total.plannedToDate ? `${total.plannedToDate - total.done} behind` : undefined}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,204 @@
+import { useState, useEffect } from 'react';
+import { ListChecks, Plus, Trash2, XCircle, ImagePlus, Loader } from 'lucide-react';
+import type { Entry, ErrorCategory, QuestionLog, QuestionResult } from '../types';
+import { cn, createRecordId } from '../lib/utils';
+import { ERROR_CATEGORIES, QUESTION_RESULTS, errorCategoryLabel, latestResult, questionResultLabel } from '../lib/questionLog';
+import { loadQuestionImage, saveQuestionImage } from '../lib/questionImages';
+
+const fieldClass = "w-full bg-background border border-border rounded-md p-2 text-sm text-text focus:ring-2 focus:ring-primary focus:border-primary transition";
+
+const SOURCE_KINDS: { id: QuestionLog['source']['kind']; label: string }[] = [
+  { id: 'book', label: 'Book' },
+  { id: 'mock', label: 'Mock' },
+  { id: 'set', label: 'Set' },
+];
+
+const resultClass: Record<QuestionResult, string> = {
+  correct: 'text-success',
+  wrong: 'text-error',
+  skipped: 'text-textSecondary',
+  guessed: 'text-warning',
+};
+
+type QuestionDraft = Omit<QuestionLog, 'id' | 'retries' | 'imageId'>;
+
+const blankQuestion = (previous?: QuestionLog): QuestionDraft => ({
+  // Questions are usually logged in a run from the same source.
+  source: previous ? { ...previous.source } : { kind: 'set', ref: '' },
+  type: previous?.type ?? 'mcq',
+  result: 'wrong',
+  timeSpent: 0,
+  notes: '',
+});
+
+export const QuestionImage = ({ studentId, imageId, className }: { studentId: string; imageId: string; className?: string }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [missing, setMissing] = useState(false);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    loadQuestionImage(studentId, imageId)
+      .then(blob => {
+        if (cancelled) return;
+        if (!blob) return setMissing(true);
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(() => !cancelled && setMissing(true));
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [studentId, imageId]);
+
+  if (missing) return <span className="text-xs text-textSecondary">Image not on this device</span>;
+  if (!url) return <Loader className="h-4 w-4 animate-spin text-textSecondary" />;
+  return (
+    <a href={url} target="_blank" rel="noreferrer">
+      <img src={url} alt="Question" className={cn("rounded border border-border object-contain", className)} />
+    </a>
+  );
+};
+
+const QuestionLogPanel = ({ entry, studentId, onUpdate, onClose }: {
+  entry: Entry;
+  studentId: string;
+  onUpdate: (label: string, update: (questions: QuestionLog[]) => QuestionLog[]) => void;
+  onClose: () => void;
+}) => {
+  const questions = entry.questions ?? [];
+  const [draft, setDraft] = useState<QuestionDraft>(() => blankQuestion(questions[questions.length - 1]));
+  const [image, setImage] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (patch: Partial<QuestionDraft>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSaving(true);
+    try {
+      const imageId = image ? await saveQuestionImage(studentId, image) : undefined;
+      const question: QuestionLog = {
+        ...draft,
+        id: createRecordId(),
+        source: { ...draft.source, ref: draft.source.ref.trim() },
+        notes: draft.notes.trim(),
+        // A correct answer has no error to categorize.
+        errorCategory: draft.result === 'correct' ? undefined : draft.errorCategory,
+        ...(imageId && { imageId }),
+        retries: [],
+      };
+      onUpdate('Log question', prev => [...prev, question]);
+      setDraft(blankQuestion(question));
+      setImage(null);
+    } catch (err) {
+      setError(`Could not save the image: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // The image is kept so that undoing the removal brings it back too.
+  const handleRemove = (question: QuestionLog) => onUpdate('Remove question', prev => prev.filter(q => q.id !== question.id));
+
+  return (
+    <div className="bg-surface p-6 rounded-lg border border-border mt-4">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-semibold text-text flex items-center">
+          <ListChecks className="mr-2 h-5 w-5 text-primary" /> Questions · {new Date(entry.date).toLocaleDateString()} · {entry.subject} {entry.topic && `· ${entry.topic}`}
+        </h3>
+        <button onClick={onClose} className="text-textSecondary hover:text-text transition" aria-label="Close question log"><XCircle className="h-5 w-5" /></button>
+      </div>
+
+      {questions.length > 0 ? (
+        <div className="overflow-x-auto mb-6">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-textSecondary uppercase tracking-wider">
+                <th className="py-2 pr-4">Source</th>
+                <th className="py-2 pr-4">Type</th>
+                <th className="py-2 pr-4">Result</th>
+                <th className="py-2 pr-4">Time</th>
+                <th className="py-2 pr-4">Error</th>
+                <th className="py-2 pr-4">Notes</th>
+                <th className="py-2 pr-4">Image</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {questions.map(q => (
+                <tr key={q.id} className="align-top">
+                  <td className="py-2 pr-4 text-text whitespace-nowrap">{SOURCE_KINDS.find(k => k.id === q.source.kind)?.label} {q.source.ref}</td>
+                  <td className="py-2 pr-4 text-text uppercase">{q.type}</td>
+                  <td className="py-2 pr-4 whitespace-nowrap">
+                    <span className={resultClass[q.result]}>{questionResultLabel(q.result)}</span>
+                    {q.retries.length > 0 && (
+                      <span className="block text-xs text-textSecondary">
+                        {q.retries.length} retr{q.retries.length === 1 ? 'y' : 'ies'}, last {questionResultLabel(latestResult(q)).toLowerCase()}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-2 pr-4 text-text whitespace-nowrap">{q.timeSpent}s</td>
+                  <td className="py-2 pr-4 text-text whitespace-nowrap">{q.errorCategory ? errorCategoryLabel(q.errorCategory) : '—'}</td>
+                  <td className="py-2 pr-4 text-text max-w-xs whitespace-pre-wrap">{q.notes || '—'}</td>
+                  <td className="py-2 pr-4">{q.imageId ? <QuestionImage studentId={studentId} imageId={q.imageId} className="h-12 w-20" /> : '—'}</td>
+                  <td className="py-2">
+                    <button onClick={() => handleRemove(q)} className="text-error hover:text-error/80 transition" aria-label="Remove question"><Trash2 className="h-4 w-4" /></button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-sm text-textSecondary mb-6">No questions logged for this entry yet. Log the ones worth learning from; the entry's counts are unaffected.</p>
+      )}
+
+      <form onSubmit={handleAdd} className="space-y-3">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          <select value={draft.source.kind} onChange={(e) => update({ source: { ...draft.source, kind: e.target.value as QuestionLog['source']['kind'] } })} className={fieldClass} aria-label="Source">
+            {SOURCE_KINDS.map(k => <option key={k.id} value={k.id}>{k.label}</option>)}
+          </select>
+          <input value={draft.source.ref} onChange={(e) => update({ source: { ...draft.source, ref: e.target.value } })} placeholder="Reference, e.g. Arun Sharma p.212 Q4" className={cn(fieldClass, 'md:col-span-2')} />
+          <select value={draft.type} onChange={(e) => update({ type: e.target.value as QuestionLog['type'] })} className={fieldClass} aria-label="Question type">
+            <option value="mcq">MCQ</option>
+            <option value="tita">TITA</option>
+          </select>
+          <input type="number" min={0} value={draft.timeSpent} onChange={(e) => update({ timeSpent: Math.max(0, Number(e.target.value)) })} className={fieldClass} aria-label="Seconds spent" title="Seconds spent" />
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          <select value={draft.result} onChange={(e) => update({ result: e.target.value as QuestionResult })} className={fieldClass} aria-label="Result">
+            {QUESTION_RESULTS.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+          </select>
+          <select
+            value={draft.errorCategory ?? ''}
+            onChange={(e) => update({ errorCategory: (e.target.value || undefined) as ErrorCategory | undefined })}
+            disabled={draft.result === 'correct'}
+            className={cn(fieldClass, 'disabled:opacity-50')}
+            aria-label="Error category"
+          >
+            <option value="">No error category</option>
+            {ERROR_CATEGORIES.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+          </select>
+          <input value={draft.notes} onChange={(e) => update({ notes: e.target.value })} placeholder="Notes" className={cn(fieldClass, 'md:col-span-2')} />
+          <label className="flex items-center justify-center px-3 py-2 border border-border rounded-md text-sm text-textSecondary hover:bg-background transition cursor-pointer truncate">
+            <ImagePlus className="h-4 w-4 mr-2 shrink-0" /> <span className="truncate">{image ? image.name : 'Attach image'}</span>
+            <input type="file" accept="image/*" onChange={(e) => setImage(e.target.files?.[0] ?? null)} className="hidden" />
+          </label>
+        </div>
+        {error && <p className="text-xs text-error">{error}</p>}
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-textSecondary">Images stay on this device and are not included in exports or sync.</p>
+          <button type="submit" disabled={saving} className="flex items-center px-4 py-2 text-sm font-medium rounded-md text-primary-foreground bg-primary hover:bg-primary/90 transition disabled:opacity-50">
+            {saving ? <Loader className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />} Log question
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default QuestionLogPanel;
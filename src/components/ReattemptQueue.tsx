@@ -0,0 +1,75 @@
+import { useState, useMemo } from 'react';
+import { RotateCcw } from 'lucide-react';
+import type { Entry, QuestionResult, QuestionRetry } from '../types';
+import { cn, formatDate } from '../lib/utils';
+import { QUESTION_RESULTS, errorCategoryLabel, reattemptQueue } from '../lib/questionLog';
+import { QuestionImage } from './QuestionLogPanel';
+
+const RESULT_BUTTONS: Record<QuestionResult, string> = {
+  correct: 'border-success text-success hover:bg-success/10',
+  wrong: 'border-error text-error hover:bg-error/10',
+  skipped: 'border-border text-textSecondary hover:bg-background',
+  guessed: 'border-warning text-warning hover:bg-warning/10',
+};
+
+const ReattemptQueue = ({ entries, studentId, onRetry }: {
+  entries: Entry[];
+  studentId: string;
+  onRetry: (entryId: string, questionId: string, retry: QuestionRetry) => void;
+}) => {
+  const queue = useMemo(() => reattemptQueue(entries), [entries]);
+  const [seconds, setSeconds] = useState(0);
+  const current = queue[0];
+
+  const handleResult = (result: QuestionResult) => {
+    if (!current) return;
+    onRetry(current.entry.id, current.question.id, { date: formatDate(new Date()), result, timeSpent: seconds });
+    setSeconds(0);
+  };
+
+  return (
+    <div className="bg-surface p-6 rounded-lg border border-border mt-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-semibold text-text flex items-center"><RotateCcw className="mr-2 h-5 w-5 text-primary" /> Re-attempt Queue</h3>
+        <span className="text-sm text-textSecondary">{queue.length} wrong question{queue.length === 1 ? '' : 's'}</span>
+      </div>
+      {current ? (
+        <div className="space-y-4">
+          <div className="p-4 bg-background rounded-md border border-border space-y-2">
+            <p className="text-xs text-textSecondary">
+              <span className="font-medium text-primary mr-2">{current.entry.subject}</span>
+              {current.entry.topic || 'Untagged'} · {current.question.source.kind} {current.question.source.ref || '(no reference)'} · {current.question.type.toUpperCase()}
+              {current.question.retries.length > 0 && ` · ${current.question.retries.length} earlier retr${current.question.retries.length === 1 ? 'y' : 'ies'}`}
+            </p>
+            {current.question.errorCategory && <p className="text-sm text-text">Went wrong: {errorCategoryLabel(current.question.errorCategory)}</p>}
+            {current.question.notes && <p className="text-sm text-text whitespace-pre-wrap">{current.question.notes}</p>}
+            {current.question.imageId && <QuestionImage studentId={studentId} imageId={current.question.imageId} className="max-h-64" />}
+            <p className="text-xs text-textSecondary">First attempt took {current.question.timeSpent}s on {new Date(current.entry.date).toLocaleDateString()}.</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="flex items-center gap-2 text-sm text-textSecondary mr-2">
+              Seconds
+              <input
+                type="number"
+                min={0}
+                value={seconds}
+                onChange={(e) => setSeconds(Math.max(0, Number(e.target.value)))}
+                className="w-20 bg-background border border-border rounded-md p-2 text-sm text-text focus:ring-2 focus:ring-primary focus:border-primary transition"
+              />
+            </label>
+            {QUESTION_RESULTS.map(({ id, label }) => (
+              <button key={id} onClick={() => handleResult(id)} className={cn("px-3 py-2 border rounded-md text-sm font-semibold transition", RESULT_BUTTONS[id])}>
+                {label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-textSecondary">A question leaves the queue once a retry gets it right.</p>
+        </div>
+      ) : (
+        <p className="text-sm text-textSecondary text-center py-4">No wrong questions waiting. Log questions from an entry's question log to fill this queue.</p>
+      )}
+    </div>
+  );
+};
+
+export default ReattemptQueue;
@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { Bell, BellOff, Download, CheckCircle } from 'lucide-react';
+import type { Entry, ReminderSettings } from '../types';
+import { cn } from '../lib/utils';
+import { notificationSupport, reminderMessage, showReminder } from '../lib/reminders';
+import { promptInstall } from '../lib/pwa';
+import { usePwa } from '../hooks/usePwa';
+
+const fieldClass = "bg-background border border-border rounded-md p-2 text-text focus:ring-2 focus:ring-primary focus:border-primary transition";
+
+const ReminderPanel = ({ settings, setSettings, entries, dailyTarget }: {
+  settings: ReminderSettings;
+  setSettings: (settings: ReminderSettings) => void;
+  entries: Entry[];
+  dailyTarget: number;
+}) => {
+  const { canInstall, installed } = usePwa();
+  const [permission, setPermission] = useState(notificationSupport);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleToggle = async () => {
+    setError(null);
+    if (settings.enabled) {
+      setSettings({ ...settings, enabled: false });
+      return;
+    }
+    const result = permission === 'default' ? await Notification.requestPermission() : permission;
+    setPermission(result);
+    if (result === 'granted') setSettings({ ...settings, enabled: true });
+  };
+
+  const handleTest = () => {
+    const { title, body } = reminderMessage(entries, dailyTarget);
+    showReminder(title, body).catch(err => setError(`Could not show a notification: ${err instanceof Error ? err.message : String(err)}`));
+  };
+
+  return (
+    <div className="bg-surface p-6 rounded-lg border border-border">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-semibold text-text flex items-center"><Bell className="mr-2 h-5 w-5 text-primary" /> Reminders</h3>
+        {canInstall && (
+          <button onClick={() => promptInstall()} className="flex items-center text-sm text-primary hover:underline">
+            <Download className="h-4 w-4 mr-1" /> Install app
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-textSecondary mb-3 flex items-center">
+        <CheckCircle className="h-3 w-3 mr-1 text-success" /> {installed ? 'Installed. ' : ''}Works offline once loaded; entries are saved on this device.
+      </p>
+
+      {permission === 'unsupported' ? (
+        <p className="text-sm text-textSecondary">This browser cannot show notifications.</p>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleToggle}
+              disabled={permission === 'denied' && !settings.enabled}
+              className={cn(
+                "flex items-center px-3 py-2 text-sm font-semibold rounded-md transition disabled:opacity-50",
+                settings.enabled ? 'bg-primary text-primary-foreground hover:bg-primary/90' : 'border border-border text-text hover:bg-background'
+              )}
+            >
+              {settings.enabled ? <Bell className="h-4 w-4 mr-2" /> : <BellOff className="h-4 w-4 mr-2" />}
+              {settings.enabled ? 'On' : 'Off'}
+            </button>
+            <label className="flex items-center gap-2 text-sm text-textSecondary">
+              Daily at
+              <input
+                type="time"
+                value={settings.time}
+                onChange={(e) => e.target.value && setSettings({ ...settings, time: e.target.value })}
+                className={fieldClass}
+              />
+            </label>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-text">
+            <input type="checkbox" checked={settings.onlyIfBehind} onChange={(e) => setSettings({ ...settings, onlyIfBehind: e.target.checked })} className="h-4 w-4 rounded border-border text-primary focus:ring-primary" />
+            Only when the daily target of {dailyTarget} sets is not met
+          </label>
+          {permission === 'denied' && (
+            <p className="text-xs text-error">Notifications are blocked for this site. Allow them in the browser's site settings to use reminders.</p>
+          )}
+          {settings.enabled && (
+            <div className="flex items-center justify-between">
+              <p className="text-xs text-textSecondary">Fires while the tracker is open or in the background; a missed one shows when you next open it.</p>
+              <button onClick={handleTest} className="text-sm text-primary hover:underline whitespace-nowrap ml-2">Send test</button>
+            </div>
+          )}
+          {error && <p className="text-xs text-error">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReminderPanel;
@@ -0,0 +1,237 @@
+import { useMemo, useState } from 'react';
+import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { FileText, Printer, Download, Target, AlertTriangle, BookOpen } from 'lucide-react';
+import type { CanonicalTopic, Entry, ExamProfile, StreakSettings } from '../types';
+import { cn } from '../lib/utils';
+import { downloadFile } from '../lib/importExport';
+import {
+  REPORT_PRESETS, adherenceRate, buildReport, formatRange, formatReportDate, formatValue, presetRange, reportFileName, reportToMarkdown, summaryRows,
+  type ReportPreset, type ReportRange,
+} from '../lib/reports';
+
+const fieldClass = "bg-background border border-border rounded-md p-2 text-sm text-text focus:ring-2 focus:ring-primary focus:border-primary transition";
+const sectionClass = "break-inside-avoid";
+const headingClass = "text-lg font-semibold text-text mb-3 flex items-center";
+const thClass = "px-3 py-2 text-left text-xs font-medium text-textSecondary uppercase tracking-wider";
+
+// The toolbar is hidden when printing, leaving only the report itself (see
+// the print rules in index.css).
+const ReportView = ({ student, profile, entries, catalog, dailyTarget, streakSettings }: {
+  student: string;
+  profile: ExamProfile;
+  entries: Entry[];
+  catalog: CanonicalTopic[];
+  dailyTarget: number;
+  streakSettings: StreakSettings;
+}) => {
+  const [preset, setPreset] = useState<ReportPreset>('last7');
+  const [custom, setCustom] = useState<ReportRange>(() => presetRange('last7'));
+
+  const range = useMemo(() => {
+    if (preset !== 'custom') return presetRange(preset);
+    return custom.from <= custom.to ? custom : { from: custom.to, to: custom.from };
+  }, [preset, custom]);
+
+  const report = useMemo(
+    () => buildReport({ student, profile, entries, catalog, dailyTarget, streakSettings }, range),
+    [student, profile, entries, catalog, dailyTarget, streakSettings, range],
+  );
+  const rate = adherenceRate(report.adherence);
+
+  const handlePreset = (next: ReportPreset) => {
+    if (next === 'custom') setCustom(range);
+    setPreset(next);
+  };
+
+  const colors = { text: '#64748b', grid: '#e2e8f0', tooltipBg: '#ffffff', tooltipBorder: '#e2e8f0', primary: 'hsl(var(--primary))', secondary: '#0ea5e9' };
+  const tooltipProps = {
+    contentStyle: { backgroundColor: colors.tooltipBg, border: `1px solid ${colors.tooltipBorder}` },
+    itemStyle: { color: colors.text },
+    labelStyle: { color: colors.text },
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 print:hidden">
+        <h3 className="text-xl font-semibold text-text flex items-center"><FileText className="mr-2 h-5 w-5 text-primary" /> Progress Report</h3>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="bg-surface p-1 rounded-lg border border-border flex space-x-1">
+            {REPORT_PRESETS.map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => handlePreset(value)}
+                className={cn(
+                  "px-3 py-1.5 text-sm font-semibold rounded-md transition-colors",
+                  preset === value ? 'bg-primary text-primary-foreground' : 'text-textSecondary hover:bg-surface/80'
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {preset === 'custom' && (
+            <>
+              <input type="date" value={custom.from} onChange={(e) => e.target.value && setCustom(prev => ({ ...prev, from: e.target.value }))} className={fieldClass} aria-label="From" />
+              <input type="date" value={custom.to} onChange={(e) => e.target.value && setCustom(prev => ({ ...prev, to: e.target.value }))} className={fieldClass} aria-label="To" />
+            </>
+          )}
+          <button onClick={() => window.print()} className="flex items-center px-3 py-2 text-sm font-semibold rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition">
+            <Printer className="h-4 w-4 mr-2" /> Print / PDF
+          </button>
+          <button
+            onClick={() => downloadFile(reportFileName(report), reportToMarkdown(report), 'text/markdown')}
+            className="flex items-center px-3 py-2 text-sm font-semibold rounded-md border border-border text-text hover:bg-background transition"
+          >
+            <Download className="h-4 w-4 mr-2" /> Markdown
+          </button>
+        </div>
+      </div>
+
+      <article className="bg-surface p-6 rounded-lg border border-border space-y-8 print:bg-transparent print:border-0 print:p-0">
+        <header className="border-b border-border pb-4">
+          <h2 className="text-2xl font-bold text-text">Progress report: {report.student}</h2>
+          <p className="text-sm text-textSecondary mt-1">
+            {report.exam} · {formatRange(report.range)} · compared with {formatRange(report.previous)}
+          </p>
+        </header>
+
+        <section className={sectionClass}>
+          <h3 className={headingClass}>Summary</h3>
+          <table className="min-w-full divide-y divide-border text-sm">
+            <thead>
+              <tr>{['Metric', 'This period', 'Previous period', 'Change'].map(label => <th key={label} className={thClass}>{label}</th>)}</tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {summaryRows(report).map(([label, ...values]) => (
+                <tr key={label}>
+                  <td className="px-3 py-2 text-text font-medium">{label}</td>
+                  {values.map((value, i) => <td key={i} className={cn("px-3 py-2", i === 2 ? 'text-textSecondary' : 'text-text')}>{value}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-textSecondary mt-2">A lower speed means fewer minutes per set.</p>
+        </section>
+
+        <section className={sectionClass}>
+          <h3 className={headingClass}><Target className="mr-2 h-5 w-5 text-primary" /> Target Adherence</h3>
+          {rate === null ? (
+            <p className="text-sm text-textSecondary">No days were due against the daily target of {report.adherence.target} sets.</p>
+          ) : (
+            <>
+              <div className="w-full bg-background rounded-full h-3 border border-border">
+                <div className={cn("h-3 rounded-full", rate >= 80 ? 'bg-success' : rate >= 50 ? 'bg-yellow-400' : 'bg-primary')} style={{ width: `${rate}%` }}></div>
+              </div>
+              <p className="text-sm text-text mt-2">
+                Daily target of {report.adherence.target} sets met on {report.adherence.daysMet} of {report.adherence.daysCounted} days ({rate.toFixed(0)}%).
+                {report.adherence.restDays > 0 && <span className="text-textSecondary"> {report.adherence.restDays} rest {report.adherence.restDays === 1 ? 'day' : 'days'} not counted.</span>}
+              </p>
+              {report.adherence.missed.length > 0 && (
+                <p className="text-xs text-textSecondary mt-1">Missed: {report.adherence.missed.map(formatReportDate).join(', ')}</p>
+              )}
+            </>
+          )}
+        </section>
+
+        {report.chart.length > 0 && (
+          <section className={cn(sectionClass, "grid grid-cols-1 md:grid-cols-2 print:grid-cols-2 gap-6")}>
+            <div>
+              <h3 className={headingClass}>Accuracy (%)</h3>
+              <ResponsiveContainer width="100%" height={240}>
+                <LineChart data={report.chart}>
+                  <CartesianGrid strokeDasharray="3 3" stroke={colors.grid} />
+                  <XAxis dataKey="name" stroke={colors.text} fontSize={12} />
+                  <YAxis stroke={colors.text} domain={[0, 100]} fontSize={12} />
+                  <Tooltip {...tooltipProps} />
+                  <Legend />
+                  <Line type="monotone" dataKey="Accuracy" stroke={colors.primary} strokeWidth={2} dot={{ r: 3 }} isAnimationActive={false} />
+                  <Line type="monotone" dataKey="Net Score" stroke={colors.secondary} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <div>
+              <h3 className={headingClass}>Practice Volume (Sets)</h3>
+              <ResponsiveContainer width="100%" height={240}>
+                <BarChart data={report.chart}>
+                  <CartesianGrid strokeDasharray="3 3" stroke={colors.grid} />
+                  <XAxis dataKey="name" stroke={colors.text} fontSize={12} />
+                  <YAxis stroke={colors.text} allowDecimals={false} fontSize={12} />
+                  <Tooltip {...tooltipProps} />
+                  <Legend />
+                  <Bar dataKey="Total Sets" fill={colors.primary} isAnimationActive={false} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </section>
+        )}
+
+        <section className={sectionClass}>
+          <h3 className={headingClass}>Volume by Subject</h3>
+          {report.volume.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-border text-sm">
+                <thead>
+                  <tr>
+                    <th className={thClass}>Subject</th>
+                    {report.setTypes.map(t => <th key={t.id} className={thClass}>{t.label}</th>)}
+                    <th className={thClass}>Total sets</th>
+                    <th className={thClass}>Hours</th>
+                    <th className={thClass}>Accuracy</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {report.volume.map(row => (
+                    <tr key={row.subject}>
+                      <td className="px-3 py-2 text-text font-medium">{row.subject}</td>
+                      {report.setTypes.map(t => <td key={t.id} className="px-3 py-2 text-textSecondary">{row.sets[t.id] ?? 0}</td>)}
+                      <td className="px-3 py-2 text-text">{row.totalSets}</td>
+                      <td className="px-3 py-2 text-text">{(row.minutes / 60).toFixed(1)}</td>
+                      <td className="px-3 py-2 text-text">{formatValue(row.accuracy, 1, '%')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : <p className="text-sm text-textSecondary">Nothing logged in this period.</p>}
+        </section>
+
+        <section className={sectionClass}>
+          <h3 className={headingClass}><AlertTriangle className="mr-2 h-5 w-5 text-warning" /> Weak Topics</h3>
+          {report.weakTopics.length > 0 ? (
+            <ol className="space-y-2 text-sm">
+              {report.weakTopics.map(t => (
+                <li key={`${t.subject}-${t.name}`}>
+                  <span className="text-xs font-semibold text-primary mr-2">{t.subject}</span>
+                  <span className="font-medium text-text">{t.name}</span>
+                  <span className="text-textSecondary"> · mastery {t.mastery}</span>
+                  {t.reasons.length > 0 && <p className="text-xs text-textSecondary">{t.reasons.join('; ')}</p>}
+                </li>
+              ))}
+            </ol>
+          ) : <p className="text-sm text-textSecondary">No weak topics flagged.</p>}
+        </section>
+
+        <section className={sectionClass}>
+          <h3 className={headingClass}><BookOpen className="mr-2 h-5 w-5 text-primary" /> Highlights from Learnings</h3>
+          {report.highlights.length > 0 ? (
+            <ul className="space-y-2 text-sm">
+              {report.highlights.map((h, i) => (
+                <li key={i} className="border-l-2 border-primary/40 pl-3">
+                  <p className="text-xs text-textSecondary">{formatReportDate(h.date)} · {h.subject}{h.topic && ` · ${h.topic}`}</p>
+                  <p className="text-text whitespace-pre-line">{h.text}</p>
+                </li>
+              ))}
+            </ul>
+          ) : <p className="text-sm text-textSecondary">No learnings written in this period.</p>}
+          {report.themes.length > 0 && (
+            <p className="text-sm text-textSecondary mt-3">Recurring themes: {report.themes.map(t => `${t.label} (${t.count})`).join(', ')}</p>
+          )}
+        </section>
+
+        <p className="text-xs text-textSecondary">Generated {new Date(report.generatedAt).toLocaleString()}</p>
+      </article>
+    </div>
+  );
+};
+
+export default ReportView;
@@ -0,0 +1,100 @@
+import { useState, useMemo } from 'react';
+import { RefreshCw, Eye, CheckCircle2 } from 'lucide-react';
+import type { ReviewData, ReviewGrade } from '../types';
+import { cn, formatDate } from '../lib/utils';
+import { dueCards, gradeCard, previewIntervals, upcomingCounts, type ReviewCard } from '../lib/spacedRepetition';
+
+const GRADE_BUTTONS: { grade: ReviewGrade; label: string; className: string }[] = [
+  { grade: 'again', label: 'Again', className: 'border-error text-error hover:bg-error/10' },
+  { grade: 'hard', label: 'Hard', className: 'border-warning text-warning hover:bg-warning/10' },
+  { grade: 'good', label: 'Good', className: 'border-primary text-primary hover:bg-primary/10' },
+  { grade: 'easy', label: 'Easy', className: 'border-success text-success hover:bg-success/10' },
+];
+
+const formatInterval = (days: number) => (days < 30 ? `${days}d` : `${(days / 30).toFixed(1)}mo`);
+
+const ReviseView = ({ cards, reviews, setReviews }: { cards: ReviewCard[]; reviews: ReviewData; setReviews: (reviews: ReviewData) => void }) => {
+  const [revealed, setRevealed] = useState(false);
+  const today = formatDate(new Date());
+  const queue = useMemo(() => dueCards(cards, today), [cards, today]);
+  const upcoming = useMemo(() => upcomingCounts(cards, 7, today), [cards, today]);
+  const reviewedToday = reviews.log.filter(r => r.reviewedAt.startsWith(today));
+  const card = queue[0];
+  const intervals = card ? previewIntervals(card.state, today) : null;
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!card) return;
+    setReviews(gradeCard(reviews, card, grade, today));
+    setRevealed(false);
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 items-start">
+      <div className="lg:col-span-2 bg-surface p-6 rounded-lg border border-border">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-semibold text-text flex items-center"><RefreshCw className="mr-2 h-5 w-5 text-primary" /> Revise</h3>
+          <span className="text-sm text-textSecondary">{queue.length} due</span>
+        </div>
+        {card ? (
+          <div className="space-y-4">
+            <div className="p-4 bg-background rounded-md border border-border">
+              <p className="text-xs text-textSecondary">
+                <span className="font-medium text-primary mr-2">{card.subject}</span>
+                {card.topic || 'Untagged'} · logged {new Date(card.date).toLocaleDateString()}
+                {card.state && ` · ${card.state.lapses} lapse${card.state.lapses === 1 ? '' : 's'}`}
+              </p>
+              <p className="mt-3 text-text font-medium">What did you learn from this session?</p>
+              {revealed
+                ? <p className="mt-3 text-text border-t border-border pt-3">{card.text}</p>
+                : (
+                  <button onClick={() => setRevealed(true)} className="mt-4 flex items-center px-4 py-2 border border-border rounded-md text-sm font-medium text-textSecondary bg-surface hover:bg-background transition">
+                    <Eye className="h-4 w-4 mr-2" /> Show learning
+                  </button>
+                )}
+            </div>
+            {revealed && intervals && (
+              <div className="grid grid-cols-4 gap-2">
+                {GRADE_BUTTONS.map(({ grade, label, className }) => (
+                  <button key={grade} onClick={() => handleGrade(grade)} className={cn("flex flex-col items-center px-3 py-2 border rounded-md text-sm font-semibold transition", className)}>
+                    {label}
+                    <span className="text-xs font-normal text-textSecondary">{formatInterval(intervals[grade])}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="flex flex-col items-center py-10 text-textSecondary">
+            <CheckCircle2 className="h-10 w-10 text-success mb-3" />
+            <p className="text-sm">Nothing due today. New learnings become due the day after you log them.</p>
+          </div>
+        )}
+      </div>
+      <div className="bg-surface p-6 rounded-lg border border-border space-y-4">
+        <div>
+          <h4 className="font-semibold text-text mb-2">Today</h4>
+          <p className="text-sm text-textSecondary">
+            {reviewedToday.length} reviewed · {reviewedToday.filter(r => r.grade === 'again').length} forgotten
+          </p>
+        </div>
+        <div>
+          <h4 className="font-semibold text-text mb-2">Next 7 days</h4>
+          <div className="space-y-1">
+            {upcoming.map(({ date, count }, i) => (
+              <div key={date} className="flex items-center text-sm">
+                <span className="w-20 text-textSecondary">{i === 0 ? 'Today' : new Date(date).toLocaleDateString('en-US', { weekday: 'short', day: 'numeric' })}</span>
+                <div className="flex-1 bg-background rounded-full h-2 border border-border mx-2">
+                  <div className="h-2 rounded-full bg-primary" style={{ width: `${Math.min(count * 10, 100)}%` }}></div>
+                </div>
+                <span className="w-6 text-right text-text">{count}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+        <p className="text-xs text-textSecondary">{cards.length} cards from your mistake log · {reviews.log.length} reviews so far</p>
+      </div>
+    </div>
+  );
+};
+
+export default ReviseView;
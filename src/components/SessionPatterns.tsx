@@ -0,0 +1,100 @@
+import { useState, useMemo } from 'react';
+import { Sunrise, Lightbulb } from 'lucide-react';
+import type { Entry, Subject } from '../types';
+import { cn } from '../lib/utils';
+import { TIME_OF_DAY_BUCKETS, hourRange, sessionPatterns, type PatternBucket } from '../lib/sessionPatterns';
+
+const BucketTable = ({ title, buckets, hint }: { title: string; buckets: PatternBucket[]; hint?: (bucket: PatternBucket) => string }) => (
+  <div className="p-4 bg-background rounded-md border border-border">
+    <p className="text-sm font-semibold text-text mb-2">{title}</p>
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-left text-textSecondary">
+          <th className="font-medium pb-1"></th>
+          <th className="font-medium pb-1 text-right">Entries</th>
+          <th className="font-medium pb-1 pl-3 w-2/5">Accuracy</th>
+          <th className="font-medium pb-1 text-right">Min/set</th>
+          <th className="font-medium pb-1 text-right">Energy</th>
+        </tr>
+      </thead>
+      <tbody>
+        {buckets.map(bucket => (
+          <tr key={bucket.id} className={cn(bucket.sparse ? 'text-textSecondary' : 'text-text')} title={bucket.sparse ? 'Too few entries to recommend' : undefined}>
+            <td className="py-1 pr-2 whitespace-nowrap">
+              {bucket.label}
+              {hint && <span className="block text-[10px] text-textSecondary">{hint(bucket)}</span>}
+            </td>
+            <td className="py-1 text-right">{bucket.entries}</td>
+            <td className="py-1 pl-3">
+              {bucket.accuracy !== null ? (
+                <div className="flex items-center gap-2">
+                  <div className="flex-1 bg-surface rounded-full h-1.5">
+                    <div className={cn("h-1.5 rounded-full", bucket.sparse ? 'bg-border' : 'bg-primary')} style={{ width: `${bucket.accuracy}%` }} />
+                  </div>
+                  <span className="w-8 text-right">{bucket.accuracy.toFixed(0)}%</span>
+                </div>
+              ) : '—'}
+            </td>
+            <td className="py-1 text-right">{bucket.minutesPerSet !== null ? bucket.minutesPerSet.toFixed(1) : '—'}</td>
+            <td className="py-1 text-right">{bucket.energy !== null ? bucket.energy.toFixed(1) : '—'}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+const SessionPatterns = ({ entries, subjects }: { entries: Entry[]; subjects: Subject[] }) => {
+  const [selectedSubject, setSelectedSubject] = useState<Subject | 'Overall'>('Overall');
+  const patterns = useMemo(() => sessionPatterns(entries, selectedSubject), [entries, selectedSubject]);
+  const hours = useMemo(() => new Map(TIME_OF_DAY_BUCKETS.map(b => [b.id, hourRange(b)])), []);
+
+  return (
+    <div className="bg-surface p-6 rounded-lg border border-border">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h3 className="text-xl font-semibold text-text flex items-center"><Sunrise className="mr-2 h-5 w-5 text-primary" /> Session Patterns</h3>
+        <div className="bg-background p-1 rounded-lg border border-border flex space-x-1">
+          {(['Overall', ...subjects] as (Subject | 'Overall')[]).map(s => (
+            <button
+              key={s}
+              onClick={() => setSelectedSubject(s)}
+              className={cn(
+                "px-3 py-1 text-xs font-semibold rounded-md transition-colors",
+                selectedSubject === s ? 'bg-primary text-primary-foreground' : 'text-textSecondary hover:bg-surface/80'
+              )}
+            >
+              {s}
+            </button>
+          ))}
+        </div>
+      </div>
+      {patterns.entries > 0 ? (
+        <>
+          <p className="text-sm text-textSecondary mb-4">
+            {patterns.entries} entries
+            {patterns.untimed > 0 && ` · ${patterns.untimed} without a start time, left out of the time-of-day breakdown`}
+            {' · '}greyed rows have too few entries to recommend
+          </p>
+          {patterns.recommendations.length > 0 && (
+            <ul className="mb-4 space-y-2">
+              {patterns.recommendations.map(text => (
+                <li key={text} className="flex items-start text-sm text-text">
+                  <Lightbulb className="h-4 w-4 mr-2 mt-0.5 shrink-0 text-warning" />
+                  {text}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <BucketTable title="Time of Day" buckets={patterns.timeOfDay} hint={bucket => hours.get(bucket.id) ?? ''} />
+            <BucketTable title="Day of Week" buckets={patterns.weekday} />
+            <BucketTable title="Session Length" buckets={patterns.length} />
+            <BucketTable title="Energy" buckets={patterns.energy} />
+          </div>
+        </>
+      ) : <p className="text-sm text-textSecondary">No {selectedSubject === 'Overall' ? '' : `${selectedSubject} `}entries yet.</p>}
+    </div>
+  );
+};
+
+export default SessionPatterns;
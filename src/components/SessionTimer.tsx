@@ -0,0 +1,155 @@
+import { useEffect, useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Timer, Play, Pause, Flag, HelpCircle, Square, XCircle, Clock } from 'lucide-react';
+import type { Entry, ExamProfile, SetType, Subject, TimerSession } from '../types';
+import { cn } from '../lib/utils';
+import { defaultSetType, setCategoryLabel } from '../lib/examProfiles';
+import {
+  activeMs, addLap, currentQuestionMs, currentSetMs, formatClock, pauseSession, resumeSession, sessionToDraft, setDurations, setTimeDistribution, startSession, type EntryDraft,
+} from '../lib/sessionTimer';
+
+const fieldClass = "w-full bg-background border border-border rounded-md p-2 text-sm text-text focus:ring-2 focus:ring-primary focus:border-primary transition";
+const buttonClass = "flex items-center justify-center px-3 py-2 border rounded-md text-sm font-medium transition";
+
+export const SessionTimer = ({ profile, session, setSession, onFinish }: {
+  profile: ExamProfile;
+  session: TimerSession | null;
+  setSession: (session: TimerSession | null) => void;
+  onFinish: (draft: EntryDraft) => void;
+}) => {
+  const [subject, setSubject] = useState<Subject>(profile.subjects[0]);
+  const [setType, setSetType] = useState<SetType>(() => defaultSetType(profile, profile.subjects[0]));
+  const [topic, setTopic] = useState('');
+  const [now, setNow] = useState(() => Date.now());
+
+  const running = session !== null && session.pausedAt === null;
+  useEffect(() => {
+    if (!running) return;
+    const id = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(id);
+  }, [running]);
+
+  const handleStart = () => {
+    const started = Date.now();
+    setNow(started);
+    setSession(startSession(subject, setType, topic.trim(), started));
+  };
+
+  const handleFinish = () => {
+    if (!session) return;
+    onFinish(sessionToDraft(session, Date.now()));
+    setSession(null);
+  };
+
+  if (!session) {
+    return (
+      <div className="bg-surface p-6 rounded-lg border border-border">
+        <h3 className="text-xl font-semibold text-text mb-4 flex items-center"><Timer className="mr-2 h-5 w-5 text-primary" /> Practice Timer</h3>
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <select value={subject} onChange={(e) => { const s = e.target.value as Subject; setSubject(s); setSetType(defaultSetType(profile, s)); }} className={fieldClass}>
+              {profile.subjects.map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+            <select value={setType} onChange={(e) => setSetType(e.target.value as SetType)} className={fieldClass}>
+              {profile.setCategories.map(c => <option key={c.id} value={c.id}>{c.label} sets</option>)}
+            </select>
+          </div>
+          <input value={topic} onChange={(e) => setTopic(e.target.value)} placeholder="Topic (optional)" className={fieldClass} />
+          <button onClick={handleStart} className={cn(buttonClass, "w-full border-transparent text-primary-foreground bg-primary hover:bg-primary/90")}>
+            <Play className="h-4 w-4 mr-2" /> Start session
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const clockNow = session.pausedAt ?? now;
+  const completedSets = session.laps.filter(l => l.kind === 'set').length;
+  const questions = session.laps.filter(l => l.kind === 'question').length;
+  const recentSets = setDurations(session, clockNow).slice(0, completedSets).slice(-3);
+
+  return (
+    <div className="bg-surface p-6 rounded-lg border border-primary">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xl font-semibold text-text flex items-center"><Timer className="mr-2 h-5 w-5 text-primary" /> Practice Timer</h3>
+        <span className="text-xs text-textSecondary">{session.subject} · {setCategoryLabel(profile, session.setType)}{session.topic && ` · ${session.topic}`}</span>
+      </div>
+      <p className={cn("text-4xl font-bold text-center tabular-nums", session.pausedAt ? 'text-textSecondary' : 'text-text')}>{formatClock(activeMs(session, clockNow))}</p>
+      <div className="grid grid-cols-2 gap-2 text-center text-sm mt-2">
+        <div className="p-2 bg-background rounded-md border border-border">
+          <p className="text-xs text-textSecondary">Set {completedSets + 1}</p>
+          <p className="font-semibold text-text tabular-nums">{formatClock(currentSetMs(session, clockNow))}</p>
+        </div>
+        <div className="p-2 bg-background rounded-md border border-border">
+          <p className="text-xs text-textSecondary">Question {questions + 1}</p>
+          <p className="font-semibold text-text tabular-nums">{formatClock(currentQuestionMs(session, clockNow))}</p>
+        </div>
+      </div>
+      {recentSets.length > 0 && (
+        <p className="text-xs text-textSecondary mt-2 text-center">
+          Last sets: {recentSets.map(seconds => formatClock(seconds * 1000)).join(' · ')}
+        </p>
+      )}
+      <div className="grid grid-cols-2 gap-2 mt-4">
+        {session.pausedAt
+          ? <button onClick={() => setSession(resumeSession(session))} className={cn(buttonClass, "border-primary text-primary hover:bg-primary/10")}><Play className="h-4 w-4 mr-2" /> Resume</button>
+          : <button onClick={() => setSession(pauseSession(session))} className={cn(buttonClass, "border-border text-textSecondary hover:bg-background")}><Pause className="h-4 w-4 mr-2" /> Pause</button>}
+        <button onClick={handleFinish} className={cn(buttonClass, "border-transparent text-primary-foreground bg-primary hover:bg-primary/90")}><Square className="h-4 w-4 mr-2" /> Finish</button>
+        <button onClick={() => setSession(addLap(session, 'set'))} disabled={!!session.pausedAt} className={cn(buttonClass, "border-border text-text hover:bg-background disabled:opacity-50")}><Flag className="h-4 w-4 mr-2" /> Lap set</button>
+        <button onClick={() => setSession(addLap(session, 'question'))} disabled={!!session.pausedAt} className={cn(buttonClass, "border-border text-text hover:bg-background disabled:opacity-50")}><HelpCircle className="h-4 w-4 mr-2" /> Lap question</button>
+      </div>
+      <button
+        onClick={() => window.confirm('Discard this session without saving?') && setSession(null)}
+        className="mt-3 w-full flex items-center justify-center text-xs text-error hover:underline"
+      >
+        <XCircle className="h-3 w-3 mr-1" /> Discard session
+      </button>
+    </div>
+  );
+};
+
+export const SetTimeDistribution = ({ entries, subjects }: { entries: Entry[]; subjects: Subject[] }) => {
+  const [selectedSubject, setSelectedSubject] = useState<Subject | 'Overall'>('Overall');
+  const distribution = useMemo(() => setTimeDistribution(entries, selectedSubject), [entries, selectedSubject]);
+  const colors = { text: '#64748b', grid: '#e2e8f0', tooltipBg: '#ffffff', tooltipBorder: '#e2e8f0', primary: 'hsl(var(--primary))' };
+
+  if (!entries.some(e => e.setTimes?.length)) return null;
+
+  return (
+    <div className="bg-surface p-6 rounded-lg border border-border mt-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h3 className="text-xl font-semibold text-text flex items-center"><Clock className="mr-2 h-5 w-5 text-primary" /> Time per Set</h3>
+        <div className="bg-background p-1 rounded-lg border border-border flex space-x-1">
+          {(['Overall', ...subjects] as (Subject | 'Overall')[]).map(s => (
+            <button
+              key={s}
+              onClick={() => setSelectedSubject(s)}
+              className={cn(
+                "px-3 py-1 text-xs font-semibold rounded-md transition-colors",
+                selectedSubject === s ? 'bg-primary text-primary-foreground' : 'text-textSecondary hover:bg-surface/80'
+              )}
+            >
+              {s}
+            </button>
+          ))}
+        </div>
+      </div>
+      {distribution ? (
+        <>
+          <p className="text-sm text-textSecondary mb-4">
+            {distribution.count} timed sets · median {distribution.median.toFixed(1)} min · middle half {distribution.p25.toFixed(1)}–{distribution.p75.toFixed(1)} min · mean {distribution.mean.toFixed(1)} min
+          </p>
+          <ResponsiveContainer width="100%" height={220}>
+            <BarChart data={distribution.buckets}>
+              <CartesianGrid strokeDasharray="3 3" stroke={colors.grid} />
+              <XAxis dataKey="name" stroke={colors.text} unit=" min" />
+              <YAxis stroke={colors.text} allowDecimals={false} />
+              <Tooltip contentStyle={{ backgroundColor: colors.tooltipBg, border: `1px solid ${colors.tooltipBorder}` }} itemStyle={{ color: colors.text }} labelStyle={{ color: colors.text }} />
+              <Bar dataKey="sets" name="Sets" fill={colors.primary} />
+            </BarChart>
+          </ResponsiveContainer>
+        </>
+      ) : <p className="text-sm text-textSecondary">No timed sets for {selectedSubject} yet.</p>}
+    </div>
+  );
+};
@@ -0,0 +1,229 @@
+import { useState, useMemo } from 'react';
+import { ScatterChart, Scatter, XAxis, YAxis, ZAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Cell } from 'recharts';
+import { Gauge, Edit, X, ArrowRight } from 'lucide-react';
+import type { CanonicalTopic, Entry, Quadrant, QuadrantThresholds, Subject } from '../types';
+import { cn, calculateAccuracy, calculateSpeed } from '../lib/utils';
+import { QUADRANTS, QUADRANT_ADVICE, QUADRANT_LABELS, entryPoints, medianThresholds, thresholdFor, topicMovements, topicPoints, type QuadrantPeriod, type QuadrantPoint } from '../lib/quadrants';
+
+const quadrantColors: Record<Quadrant, string> = {
+  'fast-accurate': 'hsl(var(--success))',
+  'slow-accurate': '#0ea5e9',
+  'fast-careless': 'hsl(var(--warning))',
+  'slow-struggling': 'hsl(var(--error))',
+};
+
+const fieldClass = "w-20 bg-background border border-border rounded-md p-1 text-sm text-text focus:ring-2 focus:ring-primary focus:border-primary transition";
+const MAX_PERIODS = 8;
+
+const QuadrantChip = ({ quadrant, short = false }: { quadrant: Quadrant; short?: boolean }) => (
+  <span className="inline-flex items-center text-xs text-text" title={QUADRANT_LABELS[quadrant]}>
+    <span className="h-2.5 w-2.5 rounded-full mr-1 shrink-0" style={{ backgroundColor: quadrantColors[quadrant] }}></span>
+    {!short && QUADRANT_LABELS[quadrant]}
+  </span>
+);
+
+const LinkedEntries = ({ title, entries, onEdit, onClose }: { title: string; entries: Entry[]; onEdit: (entry: Entry) => void; onClose: () => void }) => (
+  <div className="bg-surface p-5 rounded-lg border border-border">
+    <div className="flex items-center justify-between mb-3">
+      <h3 className="text-lg font-semibold text-text">{title}</h3>
+      <button onClick={onClose} className="text-textSecondary hover:text-text"><X className="h-5 w-5" /></button>
+    </div>
+    <div className="max-h-64 overflow-y-auto divide-y divide-border border border-border rounded-md">
+      {[...entries].sort((a, b) => b.date.localeCompare(a.date)).map(entry => (
+        <div key={entry.id} className="flex items-start justify-between p-2 text-sm bg-background">
+          <div>
+            <p className="text-text">
+              {new Date(entry.date).toLocaleDateString()} · {entry.topic || 'Untagged'} · {calculateAccuracy(entry).toFixed(0)}% · {calculateSpeed(entry).toFixed(1)} min/set
+            </p>
+            {entry.learnings && <p className="text-xs text-textSecondary mt-1">{entry.learnings}</p>}
+          </div>
+          <button onClick={() => onEdit(entry)} className="text-primary hover:text-primary/80 transition"><Edit className="h-4 w-4" /></button>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+const SpeedAccuracyView = ({ entries, subjects, catalog, thresholds, setThresholds, onEdit }: { entries: Entry[]; subjects: Subject[]; catalog: CanonicalTopic[]; thresholds: QuadrantThresholds; setThresholds: (thresholds: QuadrantThresholds) => void; onEdit: (entry: Entry) => void; }) => {
+  const [subject, setSubject] = useState<Subject>(subjects[0]);
+  const [mode, setMode] = useState<'entries' | 'topics'>('topics');
+  const [period, setPeriod] = useState<QuadrantPeriod>('week');
+  const [selected, setSelected] = useState<{ title: string; entries: Entry[] } | null>(null);
+
+  const subjectEntries = useMemo(() => entries.filter(e => e.subject === subject), [entries, subject]);
+  const points = useMemo(
+    () => (mode === 'entries' ? entryPoints(subjectEntries, thresholds) : topicPoints(subjectEntries, catalog, thresholds)),
+    [mode, subjectEntries, catalog, thresholds],
+  );
+  const movements = useMemo(() => topicMovements(subjectEntries, catalog, thresholds, period), [subjectEntries, catalog, thresholds, period]);
+  const recentPeriods = movements.periods.slice(-MAX_PERIODS);
+
+  // Quadrant mix for every subject, by topic, so the thresholds can be
+  // compared across sections.
+  const summary = useMemo(() => subjects.map(s => {
+    const counts = Object.fromEntries(QUADRANTS.map(q => [q, 0])) as Record<Quadrant, number>;
+    topicPoints(entries.filter(e => e.subject === s), catalog, thresholds).forEach(p => counts[p.quadrant]++);
+    return { subject: s, counts };
+  }), [entries, subjects, catalog, thresholds]);
+
+  const threshold = thresholdFor(thresholds, subject);
+  const setThreshold = (key: keyof typeof threshold, value: number) => setThresholds({ ...thresholds, [subject]: { ...threshold, [key]: value } });
+
+  const colors = { text: '#64748b', grid: '#e2e8f0', tooltipBg: '#ffffff', tooltipBorder: '#e2e8f0' };
+
+  const selectSubject = (next: Subject) => {
+    setSubject(next);
+    setSelected(null);
+  };
+  const openPoint = (point: QuadrantPoint) => setSelected({ title: `${point.subject} · ${point.label}`, entries: point.entries });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h3 className="text-xl font-semibold text-text flex items-center"><Gauge className="mr-2 h-5 w-5 text-primary" /> Speed vs Accuracy</h3>
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="bg-surface p-1 rounded-lg border border-border flex space-x-1">
+            {(['topics', 'entries'] as const).map(m => (
+              <button key={m} onClick={() => setMode(m)} className={cn("px-3 py-1.5 text-sm font-semibold rounded-md transition-colors capitalize", mode === m ? 'bg-primary text-primary-foreground' : 'text-textSecondary hover:bg-surface/80')}>
+                {m}
+              </button>
+            ))}
+          </div>
+          <select value={subject} onChange={(e) => selectSubject(e.target.value as Subject)} className="bg-background border border-border rounded-md p-2 text-text focus:ring-2 focus:ring-primary focus:border-primary transition">
+            {subjects.map(s => <option key={s} value={s}>{s}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="bg-surface p-5 rounded-lg border border-border">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <div className="flex flex-wrap items-center gap-3 text-sm text-textSecondary">
+            <span className="font-medium text-text">{subject} thresholds</span>
+            <label className="flex items-center gap-1">
+              Fast at ≤
+              <input type="number" min="0" step="0.5" value={threshold.minutesPerSet} onChange={(e) => setThreshold('minutesPerSet', Math.max(Number(e.target.value), 0))} className={fieldClass} />
+              min/set
+            </label>
+            <label className="flex items-center gap-1">
+              Accurate at ≥
+              <input type="number" min="0" max="100" value={threshold.accuracy} onChange={(e) => setThreshold('accuracy', Math.min(Math.max(Number(e.target.value), 0), 100))} className={fieldClass} />
+              %
+            </label>
+          </div>
+          <button onClick={() => setThresholds(medianThresholds(entries, thresholds, subjects))} className="text-sm text-primary hover:underline" title="Set every subject's speed threshold to your median time per set">Use my median speeds</button>
+        </div>
+
+        {points.length > 0 ? (
+          <ResponsiveContainer width="100%" height={360}>
+            <ScatterChart margin={{ top: 10, right: 20, bottom: 10, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke={colors.grid} />
+              <XAxis type="number" dataKey="minutesPerSet" name="Minutes per set" stroke={colors.text} tickFormatter={(v: number) => v.toFixed(0)} label={{ value: 'Minutes per set', position: 'insideBottom', offset: -5, fill: colors.text, fontSize: 12 }} />
+              <YAxis type="number" dataKey="accuracy" name="Accuracy" unit="%" domain={[0, 100]} stroke={colors.text} />
+              <ZAxis type="number" dataKey="size" range={mode === 'topics' ? [60, 400] : [60, 60]} />
+              <Tooltip
+                cursor={{ strokeDasharray: '3 3' }}
+                content={({ active, payload }) => {
+                  const point = active ? (payload?.[0]?.payload as QuadrantPoint | undefined) : undefined;
+                  if (!point) return null;
+                  return (
+                    <div className="p-2 rounded-md text-xs space-y-0.5" style={{ backgroundColor: colors.tooltipBg, border: `1px solid ${colors.tooltipBorder}`, color: colors.text }}>
+                      <p className="font-semibold text-text">{point.label}</p>
+                      <p>{point.accuracy.toFixed(1)}% · {point.minutesPerSet.toFixed(1)} min/set · {point.entries.length} {point.entries.length === 1 ? 'entry' : 'entries'}</p>
+                      <QuadrantChip quadrant={point.quadrant} />
+                    </div>
+                  );
+                }}
+              />
+              <ReferenceLine x={threshold.minutesPerSet} stroke={colors.text} strokeDasharray="4 4" />
+              <ReferenceLine y={threshold.accuracy} stroke={colors.text} strokeDasharray="4 4" />
+              <Scatter
+                data={points.map(p => ({ ...p, size: p.entries.length }))}
+                onClick={(data: { payload?: QuadrantPoint }) => data.payload && openPoint(data.payload)}
+                className="cursor-pointer"
+              >
+                {points.map(point => <Cell key={point.id} fill={quadrantColors[point.quadrant]} />)}
+              </Scatter>
+            </ScatterChart>
+          </ResponsiveContainer>
+        ) : (
+          <p className="text-center py-10 text-textSecondary">No timed {subject} entries yet.</p>
+        )}
+        <div className="flex flex-wrap gap-4 mt-3">
+          {QUADRANTS.map(q => (
+            <span key={q} className="text-xs text-textSecondary" title={QUADRANT_ADVICE[q]}>
+              <QuadrantChip quadrant={q} /> · {points.filter(p => p.quadrant === q).length}
+            </span>
+          ))}
+          <span className="text-xs text-textSecondary">Click a point to see its entries{mode === 'topics' ? '; size shows entry count' : ''}.</span>
+        </div>
+      </div>
+
+      {selected && <LinkedEntries title={selected.title} entries={selected.entries} onEdit={onEdit} onClose={() => setSelected(null)} />}
+
+      <div className="bg-surface p-5 rounded-lg border border-border">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <h3 className="text-lg font-semibold text-text">{subject} Topic Movement</h3>
+          <div className="bg-surface p-1 rounded-lg border border-border flex space-x-1">
+            {(['week', 'month'] as QuadrantPeriod[]).map(p => (
+              <button key={p} onClick={() => setPeriod(p)} className={cn("px-3 py-1.5 text-sm font-semibold rounded-md transition-colors capitalize", period === p ? 'bg-primary text-primary-foreground' : 'text-textSecondary hover:bg-surface/80')}>
+                By {p}
+              </button>
+            ))}
+          </div>
+        </div>
+        {movements.topics.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-border">
+              <thead>
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-textSecondary uppercase tracking-wider">Topic</th>
+                  {recentPeriods.map(key => (
+                    <th key={key} className="px-2 py-2 text-center text-xs font-medium text-textSecondary whitespace-nowrap">
+                      {period === 'week' ? new Date(key).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }) : new Date(`${key}-01`).toLocaleDateString('en-US', { month: 'short', year: '2-digit' })}
+                    </th>
+                  ))}
+                  <th className="px-3 py-2 text-left text-xs font-medium text-textSecondary uppercase tracking-wider">Last move</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {movements.topics.map(topic => (
+                  <tr key={topic.id} onClick={() => setSelected({ title: `${topic.subject} · ${topic.name}`, entries: topic.entries })} className="cursor-pointer hover:bg-background transition-colors">
+                    <td className="px-3 py-2 text-sm text-text whitespace-nowrap">{topic.name}</td>
+                    {recentPeriods.map(key => (
+                      <td key={key} className="px-2 py-2 text-center">
+                        {topic.history[key] ? <QuadrantChip quadrant={topic.history[key]} short /> : <span className="text-xs text-textSecondary">·</span>}
+                      </td>
+                    ))}
+                    <td className="px-3 py-2 text-xs text-textSecondary whitespace-nowrap">
+                      {topic.lastMove ? (
+                        <span className="flex items-center gap-1"><QuadrantChip quadrant={topic.lastMove.from} /><ArrowRight className="h-3 w-3" /><QuadrantChip quadrant={topic.lastMove.to} /></span>
+                      ) : <>Stayed <QuadrantChip quadrant={topic.latest} /></>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-center py-6 text-textSecondary">Log {subject} entries with a topic to track movement.</p>
+        )}
+      </div>
+
+      <div className="bg-surface p-5 rounded-lg border border-border">
+        <h3 className="text-lg font-semibold text-text mb-3">Topics per Quadrant</h3>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {summary.map(({ subject: s, counts }) => (
+            <button key={s} onClick={() => selectSubject(s)} className={cn("p-3 bg-background rounded-md border text-left transition", s === subject ? 'border-primary' : 'border-border hover:border-primary/50')}>
+              <p className="text-sm font-semibold text-text mb-1">{s}</p>
+              {QUADRANTS.map(q => (
+                <p key={q} className="flex items-center justify-between"><QuadrantChip quadrant={q} /><span className="text-xs font-semibold text-text">{counts[q]}</span></p>
+              ))}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SpeedAccuracyView;
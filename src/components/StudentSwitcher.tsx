@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { Users, Plus, Pencil, Trash2, Share2, Check, XCircle } from 'lucide-react';
+import type { StudentDirectory } from '../types';
+import { cn } from '../lib/utils';
+import { addStudent, removeStudent } from '../lib/students';
+
+const fieldClass = "bg-background border border-border rounded-md p-1.5 text-sm text-text focus:ring-2 focus:ring-primary focus:border-primary transition";
+const iconButtonClass = "p-1.5 rounded-md text-textSecondary hover:bg-background hover:text-text transition disabled:opacity-50";
+
+type Mode = 'idle' | 'add' | 'rename';
+
+export const StudentSwitcher = ({ directory, setDirectory, onRemove, onExport }: {
+  directory: StudentDirectory;
+  setDirectory: (directory: StudentDirectory) => void;
+  onRemove: (studentId: string) => void;
+  onExport: () => void;
+}) => {
+  const [mode, setMode] = useState<Mode>('idle');
+  const [name, setName] = useState('');
+  const active = directory.students.find(s => s.id === directory.activeId)!;
+
+  const startEditing = (next: Mode) => {
+    setMode(next);
+    setName(next === 'rename' ? active.name : '');
+  };
+
+  const handleSubmit = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setDirectory(mode === 'add'
+      ? addStudent(directory, trimmed)
+      : { ...directory, students: directory.students.map(s => (s.id === active.id ? { ...s, name: trimmed } : s)) });
+    setMode('idle');
+  };
+
+  const handleRemove = () => {
+    if (!window.confirm(`Delete ${active.name} and all of their entries, mocks, plans and settings? This cannot be undone.`)) return;
+    onRemove(active.id);
+    setDirectory(removeStudent(directory, active.id));
+  };
+
+  if (mode !== 'idle') {
+    return (
+      <div className="flex items-center gap-1">
+        <input
+          autoFocus
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSubmit();
+            if (e.key === 'Escape') setMode('idle');
+          }}
+          placeholder={mode === 'add' ? 'New student name' : 'Student name'}
+          className={cn(fieldClass, 'w-40')}
+        />
+        <button onClick={handleSubmit} disabled={!name.trim()} className={iconButtonClass} aria-label="Save"><Check className="h-4 w-4" /></button>
+        <button onClick={() => setMode('idle')} className={iconButtonClass} aria-label="Cancel"><XCircle className="h-4 w-4" /></button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <Users className="h-4 w-4 text-textSecondary mr-1" />
+      <select value={directory.activeId} onChange={(e) => setDirectory({ ...directory, activeId: e.target.value })} className={fieldClass} aria-label="Student">
+        {directory.students.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+      </select>
+      <button onClick={() => startEditing('add')} className={iconButtonClass} title="Add student"><Plus className="h-4 w-4" /></button>
+      <button onClick={() => startEditing('rename')} className={iconButtonClass} title="Rename student"><Pencil className="h-4 w-4" /></button>
+      <button onClick={onExport} className={iconButtonClass} title="Export a read-only snapshot"><Share2 className="h-4 w-4" /></button>
+      <button onClick={handleRemove} disabled={directory.students.length === 1} className={iconButtonClass} title="Delete student"><Trash2 className="h-4 w-4" /></button>
+    </div>
+  );
+};
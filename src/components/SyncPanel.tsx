@@ -0,0 +1,129 @@
+import { useState, useEffect } from 'react';
+import { Cloud, CloudOff, RefreshCw, AlertTriangle } from 'lucide-react';
+import type { Entry, SyncConflict, SyncSettings } from '../types';
+import { cn } from '../lib/utils';
+import type { ConflictChoice } from '../lib/sync';
+import type { SyncStatus } from '../hooks/useSync';
+
+const fieldClass = "w-full bg-background border border-border rounded-md p-2 text-sm text-text focus:ring-2 focus:ring-primary focus:border-primary transition";
+
+const statusText: Record<SyncStatus, string> = {
+  idle: 'Up to date',
+  syncing: 'Syncing…',
+  offline: 'Offline; will sync when the connection is back',
+  error: 'Last sync failed',
+};
+
+const displayValue = (entry: Entry | null, field: string) => {
+  if (!entry) return 'deleted';
+  const value = (entry as Record<string, unknown>)[field];
+  if (value === undefined || value === '') return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const ConflictCard = ({ conflict, onResolve }: { conflict: SyncConflict; onResolve: (choice: ConflictChoice) => void }) => {
+  const sample = conflict.local ?? conflict.remote;
+  return (
+    <div className="border border-border rounded-md p-3 text-sm">
+      <p className="font-semibold text-text mb-2">{sample ? `${sample.date} · ${sample.subject}` : conflict.id}</p>
+      <table className="w-full text-xs mb-3">
+        <thead>
+          <tr className="text-textSecondary">
+            <th className="text-left font-medium py-1">Field</th>
+            <th className="text-left font-medium py-1">This device</th>
+            <th className="text-left font-medium py-1">Other device</th>
+          </tr>
+        </thead>
+        <tbody>
+          {conflict.fields.map(field => (
+            <tr key={field} className="border-t border-border align-top">
+              <td className="py-1 pr-2 text-textSecondary">{field}</td>
+              <td className="py-1 pr-2 text-text break-words">{displayValue(conflict.local, field)}</td>
+              <td className="py-1 text-text break-words">{displayValue(conflict.remote, field)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="flex gap-2">
+        <button onClick={() => onResolve('local')} className="flex-1 px-3 py-1.5 text-xs font-semibold rounded-md border border-border text-text hover:bg-background transition">Keep mine</button>
+        <button onClick={() => onResolve('remote')} className="flex-1 px-3 py-1.5 text-xs font-semibold rounded-md border border-border text-text hover:bg-background transition">Keep theirs</button>
+      </div>
+    </div>
+  );
+};
+
+const SyncPanel = ({ settings, saveSettings, conflicts, lastSyncedAt, status, error, pending, onSync, onResolve }: {
+  settings: SyncSettings;
+  saveSettings: (settings: SyncSettings) => void;
+  conflicts: SyncConflict[];
+  lastSyncedAt: string | null;
+  status: SyncStatus;
+  error: string | null;
+  pending: number;
+  onSync: () => void;
+  onResolve: (conflict: SyncConflict, choice: ConflictChoice) => void;
+}) => {
+  // Edited as a draft so the server is not contacted on every keystroke.
+  const [draft, setDraft] = useState(settings);
+  useEffect(() => setDraft(settings), [settings]);
+  const dirty = draft.serverUrl !== settings.serverUrl || draft.space !== settings.space || draft.token !== settings.token;
+  const canEnable = draft.serverUrl.trim() !== '' && draft.space.trim() !== '';
+
+  const save = (enabled: boolean) => saveSettings({ ...draft, serverUrl: draft.serverUrl.trim(), space: draft.space.trim(), enabled });
+
+  return (
+    <div className="bg-surface p-6 rounded-lg border border-border">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-semibold text-text flex items-center">
+          {settings.enabled ? <Cloud className="mr-2 h-5 w-5 text-primary" /> : <CloudOff className="mr-2 h-5 w-5 text-textSecondary" />} Sync
+        </h3>
+        {settings.enabled && (
+          <button onClick={onSync} disabled={status === 'syncing'} className="flex items-center text-sm text-primary hover:underline disabled:opacity-50">
+            <RefreshCw className={cn("h-4 w-4 mr-1", status === 'syncing' && 'animate-spin')} /> Sync now
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <input value={draft.serverUrl} onChange={(e) => setDraft({ ...draft, serverUrl: e.target.value })} placeholder="Server URL" className={fieldClass} />
+        <input value={draft.space} onChange={(e) => setDraft({ ...draft, space: e.target.value })} placeholder="Space name (same on every device)" className={fieldClass} />
+        <input type="password" value={draft.token} onChange={(e) => setDraft({ ...draft, token: e.target.value })} placeholder="Token (if the server needs one)" className={fieldClass} />
+        <div className="flex gap-2">
+          {settings.enabled ? (
+            <>
+              <button onClick={() => save(true)} disabled={!dirty || !canEnable} className="flex-1 px-3 py-2 text-sm font-semibold rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition disabled:opacity-50">Save</button>
+              <button onClick={() => save(false)} className="flex-1 px-3 py-2 text-sm font-semibold rounded-md border border-border text-text hover:bg-background transition">Turn off</button>
+            </>
+          ) : (
+            <button onClick={() => save(true)} disabled={!canEnable} className="flex-1 px-3 py-2 text-sm font-semibold rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition disabled:opacity-50">Turn on sync</button>
+          )}
+        </div>
+      </div>
+
+      {settings.enabled && (
+        <div className="mt-4 space-y-1 text-xs">
+          <p className={status === 'error' ? 'text-error' : 'text-textSecondary'}>
+            {statusText[status]}{error && status === 'error' ? `: ${error}` : ''}
+          </p>
+          <p className="text-textSecondary">
+            {pending > 0 ? `${pending} change${pending === 1 ? '' : 's'} waiting to upload` : 'No local changes waiting'}
+            {lastSyncedAt && ` · last synced ${new Date(lastSyncedAt).toLocaleString()}`}
+          </p>
+        </div>
+      )}
+
+      {conflicts.length > 0 && (
+        <div className="mt-4 space-y-3">
+          <p className="text-sm text-warning flex items-center">
+            <AlertTriangle className="h-4 w-4 mr-1" /> {conflicts.length} entr{conflicts.length === 1 ? 'y was' : 'ies were'} changed differently on another device
+          </p>
+          {conflicts.map(conflict => (
+            <ConflictCard key={conflict.id} conflict={conflict} onResolve={choice => onResolve(conflict, choice)} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyncPanel;
@@ -0,0 +1,221 @@
+import { useState, useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Layers, AlertTriangle, GitMerge, Edit, X, Check } from 'lucide-react';
+import type { CanonicalTopic, Entry, Subject } from '../types';
+import { cn, calculateAccuracy, calculateSpeed } from '../lib/utils';
+import { analyzeTopics, masteryHistory, WEAK_THRESHOLDS, type TopicMastery } from '../lib/mastery';
+import { findNearDuplicates, mergeTopics, removeAlias, renameTopic, type TopicGroup } from '../lib/topics';
+
+const masteryColor = (mastery: number) => mastery >= 75 ? 'bg-success' : mastery >= WEAK_THRESHOLDS.mastery ? 'bg-yellow-400' : 'bg-error';
+
+const MasteryBar = ({ value }: { value: number }) => (
+  <div className="flex items-center gap-2">
+    <div className="w-24 bg-background rounded-full h-2 border border-border">
+      <div className={cn("h-2 rounded-full", masteryColor(value))} style={{ width: `${Math.max(value, 0)}%` }}></div>
+    </div>
+    <span className="text-sm font-semibold text-text">{value.toFixed(0)}</span>
+  </div>
+);
+
+const MergeSuggestions = ({ groups, onMerge }: { groups: TopicGroup[]; onMerge: (target: TopicGroup, source: TopicGroup) => void }) => {
+  const pairs = useMemo(() => findNearDuplicates(groups).slice(0, 8), [groups]);
+  if (pairs.length === 0) return null;
+
+  return (
+    <div className="bg-surface p-5 rounded-lg border border-border">
+      <h3 className="text-lg font-semibold text-text mb-3 flex items-center"><GitMerge className="mr-2 h-5 w-5 text-primary" /> Possible Duplicates</h3>
+      <div className="space-y-2">
+        {pairs.map(({ a, b, similarity }) => (
+          <div key={`${a.id}|${b.id}`} className="flex flex-wrap items-center justify-between gap-2 p-2 bg-background rounded-md border border-border text-sm">
+            <span className="text-text">
+              <span className="text-xs font-medium text-primary mr-2">{a.subject}</span>
+              "{a.name}" <span className="text-textSecondary">≈</span> "{b.name}"
+              <span className="text-xs text-textSecondary ml-2">{(similarity * 100).toFixed(0)}% similar</span>
+            </span>
+            <div className="flex gap-2">
+              <button onClick={() => onMerge(a, b)} className="px-2 py-1 rounded-md border border-border text-xs text-textSecondary hover:bg-surface transition">Keep "{a.name}"</button>
+              <button onClick={() => onMerge(b, a)} className="px-2 py-1 rounded-md border border-border text-xs text-textSecondary hover:bg-surface transition">Keep "{b.name}"</button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const TopicDetail = ({ topic, groups, catalog, setCatalog, onEdit, onClose }: { topic: TopicMastery; groups: TopicGroup[]; catalog: CanonicalTopic[]; setCatalog: (catalog: CanonicalTopic[]) => void; onEdit: (entry: Entry) => void; onClose: () => void; }) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [name, setName] = useState(topic.group.name);
+  const [mergeSource, setMergeSource] = useState('');
+  const history = useMemo(() => masteryHistory(topic.group, topic.subjectMedianSpeed), [topic]);
+  const entries = useMemo(() => [...topic.group.entries].sort((a, b) => b.date.localeCompare(a.date)), [topic]);
+  const others = groups.filter(g => g.subject === topic.group.subject && g.id !== topic.group.id);
+
+  const colors = { text: '#64748b', grid: '#e2e8f0', tooltipBg: '#ffffff', tooltipBorder: '#e2e8f0', primary: 'hsl(var(--primary))', warning: 'hsl(var(--warning))' };
+
+  const handleRename = () => {
+    if (name.trim()) setCatalog(renameTopic(catalog, topic.group, name.trim()));
+    setIsRenaming(false);
+  };
+
+  const handleMerge = () => {
+    const source = others.find(g => g.id === mergeSource);
+    if (source) setCatalog(mergeTopics(catalog, topic.group, source));
+    setMergeSource('');
+  };
+
+  return (
+    <div className="bg-surface p-5 rounded-lg border border-border space-y-4">
+      <div className="flex items-center justify-between">
+        {isRenaming ? (
+          <div className="flex items-center gap-2">
+            <input value={name} onChange={(e) => setName(e.target.value)} className="bg-background border border-border rounded-md p-1 text-text" />
+            <button onClick={handleRename} className="text-success hover:text-success/80"><Check className="h-5 w-5" /></button>
+          </div>
+        ) : (
+          <h3 className="text-lg font-semibold text-text flex items-center">
+            <span className="text-xs font-medium text-primary mr-2">{topic.group.subject}</span>
+            {topic.group.name}
+            <button onClick={() => setIsRenaming(true)} className="ml-2 text-textSecondary hover:text-text"><Edit className="h-4 w-4" /></button>
+          </h3>
+        )}
+        <button onClick={onClose} className="text-textSecondary hover:text-text"><X className="h-5 w-5" /></button>
+      </div>
+
+      {topic.reasons.length > 0 && (
+        <ul className="text-sm text-error list-disc pl-5 space-y-1">
+          {topic.reasons.map(reason => <li key={reason}>{reason}</li>)}
+        </ul>
+      )}
+
+      <ResponsiveContainer width="100%" height={200}>
+        <LineChart data={history}>
+          <CartesianGrid strokeDasharray="3 3" stroke={colors.grid} />
+          <XAxis dataKey="date" stroke={colors.text} />
+          <YAxis stroke={colors.text} domain={[0, 100]} />
+          <Tooltip contentStyle={{ backgroundColor: colors.tooltipBg, border: `1px solid ${colors.tooltipBorder}` }} itemStyle={{ color: colors.text }} labelStyle={{ color: colors.text }} />
+          <ReferenceLine y={WEAK_THRESHOLDS.mastery} stroke={colors.warning} strokeDasharray="4 2" />
+          <Line type="monotone" dataKey="mastery" name="Mastery" stroke={colors.primary} strokeWidth={2} dot={{ r: 3 }} />
+        </LineChart>
+      </ResponsiveContainer>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className="text-textSecondary">Spellings:</span>
+        {topic.group.variants.map(variant => (
+          <span key={variant} className="px-2 py-0.5 rounded-full bg-background border border-border text-text">{variant}</span>
+        ))}
+        {topic.group.canonical?.aliases.filter(a => !topic.group.variants.includes(a)).map(alias => (
+          <span key={alias} className="px-2 py-0.5 rounded-full bg-background border border-border text-textSecondary flex items-center">
+            {alias}
+            <button onClick={() => setCatalog(removeAlias(catalog, topic.group.canonical!.id, alias))} className="ml-1 hover:text-error"><X className="h-3 w-3" /></button>
+          </span>
+        ))}
+      </div>
+
+      {others.length > 0 && (
+        <div className="flex items-center gap-2">
+          <select value={mergeSource} onChange={(e) => setMergeSource(e.target.value)} className="flex-1 bg-background border border-border rounded-md p-2 text-sm text-text">
+            <option value="">Merge another {topic.group.subject} topic into this one…</option>
+            {others.map(g => <option key={g.id} value={g.id}>{g.name} ({g.entries.length})</option>)}
+          </select>
+          <button onClick={handleMerge} disabled={!mergeSource} className="px-3 py-2 rounded-md text-sm font-medium text-primary-foreground bg-primary hover:bg-primary/90 transition disabled:opacity-50">Merge</button>
+        </div>
+      )}
+
+      <div className="max-h-64 overflow-y-auto divide-y divide-border border border-border rounded-md">
+        {entries.map(entry => (
+          <div key={entry.id} className="flex items-start justify-between p-2 text-sm bg-background">
+            <div>
+              <p className="text-text">
+                {new Date(entry.date).toLocaleDateString()} · {calculateAccuracy(entry).toFixed(0)}% · {calculateSpeed(entry).toFixed(1)} min/set · confidence {entry.confidence}
+              </p>
+              {entry.learnings && <p className="text-xs text-textSecondary mt-1">{entry.learnings}</p>}
+            </div>
+            <button onClick={() => onEdit(entry)} className="text-primary hover:text-primary/80 transition"><Edit className="h-4 w-4" /></button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const TopicsView = ({ entries, subjects, catalog, setCatalog, onEdit }: { entries: Entry[]; subjects: Subject[]; catalog: CanonicalTopic[]; setCatalog: (catalog: CanonicalTopic[]) => void; onEdit: (entry: Entry) => void; }) => {
+  const [subject, setSubject] = useState<Subject | 'All'>('All');
+  const [weakOnly, setWeakOnly] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const topics = useMemo(() => analyzeTopics(entries, catalog), [entries, catalog]);
+  const groups = useMemo(() => topics.map(t => t.group), [topics]);
+  const visible = topics.filter(t => (subject === 'All' || t.group.subject === subject) && (!weakOnly || t.isWeak));
+  const selected = topics.find(t => t.group.id === selectedId) ?? null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h3 className="text-xl font-semibold text-text flex items-center"><Layers className="mr-2 h-5 w-5 text-primary" /> Topic Mastery</h3>
+        <div className="flex items-center gap-4">
+          <label className="flex items-center text-sm text-text">
+            <input type="checkbox" checked={weakOnly} onChange={(e) => setWeakOnly(e.target.checked)} className="h-4 w-4 mr-2 rounded border-border text-primary focus:ring-primary" />
+            Weak only ({topics.filter(t => t.isWeak).length})
+          </label>
+          <select value={subject} onChange={(e) => setSubject(e.target.value as Subject | 'All')} className="bg-background border border-border rounded-md p-2 text-text focus:ring-2 focus:ring-primary focus:border-primary transition">
+            <option value="All">All subjects</option>
+            {subjects.map(s => <option key={s} value={s}>{s}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <MergeSuggestions groups={groups} onMerge={(target, source) => setCatalog(mergeTopics(catalog, target, source))} />
+
+      {selected && (
+        <TopicDetail key={selected.group.id} topic={selected} groups={groups} catalog={catalog} setCatalog={setCatalog} onEdit={onEdit} onClose={() => setSelectedId(null)} />
+      )}
+
+      <div className="bg-surface rounded-lg border border-border overflow-x-auto">
+        <table className="min-w-full divide-y divide-border">
+          <thead className="bg-surface/50">
+            <tr>
+              {['#', 'Topic', 'Mastery', 'Accuracy', 'Speed (min/set)', 'Confidence', 'Entries', 'Last Practised', 'Flags'].map(header => (
+                <th key={header} scope="col" className="px-4 py-3 text-left text-xs font-medium text-textSecondary uppercase tracking-wider">{header}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-background divide-y divide-border">
+            {visible.length > 0 ? visible.map((topic, index) => (
+              <tr
+                key={topic.group.id}
+                onClick={() => setSelectedId(topic.group.id === selectedId ? null : topic.group.id)}
+                className={cn("cursor-pointer hover:bg-surface/50 transition-colors", { 'bg-primary/5': topic.group.id === selectedId })}
+              >
+                <td className="px-4 py-3 text-sm text-textSecondary">{index + 1}</td>
+                <td className="px-4 py-3 text-sm text-text">
+                  <span className="text-xs font-medium text-primary mr-2">{topic.group.subject}</span>{topic.group.name}
+                </td>
+                <td className="px-4 py-3"><MasteryBar value={topic.mastery} /></td>
+                <td className="px-4 py-3 text-sm text-text">{topic.accuracy !== null ? `${topic.accuracy.toFixed(1)}%` : '—'}</td>
+                <td className="px-4 py-3 text-sm text-text">{topic.speed !== null ? topic.speed.toFixed(1) : '—'}</td>
+                <td className="px-4 py-3 text-sm text-text">{topic.confidence.toFixed(1)}</td>
+                <td className="px-4 py-3 text-sm text-text">{topic.group.entries.length}</td>
+                <td className="px-4 py-3 text-sm text-text whitespace-nowrap">{new Date(topic.lastPracticed).toLocaleDateString()}</td>
+                <td className="px-4 py-3 text-sm">
+                  {topic.isWeak && (
+                    <span title={topic.reasons.join('\n')} className="flex items-center text-error font-medium">
+                      <AlertTriangle className="h-4 w-4 mr-1" /> Weak
+                      <span className="ml-1 text-xs text-textSecondary font-normal truncate max-w-[16rem]">{topic.reasons[0]}</span>
+                    </span>
+                  )}
+                </td>
+              </tr>
+            )) : (
+              <tr>
+                <td colSpan={9} className="text-center py-10 text-textSecondary">No topics to show yet. Log entries with a topic to build your mastery map.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default TopicsView;
@@ -0,0 +1,35 @@
+import { Trash, RotateCcw } from 'lucide-react';
+import type { TrashedEntry } from '../types';
+import { TRASH_RETENTION_DAYS, trashExpiresAt } from '../lib/bulkEdit';
+
+const TrashPanel = ({ trash, onRestore, onEmpty }: { trash: TrashedEntry[]; onRestore: (ids: string[]) => void; onEmpty: () => void }) => {
+  if (trash.length === 0) return null;
+
+  return (
+    <div className="bg-surface p-6 rounded-lg border border-border">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-semibold text-text flex items-center"><Trash className="mr-2 h-5 w-5 text-primary" /> Trash</h3>
+        <div className="flex items-center gap-3 text-sm">
+          <button onClick={() => onRestore(trash.map(t => t.entry.id))} className="text-primary hover:underline">Restore all</button>
+          <button onClick={() => window.confirm('Permanently delete everything in the trash?') && onEmpty()} className="text-error hover:underline">Empty</button>
+        </div>
+      </div>
+      <div className="space-y-2 max-h-64 overflow-y-auto pr-2">
+        {trash.map(({ entry, deletedAt }) => (
+          <div key={entry.id} className="flex items-center justify-between p-2 bg-background rounded-md border border-border">
+            <div className="min-w-0">
+              <p className="text-sm text-text truncate"><span className="font-medium text-primary mr-2">{entry.subject}</span>{entry.topic || 'Untagged'}</p>
+              <p className="text-xs text-textSecondary">
+                {new Date(entry.date).toLocaleDateString()} · deleted {new Date(deletedAt).toLocaleDateString()} · purged {trashExpiresAt({ entry, deletedAt }).toLocaleDateString()}
+              </p>
+            </div>
+            <button onClick={() => onRestore([entry.id])} className="text-primary hover:text-primary/80 transition ml-2" title="Restore"><RotateCcw className="h-4 w-4" /></button>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-textSecondary mt-3">Deleted entries are kept for {TRASH_RETENTION_DAYS} days.</p>
+    </div>
+  );
+};
+
+export default TrashPanel;
@@ -0,0 +1,80 @@
+import { useMemo } from 'react';
+import { TrendingUp, TrendingDown, Minus, Flag } from 'lucide-react';
+import type { Entry, ScoreView, Subject, TrendMetric, TrendModel, TrendTargets } from '../types';
+import { cn } from '../lib/utils';
+import { COMPARISON_DAYS, TREND_METRIC_LABELS, TREND_WINDOW_DAYS, subjectTrend, type PeriodComparison, type Projection } from '../lib/trends';
+
+const fieldClass = "w-16 bg-background border border-border rounded-md p-1 text-sm text-text focus:ring-2 focus:ring-primary focus:border-primary transition";
+
+const formatValue = (metric: TrendMetric, value: number) => (metric === 'minutesPerSet' ? `${value.toFixed(1)} min` : `${value.toFixed(0)}%`);
+const formatDelta = (metric: TrendMetric, delta: number) => (metric === 'minutesPerSet' ? `${Math.abs(delta).toFixed(1)} min` : `${Math.abs(delta).toFixed(1)} pts`);
+const formatP = (p: number) => (p < 0.001 ? 'p<0.001' : p < 0.05 ? 'p<0.05' : `p=${p.toFixed(2)}`);
+
+const ComparisonLine = ({ subject, comparison }: { subject: string; comparison: PeriodComparison }) => {
+  const { metric, delta, significant, improved, pValue } = comparison;
+  const Icon = !significant ? Minus : delta > 0 ? TrendingUp : TrendingDown;
+  return (
+    <p className={cn('text-sm flex items-start', significant ? (improved ? 'text-success' : 'text-error') : 'text-textSecondary')}>
+      <Icon className="h-4 w-4 mr-2 mt-0.5 shrink-0" />
+      <span>
+        {subject} {TREND_METRIC_LABELS[metric]} {significant ? `${delta > 0 ? 'up' : 'down'} ${formatDelta(metric, delta)}` : 'steady'} over the last {COMPARISON_DAYS} days
+        {' '}({formatValue(metric, comparison.before)} → {formatValue(metric, comparison.after)}, {formatP(pValue)})
+      </span>
+    </p>
+  );
+};
+
+const projectionText = (metric: TrendMetric, target: number, projection: Projection) => {
+  const goal = `${formatValue(metric, target)} ${TREND_METRIC_LABELS[metric]}`;
+  switch (projection.status) {
+    case 'reached': return `At or past ${goal} (trend ${formatValue(metric, projection.current)})`;
+    case 'on-track': return `Reaches ${goal} around ${new Date(projection.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} (${projection.days} days)`;
+    case 'beyond': return `More than a year from ${goal} at the current rate`;
+    case 'diverging': return `Trending away from ${goal}`;
+    case 'no-trend': return `No clear trend towards ${goal} yet`;
+  }
+};
+
+const TrendCallouts = ({ entries, subjects, subject, scoreView, model, targets, setTargets }: { entries: Entry[]; subjects: Subject[]; subject: Subject | 'Overall'; scoreView: ScoreView; model: TrendModel; targets: TrendTargets; setTargets: (targets: TrendTargets) => void }) => {
+  const metrics: TrendMetric[] = useMemo(() => [scoreView, 'minutesPerSet'], [scoreView]);
+  const rows = useMemo(() => {
+    const scopes: (Subject | 'Overall')[] = subject === 'Overall' ? ['Overall', ...subjects] : [subject];
+    return scopes.map(scope => subjectTrend(entries, scope, metrics, targets, model));
+  }, [entries, subjects, subject, metrics, targets, model]);
+
+  const hasData = rows.some(row => row.comparisons.length > 0 || row.projections.length > 0);
+
+  return (
+    <div className="bg-surface p-5 rounded-lg border border-border mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <h3 className="text-lg font-semibold text-text">Trend Callouts</h3>
+        <div className="flex items-center gap-3 text-sm text-textSecondary">
+          <span className="flex items-center"><Flag className="h-4 w-4 mr-1" /> Targets</span>
+          {metrics.map(metric => (
+            <label key={metric} className="flex items-center gap-1">
+              {TREND_METRIC_LABELS[metric]}
+              <input type="number" step={metric === 'minutesPerSet' ? 0.5 : 1} value={targets[metric]} onChange={(e) => setTargets({ ...targets, [metric]: Number(e.target.value) })} className={fieldClass} />
+            </label>
+          ))}
+        </div>
+      </div>
+      {hasData ? (
+        <div className="space-y-3">
+          {rows.filter(row => row.comparisons.length > 0 || row.projections.length > 0).map(row => (
+            <div key={row.subject} className="p-3 bg-background rounded-md border border-border space-y-1">
+              <p className="text-sm font-semibold text-text">{row.subject}</p>
+              {row.comparisons.map(comparison => <ComparisonLine key={comparison.metric} subject={row.subject} comparison={comparison} />)}
+              {row.projections.map(({ metric, target, projection }) => (
+                <p key={metric} className="text-xs text-textSecondary">{projectionText(metric, target, projection)}</p>
+              ))}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-textSecondary">Log at least three days in the last {TREND_WINDOW_DAYS} to see trends, and three entries in each of the last two {COMPARISON_DAYS}-day periods for comparisons.</p>
+      )}
+    </div>
+  );
+};
+
+export default TrendCallouts;
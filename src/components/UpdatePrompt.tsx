@@ -0,0 +1,37 @@
+import { RefreshCw, WifiOff, CheckCircle, XCircle } from 'lucide-react';
+import { applyUpdate, dismissOfflineReady, dismissUpdate } from '../lib/pwa';
+import { usePwa } from '../hooks/usePwa';
+
+const toastClass = "flex items-center gap-3 bg-surface border border-border rounded-lg shadow-lg px-4 py-3 text-sm text-text";
+
+// Bottom-corner notices for a waiting update, the first offline-ready install
+// and lost connectivity. The update is never applied without a click.
+const UpdatePrompt = () => {
+  const { updateReady, offlineReady, online } = usePwa();
+  if (!updateReady && !offlineReady && online) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-30 space-y-2 print:hidden">
+      {!online && (
+        <div className={toastClass}>
+          <WifiOff className="h-4 w-4 text-warning" /> Offline. Entries are still saved on this device.
+        </div>
+      )}
+      {offlineReady && (
+        <div className={toastClass}>
+          <CheckCircle className="h-4 w-4 text-success" /> Ready to work offline.
+          <button onClick={dismissOfflineReady} className="text-textSecondary hover:text-text" aria-label="Dismiss"><XCircle className="h-4 w-4" /></button>
+        </div>
+      )}
+      {updateReady && (
+        <div className={toastClass}>
+          <RefreshCw className="h-4 w-4 text-primary" /> A new version is available.
+          <button onClick={applyUpdate} className="px-3 py-1 text-xs font-semibold rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition">Reload</button>
+          <button onClick={dismissUpdate} className="text-xs text-textSecondary hover:text-text">Later</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UpdatePrompt;
@@ -0,0 +1,152 @@
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { Entry, Tombstone } from '../types';
+import { applyChange, openEntryAdapter, type EntryChange, type EntryStorageAdapter } from '../lib/adapters';
+import { openSyncChannel, type SyncChannel } from '../lib/entrySync';
+import { entriesStore, tombstonesStore } from '../lib/schema';
+import { loadStore, reportWriteFailure, saveStore } from '../lib/storage';
+import { forStudent } from '../lib/students';
+
+// Entries are replaced immutably, so any object that is not reference-equal to
+// its previous version has changed and needs writing.
+function diffEntries(prev: Entry[], next: Entry[]): EntryChange {
+  const before = new Map(prev.map(e => [e.id, e]));
+  const nextIds = new Set(next.map(e => e.id));
+  return {
+    put: next.filter(e => before.get(e.id) !== e),
+    remove: prev.filter(e => !nextIds.has(e.id)).map(e => e.id),
+  };
+}
+
+// Local writes get a fresh timestamp, which is how sync tells an edit made here
+// from the version it last agreed with the server; `rev` is left to sync.
+// Removed ids leave a tombstone so the deletion can be pushed too.
+function stampChange(change: EntryChange, studentId: string): EntryChange {
+  const now = new Date().toISOString();
+  const put = change.put.map(e => ({ ...e, updatedAt: now }));
+  const store = forStudent(tombstonesStore, studentId);
+  const tombstones = loadStore(store);
+  const putIds = new Set(put.map(e => e.id));
+  const removed = new Set(change.remove);
+  const next: Tombstone[] = [
+    ...tombstones.filter(t => !putIds.has(t.id) && !removed.has(t.id)),
+    ...change.remove.map(id => ({ id, deletedAt: now })),
+  ];
+  if (next.length !== tombstones.length || change.remove.length > 0) saveStore(store, next);
+  return { put, remove: change.remove };
+}
+
+// --- ENTRIES HOOK ---
+export function useEntries(studentId: string) {
+  const [entries, setEntriesState] = useState<Entry[]>([]);
+  const [backend, setBackend] = useState<EntryStorageAdapter['kind'] | null>(null);
+  // True while another tab blocks the database from opening.
+  const [blocked, setBlocked] = useState(false);
+  // True once another tab has taken the database away; writes fail until the
+  // tab is reloaded.
+  const [outdated, setOutdated] = useState(false);
+  const entriesRef = useRef<Entry[]>([]);
+  const adapterRef = useRef<Promise<EntryStorageAdapter> | null>(null);
+  const channelRef = useRef<SyncChannel | null>(null);
+
+  const replaceState = useCallback((next: Entry[]) => {
+    entriesRef.current = next;
+    setEntriesState(next);
+  }, []);
+
+  const persist = useCallback((change: EntryChange) => {
+    if (change.put.length === 0 && change.remove.length === 0) return;
+    adapterRef.current
+      ?.then(adapter => adapter.apply(change))
+      .then(() => channelRef.current?.post({ type: 'change', change }))
+      .catch(error => reportWriteFailure(forStudent(entriesStore, studentId).key, error));
+  }, [studentId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const aborter = new AbortController();
+    // Stays pending while blocked, so writes queue up until it opens.
+    const adapterPromise = openEntryAdapter(studentId, {
+      signal: aborter.signal,
+      onBlocked: value => {
+        if (!cancelled) setBlocked(value);
+      },
+      onVersionChange: () => {
+        if (!cancelled) setOutdated(true);
+      },
+    });
+    adapterRef.current = adapterPromise;
+
+    const reload = (keepPending: boolean) => adapterPromise
+      .then(adapter => adapter.load())
+      .then(loaded => {
+        if (cancelled) return;
+        if (!keepPending) return replaceState(loaded);
+        // Keep anything saved while the initial load was still in flight.
+        const loadedIds = new Set(loaded.map(e => e.id));
+        replaceState([...loaded, ...entriesRef.current.filter(e => !loadedIds.has(e.id))]);
+      })
+      .catch(error => console.error(error));
+
+    adapterPromise.then(adapter => {
+      if (!cancelled) setBackend(adapter.kind);
+    }, () => {});
+    reload(true);
+
+    channelRef.current = openSyncChannel(studentId, message => {
+      if (message.type === 'change') replaceState(applyChange(entriesRef.current, message.change));
+      else reload(false);
+    });
+
+    return () => {
+      cancelled = true;
+      aborter.abort();
+      setBlocked(false);
+      setOutdated(false);
+      channelRef.current?.close();
+      channelRef.current = null;
+      adapterPromise.then(adapter => adapter.close(), () => {});
+    };
+  }, [studentId, persist, replaceState]);
+
+  const setEntries: React.Dispatch<React.SetStateAction<Entry[]>> = useCallback((value) => {
+    const prev = entriesRef.current;
+    const next = value instanceof Function ? value(prev) : value;
+    const change = stampChange(diffEntries(prev, next), studentId);
+    replaceState(change.put.length > 0 ? applyChange(next, change) : next);
+    persist(change);
+  }, [studentId, persist, replaceState]);
+
+  // Writes versions that came from the sync server, which must keep the
+  // revision and timestamp they were given.
+  const applyRemote = useCallback((change: EntryChange) => {
+    replaceState(applyChange(entriesRef.current, change));
+    persist(change);
+  }, [persist, replaceState]);
+
+  // Snapshots are kept by the backend that holds the entries.
+  const listSnapshots = useCallback(async () => (await adapterRef.current)?.listSnapshots() ?? [], []);
+  const takeSnapshot = useCallback(async (reason: string) => {
+    await (await adapterRef.current)?.snapshot(reason);
+  }, []);
+  const deleteSnapshot = useCallback(async (id: string) => {
+    await (await adapterRef.current)?.deleteSnapshot(id);
+  }, []);
+
+  // Restored entries are written as local edits, so sync pushes them too. What
+  // they replace is snapshotted first.
+  const restoreSnapshot = useCallback(async (id: string) => {
+    const adapter = await adapterRef.current;
+    const restored = adapter && await adapter.readSnapshot(id);
+    if (!adapter || !restored) return false;
+    await adapter.snapshot('Before restore');
+    setEntries(restored);
+    return true;
+  }, [setEntries]);
+
+  const snapshots = useMemo(
+    () => ({ list: listSnapshots, take: takeSnapshot, remove: deleteSnapshot, restore: restoreSnapshot }),
+    [listSnapshots, takeSnapshot, deleteSnapshot, restoreSnapshot],
+  );
+
+  return { entries, setEntries, applyRemote, backend, blocked, outdated, snapshots };
+}
@@ -0,0 +1,54 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Entry } from '../types';
+import { analyzeMistakes, type InsightReport } from '../lib/insights';
+import type { InsightsRequest, InsightsResponse } from '../workers/insights.worker';
+
+// --- INSIGHTS HOOK ---
+// Runs the mistake analysis in a worker so long logs don't block typing.
+// Browsers without module workers fall back to the main thread.
+export function useInsights() {
+  const [report, setReport] = useState<InsightReport | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const workerRef = useRef<Worker | null>(null);
+  const requestRef = useRef(0);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const getWorker = useCallback(() => {
+    if (workerRef.current || typeof Worker === 'undefined') return workerRef.current;
+    try {
+      const worker = new Worker(new URL('../workers/insights.worker.ts', import.meta.url), { type: 'module' });
+      worker.addEventListener('message', (event: MessageEvent<InsightsResponse>) => {
+        // Only the latest request's answer is shown.
+        if (event.data.requestId !== requestRef.current) return;
+        setReport(event.data.report);
+        setIsAnalyzing(false);
+      });
+      worker.addEventListener('error', (event) => {
+        console.error('Insights worker failed', event);
+        setIsAnalyzing(false);
+      });
+      workerRef.current = worker;
+    } catch (error) {
+      console.warn('Module workers unavailable; analyzing on the main thread.', error);
+    }
+    return workerRef.current;
+  }, []);
+
+  const analyze = useCallback((entries: Entry[]) => {
+    setIsAnalyzing(true);
+    const requestId = ++requestRef.current;
+    const worker = getWorker();
+    if (worker) {
+      const request: InsightsRequest = { requestId, entries };
+      worker.postMessage(request);
+    } else {
+      setTimeout(() => {
+        setReport(analyzeMistakes(entries));
+        setIsAnalyzing(false);
+      }, 0);
+    }
+  }, [getWorker]);
+
+  return { report, isAnalyzing, analyze };
+}
@@ -0,0 +1,36 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { loadStore, saveStore, subscribe, type StoreDefinition } from '../lib/storage';
+
+// --- PERSISTENT STATE HOOK ---
+export function usePersistentState<T>(store: StoreDefinition<T>): [T, React.Dispatch<React.SetStateAction<T>>] {
+  const [storedValue, setStoredValue] = useState<T>(() => loadStore(store));
+  const valueRef = useRef(storedValue);
+
+  // Restoring a backup or a write from another tab rewrites the key
+  // underneath us; reload when either happens.
+  useEffect(() => {
+    const reload = () => {
+      const value = loadStore(store);
+      valueRef.current = value;
+      setStoredValue(value);
+    };
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === store.key) reload();
+    };
+    const unsubscribe = subscribe(store.key, reload);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      unsubscribe();
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [store]);
+
+  const setValue: React.Dispatch<React.SetStateAction<T>> = useCallback((value) => {
+    const valueToStore = value instanceof Function ? value(valueRef.current) : value;
+    valueRef.current = valueToStore;
+    setStoredValue(valueToStore);
+    saveStore(store, valueToStore);
+  }, [store]);
+
+  return [storedValue, setValue];
+}
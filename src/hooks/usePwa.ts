@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from 'react';
+import { getPwaState, subscribePwa } from '../lib/pwa';
+
+// --- PWA HOOK ---
+export const usePwa = () => useSyncExternalStore(subscribePwa, getPwaState);
@@ -0,0 +1,47 @@
+import { useEffect, useRef } from 'react';
+import type { Entry, ReminderSettings } from '../types';
+import { isReminderDue, msUntilNextReminder, notificationSupport, reminderMessage, showReminder } from '../lib/reminders';
+import { formatDate } from '../lib/utils';
+
+// --- REMINDERS HOOK ---
+// Checks on mount, at the reminder time and whenever the tab comes back into
+// view, since timers are paused while a phone sleeps.
+export function useReminders(settings: ReminderSettings, setSettings: (settings: ReminderSettings) => void, entries: Entry[], dailyTarget: number) {
+  // The timer reads the latest entries without being rescheduled on every edit.
+  const latest = useRef({ settings, setSettings, entries, dailyTarget });
+  latest.current = { settings, setSettings, entries, dailyTarget };
+
+  useEffect(() => {
+    if (!settings.enabled || notificationSupport() !== 'granted') return;
+
+    const check = () => {
+      const { settings: current, setSettings: save, entries: logged, dailyTarget: target } = latest.current;
+      if (!isReminderDue(current, logged, target)) return;
+      const { title, body } = reminderMessage(logged, target);
+      save({ ...current, lastNotified: formatDate(new Date()) });
+      showReminder(title, body).catch(error => console.error('Could not show reminder', error));
+    };
+
+    let timer = 0;
+    const schedule = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(() => {
+        check();
+        schedule();
+      }, msUntilNextReminder(latest.current.settings));
+    };
+    const handleVisibility = () => {
+      if (document.visibilityState !== 'visible') return;
+      check();
+      schedule();
+    };
+
+    check();
+    schedule();
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      window.clearTimeout(timer);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [settings.enabled, settings.time]);
+}
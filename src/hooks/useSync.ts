@@ -0,0 +1,105 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { Entry, SyncConflict, SyncSettings } from '../types';
+import type { EntryChange } from '../lib/adapters';
+import { EMPTY_SYNC_JOURNAL } from '../lib/schema';
+import { loadStore, saveStore } from '../lib/storage';
+import type { StudentStores } from '../lib/students';
+import { createHttpTransport, pendingCount, reconcileOutcome, resolveConflict, runSync, type ConflictChoice } from '../lib/sync';
+import { createRecordId } from '../lib/utils';
+import { usePersistentState } from './usePersistentState';
+
+export type SyncStatus = 'idle' | 'syncing' | 'offline' | 'error';
+
+const SYNC_INTERVAL_MS = 5 * 60 * 1000;
+// Batches a burst of edits into one push.
+const PUSH_DELAY_MS = 5000;
+
+// --- SYNC HOOK ---
+// Syncs on start, every few minutes, when the connection comes back and
+// shortly after local edits. Only one sync runs at a time.
+export function useSync(
+  stores: Pick<StudentStores, 'syncSettings' | 'syncJournal' | 'tombstones'>,
+  entries: Entry[],
+  applyRemote: (change: EntryChange) => void,
+) {
+  const [settings, setSettings] = usePersistentState(stores.syncSettings);
+  const [journal, setJournal] = usePersistentState(stores.syncJournal);
+  const [status, setStatus] = useState<SyncStatus>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const latest = useRef({ settings, journal, entries, applyRemote });
+  latest.current = { settings, journal, entries, applyRemote };
+  const running = useRef(false);
+
+  // The server records which device wrote each version.
+  useEffect(() => {
+    if (!settings.deviceId) setSettings(prev => ({ ...prev, deviceId: createRecordId() }));
+  }, [settings.deviceId, setSettings]);
+
+  const syncNow = useCallback(async () => {
+    const { settings: current, journal: before, entries: seen } = latest.current;
+    if (running.current || !current.serverUrl || !current.space || !current.deviceId) return;
+    if (!navigator.onLine) {
+      setStatus('offline');
+      return;
+    }
+    running.current = true;
+    setStatus('syncing');
+    try {
+      const tombstones = loadStore(stores.tombstones);
+      const outcome = await runSync({
+        transport: createHttpTransport(current), deviceId: current.deviceId, entries: seen, tombstones, journal: before,
+      });
+      const result = reconcileOutcome(
+        outcome,
+        { journal: before, entries: seen, tombstones },
+        { entries: latest.current.entries, tombstones: loadStore(stores.tombstones) },
+      );
+      latest.current.applyRemote(result.change);
+      saveStore(stores.tombstones, result.tombstones);
+      setJournal(result.journal);
+      setError(null);
+      setStatus('idle');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setStatus('error');
+    } finally {
+      running.current = false;
+    }
+  }, [stores, setJournal]);
+
+  const pending = useMemo(() => pendingCount(entries, journal), [entries, journal]);
+
+  useEffect(() => {
+    if (!settings.enabled) return;
+    syncNow();
+    const interval = window.setInterval(syncNow, SYNC_INTERVAL_MS);
+    window.addEventListener('online', syncNow);
+    return () => {
+      window.clearInterval(interval);
+      window.removeEventListener('online', syncNow);
+    };
+  }, [settings.enabled, settings.serverUrl, settings.space, settings.token, syncNow]);
+
+  useEffect(() => {
+    if (!settings.enabled || pending === 0) return;
+    const timer = window.setTimeout(syncNow, PUSH_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [settings.enabled, pending, entries, syncNow]);
+
+  // Revisions are per space, so pointing at another server or space starts
+  // over: everything here is pushed as new and merged with what is there.
+  const saveSettings = useCallback((next: SyncSettings) => {
+    const { settings: current } = latest.current;
+    if (next.serverUrl !== current.serverUrl || next.space !== current.space) setJournal(EMPTY_SYNC_JOURNAL);
+    setSettings(next);
+  }, [setSettings, setJournal]);
+
+  const resolve = useCallback((conflict: SyncConflict, choice: ConflictChoice) => {
+    const current = latest.current.entries.find(e => e.id === conflict.id) ?? null;
+    const result = resolveConflict(latest.current.journal, conflict, choice, current);
+    latest.current.applyRemote(result.change);
+    setJournal(result.journal);
+  }, [setJournal]);
+
+  return { settings, saveSettings, journal, status, error, pending, syncNow, resolve };
+}
@@ -0,0 +1,82 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+
+// --- UNDO HISTORY HOOK ---
+// Keeps a patch for each change made through `perform`, built by
+// `patcher.diff`. Undo and redo apply the patch to the state as it is by then
+// rather than restoring a snapshot, so changes that arrived from elsewhere in
+// the meantime are kept.
+
+type Step<P> = { label: string; patch: P };
+
+export type UndoPatcher<T, P> = {
+  diff: (before: T, after: T) => P;
+  apply: (state: T, patch: P, direction: 'undo' | 'redo') => T;
+};
+
+const HISTORY_LIMIT = 50;
+
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+export function useUndoHistory<T, P>(current: T, apply: (state: T) => void, patcher: UndoPatcher<T, P>) {
+  const [past, setPast] = useState<Step<P>[]>([]);
+  const [future, setFuture] = useState<Step<P>[]>([]);
+  const currentRef = useRef(current);
+  currentRef.current = current;
+
+  const perform = useCallback((label: string, update: (state: T) => T) => {
+    const before = currentRef.current;
+    const after = update(before);
+    currentRef.current = after;
+    setPast(prev => [...prev, { label, patch: patcher.diff(before, after) }].slice(-HISTORY_LIMIT));
+    setFuture([]);
+    apply(after);
+  }, [apply, patcher]);
+
+  const undo = useCallback(() => {
+    const last = past[past.length - 1];
+    if (!last) return;
+    setPast(past.slice(0, -1));
+    setFuture(prev => [last, ...prev]);
+    const next = patcher.apply(currentRef.current, last.patch, 'undo');
+    currentRef.current = next;
+    apply(next);
+  }, [past, apply, patcher]);
+
+  const redo = useCallback(() => {
+    const next = future[0];
+    if (!next) return;
+    setFuture(future.slice(1));
+    setPast(prev => [...prev, next]);
+    const state = patcher.apply(currentRef.current, next.patch, 'redo');
+    currentRef.current = state;
+    apply(state);
+  }, [future, apply, patcher]);
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes. Text fields keep
+  // their own native undo.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isTextField(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) undo();
+      else if ((key === 'z' && event.shiftKey) || key === 'y') redo();
+      else return;
+      event.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Every patch that undo or redo could still apply.
+  const patches = useMemo(() => [...past, ...future].map(step => step.patch), [past, future]);
+
+  return {
+    perform,
+    undo,
+    redo,
+    undoLabel: past[past.length - 1]?.label ?? null,
+    redoLabel: future[0]?.label ?? null,
+    patches,
+  };
+}
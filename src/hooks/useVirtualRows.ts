@@ -0,0 +1,24 @@
+import React, { useState, useCallback } from 'react';
+
+// --- VIRTUAL ROWS HOOK ---
+// Renders only the rows inside a fixed-height scroll container, plus a few on
+// either side. Rows must all be `rowHeight` pixels tall.
+export function useVirtualRows(count: number, rowHeight: number, viewportHeight: number, overscan = 8) {
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const onScroll = useCallback((event: React.UIEvent<HTMLElement>) => {
+    setScrollTop(event.currentTarget.scrollTop);
+  }, []);
+
+  const end = Math.min(Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan, count);
+  // A filter can shrink the list while the container is still scrolled down.
+  const start = Math.min(Math.max(Math.floor(scrollTop / rowHeight) - overscan, 0), end);
+
+  return {
+    start,
+    end,
+    padTop: start * rowHeight,
+    padBottom: Math.max(count - end, 0) * rowHeight,
+    onScroll,
+  };
+}
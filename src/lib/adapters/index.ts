@@ -0,0 +1,43 @@
+import { DatabaseBlockedError, createIndexedDbAdapter, databaseName } from './indexedDbAdapter';
+import { createLocalStorageAdapter } from './localStorageAdapter';
+import type { EntryStorageAdapter } from './types';
+
+export type { EntryChange, EntryQuery, EntryStorageAdapter } from './types';
+export { applyChange } from './localStorageAdapter';
+
+const BLOCKED_RETRY_MS = 3000;
+
+// IndexedDB that is missing or broken falls back to localStorage. A database
+// blocked by an older tab is retried instead: the localStorage copy would show
+// stale entries and fork the writes. Callers that pass `onBlocked` hear when
+// the wait starts and ends; others get the error. `onVersionChange` hears when
+// another tab takes the open database away (see openDatabase).
+export async function openEntryAdapter(
+  studentId: string,
+  options: { onBlocked?: (blocked: boolean) => void; onVersionChange?: () => void; signal?: AbortSignal } = {},
+): Promise<EntryStorageAdapter> {
+  if (typeof indexedDB === 'undefined') return createLocalStorageAdapter(studentId);
+  let waited = false;
+  for (;;) {
+    try {
+      const adapter = await createIndexedDbAdapter(studentId, options.onVersionChange);
+      if (waited) options.onBlocked?.(false);
+      return adapter;
+    } catch (error) {
+      if (!(error instanceof DatabaseBlockedError)) {
+        console.warn('IndexedDB unavailable, falling back to localStorage.', error);
+        return createLocalStorageAdapter(studentId);
+      }
+      if (!options.onBlocked) throw error;
+      waited = true;
+      options.onBlocked(true);
+      await new Promise(resolve => setTimeout(resolve, BLOCKED_RETRY_MS));
+      if (options.signal?.aborted) throw error;
+    }
+  }
+}
+
+// The localStorage copy goes with the student's other keys (clearStudentStores).
+export function deleteEntryData(studentId: string) {
+  if (typeof indexedDB !== 'undefined') indexedDB.deleteDatabase(databaseName(studentId));
+}
@@ -0,0 +1,198 @@
+import type { Entry } from '../../types';
+import { entriesStore } from '../schema';
+import {
+  BACKUPS_KEY, MAX_BACKUPS_PER_KEY, createSnapshot, deleteBackup, isSnapshotDueAfter, listBackups, loadStore, notify, quarantine, readSnapshot, reportWriteFailure,
+  runMigrations, type BackupSnapshot, type StoreDefinition,
+} from '../storage';
+import { forStudent, studentKey } from '../students';
+import { matchesQuery } from './localStorageAdapter';
+import type { EntryChange, EntryStorageAdapter } from './types';
+
+const DB_NAME = 'cat-tracker';
+const DB_VERSION = 3;
+const ENTRIES = 'entries';
+const META = 'meta';
+// Question screenshots (Blobs keyed by image id), v2 onwards.
+export const IMAGES = 'images';
+// Snapshots of the entries (BackupSnapshot keyed by id), v3 onwards.
+const SNAPSHOTS = 'snapshots';
+
+// Bookkeeping keys in the `meta` object store.
+const SCHEMA_VERSION_KEY = 'entriesSchemaVersion';
+const MIGRATED_KEY = 'migratedFromLocalStorage';
+
+export function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+}
+
+// Another tab holds an older version of the database open and has not let go.
+export class DatabaseBlockedError extends Error {
+  constructor() {
+    super('The entries database is waiting for another open tab to close');
+    this.name = 'DatabaseBlockedError';
+  }
+}
+
+// One database per student, named like their localStorage keys.
+export const databaseName = (studentId: string) => studentKey(DB_NAME, studentId);
+
+// `onVersionChange` hears when a newer version in another tab (or deleting the
+// student) takes the database away: the connection is closed to let it in, and
+// this tab cannot write again until it reloads.
+export function openDatabase(studentId: string, onVersionChange?: () => void): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    let blocked = false;
+    const request = indexedDB.open(databaseName(studentId), DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        const entries = db.createObjectStore(ENTRIES, { keyPath: 'id' });
+        entries.createIndex('date', 'date');
+        entries.createIndex('subject', 'subject');
+        db.createObjectStore(META);
+      }
+      if (event.oldVersion < 2) db.createObjectStore(IMAGES);
+      if (event.oldVersion < 3) db.createObjectStore(SNAPSHOTS, { keyPath: 'id' });
+    };
+    request.onsuccess = () => {
+      // A request given up on as blocked can still go through later.
+      if (blocked) return request.result.close();
+      // Let a newer version in another tab upgrade instead of being blocked.
+      request.result.onversionchange = () => {
+        request.result.close();
+        onVersionChange?.();
+      };
+      resolve(request.result);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => {
+      blocked = true;
+      reject(new DatabaseBlockedError());
+    };
+  });
+}
+
+// Newest first. Snapshots taken into localStorage before v3 are listed too, so
+// they can still be restored.
+async function listSnapshots(db: IDBDatabase, store: StoreDefinition<Entry[]>): Promise<BackupSnapshot[]> {
+  const own: BackupSnapshot[] = await promisify(db.transaction(SNAPSHOTS, 'readonly').objectStore(SNAPSHOTS).getAll());
+  return [...own, ...listBackups(store.key)].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Keeps the newest MAX_BACKUPS_PER_KEY. A snapshot that cannot be written is
+// reported rather than stopping the load or save it was guarding.
+async function writeSnapshot(db: IDBDatabase, store: StoreDefinition<Entry[]>, value: Entry[], reason: string) {
+  try {
+    const tx = db.transaction(SNAPSHOTS, 'readwrite');
+    const done = transactionDone(tx);
+    const snapshots = tx.objectStore(SNAPSHOTS);
+    snapshots.put(createSnapshot(store, value, reason));
+    const kept: BackupSnapshot[] = await promisify(snapshots.getAll());
+    kept.sort((a, b) => b.createdAt.localeCompare(a.createdAt)).slice(MAX_BACKUPS_PER_KEY).forEach(old => snapshots.delete(old.id));
+    await done;
+    notify(BACKUPS_KEY);
+  } catch (error) {
+    reportWriteFailure(store.key, error);
+  }
+}
+
+// Copies the legacy localStorage blob in once. The blob itself is left in
+// place (and snapshotted) so the localStorage fallback still has data.
+async function migrateFromLocalStorage(db: IDBDatabase, store: StoreDefinition<Entry[]>) {
+  const tx = db.transaction([ENTRIES, META], 'readwrite');
+  const done = transactionDone(tx);
+  const migrated = await promisify(tx.objectStore(META).get(MIGRATED_KEY));
+  if (migrated) return done;
+  const legacy = loadStore(store);
+  legacy.forEach(entry => tx.objectStore(ENTRIES).put(entry));
+  tx.objectStore(META).put(new Date().toISOString(), MIGRATED_KEY);
+  tx.objectStore(META).put(store.version, SCHEMA_VERSION_KEY);
+  await done;
+  if (legacy.length > 0) await writeSnapshot(db, store, legacy, 'Migrated to IndexedDB');
+}
+
+async function readAll(db: IDBDatabase, store: StoreDefinition<Entry[]>): Promise<Entry[]> {
+  const tx = db.transaction([ENTRIES, META], 'readonly');
+  const [records, version] = await Promise.all([
+    promisify(tx.objectStore(ENTRIES).getAll()),
+    promisify(tx.objectStore(META).get(SCHEMA_VERSION_KEY)),
+  ]);
+  const storedVersion = typeof version === 'number' ? version : 0;
+  // Written by a newer build: read what this one understands and leave the
+  // records and their version untouched (see loadStore).
+  if (storedVersion > store.version) {
+    console.warn(`${store.key} was written by a newer schema (v${storedVersion}); reading it as v${store.version} without saving.`);
+    return store.validate(records).value;
+  }
+  const migrated = storedVersion < store.version
+    ? runMigrations(records, storedVersion, store as StoreDefinition<unknown>)
+    : records;
+  const { value, rejected } = store.validate(migrated);
+
+  if (storedVersion < store.version || rejected.length > 0) {
+    const reason = storedVersion < store.version ? `Before migration v${storedVersion} → v${store.version}` : 'Before quarantine';
+    await writeSnapshot(db, store, records as Entry[], reason);
+    quarantine(store.key, rejected);
+    const write = db.transaction([ENTRIES, META], 'readwrite');
+    write.objectStore(ENTRIES).clear();
+    value.forEach(entry => write.objectStore(ENTRIES).put(entry));
+    write.objectStore(META).put(store.version, SCHEMA_VERSION_KEY);
+    await transactionDone(write);
+  }
+  return value;
+}
+
+export async function createIndexedDbAdapter(studentId: string, onVersionChange?: () => void): Promise<EntryStorageAdapter> {
+  const entryStore = forStudent(entriesStore, studentId);
+  const db = await openDatabase(studentId, onVersionChange);
+  await migrateFromLocalStorage(db, entryStore);
+
+  return {
+    kind: 'indexeddb',
+    load: () => readAll(db, entryStore),
+    query: async (query) => {
+      const store = db.transaction(ENTRIES, 'readonly').objectStore(ENTRIES);
+      // Narrow with whichever index applies, then finish the filter in memory.
+      const records: Entry[] = query.from || query.to
+        ? await promisify(store.index('date').getAll(IDBKeyRange.bound(query.from ?? '', query.to ?? '\uffff')))
+        : query.subject
+          ? await promisify(store.index('subject').getAll(query.subject))
+          : await promisify(store.getAll());
+      return records.filter(e => matchesQuery(e, query));
+    },
+    apply: async ({ put, remove }: EntryChange) => {
+      const tx = db.transaction(ENTRIES, 'readwrite');
+      const store = tx.objectStore(ENTRIES);
+      put.forEach(entry => store.put(entry));
+      remove.forEach(id => store.delete(id));
+      await transactionDone(tx);
+      if (isSnapshotDueAfter((await listSnapshots(db, entryStore))[0])) {
+        await writeSnapshot(db, entryStore, await promisify(db.transaction(ENTRIES, 'readonly').objectStore(ENTRIES).getAll()), 'Daily snapshot');
+      }
+    },
+    listSnapshots: () => listSnapshots(db, entryStore),
+    snapshot: async reason => writeSnapshot(db, entryStore, await promisify(db.transaction(ENTRIES, 'readonly').objectStore(ENTRIES).getAll()), reason),
+    readSnapshot: async id => {
+      const snapshot = (await listSnapshots(db, entryStore)).find(s => s.id === id);
+      return snapshot ? readSnapshot(entryStore, snapshot) : null;
+    },
+    deleteSnapshot: async id => {
+      const tx = db.transaction(SNAPSHOTS, 'readwrite');
+      tx.objectStore(SNAPSHOTS).delete(id);
+      await transactionDone(tx);
+      deleteBackup(id);
+    },
+    close: () => db.close(),
+  };
+}
@@ -0,0 +1,36 @@
+import type { Entry } from '../../types';
+import { entriesStore } from '../schema';
+import { deleteBackup, listBackups, loadStore, readSnapshot, saveStore, snapshotValue } from '../storage';
+import { forStudent } from '../students';
+import type { EntryChange, EntryQuery, EntryStorageAdapter } from './types';
+
+export const matchesQuery = (entry: Entry, { subject, from, to }: EntryQuery) =>
+  (!subject || entry.subject === subject) && (!from || entry.date >= from) && (!to || entry.date <= to);
+
+export function applyChange(entries: Entry[], { put, remove }: EntryChange) {
+  const removed = new Set(remove);
+  const updates = new Map(put.map(e => [e.id, e]));
+  const existing = new Set(entries.map(e => e.id));
+  const kept = entries.filter(e => !removed.has(e.id)).map(e => updates.get(e.id) ?? e);
+  return [...kept, ...put.filter(e => !existing.has(e.id))];
+}
+
+// Keeps the whole list in one versioned localStorage blob. Used when IndexedDB
+// cannot be opened (private browsing in some browsers, disabled storage).
+export function createLocalStorageAdapter(studentId: string): EntryStorageAdapter {
+  const store = forStudent(entriesStore, studentId);
+  return {
+    kind: 'localstorage',
+    load: async () => loadStore(store),
+    query: async query => loadStore(store).filter(e => matchesQuery(e, query)),
+    apply: async change => saveStore(store, applyChange(loadStore(store), change)),
+    listSnapshots: async () => listBackups(store.key),
+    snapshot: async reason => snapshotValue(store, loadStore(store), reason),
+    readSnapshot: async id => {
+      const snapshot = listBackups(store.key).find(b => b.id === id);
+      return snapshot ? readSnapshot(store, snapshot) : null;
+    },
+    deleteSnapshot: async id => deleteBackup(id),
+    close: () => {},
+  };
+}
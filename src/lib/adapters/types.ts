@@ -0,0 +1,33 @@
+import type { Entry, Subject } from '../../types';
+import type { BackupSnapshot } from '../storage';
+
+// --- STORAGE ADAPTERS ---
+// `CatMasteryTracker` only ever talks to entries through this interface, so the
+// backend (IndexedDB, or localStorage where IndexedDB is unavailable) can be
+// swapped without touching the UI.
+
+export type EntryChange = {
+  put: Entry[];
+  remove: string[];
+};
+
+export type EntryQuery = {
+  subject?: Subject;
+  from?: string;
+  to?: string;
+};
+
+export interface EntryStorageAdapter {
+  readonly kind: 'indexeddb' | 'localstorage';
+  load(): Promise<Entry[]>;
+  query(query: EntryQuery): Promise<Entry[]>;
+  apply(change: EntryChange): Promise<void>;
+  // Snapshots of the entries, newest first, kept by the backend that holds
+  // them: IndexedDB keeps its own, so whole copies of the entries never land
+  // in localStorage next to every other store's backups.
+  listSnapshots(): Promise<BackupSnapshot[]>;
+  snapshot(reason: string): Promise<void>;
+  readSnapshot(id: string): Promise<Entry[] | null>;
+  deleteSnapshot(id: string): Promise<void>;
+  close(): void;
+}
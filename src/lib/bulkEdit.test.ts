@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import type { Entry } from '../types';
+import { applyBulkEdit, applyEntryStatePatch, diffEntryState, moveToTrash, restoreFromTrash, type EntryState } from './bulkEdit';
+
+const NOW = new Date('2026-03-10T12:00:00Z');
+
+const makeEntry = (id: string, fields: Partial<Entry> = {}): Entry => ({
+  id, date: '2026-03-01', subject: 'LR', topic: 'Arrangements', sets: { lrSets: 1 }, timeTaken: 30, questionsAttempted: 8, correctAnswers: 5,
+  confidence: 3, learnings: '', isWeakTopic: false, rev: 1, updatedAt: '2026-03-01T10:00:00Z', ...fields,
+});
+
+const initial: EntryState = { entries: [makeEntry('e1'), makeEntry('e2'), makeEntry('e3', { subject: 'DI' })], trash: [] };
+
+describe('applyBulkEdit', () => {
+  it('changes only the selected entries and keeps unchanged ones as they were', () => {
+    const edited = applyBulkEdit(initial.entries, new Set(['e1', 'e3']), { type: 'subject', subject: 'DI' });
+
+    expect(edited.map(e => e.subject)).toEqual(['DI', 'LR', 'DI']);
+    expect(edited[1]).toBe(initial.entries[1]);
+    expect(edited[2]).toBe(initial.entries[2]);
+    expect(applyBulkEdit(initial.entries, new Set(['e1']), { type: 'shiftDate', days: -3 })[0].date).toBe('2026-02-26');
+  });
+});
+
+describe('undo patches', () => {
+  const retag = (state: EntryState): EntryState => ({ ...state, entries: applyBulkEdit(state.entries, new Set(['e1', 'e2']), { type: 'topic', topic: 'Puzzles' }) });
+
+  it('undoes and redoes a bulk edit', () => {
+    const after = retag(initial);
+    const patch = diffEntryState(initial, after);
+
+    expect(Array.from(patch.entries.keys())).toEqual(['e1', 'e2']);
+    const undone = applyEntryStatePatch(after, patch, 'undo', NOW);
+    expect(undone.entries.map(e => e.topic)).toEqual(['Arrangements', 'Arrangements', 'Arrangements']);
+    expect(applyEntryStatePatch(undone, patch, 'redo', NOW).entries.map(e => e.topic)).toEqual(['Puzzles', 'Puzzles', 'Arrangements']);
+  });
+
+  it('undoes a delete by taking the entries back out of the trash', () => {
+    const after = moveToTrash(initial, new Set(['e2']), NOW);
+    const patch = diffEntryState(initial, after);
+    const undone = applyEntryStatePatch(after, patch, 'undo', NOW);
+
+    expect(undone.entries.map(e => e.id).sort()).toEqual(['e1', 'e2', 'e3']);
+    expect(undone.trash).toEqual([]);
+    expect(applyEntryStatePatch(undone, patch, 'redo', NOW)).toEqual(after);
+  });
+
+  it('leaves records that changed elsewhere since the edit', () => {
+    const after = retag(initial);
+    const patch = diffEntryState(initial, after);
+    const elsewhere = { ...after, entries: after.entries.map(e => (e.id === 'e2' ? { ...e, learnings: 'Edited on the phone' } : e)) };
+    const undone = applyEntryStatePatch(elsewhere, patch, 'undo', NOW);
+
+    expect(undone.entries[0].topic).toBe('Arrangements');
+    expect(undone.entries[1]).toMatchObject({ topic: 'Puzzles', learnings: 'Edited on the phone' });
+  });
+
+  it('keeps the sync metadata of the copy it replaces', () => {
+    const after = retag(initial);
+    const patch = diffEntryState(initial, after);
+    const synced = { ...after, entries: after.entries.map(e => ({ ...e, rev: 4, updatedAt: '2026-03-09T08:00:00Z' })) };
+    const undone = applyEntryStatePatch(synced, patch, 'undo', NOW);
+
+    expect(undone.entries[0]).toMatchObject({ topic: 'Arrangements', rev: 4, updatedAt: '2026-03-09T08:00:00Z' });
+  });
+
+  it('does not bring back trash that has expired since', () => {
+    const trashed = moveToTrash(initial, new Set(['e3']), new Date('2026-01-01T00:00:00Z'));
+    const after = restoreFromTrash(trashed, new Set(['e3']));
+    const patch = diffEntryState(trashed, after);
+    const undone = applyEntryStatePatch(after, patch, 'undo', NOW);
+
+    expect(undone.entries.map(e => e.id)).toEqual(['e1', 'e2']);
+    expect(undone.trash).toEqual([]);
+  });
+});
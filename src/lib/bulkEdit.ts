@@ -0,0 +1,154 @@
+import type { Entry, Subject, TrashedEntry } from '../types';
+import { DAY_MS, addDays } from './utils';
+
+// --- BULK EDITS ---
+
+export type BulkAction =
+  | { type: 'subject'; subject: Subject }
+  | { type: 'topic'; topic: string }
+  | { type: 'weak'; isWeakTopic: boolean }
+  | { type: 'shiftDate'; days: number };
+
+const applyAction = (entry: Entry, action: BulkAction): Entry => {
+  switch (action.type) {
+    case 'subject': return { ...entry, subject: action.subject };
+    case 'topic': return { ...entry, topic: action.topic };
+    case 'weak': return { ...entry, isWeakTopic: action.isWeakTopic };
+    case 'shiftDate': return { ...entry, date: addDays(entry.date, action.days) };
+  }
+};
+
+// Entries that would not change keep their object, so the adapter only writes
+// the ones that did.
+export function applyBulkEdit(entries: Entry[], ids: Set<string>, action: BulkAction) {
+  return entries.map(entry => {
+    if (!ids.has(entry.id)) return entry;
+    const next = applyAction(entry, action);
+    return (Object.keys(next) as (keyof Entry)[]).some(key => next[key] !== entry[key]) ? next : entry;
+  });
+}
+
+export function describeBulkAction(action: BulkAction, count: number) {
+  const target = `${count} ${count === 1 ? 'entry' : 'entries'}`;
+  switch (action.type) {
+    case 'subject': return `Move ${target} to ${action.subject}`;
+    case 'topic': return `Retag ${target} as "${action.topic}"`;
+    case 'weak': return `${action.isWeakTopic ? 'Flag' : 'Unflag'} ${target} as weak`;
+    case 'shiftDate': return `Shift ${target} by ${action.days > 0 ? '+' : ''}${action.days} day${Math.abs(action.days) === 1 ? '' : 's'}`;
+  }
+}
+
+// --- TRASH ---
+// Deleted entries are kept for TRASH_RETENTION_DAYS before they are purged.
+
+export const TRASH_RETENTION_DAYS = 30;
+
+export type EntryState = {
+  entries: Entry[];
+  trash: TrashedEntry[];
+};
+
+export function moveToTrash(state: EntryState, ids: Set<string>, now = new Date()): EntryState {
+  const deletedAt = now.toISOString();
+  return {
+    entries: state.entries.filter(e => !ids.has(e.id)),
+    trash: [...state.entries.filter(e => ids.has(e.id)).map(entry => ({ entry, deletedAt })), ...state.trash],
+  };
+}
+
+export function restoreFromTrash(state: EntryState, ids: Set<string>): EntryState {
+  const existing = new Set(state.entries.map(e => e.id));
+  return {
+    entries: [...state.entries, ...state.trash.filter(t => ids.has(t.entry.id) && !existing.has(t.entry.id)).map(t => t.entry)],
+    trash: state.trash.filter(t => !ids.has(t.entry.id)),
+  };
+}
+
+export const trashExpiresAt = (item: TrashedEntry) => new Date(new Date(item.deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS);
+
+export const purgeExpired = (trash: TrashedEntry[], now = new Date()) => trash.filter(item => trashExpiresAt(item) > now);
+
+// --- UNDO PATCHES ---
+// An undoable change is kept as the before and after copy of each entry and
+// trash item it touched, keyed by entry id. Undo and redo put back only those
+// records, and skip any that changed elsewhere in the meantime (another tab or
+// a sync pull), so edits made there are never reverted.
+
+type RecordChange<T> = { before: T | null; after: T | null };
+
+export type EntryStatePatch = {
+  entries: Map<string, RecordChange<Entry>>;
+  trash: Map<string, RecordChange<TrashedEntry>>;
+};
+
+function diffRecords<T>(before: T[], after: T[], idOf: (item: T) => string) {
+  const changes = new Map<string, RecordChange<T>>();
+  const previous = new Map(before.map(item => [idOf(item), item]));
+  const next = new Map(after.map(item => [idOf(item), item]));
+  for (const [id, item] of previous) {
+    if (next.get(id) !== item) changes.set(id, { before: item, after: next.get(id) ?? null });
+  }
+  for (const [id, item] of next) {
+    if (!previous.has(id)) changes.set(id, { before: null, after: item });
+  }
+  return changes;
+}
+
+// Every version of an entry a patch could bring back.
+export const patchedEntries = (patch: EntryStatePatch) => [
+  ...Array.from(patch.entries.values()).flatMap(change => [change.before, change.after]),
+  ...Array.from(patch.trash.values()).flatMap(change => [change.before?.entry ?? null, change.after?.entry ?? null]),
+].filter((entry): entry is Entry => entry !== null);
+
+export const diffEntryState = (before: EntryState, after: EntryState): EntryStatePatch => ({
+  entries: diffRecords(before.entries, after.entries, e => e.id),
+  trash: diffRecords(before.trash, after.trash, t => t.entry.id),
+});
+
+// Sync metadata is restamped on every write, so it is left out when checking
+// whether a record is still the copy a patch left behind.
+const withoutSyncFields = (entry: Entry): Entry => ({ ...entry, rev: undefined, updatedAt: undefined });
+
+const sameEntry = (a: Entry | null, b: Entry | null) =>
+  a === b || (a !== null && b !== null && JSON.stringify(withoutSyncFields(a)) === JSON.stringify(withoutSyncFields(b)));
+
+const sameTrashed = (a: TrashedEntry | null, b: TrashedEntry | null) =>
+  a === b || (a !== null && b !== null && a.deletedAt === b.deletedAt && sameEntry(a.entry, b.entry));
+
+function patchRecords<T>(
+  items: T[],
+  changes: Map<string, RecordChange<T>>,
+  direction: 'undo' | 'redo',
+  idOf: (item: T) => string,
+  same: (a: T | null, b: T | null) => boolean,
+  carry: (restored: T, current: T) => T = restored => restored,
+) {
+  const current = new Map(items.map(item => [idOf(item), item]));
+  const replaced = new Map<string, T | null>();
+  for (const [id, change] of changes) {
+    const [from, to] = direction === 'undo' ? [change.after, change.before] : [change.before, change.after];
+    const now = current.get(id) ?? null;
+    if (!same(now, from)) continue;
+    replaced.set(id, to && now ? carry(to, now) : to);
+  }
+  if (replaced.size === 0) return items;
+  const kept = items.flatMap(item => {
+    const id = idOf(item);
+    if (!replaced.has(id)) return [item];
+    const next = replaced.get(id)!;
+    return next ? [next] : [];
+  });
+  const added = [...replaced].filter(([id, item]) => item && !current.has(id)).map(([, item]) => item!);
+  return [...kept, ...added];
+}
+
+// A restored entry keeps the sync metadata of the copy it replaces, so the
+// write goes out as a new change on top of it rather than an old revision.
+const carrySyncFields = (restored: Entry, current: Entry): Entry => ({ ...restored, rev: current.rev, updatedAt: current.updatedAt });
+
+export function applyEntryStatePatch(state: EntryState, patch: EntryStatePatch, direction: 'undo' | 'redo', now = new Date()): EntryState {
+  const entries = patchRecords(state.entries, patch.entries, direction, e => e.id, sameEntry, carrySyncFields);
+  // Trash items that expired since the change are not brought back.
+  const trash = purgeExpired(patchRecords(state.trash, patch.trash, direction, t => t.entry.id, sameTrashed), now);
+  return { entries, trash: trash.length === state.trash.length && trash.every((t, i) => t === state.trash[i]) ? state.trash : trash };
+}
@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { cacheKey, clearCachedAdvice, getCachedAdvice, setCachedAdvice } from './cache';
+import type { CoachAdvice, CoachSummary } from './types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const advice = (summary: string): CoachAdvice => ({ summary, plan: [], feedback: [{ mistake: 'Rushing', advice: 'Slow down' }] });
+
+const summary = (entries: number): CoachSummary => ({
+  exam: 'CAT', today: '2026-01-15', windowDays: 14, daysToExam: null,
+  totals: { entries, sets: entries, minutes: entries * 30, accuracy: 70 },
+  subjects: [], weakTopics: [], recentLearnings: [],
+});
+
+beforeEach(() => {
+  const items = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+  });
+});
+
+describe('cacheKey', () => {
+  it('depends on the provider and the summary', () => {
+    expect(cacheKey('offline', summary(3))).toBe(cacheKey('offline', summary(3)));
+    expect(cacheKey('offline', summary(3))).not.toBe(cacheKey('offline', summary(4)));
+    expect(cacheKey('offline', summary(3))).not.toBe(cacheKey('openai:local', summary(3)));
+  });
+});
+
+describe('coach cache', () => {
+  it('returns advice until it is a day old', () => {
+    const now = Date.parse('2026-01-15T08:00:00Z');
+    setCachedAdvice('k', advice('fresh'), now);
+
+    expect(getCachedAdvice('k', now + 23 * HOUR_MS)).toEqual(advice('fresh'));
+    expect(getCachedAdvice('k', now + 24 * HOUR_MS)).toBeNull();
+    expect(getCachedAdvice('other', now)).toBeNull();
+  });
+
+  it('replaces advice saved under the same key', () => {
+    setCachedAdvice('k', advice('first'), 0);
+    setCachedAdvice('k', advice('second'), 1);
+
+    expect(getCachedAdvice('k', 2)).toEqual(advice('second'));
+  });
+
+  it('drops expired advice and keeps only the most recent twenty', () => {
+    const start = Date.parse('2026-01-15T08:00:00Z');
+    setCachedAdvice('stale', advice('stale'), start - 25 * HOUR_MS);
+    for (let i = 0; i < 21; i++) setCachedAdvice(`k${i}`, advice(`${i}`), start + i);
+
+    const stored = JSON.parse(localStorage.getItem('cat-tracker-coach-cache')!);
+    expect(stored).toHaveLength(20);
+    expect(stored.map((c: { key: string }) => c.key)).not.toContain('stale');
+    expect(getCachedAdvice('k0', start + 21)).toBeNull();
+    expect(getCachedAdvice('k1', start + 21)).toEqual(advice('1'));
+    expect(getCachedAdvice('k20', start + 21)).toEqual(advice('20'));
+  });
+
+  it('ignores a corrupt cache and can be cleared', () => {
+    localStorage.setItem('cat-tracker-coach-cache', '{not json');
+    expect(getCachedAdvice('k')).toBeNull();
+
+    setCachedAdvice('k', advice('saved'));
+    clearCachedAdvice();
+    expect(getCachedAdvice('k')).toBeNull();
+  });
+});
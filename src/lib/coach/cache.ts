@@ -0,0 +1,50 @@
+import type { CoachAdvice, CoachSummary } from './types';
+
+const CACHE_KEY = 'cat-tracker-coach-cache';
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_CACHED = 20;
+
+type CachedAdvice = { key: string; savedAt: number; advice: CoachAdvice };
+
+// FNV-1a over the serialized summary; collisions only cost a stale answer.
+const hash = (input: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(36);
+};
+
+export const cacheKey = (providerId: string, summary: CoachSummary) => `${providerId}|${hash(JSON.stringify(summary))}`;
+
+const readCache = (): CachedAdvice[] => {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(CACHE_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter(c => typeof c?.key === 'string' && typeof c?.savedAt === 'number' && c?.advice) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeCache = (items: CachedAdvice[]) => {
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify(items));
+  } catch (error) {
+    console.warn('Could not persist coach cache', error);
+  }
+};
+
+export function getCachedAdvice(key: string, now = Date.now()): CoachAdvice | null {
+  const hit = readCache().find(c => c.key === key);
+  return hit && now - hit.savedAt < CACHE_TTL_MS ? hit.advice : null;
+}
+
+export function setCachedAdvice(key: string, advice: CoachAdvice, now = Date.now()) {
+  const fresh = readCache().filter(c => c.key !== key && now - c.savedAt < CACHE_TTL_MS);
+  writeCache([{ key, savedAt: now, advice }, ...fresh].slice(0, MAX_CACHED));
+}
+
+export function clearCachedAdvice() {
+  localStorage.removeItem(CACHE_KEY);
+}
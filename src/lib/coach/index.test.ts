@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CoachTimeoutError, isCancelled, requestCoaching } from './index';
+import type { CoachAdvice, CoachProvider, CoachSummary } from './types';
+
+const ADVICE: CoachAdvice = { summary: 'Keep going', plan: [{ day: 'Mon', focus: 'QA', tasks: ['One set'] }], feedback: [] };
+
+const SUMMARY: CoachSummary = {
+  exam: 'CAT', today: '2026-01-15', windowDays: 14, daysToExam: null,
+  totals: { entries: 1, sets: 1, minutes: 30, accuracy: 60 },
+  subjects: [], weakTopics: [], recentLearnings: [],
+};
+
+// Answers after `delayMs`, or rejects with the signal's AbortError if it is
+// aborted first, as fetch does.
+const slowProvider = (delayMs: number): CoachProvider & { calls: number } => {
+  const provider = {
+    kind: 'openai' as const,
+    id: 'slow',
+    calls: 0,
+    coach: (_summary: CoachSummary, signal: AbortSignal) => new Promise<CoachAdvice>((resolve, reject) => {
+      provider.calls += 1;
+      if (signal.aborted) return reject(new DOMException('The operation was aborted', 'AbortError'));
+      const timer = setTimeout(() => resolve(ADVICE), delayMs);
+      signal.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new DOMException('The operation was aborted', 'AbortError'));
+      });
+    }),
+  };
+  return provider;
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  const items = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+  });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('requestCoaching', () => {
+  it('answers from the provider, then from the cache', async () => {
+    const provider = slowProvider(1000);
+    const first = requestCoaching(provider, SUMMARY, { timeoutSeconds: 5, signal: new AbortController().signal });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await expect(first).resolves.toEqual({ advice: ADVICE, cached: false });
+    await expect(requestCoaching(provider, SUMMARY, { timeoutSeconds: 5, signal: new AbortController().signal }))
+      .resolves.toEqual({ advice: ADVICE, cached: true });
+    expect(provider.calls).toBe(1);
+  });
+
+  it('asks again when told to skip the cache', async () => {
+    const provider = slowProvider(0);
+    const options = { timeoutSeconds: 5, signal: new AbortController().signal };
+    const first = requestCoaching(provider, SUMMARY, options);
+    await vi.advanceTimersByTimeAsync(0);
+    await first;
+    const second = requestCoaching(provider, SUMMARY, { ...options, skipCache: true });
+    await vi.advanceTimersByTimeAsync(0);
+
+    await expect(second).resolves.toMatchObject({ cached: false });
+    expect(provider.calls).toBe(2);
+  });
+
+  it('rejects with CoachTimeoutError when the provider is too slow', async () => {
+    const result = requestCoaching(slowProvider(10_000), SUMMARY, { timeoutSeconds: 2, signal: new AbortController().signal });
+    const caught = result.catch(error => error);
+    await vi.advanceTimersByTimeAsync(2000);
+    const error = await caught;
+
+    expect(error).toBeInstanceOf(CoachTimeoutError);
+    expect(error.message).toBe('The coach did not answer within 2s');
+    expect(isCancelled(error)).toBe(false);
+  });
+
+  it('rejects with the AbortError when the caller cancels', async () => {
+    const controller = new AbortController();
+    const result = requestCoaching(slowProvider(10_000), SUMMARY, { timeoutSeconds: 2, signal: controller.signal });
+    const caught = result.catch(error => error);
+    await vi.advanceTimersByTimeAsync(500);
+    controller.abort();
+    const error = await caught;
+
+    expect(error).not.toBeInstanceOf(CoachTimeoutError);
+    expect(isCancelled(error)).toBe(true);
+  });
+
+  it('hands an already cancelled signal on to the provider', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const error = await requestCoaching(slowProvider(10_000), SUMMARY, { timeoutSeconds: 2, signal: controller.signal }).catch(e => e);
+
+    expect(isCancelled(error)).toBe(true);
+  });
+
+  it('caches nothing after a timeout', async () => {
+    const provider = slowProvider(10_000);
+    const caught = requestCoaching(provider, SUMMARY, { timeoutSeconds: 1, signal: new AbortController().signal }).catch(error => error);
+    await vi.advanceTimersByTimeAsync(1000);
+    await caught;
+
+    expect(localStorage.getItem('cat-tracker-coach-cache')).toBeNull();
+  });
+});
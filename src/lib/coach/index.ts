@@ -0,0 +1,59 @@
+import type { CoachSettings } from '../../types';
+import { cacheKey, getCachedAdvice, setCachedAdvice } from './cache';
+import { createOfflineCoach } from './offlineCoach';
+import { createOpenAiCoach } from './openAiCoach';
+import type { CoachAdvice, CoachProvider, CoachSummary } from './types';
+
+export type { CoachAdvice, CoachPlanItem, CoachProvider, CoachSummary } from './types';
+export { buildCoachSummary, SUMMARY_WINDOW_DAYS } from './summary';
+export { clearCachedAdvice } from './cache';
+
+export class CoachTimeoutError extends Error {
+  constructor(seconds: number) {
+    super(`The coach did not answer within ${seconds}s`);
+    this.name = 'CoachTimeoutError';
+  }
+}
+
+export const isCancelled = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+export function createCoach(settings: CoachSettings): CoachProvider {
+  return settings.provider === 'openai' ? createOpenAiCoach(settings) : createOfflineCoach();
+}
+
+export type CoachResult = { advice: CoachAdvice; cached: boolean };
+
+// Wraps a provider call with the cache, the caller's cancel signal and a
+// timeout. A timeout rejects with CoachTimeoutError; a cancel rejects with
+// the AbortError from the signal.
+export async function requestCoaching(
+  provider: CoachProvider,
+  summary: CoachSummary,
+  { timeoutSeconds, signal, skipCache = false }: { timeoutSeconds: number; signal: AbortSignal; skipCache?: boolean },
+): Promise<CoachResult> {
+  const key = cacheKey(provider.id, summary);
+  const cached = skipCache ? null : getCachedAdvice(key);
+  if (cached) return { advice: cached, cached: true };
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutSeconds * 1000);
+  const onCancel = () => controller.abort();
+  if (signal.aborted) controller.abort();
+  signal.addEventListener('abort', onCancel);
+
+  try {
+    const advice = await provider.coach(summary, controller.signal);
+    setCachedAdvice(key, advice);
+    return { advice, cached: false };
+  } catch (error) {
+    if (timedOut) throw new CoachTimeoutError(timeoutSeconds);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal.removeEventListener('abort', onCancel);
+  }
+}
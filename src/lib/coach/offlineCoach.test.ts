@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { createOfflineCoach, offlineAdvice } from './offlineCoach';
+import type { CoachSummary } from './types';
+
+const SUMMARY: CoachSummary = {
+  exam: 'CAT',
+  today: '2026-01-15',
+  windowDays: 14,
+  daysToExam: 40,
+  totals: { entries: 6, sets: 9, minutes: 270, accuracy: 64 },
+  subjects: [
+    { subject: 'VARC', entries: 3, sets: 4, accuracy: 72, minutesPerSet: 28 },
+    { subject: 'QA', entries: 3, sets: 5, accuracy: 55, minutesPerSet: 32 },
+  ],
+  weakTopics: [
+    { subject: 'QA', topic: 'Geometry', accuracy: 40, reasons: ['Mastery 38 below 50'] },
+    { subject: 'LRDI', topic: 'Games', accuracy: null, reasons: [] },
+  ],
+  recentLearnings: [
+    { date: '2026-01-14', subject: 'QA', topic: 'Geometry', text: 'Silly calculation slip' },
+    { date: '2026-01-13', subject: 'QA', topic: 'Algebra', text: 'Rushed and made a sign error' },
+    { date: '2026-01-12', subject: 'VARC', topic: 'RC', text: 'Misread the question' },
+  ],
+};
+
+describe('offlineAdvice', () => {
+  it('is the same for the same summary', () => {
+    expect(offlineAdvice(SUMMARY)).toEqual(offlineAdvice(structuredClone(SUMMARY)));
+  });
+
+  it('plans the next seven days around weak topics, then the weakest subjects, ending on review', () => {
+    const { plan } = offlineAdvice(SUMMARY);
+
+    expect(plan.map(item => item.day)).toEqual(['2026-01-16', '2026-01-17', '2026-01-18', '2026-01-19', '2026-01-20', '2026-01-21', '2026-01-22']);
+    expect(plan.map(item => item.focus)).toEqual(['QA: Geometry', 'LRDI: Games', 'QA', 'VARC', 'QA: Geometry', 'LRDI: Games', 'Review']);
+    expect(plan[0].tasks[0]).toContain('Mastery 38 below 50');
+    expect(plan[1].tasks[0]).toContain('Flagged as weak');
+    expect(plan[2].tasks[0]).toContain('55% accuracy over the last 14 days');
+  });
+
+  it('falls back to mixed practice with nothing to focus on', () => {
+    const { plan, feedback, summary } = offlineAdvice({
+      ...SUMMARY, daysToExam: null, totals: { entries: 0, sets: 0, minutes: 0, accuracy: 0 }, subjects: [], weakTopics: [], recentLearnings: [],
+    });
+
+    expect(plan.slice(0, 6).every(item => item.focus === 'Mixed practice')).toBe(true);
+    expect(feedback).toEqual([]);
+    expect(summary).toBe('No practice logged in the last 14 days.');
+  });
+
+  it('ranks mistake feedback by how often it appears in recent notes', () => {
+    const { feedback, summary } = offlineAdvice(SUMMARY);
+
+    expect(feedback.map(item => item.mistake)).toEqual([
+      'Calculation error (2 of your last 3 notes)',
+      'Misread question (1 of your last 3 notes)',
+      'Time pressure (1 of your last 3 notes)',
+    ]);
+    expect(summary).toBe('9 sets at 64% accuracy over the last 14 days. 40 days remain until the exam.');
+  });
+});
+
+describe('createOfflineCoach', () => {
+  it('answers with the offline advice', async () => {
+    await expect(createOfflineCoach().coach(SUMMARY, new AbortController().signal)).resolves.toEqual(offlineAdvice(SUMMARY));
+  });
+
+  it('rejects with an AbortError once cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(createOfflineCoach().coach(SUMMARY, controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
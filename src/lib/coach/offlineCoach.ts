@@ -0,0 +1,49 @@
+import { addDays } from '../utils';
+import { categorize, MISTAKE_CATEGORIES } from '../insights';
+import type { CoachAdvice, CoachProvider, CoachSummary } from './types';
+
+// Deterministic: the same summary always produces the same advice, so it can
+// stand in for a model in tests and when no server is configured.
+export function offlineAdvice(summary: CoachSummary): CoachAdvice {
+  const weakest = [...summary.subjects].sort((a, b) => a.accuracy - b.accuracy);
+  const focusAreas = [
+    ...summary.weakTopics.map(t => ({ focus: `${t.subject}: ${t.topic}`, why: t.reasons[0] ?? (t.accuracy !== null ? `${t.accuracy}% accuracy` : 'Flagged as weak') })),
+    ...weakest.map(s => ({ focus: s.subject, why: `${s.accuracy}% accuracy over the last ${summary.windowDays} days` })),
+  ];
+
+  const plan = Array.from({ length: 7 }, (_, i) => {
+    const area = focusAreas.length > 0 ? focusAreas[i % focusAreas.length] : null;
+    const day = addDays(summary.today, i + 1);
+    if (i === 6) return { day, focus: 'Review', tasks: ['Re-solve the week\'s wrong questions without looking at solutions', 'Update the mistake log with anything still unclear'] };
+    return area
+      ? { day, focus: area.focus, tasks: [`2 timed sets on ${area.focus} (${area.why})`, 'Analyse every wrong answer before the next set'] }
+      : { day, focus: 'Mixed practice', tasks: ['One set from each section under exam timing'] };
+  });
+
+  const counts = new Map<string, number>();
+  summary.recentLearnings.forEach(l => categorize(l.text).forEach(id => counts.set(id, (counts.get(id) ?? 0) + 1)));
+  const feedback = MISTAKE_CATEGORIES
+    .filter(c => counts.has(c.id))
+    .sort((a, b) => counts.get(b.id)! - counts.get(a.id)!)
+    .map(c => ({ mistake: `${c.label} (${counts.get(c.id)} of your last ${summary.recentLearnings.length} notes)`, advice: c.advice }));
+
+  const examNote = summary.daysToExam !== null && summary.daysToExam > 0 ? ` ${summary.daysToExam} days remain until the exam.` : '';
+  return {
+    summary: summary.totals.entries > 0
+      ? `${summary.totals.sets} sets at ${summary.totals.accuracy}% accuracy over the last ${summary.windowDays} days.${examNote}`
+      : `No practice logged in the last ${summary.windowDays} days.${examNote}`,
+    plan,
+    feedback,
+  };
+}
+
+export function createOfflineCoach(): CoachProvider {
+  return {
+    kind: 'offline',
+    id: 'offline',
+    coach: async (summary, signal) => {
+      if (signal.aborted) throw new DOMException('Cancelled', 'AbortError');
+      return offlineAdvice(summary);
+    },
+  };
+}
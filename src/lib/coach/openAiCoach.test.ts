@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { parseAdvice } from './openAiCoach';
+
+const ADVICE = {
+  summary: 'Steady week',
+  plan: [{ day: '2026-01-16', focus: 'QA: Algebra', tasks: ['2 timed sets'] }],
+  feedback: [{ mistake: 'Misread questions', advice: 'Underline what is asked' }],
+};
+
+describe('parseAdvice', () => {
+  it('reads plain JSON', () => {
+    expect(parseAdvice(JSON.stringify(ADVICE))).toEqual(ADVICE);
+  });
+
+  it('reads JSON wrapped in a code fence and surrounding prose', () => {
+    const content = `Here is your plan:\n\`\`\`json\n${JSON.stringify(ADVICE, null, 2)}\n\`\`\`\nGood luck!`;
+    expect(parseAdvice(content)).toEqual(ADVICE);
+  });
+
+  it('keeps only the fields it renders and drops empty items', () => {
+    const content = JSON.stringify({
+      summary: 'Ok',
+      extra: true,
+      plan: [{ day: 'Mon', focus: 'VARC', tasks: ['RC drill', 3, ''], priority: 1 }, { day: 'Tue' }, 'not an item'],
+      feedback: [{ mistake: 'Guessing', advice: 'Skip instead', severity: 'high' }, {}],
+    });
+
+    expect(parseAdvice(content)).toEqual({
+      summary: 'Ok',
+      plan: [{ day: 'Mon', focus: 'VARC', tasks: ['RC drill'] }],
+      feedback: [{ mistake: 'Guessing', advice: 'Skip instead' }],
+    });
+  });
+
+  it('rejects content with no JSON object', () => {
+    expect(() => parseAdvice('Sorry, I cannot help with that.')).toThrow('did not return JSON');
+    expect(() => parseAdvice('} {')).toThrow('did not return JSON');
+  });
+
+  it('rejects JSON cut off partway through', () => {
+    const content = JSON.stringify(ADVICE);
+    expect(() => parseAdvice(content.slice(0, content.length - 20))).toThrow();
+  });
+
+  it('rejects an answer with no plan or feedback', () => {
+    expect(() => parseAdvice('{"summary": "Nothing to add", "plan": [], "feedback": []}')).toThrow('no plan or feedback');
+  });
+});
@@ -0,0 +1,65 @@
+import type { CoachSettings } from '../../types';
+import type { CoachAdvice, CoachProvider, CoachSummary } from './types';
+
+const SYSTEM_PROMPT = `You are an exam coach. You receive a JSON summary of a student's recent practice for the exam named in "exam": per-subject accuracy, weak topics and their own notes on mistakes.
+Reply with JSON only, in exactly this shape:
+{"summary": string, "plan": [{"day": "YYYY-MM-DD", "focus": string, "tasks": [string]}], "feedback": [{"mistake": string, "advice": string}]}
+The plan covers the 7 days after "today". Base feedback on the student's notes; be specific and brief.`;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+// Models wrap JSON in code fences or add a sentence before it; take the
+// outermost object and keep only the fields we render.
+export function parseAdvice(content: string): CoachAdvice {
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start < 0 || end <= start) throw new Error('The model did not return JSON');
+  const raw: unknown = JSON.parse(content.slice(start, end + 1));
+  if (!isRecord(raw)) throw new Error('The model returned an unexpected shape');
+
+  const plan = (Array.isArray(raw.plan) ? raw.plan : []).filter(isRecord).map(item => ({
+    day: text(item.day),
+    focus: text(item.focus),
+    tasks: (Array.isArray(item.tasks) ? item.tasks : []).map(text).filter(Boolean),
+  })).filter(item => item.focus || item.tasks.length > 0);
+  const feedback = (Array.isArray(raw.feedback) ? raw.feedback : []).filter(isRecord).map(item => ({
+    mistake: text(item.mistake),
+    advice: text(item.advice),
+  })).filter(item => item.mistake || item.advice);
+
+  if (plan.length === 0 && feedback.length === 0) throw new Error('The model returned no plan or feedback');
+  return { summary: text(raw.summary), plan, feedback };
+}
+
+export function createOpenAiCoach(settings: CoachSettings): CoachProvider {
+  const baseUrl = settings.baseUrl.replace(/\/+$/, '');
+  return {
+    kind: 'openai',
+    id: `openai:${baseUrl}:${settings.model}`,
+    coach: async (summary: CoachSummary, signal: AbortSignal) => {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        signal,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(settings.apiKey && { Authorization: `Bearer ${settings.apiKey}` }),
+        },
+        body: JSON.stringify({
+          model: settings.model,
+          temperature: 0.2,
+          response_format: { type: 'json_object' },
+          messages: [
+            { role: 'system', content: SYSTEM_PROMPT },
+            { role: 'user', content: JSON.stringify(summary) },
+          ],
+        }),
+      });
+      if (!response.ok) throw new Error(`Coach server replied ${response.status} ${response.statusText}`.trim());
+      const body = await response.json();
+      const content = body?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') throw new Error('The coach server returned no message');
+      return parseAdvice(content);
+    },
+  };
+}
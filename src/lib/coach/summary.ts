@@ -0,0 +1,57 @@
+import type { CanonicalTopic, Entry, ExamProfile } from '../../types';
+import { subjectsInUse } from '../examProfiles';
+import { analyzeTopics } from '../mastery';
+import { addDays, calculateTotalSets, daysUntil, formatDate } from '../utils';
+import type { CoachSummary } from './types';
+
+export const SUMMARY_WINDOW_DAYS = 14;
+const MAX_WEAK_TOPICS = 5;
+const MAX_LEARNINGS = 10;
+
+const pooledAccuracy = (entries: Entry[]) => {
+  const attempted = entries.reduce((sum, e) => sum + e.questionsAttempted, 0);
+  return attempted > 0 ? Math.round((entries.reduce((sum, e) => sum + e.correctAnswers, 0) / attempted) * 100) : 0;
+};
+
+// Only aggregates and the latest learnings are sent, never the whole log.
+export function buildCoachSummary(entries: Entry[], catalog: CanonicalTopic[], examDate: string | null, profile: ExamProfile, now = new Date()): CoachSummary {
+  const today = formatDate(now);
+  const from = addDays(today, -(SUMMARY_WINDOW_DAYS - 1));
+  const recent = entries.filter(e => e.date >= from && e.date <= today);
+
+  const subjects = subjectsInUse(profile, recent)
+    .map(subject => {
+      const subjectEntries = recent.filter(e => e.subject === subject);
+      const sets = subjectEntries.reduce((sum, e) => sum + calculateTotalSets(e), 0);
+      const minutes = subjectEntries.reduce((sum, e) => sum + e.timeTaken, 0);
+      return { subject, entries: subjectEntries.length, sets, accuracy: pooledAccuracy(subjectEntries), minutesPerSet: sets > 0 ? Math.round(minutes / sets) : 0 };
+    })
+    .filter(s => s.entries > 0);
+
+  const weakTopics = analyzeTopics(entries, catalog, now)
+    .filter(t => t.isWeak)
+    .slice(0, MAX_WEAK_TOPICS)
+    .map(t => ({ subject: t.group.subject, topic: t.group.name, accuracy: t.accuracy !== null ? Math.round(t.accuracy) : null, reasons: t.reasons }));
+
+  const recentLearnings = [...entries]
+    .filter(e => e.learnings.trim() !== '')
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, MAX_LEARNINGS)
+    .map(e => ({ date: e.date, subject: e.subject, topic: e.topic, text: e.learnings.trim() }));
+
+  return {
+    exam: profile.name,
+    today,
+    windowDays: SUMMARY_WINDOW_DAYS,
+    daysToExam: examDate ? daysUntil(examDate, today) : null,
+    totals: {
+      entries: recent.length,
+      sets: recent.reduce((sum, e) => sum + calculateTotalSets(e), 0),
+      minutes: recent.reduce((sum, e) => sum + e.timeTaken, 0),
+      accuracy: pooledAccuracy(recent),
+    },
+    subjects,
+    weakTopics,
+    recentLearnings,
+  };
+}
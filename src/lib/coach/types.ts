@@ -0,0 +1,36 @@
+import type { Subject } from '../../types';
+
+// --- COACHING PROVIDERS ---
+// The coach panel only talks to providers through this interface: an
+// OpenAI-compatible HTTP server (llama.cpp, Ollama, a hosted API) or the
+// deterministic offline stub.
+
+export type CoachSummary = {
+  exam: string;
+  today: string;
+  windowDays: number;
+  daysToExam: number | null;
+  totals: { entries: number; sets: number; minutes: number; accuracy: number };
+  subjects: { subject: Subject; entries: number; sets: number; accuracy: number; minutesPerSet: number }[];
+  weakTopics: { subject: Subject; topic: string; accuracy: number | null; reasons: string[] }[];
+  recentLearnings: { date: string; subject: Subject; topic: string; text: string }[];
+};
+
+export type CoachPlanItem = {
+  day: string;
+  focus: string;
+  tasks: string[];
+};
+
+export type CoachAdvice = {
+  summary: string;
+  plan: CoachPlanItem[];
+  feedback: { mistake: string; advice: string }[];
+};
+
+export interface CoachProvider {
+  readonly kind: 'openai' | 'offline';
+  // Cache key component: responses are only reused for the same provider.
+  readonly id: string;
+  coach(summary: CoachSummary, signal: AbortSignal): Promise<CoachAdvice>;
+}
@@ -0,0 +1,116 @@
+import type { Entry, Subject, StudentSnapshot } from '../types';
+import { analyzeTopics } from './mastery';
+import { weekStartOf } from './planner';
+import { UNTAGGED_TOPIC, normalizeTopicKey } from './topics';
+import { addDays, calculateTotalSets, formatDate } from './utils';
+
+// --- STUDENT COMPARISON ---
+// Side-by-side aggregates for two or more students. Everything is pooled
+// (questions, sets, minutes) so a student with many short entries is not
+// weighted differently from one who logs long sessions.
+
+export const COMPARISON_WEEKS = 12;
+const RECENT_DAYS = 30;
+const MAX_SHARED_TOPICS = 20;
+
+// Live students are keyed by id; snapshot files by a key of their own so a
+// student can be compared with an older export of themselves.
+export type Participant = {
+  key: string;
+  label: string;
+  readOnly: boolean;
+  snapshot: StudentSnapshot;
+};
+
+export type ParticipantSummary = {
+  key: string;
+  label: string;
+  exam: string;
+  entries: number;
+  sets: number;
+  minutes: number;
+  accuracy: number | null;
+  recentAccuracy: number | null;
+  minutesPerSet: number | null;
+  topics: number;
+  averageMastery: number | null;
+  weakTopics: number;
+};
+
+const pooledAccuracy = (entries: Entry[]) => {
+  const attempted = entries.reduce((sum, e) => sum + e.questionsAttempted, 0);
+  return attempted > 0 ? (entries.reduce((sum, e) => sum + e.correctAnswers, 0) / attempted) * 100 : null;
+};
+
+export function summarize(participant: Participant, now = new Date()): ParticipantSummary {
+  const { entries, topics: catalog, profile } = participant.snapshot;
+  const from = addDays(formatDate(now), -(RECENT_DAYS - 1));
+  const sets = entries.reduce((sum, e) => sum + calculateTotalSets(e), 0);
+  const minutes = entries.reduce((sum, e) => sum + e.timeTaken, 0);
+  const topics = analyzeTopics(entries, catalog, now);
+  return {
+    key: participant.key,
+    label: participant.label,
+    exam: profile.name,
+    entries: entries.length,
+    sets,
+    minutes,
+    accuracy: pooledAccuracy(entries),
+    recentAccuracy: pooledAccuracy(entries.filter(e => e.date >= from)),
+    minutesPerSet: sets > 0 ? minutes / sets : null,
+    topics: topics.length,
+    averageMastery: topics.length > 0 ? topics.reduce((sum, t) => sum + t.mastery, 0) / topics.length : null,
+    weakTopics: topics.filter(t => t.isWeak).length,
+  };
+}
+
+// One row per week for the last COMPARISON_WEEKS weeks, with a column per
+// participant. Weeks without attempts are left out of the accuracy column so
+// the line skips them instead of dropping to zero.
+export function weeklySeries(participants: Participant[], now = new Date()) {
+  const lastWeek = weekStartOf(formatDate(now));
+  const weeks = Array.from({ length: COMPARISON_WEEKS }, (_, i) => addDays(lastWeek, -7 * (COMPARISON_WEEKS - 1 - i)));
+  return weeks.map(week => {
+    const end = addDays(week, 6);
+    const accuracy: Record<string, number | string> = { week };
+    const volume: Record<string, number | string> = { week };
+    participants.forEach(({ key, snapshot }) => {
+      const inWeek = snapshot.entries.filter(e => e.date >= week && e.date <= end);
+      const value = pooledAccuracy(inWeek);
+      if (value !== null) accuracy[key] = Math.round(value * 10) / 10;
+      volume[key] = inWeek.reduce((sum, e) => sum + calculateTotalSets(e), 0);
+    });
+    return { week, accuracy, volume };
+  });
+}
+
+export type SharedTopic = {
+  subject: Subject;
+  name: string;
+  mastery: Record<string, number>;
+  spread: number;
+};
+
+// Topics practised by at least two participants, matched on subject and
+// normalized name since each student keeps their own topic catalog. Widest
+// gaps first: those are where one student can learn from another.
+export function sharedTopics(participants: Participant[], now = new Date()): SharedTopic[] {
+  const byTopic = new Map<string, SharedTopic>();
+  participants.forEach(({ key, snapshot }) => {
+    analyzeTopics(snapshot.entries, snapshot.topics, now).forEach(topic => {
+      if (topic.group.name === UNTAGGED_TOPIC) return;
+      const id = `${topic.group.subject}|${normalizeTopicKey(topic.group.name)}`;
+      const shared = byTopic.get(id) ?? { subject: topic.group.subject, name: topic.group.name, mastery: {}, spread: 0 };
+      shared.mastery[key] = Math.round(topic.mastery);
+      byTopic.set(id, shared);
+    });
+  });
+  return Array.from(byTopic.values())
+    .filter(topic => Object.keys(topic.mastery).length >= 2)
+    .map(topic => {
+      const values = Object.values(topic.mastery);
+      return { ...topic, spread: Math.max(...values) - Math.min(...values) };
+    })
+    .sort((a, b) => b.spread - a.spread)
+    .slice(0, MAX_SHARED_TOPICS);
+}
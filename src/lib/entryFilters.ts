@@ -0,0 +1,70 @@
+import type { Entry, EntryFilters, EntrySort, EntrySortKey, ScoreView } from '../types';
+import { scoreEntry } from './scoring';
+import { normalizeTopicKey } from './topics';
+import { calculateAccuracy, calculateSpeed, calculateTotalSets } from './utils';
+
+// --- ENTRY FILTERS ---
+
+export const EMPTY_FILTERS: EntryFilters = {
+  search: '',
+  dateFrom: null,
+  dateTo: null,
+  subjects: [],
+  topic: '',
+  accuracyMin: null,
+  accuracyMax: null,
+  confidence: [],
+  weak: 'any',
+};
+
+export const DEFAULT_SORT: EntrySort = { key: 'date', direction: 'desc' };
+
+export const isFilterActive = (filters: EntryFilters) =>
+  (Object.keys(EMPTY_FILTERS) as (keyof EntryFilters)[]).some(key => JSON.stringify(filters[key]) !== JSON.stringify(EMPTY_FILTERS[key]));
+
+// Every word of the search must appear in the topic or the learnings.
+const matchesSearch = (entry: Entry, search: string) => {
+  const words = search.toLowerCase().split(/\s+/).filter(Boolean);
+  const haystack = `${entry.topic}\n${entry.learnings}`.toLowerCase();
+  return words.every(word => haystack.includes(word));
+};
+
+export function applyFilters(entries: Entry[], filters: EntryFilters) {
+  const topicKey = normalizeTopicKey(filters.topic);
+  return entries.filter(entry => {
+    if (filters.dateFrom && entry.date < filters.dateFrom) return false;
+    if (filters.dateTo && entry.date > filters.dateTo) return false;
+    if (filters.subjects.length > 0 && !filters.subjects.includes(entry.subject)) return false;
+    if (topicKey && !normalizeTopicKey(entry.topic).includes(topicKey)) return false;
+    if (filters.confidence.length > 0 && !filters.confidence.includes(entry.confidence)) return false;
+    if (filters.weak !== 'any' && entry.isWeakTopic !== (filters.weak === 'weak')) return false;
+    if (filters.accuracyMin !== null || filters.accuracyMax !== null) {
+      const accuracy = calculateAccuracy(entry);
+      if (filters.accuracyMin !== null && accuracy < filters.accuracyMin) return false;
+      if (filters.accuracyMax !== null && accuracy > filters.accuracyMax) return false;
+    }
+    return !filters.search.trim() || matchesSearch(entry, filters.search);
+  });
+}
+
+const SORT_VALUES: Record<EntrySortKey, (entry: Entry, scoreView: ScoreView) => string | number> = {
+  date: entry => entry.date,
+  subject: entry => entry.subject,
+  topic: entry => entry.topic.toLowerCase(),
+  sets: entry => calculateTotalSets(entry),
+  score: (entry, scoreView) => (scoreView === 'netScore' ? scoreEntry(entry).netScorePercent : scoreEntry(entry).accuracy),
+  speed: entry => calculateSpeed(entry),
+};
+
+export function sortEntries(entries: Entry[], sort: EntrySort, scoreView: ScoreView) {
+  const valueOf = SORT_VALUES[sort.key];
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  return entries
+    .map(entry => ({ entry, value: valueOf(entry, scoreView) }))
+    .sort((a, b) => sign * (a.value < b.value ? -1 : a.value > b.value ? 1 : 0) || b.entry.date.localeCompare(a.entry.date))
+    .map(({ entry }) => entry);
+}
+
+// Calendar and heatmap clicks select a single day through the date range.
+export const singleDate = (filters: EntryFilters) =>
+  filters.dateFrom && filters.dateFrom === filters.dateTo ? filters.dateFrom : null;
@@ -0,0 +1,42 @@
+import type { EntryChange } from './adapters';
+import { entriesStore } from './schema';
+import { forStudent, studentKey } from './students';
+
+// --- CROSS-TAB SYNC ---
+// Each tab posts the per-entry changes it has persisted; other tabs apply them
+// to their in-memory state without re-reading the whole store. Browsers without
+// BroadcastChannel fall back to `storage` events, which only fire for the
+// localStorage adapter, and trigger a full reload. Each student has a channel
+// of their own.
+
+const CHANNEL_NAME = 'cat-tracker-sync';
+
+export type SyncMessage =
+  | { type: 'change'; change: EntryChange }
+  | { type: 'reload' };
+
+export type SyncChannel = {
+  post: (message: SyncMessage) => void;
+  close: () => void;
+};
+
+export function openSyncChannel(studentId: string, onMessage: (message: SyncMessage) => void): SyncChannel {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(studentKey(CHANNEL_NAME, studentId));
+    channel.onmessage = (event: MessageEvent<SyncMessage>) => onMessage(event.data);
+    return {
+      post: message => channel.postMessage(message),
+      close: () => channel.close(),
+    };
+  }
+
+  const storageKey = forStudent(entriesStore, studentId).key;
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === storageKey) onMessage({ type: 'reload' });
+  };
+  window.addEventListener('storage', handleStorage);
+  return {
+    post: () => {},
+    close: () => window.removeEventListener('storage', handleStorage),
+  };
+}
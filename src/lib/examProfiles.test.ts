@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import type { Entry } from '../types';
+import { CAT_PROFILE, PRESET_PROFILES, createFieldId, defaultSetType, emptySets, subjectsInUse } from './examProfiles';
+
+const GMAT = PRESET_PROFILES.find(p => p.id === 'gmat')!;
+
+describe('createFieldId', () => {
+  it('camel-cases the label', () => {
+    expect(createFieldId('Words learned', [])).toBe('wordsLearned');
+    expect(createFieldId('  Full-length mock (timed) ', [])).toBe('fullLengthMockTimed');
+  });
+
+  it('numbers an id that is already taken', () => {
+    expect(createFieldId('Essays', ['essays'])).toBe('essays2');
+    expect(createFieldId('Essays', ['essays', 'essays2'])).toBe('essays3');
+  });
+
+  it('falls back to a generic id for a label with no letters or digits', () => {
+    expect(createFieldId('!!!', [])).toBe('field');
+    expect(createFieldId('', ['field'])).toBe('field2');
+  });
+});
+
+describe('defaultSetType', () => {
+  it('picks the category named after the subject', () => {
+    expect(defaultSetType(CAT_PROFILE, 'LR')).toBe('lrSets');
+    expect(defaultSetType(CAT_PROFILE, 'DI')).toBe('diSets');
+  });
+
+  it('otherwise picks the first category not tied to another subject', () => {
+    expect(defaultSetType(CAT_PROFILE, 'QUANT')).toBe('vaultSets');
+    expect(defaultSetType(GMAT, 'Verbal')).toBe('practiceSets');
+  });
+
+  it('falls back to the first category when every one belongs to a subject', () => {
+    const profile = { ...CAT_PROFILE, setCategories: CAT_PROFILE.setCategories.slice(0, 2) };
+    expect(defaultSetType(profile, 'VARC')).toBe('lrSets');
+  });
+});
+
+describe('profile helpers', () => {
+  it('starts every category of the profile at zero', () => {
+    expect(emptySets(GMAT)).toEqual({ practiceSets: 0, sectionalSets: 0, mockSets: 0 });
+  });
+
+  it('lists subjects only found in entries after the profile\'s own', () => {
+    const entries = [{ subject: 'Physics' }, { subject: 'LR' }, { subject: 'Chemistry' }] as Entry[];
+    expect(subjectsInUse(CAT_PROFILE, entries)).toEqual(['LR', 'DI', 'QUANT', 'VARC', 'Chemistry', 'Physics']);
+  });
+});
@@ -0,0 +1,86 @@
+import type { Entry, ExamProfile, SetType, Subject } from '../types';
+
+// --- EXAM PROFILES ---
+// The profile declares what an entry is made of. CAT is the built-in default:
+// its category ids are the set fields entries had before they were profile
+// driven, so old data, plans and timers resolve without translation.
+
+export const CAT_PROFILE: ExamProfile = {
+  id: 'cat',
+  name: 'CAT',
+  subjects: ['LR', 'DI', 'QUANT', 'VARC'],
+  setCategories: [
+    { id: 'lrSets', label: 'LR' },
+    { id: 'diSets', label: 'DI' },
+    { id: 'vaultSets', label: 'Vault' },
+    { id: 'sectionalSets', label: 'Sectional' },
+  ],
+  customFields: [],
+};
+
+// Starting points for other exams; the user edits them from there.
+export const PRESET_PROFILES: ExamProfile[] = [
+  CAT_PROFILE,
+  {
+    id: 'gmat',
+    name: 'GMAT',
+    subjects: ['Quant', 'Verbal', 'Data Insights'],
+    setCategories: [
+      { id: 'practiceSets', label: 'Practice' },
+      { id: 'sectionalSets', label: 'Sectional' },
+      { id: 'mockSets', label: 'Full mock' },
+    ],
+    customFields: [],
+  },
+  {
+    id: 'gre',
+    name: 'GRE',
+    subjects: ['Verbal', 'Quant', 'Writing'],
+    setCategories: [
+      { id: 'practiceSets', label: 'Practice' },
+      { id: 'sectionalSets', label: 'Sectional' },
+    ],
+    customFields: [{ id: 'wordsLearned', label: 'Words learned' }],
+  },
+  {
+    id: 'xat',
+    name: 'XAT',
+    subjects: ['VALR', 'DM', 'QADI', 'GK'],
+    setCategories: [
+      { id: 'practiceSets', label: 'Practice' },
+      { id: 'sectionalSets', label: 'Sectional' },
+    ],
+    customFields: [{ id: 'essays', label: 'Essays written' }],
+  },
+];
+
+export const setCategoryLabel = (profile: ExamProfile, id: SetType) => profile.setCategories.find(c => c.id === id)?.label ?? id;
+
+// Category and field ids are stored on entries, so they are derived once from
+// the label and never change when the label is edited later.
+export function createFieldId(label: string, taken: string[]) {
+  const base = label.trim().toLowerCase().replace(/[^a-z0-9]+(.)?/g, (_, c: string | undefined) => (c ? c.toUpperCase() : '')) || 'field';
+  let id = base;
+  for (let i = 2; taken.includes(id); i++) id = `${base}${i}`;
+  return id;
+}
+
+// A category named after the subject (CAT's "LR" sets) fits it best;
+// otherwise the first category that isn't tied to another subject.
+export function defaultSetType(profile: ExamProfile, subject: Subject): SetType {
+  const own = profile.setCategories.find(c => c.label === subject);
+  const general = profile.setCategories.find(c => !profile.subjects.includes(c.label));
+  return (own ?? general ?? profile.setCategories[0]).id;
+}
+
+export const emptySets = (profile: ExamProfile) => Object.fromEntries(profile.setCategories.map(c => [c.id, 0])) as Record<SetType, number>;
+
+// Subjects the profile no longer declares still appear in existing entries;
+// list them after the profile's own so their data stays reachable.
+export function subjectsInUse(profile: ExamProfile, entries: Entry[]): Subject[] {
+  const extra = new Set<Subject>();
+  entries.forEach(e => {
+    if (!profile.subjects.includes(e.subject)) extra.add(e.subject);
+  });
+  return [...profile.subjects, ...Array.from(extra).sort()];
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import type { Entry } from '../types';
+import { CAT_PROFILE } from './examProfiles';
+import { buildPreview, exportEntries, guessMapping, planImport, readCsv, readJson } from './importExport';
+
+const existing: Entry = {
+  id: 'e1', date: '2026-03-02', subject: 'LR', topic: 'Arrangements', sets: { lrSets: 2, diSets: 0, vaultSets: 0, sectionalSets: 0 },
+  timeTaken: 40, questionsAttempted: 12, correctAnswers: 9, confidence: 3, learnings: 'Draw the grid', isWeakTopic: false,
+  questions: [{ id: 'q1', source: { kind: 'set', ref: 'LR 1' }, type: 'mcq', result: 'wrong', timeSpent: 90, notes: '', retries: [] }],
+};
+
+const CSV = [
+  'Day,Section,Chapter,LR Sets,Minutes,Attempted,Correct,Notes,Weak',
+  '02/03/2026,LR,Arrangements,3,40,12,9,Check the constraints,yes',
+  '2026-03-03,qa,Percentages,0,30,10,7,,no',
+  '2026-03-03,QUANT,Percentages,0,30,10,7,,',
+  '2026-03-04,Physics,Optics,0,20,5,6,,',
+].join('\n');
+
+const preview = (text = CSV, entries = [existing]) => {
+  const table = readCsv(text);
+  const mapping = guessMapping(table.headers, CAT_PROFILE);
+  return { mapping, rows: buildPreview(table, mapping, entries, CAT_PROFILE) };
+};
+
+describe('guessMapping', () => {
+  it('maps columns by key, label and alias', () => {
+    expect(guessMapping(['Day', 'Section', 'Chapter', 'LR Sets', 'lrSets', 'Minutes', 'Right', 'Start'], CAT_PROFILE)).toEqual({
+      date: 'Day', subject: 'Section', topic: 'Chapter', 'sets.lrSets': 'LR Sets', timeTaken: 'Minutes', correctAnswers: 'Right', startTime: 'Start',
+    });
+  });
+});
+
+describe('buildPreview', () => {
+  it('coerces dates, subjects and flags, and reports invalid rows', () => {
+    const { rows } = preview();
+
+    expect(rows[0].entry).toMatchObject({ date: '2026-03-02', subject: 'LR', sets: { lrSets: 3 }, isWeakTopic: true, learnings: 'Check the constraints' });
+    expect(rows[1].entry).toMatchObject({ subject: 'QUANT', isWeakTopic: false });
+    expect(rows[3].errors).toEqual(['Physics is not a subject in the CAT profile', 'Correct (6) exceeds attempted (5)']);
+  });
+
+  it('flags duplicates of stored entries and repeats within the file', () => {
+    const { rows } = preview();
+
+    expect(rows[0].duplicateOf?.id).toBe('e1');
+    expect(rows[1]).toMatchObject({ duplicateOf: null, repeatOf: null });
+    expect(rows[2].repeatOf).toBe(2);
+  });
+
+  it('requires a date and a subject column', () => {
+    const { rows } = preview('Topic,Correct\nArrangements,4');
+    expect(rows[0].errors.slice(0, 2)).toEqual(['No column mapped to Subject', 'No column mapped to Date']);
+  });
+});
+
+describe('planImport', () => {
+  it('creates new rows and skips repeats and invalid rows whatever the strategy', () => {
+    const { rows, mapping } = preview();
+    const plan = planImport(rows, mapping, 'skip', CAT_PROFILE);
+
+    expect(plan.create.map(e => e.topic)).toEqual(['Percentages']);
+    expect(plan).toMatchObject({ update: [], skipped: 2, invalid: 1 });
+  });
+
+  it('overwrites a duplicate but keeps its question log', () => {
+    const { rows, mapping } = preview();
+    const [updated] = planImport(rows, mapping, 'overwrite', CAT_PROFILE).update;
+
+    expect(updated).toMatchObject({ id: 'e1', sets: { lrSets: 3 }, learnings: 'Check the constraints', questions: existing.questions });
+  });
+
+  it('merges mapped columns into a duplicate and appends its learnings', () => {
+    const { rows, mapping } = preview();
+    const [updated] = planImport(rows, mapping, 'merge', CAT_PROFILE).update;
+
+    expect(updated).toMatchObject({ id: 'e1', sets: { lrSets: 3, diSets: 0 }, isWeakTopic: true, learnings: 'Draw the grid\nCheck the constraints', confidence: 3 });
+  });
+});
+
+describe('export round trip', () => {
+  it('reads back its own JSON and CSV', () => {
+    const json = readJson(exportEntries([existing], 'json', CAT_PROFILE));
+    expect(json.rows[0]).toMatchObject({ id: 'e1', 'sets.lrSets': 2, learnings: 'Draw the grid' });
+
+    const csv = readCsv(exportEntries([existing], 'csv', CAT_PROFILE));
+    const rows = buildPreview(csv, guessMapping(csv.headers, CAT_PROFILE), [], CAT_PROFILE);
+    expect(rows[0].errors).toEqual([]);
+    expect(rows[0]).toMatchObject({ sourceId: 'e1', entry: { topic: 'Arrangements', sets: { lrSets: 2 }, correctAnswers: 9 } });
+  });
+
+  it('migrates JSON exported by an older version', () => {
+    const old = JSON.stringify({ version: 1, entries: [{ id: 'e1', date: '2026-03-02', subject: 'LR', lrSets: 2, diSets: 0, vaultSets: 0, sectionalSets: 0 }] });
+    expect(readJson(old).rows[0]).toMatchObject({ 'sets.lrSets': 2 });
+  });
+});
@@ -0,0 +1,346 @@
+import type { Entry, ExamProfile, Subject } from '../types';
+import { parseCsv, toCsv } from './csv';
+import { emptySets } from './examProfiles';
+import { ENTRIES_VERSION, entriesStore, validateEntry } from './schema';
+import { runMigrations, type StoreDefinition } from './storage';
+
+// --- IMPORT / EXPORT ---
+
+export type ExportFormat = 'csv' | 'json';
+export type DuplicateStrategy = 'merge' | 'skip' | 'overwrite';
+
+type FieldKind = 'date' | 'time' | 'subject' | 'text' | 'number' | 'optionalNumber' | 'custom' | 'boolean' | 'numberList';
+
+// Set counts and custom fields live in nested records on the entry; their
+// keys are dotted paths ("sets.lrSets", "custom.essays") so a CSV column maps
+// straight onto them.
+export type EntryField = { key: string; label: string; kind: FieldKind; required?: boolean };
+
+const LEADING_FIELDS: EntryField[] = [
+  { key: 'date', label: 'Date', kind: 'date', required: true },
+  { key: 'subject', label: 'Subject', kind: 'subject', required: true },
+  { key: 'topic', label: 'Topic', kind: 'text' },
+];
+
+const TRAILING_FIELDS: EntryField[] = [
+  { key: 'timeTaken', label: 'Time Taken (mins)', kind: 'number' },
+  { key: 'questionsAttempted', label: 'Attempted', kind: 'number' },
+  { key: 'correctAnswers', label: 'Correct', kind: 'number' },
+  { key: 'incorrectMcq', label: 'Wrong (MCQ)', kind: 'number' },
+  { key: 'incorrectTita', label: 'Wrong (TITA)', kind: 'number' },
+  { key: 'skipped', label: 'Skipped', kind: 'number' },
+  { key: 'confidence', label: 'Confidence', kind: 'number' },
+  { key: 'learnings', label: 'Learnings', kind: 'text' },
+  { key: 'isWeakTopic', label: 'Weak Topic', kind: 'boolean' },
+  { key: 'setTimes', label: 'Set Times (s)', kind: 'numberList' },
+  { key: 'startTime', label: 'Start Time', kind: 'time' },
+  { key: 'energy', label: 'Energy', kind: 'optionalNumber' },
+];
+
+export const entryFields = (profile: ExamProfile): EntryField[] => [
+  ...LEADING_FIELDS,
+  ...profile.setCategories.map(c => ({ key: `sets.${c.id}`, label: `${c.label} Sets`, kind: 'number' as const })),
+  ...TRAILING_FIELDS,
+  ...profile.customFields.map(f => ({ key: `custom.${f.id}`, label: f.label, kind: 'custom' as const })),
+];
+
+export function readField(entry: Partial<Entry>, key: string): unknown {
+  const [head, sub] = key.split('.');
+  const value = (entry as Record<string, unknown>)[head];
+  if (sub === undefined) return value;
+  return typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[sub] : undefined;
+}
+
+function writeField(target: Record<string, unknown>, key: string, value: unknown) {
+  const [head, sub] = key.split('.');
+  if (sub === undefined) target[head] = value;
+  else if (value !== undefined) target[head] = { ...(target[head] as Record<string, unknown> | undefined), [sub]: value };
+}
+
+const defaults = (profile: ExamProfile): Omit<Entry, 'id' | 'date' | 'subject'> => ({
+  topic: '',
+  sets: emptySets(profile),
+  timeTaken: 0,
+  questionsAttempted: 0,
+  correctAnswers: 0,
+  incorrectMcq: 0,
+  incorrectTita: 0,
+  skipped: 0,
+  confidence: 3,
+  learnings: '',
+  isWeakTopic: false,
+});
+
+// --- EXPORT ---
+// JSON keeps every field; CSV has one column per field of the profile.
+export function exportEntries(entries: Entry[], format: ExportFormat, profile: ExamProfile): string {
+  if (format === 'json') {
+    return JSON.stringify({ version: ENTRIES_VERSION, exportedAt: new Date().toISOString(), entries }, null, 2);
+  }
+  const keys = ['id', ...entryFields(profile).map(f => f.key)];
+  return toCsv(keys, entries.map(entry => keys.map(key => readField(entry, key))));
+}
+
+export function downloadFile(filename: string, contents: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// --- PARSING ---
+export type RawTable = {
+  headers: string[];
+  rows: Record<string, unknown>[];
+};
+
+export function readCsv(text: string): RawTable {
+  const [headers = [], ...rows] = parseCsv(text);
+  return {
+    headers,
+    rows: rows.map(cells => Object.fromEntries(headers.map((header, i) => [header, cells[i] ?? '']))),
+  };
+}
+
+const flattenNested = (record: Record<string, unknown>) => Object.fromEntries(Object.entries(record).flatMap(([key, value]) =>
+  (key === 'sets' || key === 'custom') && typeof value === 'object' && value !== null
+    ? Object.entries(value).map(([sub, v]) => [`${key}.${sub}`, v])
+    : [[key, value]]));
+
+// Accepts our own export envelope, a stored `{ version, data }` envelope or a
+// bare array of records.
+export function readJson(text: string): RawTable {
+  const parsed = JSON.parse(text);
+  let records: unknown = parsed;
+  if (parsed && !Array.isArray(parsed) && typeof parsed === 'object') {
+    const body = 'entries' in parsed ? parsed.entries : parsed.data;
+    const version = typeof parsed.version === 'number' ? parsed.version : ENTRIES_VERSION;
+    records = version < ENTRIES_VERSION ? runMigrations(body, version, entriesStore as StoreDefinition<unknown>) : body;
+  }
+  if (!Array.isArray(records)) throw new Error('Expected a list of entries');
+  const rows = records
+    .filter((r): r is Record<string, unknown> => typeof r === 'object' && r !== null)
+    .map(flattenNested);
+  const headers = Array.from(new Set(rows.flatMap(r => Object.keys(r))));
+  return { headers, rows };
+}
+
+// --- COLUMN MAPPING ---
+// Field key (or 'id') → source column.
+export type ColumnMapping = Partial<Record<string, string>>;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const HEADER_ALIASES: Record<string, string> = {
+  day: 'date',
+  section: 'subject',
+  lecture: 'topic',
+  chapter: 'topic',
+  time: 'timeTaken',
+  start: 'startTime',
+  started: 'startTime',
+  minutes: 'timeTaken',
+  mins: 'timeTaken',
+  attempted: 'questionsAttempted',
+  attempts: 'questionsAttempted',
+  questions: 'questionsAttempted',
+  correct: 'correctAnswers',
+  right: 'correctAnswers',
+  wrong: 'incorrectMcq',
+  negatives: 'incorrectMcq',
+  tita: 'incorrectTita',
+  unattempted: 'skipped',
+  left: 'skipped',
+  notes: 'learnings',
+  mistakes: 'learnings',
+  weak: 'isWeakTopic',
+  weaktopic: 'isWeakTopic',
+  sectionals: 'sets.sectionalSets',
+  vault: 'sets.vaultSets',
+};
+
+// Matches the full key, its last segment (older exports had "lrSets" as a
+// top-level column), the label, then the aliases.
+export function guessMapping(headers: string[], profile: ExamProfile): ColumnMapping {
+  const fields = entryFields(profile);
+  const mapping: ColumnMapping = {};
+  const candidates = ['id', ...fields.map(f => f.key)];
+  headers.forEach(header => {
+    const normalized = normalizeHeader(header);
+    const byKey = candidates.find(key => normalizeHeader(key) === normalized || normalizeHeader(key.split('.').pop()!) === normalized);
+    const byLabel = fields.find(f => normalizeHeader(f.label) === normalized)?.key;
+    const alias = candidates.includes(HEADER_ALIASES[normalized]) ? HEADER_ALIASES[normalized] : undefined;
+    const key = byKey ?? byLabel ?? alias;
+    if (key && !mapping[key]) mapping[key] = header;
+  });
+  return mapping;
+}
+
+// --- VALUE COERCION ---
+const SUBJECT_ALIASES: Record<string, Subject> = { QA: 'QUANT', QUANTS: 'QUANT', RC: 'VARC', VA: 'VARC', DILR: 'DI' };
+
+function toSubject(value: unknown, subjects: Subject[]): unknown {
+  const text = String(value ?? '').trim().toUpperCase();
+  const match = subjects.find(s => s.toUpperCase() === text) ?? SUBJECT_ALIASES[text];
+  return match && subjects.includes(match) ? match : value;
+}
+
+// Spreadsheets kept in India mostly use DD/MM/YYYY, so that is the only
+// non-ISO form accepted; anything else is reported rather than guessed.
+function toIsoDate(value: unknown): unknown {
+  const text = String(value ?? '').trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text;
+  const dmy = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (dmy) return `${dmy[3]}-${dmy[2].padStart(2, '0')}-${dmy[1].padStart(2, '0')}`;
+  return text;
+}
+
+// "9:05" → "09:05"; an empty cell means no start time was recorded.
+function toClockTime(value: unknown): unknown {
+  const text = String(value ?? '').trim();
+  if (text === '') return undefined;
+  const match = text.match(/^(\d{1,2})[:.](\d{2})$/);
+  return match ? `${match[1].padStart(2, '0')}:${match[2]}` : text;
+}
+
+function toBoolean(value: unknown): unknown {
+  if (typeof value === 'boolean') return value;
+  const text = String(value ?? '').trim().toLowerCase();
+  if (['true', 'yes', 'y', '1', 'x'].includes(text)) return true;
+  if (['false', 'no', 'n', '0', ''].includes(text)) return false;
+  return value;
+}
+
+function toNumber(value: unknown): unknown {
+  if (typeof value === 'number') return value;
+  const text = String(value ?? '').trim();
+  return text === '' ? 0 : Number(text);
+}
+
+// Exported as "95,120,88" in CSV; an empty cell means no timed sets.
+// Custom fields are optional: an empty cell leaves the field unset.
+function toOptionalNumber(value: unknown): unknown {
+  return String(value ?? '').trim() === '' ? undefined : toNumber(value);
+}
+
+function toNumberList(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(toNumber);
+  const text = String(value ?? '').trim();
+  return text === '' ? undefined : text.split(/[,;\s]+/).map(Number);
+}
+
+function coerce(field: EntryField, value: unknown, profile: ExamProfile): unknown {
+  switch (field.kind) {
+    case 'date': return toIsoDate(value);
+    case 'time': return toClockTime(value);
+    case 'subject': return toSubject(value, profile.subjects);
+    case 'boolean': return toBoolean(value);
+    case 'number': return toNumber(value);
+    case 'optionalNumber':
+    case 'custom': return toOptionalNumber(value);
+    case 'numberList': return toNumberList(value);
+    case 'text': return value === undefined || value === null ? '' : String(value);
+  }
+}
+
+// --- PREVIEW ---
+export type ImportRow = {
+  index: number;
+  entry: Omit<Entry, 'id'>;
+  sourceId: string | null;
+  errors: string[];
+  duplicateOf: Entry | null;
+  // Earlier valid row of the same file this one repeats; repeats are skipped.
+  repeatOf: number | null;
+};
+
+const duplicateKey = (e: Omit<Entry, 'id'>) =>
+  [e.date, e.subject, e.topic.trim().toLowerCase(), e.questionsAttempted, e.correctAnswers, e.timeTaken].join('|');
+
+export function buildPreview(table: RawTable, mapping: ColumnMapping, existing: Entry[], profile: ExamProfile): ImportRow[] {
+  const fields = entryFields(profile);
+  const byId = new Map(existing.map(e => [e.id, e]));
+  const byKey = new Map(existing.map(e => [duplicateKey(e), e]));
+  const seenIds = new Map<string, number>();
+  const seenKeys = new Map<string, number>();
+
+  return table.rows.map((row, index) => {
+    const entry: Record<string, unknown> = defaults(profile);
+    fields.forEach(field => {
+      const column = mapping[field.key];
+      if (column !== undefined) writeField(entry, field.key, coerce(field, row[column], profile));
+    });
+    const id = mapping.id !== undefined ? String(row[mapping.id] ?? '').trim() : '';
+
+    const errors = validateEntry({ ...entry, id: id || 'new' });
+    fields.filter(f => f.required && mapping[f.key] === undefined).forEach(f => errors.unshift(`No column mapped to ${f.label}`));
+    if (typeof entry.subject === 'string' && entry.subject && !profile.subjects.includes(entry.subject)) {
+      errors.push(`${entry.subject} is not a subject in the ${profile.name} profile`);
+    }
+    if (typeof entry.correctAnswers === 'number' && typeof entry.questionsAttempted === 'number' && entry.correctAnswers > entry.questionsAttempted) {
+      errors.push(`Correct (${entry.correctAnswers}) exceeds attempted (${entry.questionsAttempted})`);
+    }
+
+    const typed = entry as Omit<Entry, 'id'>;
+    const duplicateOf = (id && byId.get(id)) || byKey.get(duplicateKey(typed)) || null;
+    const key = duplicateKey(typed);
+    const repeatOf = errors.length > 0 ? null : (id && seenIds.get(id)) || seenKeys.get(key) || null;
+    if (errors.length === 0 && repeatOf === null) {
+      if (id) seenIds.set(id, index + 1);
+      seenKeys.set(key, index + 1);
+    }
+    return { index: index + 1, entry: typed, sourceId: id || null, errors, duplicateOf, repeatOf };
+  });
+}
+
+export type ImportPlan = {
+  create: Omit<Entry, 'id'>[];
+  update: Entry[];
+  skipped: number;
+  invalid: number;
+};
+
+// Merge keeps the existing record's id and unmapped fields but takes every
+// mapped column from the import, appending learnings rather than replacing
+// them.
+function mergeEntry(existing: Entry, incoming: ImportRow['entry'], mapping: ColumnMapping, fields: EntryField[]): Entry {
+  const merged: Entry = { ...existing };
+  fields.forEach(({ key }) => {
+    if (mapping[key] === undefined) return;
+    if (key === 'learnings') {
+      const extra = incoming.learnings.trim();
+      if (extra && !existing.learnings.includes(extra)) merged.learnings = existing.learnings ? `${existing.learnings}\n${extra}` : extra;
+      return;
+    }
+    writeField(merged as Record<string, unknown>, key, readField(incoming, key));
+  });
+  return merged;
+}
+
+export function planImport(rows: ImportRow[], mapping: ColumnMapping, strategy: DuplicateStrategy, profile: ExamProfile): ImportPlan {
+  const fields = entryFields(profile);
+  const plan: ImportPlan = { create: [], update: [], skipped: 0, invalid: 0 };
+  rows.forEach(({ entry, errors, duplicateOf, repeatOf }) => {
+    if (errors.length > 0) {
+      plan.invalid++;
+      return;
+    }
+    if (repeatOf !== null) {
+      plan.skipped++;
+    } else if (!duplicateOf) {
+      plan.create.push(entry);
+    } else if (strategy === 'skip') {
+      plan.skipped++;
+    } else if (strategy === 'overwrite') {
+      // Question logs and material coverage are not part of an import, so the
+      // existing ones are kept.
+      const { questions, coverage } = duplicateOf;
+      plan.update.push({ ...entry, id: duplicateOf.id, ...(questions && { questions }), ...(coverage && { coverage }) });
+    } else {
+      plan.update.push(mergeEntry(duplicateOf, entry, mapping, fields));
+    }
+  });
+  return plan;
+}
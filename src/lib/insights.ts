@@ -0,0 +1,256 @@
+import type { Entry, Subject } from '../types';
+import { normalizeTopicKey, UNTAGGED_TOPIC } from './topics';
+
+// --- MISTAKE INSIGHTS ---
+// Runs entirely on-device (normally inside insights.worker.ts). Learnings are
+// matched against a small library of mistake categories and mined for
+// recurring phrases; every finding is tied back to the entries it came from
+// and to how their accuracy compares with the rest of the same subjects.
+
+export type InsightFinding = {
+  id: string;
+  kind: 'category' | 'phrase';
+  label: string;
+  advice: string | null;
+  entryIds: string[];
+  accuracy: number;
+  baselineAccuracy: number;
+  accuracyDrop: number;
+  bySubject: Record<Subject, number>;
+  topTopics: { topic: string; count: number }[];
+};
+
+export type TopicMistakes = {
+  subject: Subject;
+  topic: string;
+  entryIds: string[];
+  accuracy: number;
+  categories: string[];
+};
+
+export type InsightReport = {
+  generatedAt: string;
+  analyzedEntries: number;
+  findings: InsightFinding[];
+  topics: TopicMistakes[];
+};
+
+type MistakeCategory = {
+  id: string;
+  label: string;
+  patterns: RegExp[];
+  advice: string;
+};
+
+export const MISTAKE_CATEGORIES: MistakeCategory[] = [
+  {
+    id: 'misread',
+    label: 'Misread question',
+    patterns: [/\bmis-?read/, /\bread (it )?(wrong|incorrectly)/, /\b(overlook|ignor)(ed|ing)?\b/, /\bmissed (the |a )?(condition|constraint|word|detail|clue|information|info|case)/, /\bdidn'?t read\b/, /\b(not|except|never) question\b/, /\bwhat was asked\b/],
+    advice: 'Underline what is being asked and every constraint before you start solving.',
+  },
+  {
+    id: 'calculation',
+    label: 'Calculation error',
+    patterns: [/\bcalculat/, /\barithmetic/, /\bcomputation/, /\bsilly\b/, /\bsign (error|mistake)/, /\bdecimal/, /\b(added|multiplied|divided|subtracted) (it )?wrong/, /\bcarry(ing)? over\b/, /\bunits?\b.*\b(wrong|mix)/],
+    advice: 'Write intermediate steps and sanity-check magnitudes before marking an answer.',
+  },
+  {
+    id: 'time',
+    label: 'Time pressure',
+    patterns: [/\b(ran|run|running) out of time/, /\btoo (much )?(long|slow)/, /\brush(ed|ing)?\b/, /\btime (pressure|management|crunch)/, /\bstuck\b/, /\bspent \d+\s*(min|minutes)/, /\bslow\b/],
+    advice: 'Set a per-question cut-off and move on; come back only if time remains.',
+  },
+  {
+    id: 'concept',
+    label: 'Concept gap',
+    patterns: [/\bconcept/, /\bformula/, /\b(didn'?t|did not|don'?t) (know|understand|remember)/, /\bforgot\b/, /\btheory\b/, /\bnew (type|topic)/, /\bneed(s)? to (learn|revise)/],
+    advice: 'Revise the underlying concept and solve a few easy questions on it before more sets.',
+  },
+  {
+    id: 'approach',
+    label: 'Wrong approach',
+    patterns: [/\bapproach/, /\bmethod\b/, /\bstrateg/, /\bshould have\b/, /\bbetter way\b/, /\bbrute force\b/, /\bset selection\b/, /\b(chose|picked) (the )?wrong set/],
+    advice: 'Spend the first minute choosing a method; compare with the solution\'s approach afterwards.',
+  },
+  {
+    id: 'assumption',
+    label: 'Careless assumption',
+    patterns: [/\bassum/, /\bcareless/, /\bover-?confident/, /\bjumped to/, /\bwithout (checking|verifying)/],
+    advice: 'Verify each assumption against the data before building on it.',
+  },
+  {
+    id: 'guessing',
+    label: 'Guessing',
+    patterns: [/\bguess/, /\brandom(ly)?\b/, /\bblind(ly)?\b/],
+    advice: 'Only attempt an MCQ you cannot solve when you can eliminate at least two options.',
+  },
+  {
+    id: 'options',
+    label: 'Option traps',
+    patterns: [/\boption/, /\belimination/, /\btrap\b/, /\bextreme\b/, /\bout of scope\b/, /\bclose (call|options)/],
+    advice: 'Justify why each rejected option is wrong, not just why the chosen one is right.',
+  },
+];
+
+// --- TEXT PROCESSING ---
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'again', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'because', 'been', 'before', 'being', 'but', 'by',
+  'can', 'could', 'did', 'didnt', 'do', 'does', 'doing', 'dont', 'during', 'each', 'for', 'from', 'get', 'got', 'had', 'has', 'have', 'having', 'he', 'her',
+  'here', 'how', 'i', 'if', 'im', 'in', 'into', 'is', 'it', 'its', 'just', 'me', 'more', 'most', 'my', 'need', 'next', 'no', 'not', 'now', 'of', 'on',
+  'one', 'only', 'or', 'other', 'our', 'out', 'over', 'same', 'she', 'should', 'so', 'some', 'such', 'than', 'that', 'the', 'their', 'them', 'then',
+  'there', 'these', 'they', 'this', 'those', 'time', 'to', 'too', 'under', 'up', 'very', 'was', 'we', 'were', 'what', 'when', 'which', 'while', 'who',
+  'why', 'will', 'with', 'would', 'you', 'your', 'q', 'qs', 'question', 'questions', 'set', 'sets',
+]);
+
+// A light suffix-stripping stemmer: enough to fold "calculations",
+// "calculating" and "calculated" together without a dictionary.
+export function stem(word: string) {
+  if (word.length <= 4) return word;
+  const rules: [RegExp, string][] = [
+    [/ational$/, 'at'], [/ization$/, 'ize'], [/fulness$/, 'ful'], [/ousness$/, 'ous'], [/iveness$/, 'ive'],
+    [/ations?$/, 'at'], [/ements?$/, ''], [/ments?$/, ''], [/ness$/, ''], [/ingly$/, ''], [/edly$/, ''],
+    [/ies$/, 'y'], [/ied$/, 'y'], [/ing$/, ''], [/ed$/, ''], [/ly$/, ''], [/sses$/, 'ss'], [/ss$/, 'ss'], [/es$/, ''], [/s$/, ''],
+  ];
+  for (const [pattern, replacement] of rules) {
+    if (!pattern.test(word)) continue;
+    const stemmed = word.replace(pattern, replacement);
+    if (stemmed.length >= 3) return stemmed.replace(/(.)\1$/, (match, letter) => (/[lsz]/.test(letter) ? match : letter));
+  }
+  return word;
+}
+
+type Token = { stem: string; surface: string };
+
+const tokenize = (text: string): Token[][] => text
+  .toLowerCase()
+  .replace(/['’]/g, '')
+  .split(/[.!?;\n]+/)
+  .map(sentence => sentence.split(/[^a-z0-9]+/).filter(word => word.length > 1 && !STOP_WORDS.has(word) && !/^\d+$/.test(word))
+    .map(word => ({ stem: stem(word), surface: word })));
+
+const MIN_PHRASE_ENTRIES = 2;
+const MAX_PHRASES = 6;
+
+// Two- and three-word phrases that recur across entries. Counts are per entry,
+// so one long note repeating itself does not dominate.
+function extractPhrases(entries: Entry[]) {
+  const phrases = new Map<string, { entryIds: Set<string>; surfaces: Map<string, number> }>();
+  entries.forEach(entry => {
+    tokenize(entry.learnings).forEach(sentence => {
+      [2, 3].forEach(n => {
+        for (let i = 0; i + n <= sentence.length; i++) {
+          const gram = sentence.slice(i, i + n);
+          const key = gram.map(t => t.stem).join(' ');
+          const surface = gram.map(t => t.surface).join(' ');
+          const phrase = phrases.get(key) ?? { entryIds: new Set(), surfaces: new Map() };
+          phrase.entryIds.add(entry.id);
+          phrase.surfaces.set(surface, (phrase.surfaces.get(surface) ?? 0) + 1);
+          phrases.set(key, phrase);
+        }
+      });
+    });
+  });
+
+  const recurring = Array.from(phrases.entries())
+    .filter(([, p]) => p.entryIds.size >= MIN_PHRASE_ENTRIES)
+    .map(([key, p]) => ({
+      key,
+      label: Array.from(p.surfaces.entries()).sort((a, b) => b[1] - a[1])[0][0],
+      entryIds: Array.from(p.entryIds),
+    }))
+    .sort((a, b) => b.entryIds.length - a.entryIds.length || b.key.split(' ').length - a.key.split(' ').length);
+
+  // Drop bigrams that only ever occur inside a longer phrase we already keep.
+  const kept: typeof recurring = [];
+  recurring.forEach(phrase => {
+    const covered = kept.some(k => k.key.includes(phrase.key) && k.entryIds.length >= phrase.entryIds.length);
+    if (!covered) kept.push(phrase);
+  });
+  return kept.slice(0, MAX_PHRASES);
+}
+
+// --- ACCURACY LINKING ---
+const pooledAccuracy = (entries: Entry[]) => {
+  const attempted = entries.reduce((sum, e) => sum + e.questionsAttempted, 0);
+  return attempted > 0 ? (entries.reduce((sum, e) => sum + e.correctAnswers, 0) / attempted) * 100 : 0;
+};
+
+const topicLabel = (entry: Entry) => entry.topic.trim() || UNTAGGED_TOPIC;
+
+function buildFinding(id: string, kind: InsightFinding['kind'], label: string, advice: string | null, matched: Entry[], all: Entry[]): InsightFinding {
+  const matchedIds = new Set(matched.map(e => e.id));
+  const subjects = new Set(matched.map(e => e.subject));
+  const baseline = all.filter(e => subjects.has(e.subject) && !matchedIds.has(e.id));
+  const accuracy = pooledAccuracy(matched);
+  const baselineAccuracy = baseline.length > 0 ? pooledAccuracy(baseline) : accuracy;
+
+  const bySubject: Record<Subject, number> = {};
+  const topics = new Map<string, { topic: string; count: number }>();
+  matched.forEach(e => {
+    bySubject[e.subject] = (bySubject[e.subject] ?? 0) + 1;
+    const key = `${e.subject}:${normalizeTopicKey(e.topic)}`;
+    const topic = topics.get(key) ?? { topic: topicLabel(e), count: 0 };
+    topic.count += 1;
+    topics.set(key, topic);
+  });
+
+  return {
+    id,
+    kind,
+    label,
+    advice,
+    entryIds: matched.map(e => e.id),
+    accuracy,
+    baselineAccuracy,
+    accuracyDrop: baselineAccuracy - accuracy,
+    bySubject,
+    topTopics: Array.from(topics.values()).sort((a, b) => b.count - a.count).slice(0, 3),
+  };
+}
+
+export const categorize = (learnings: string) => {
+  const text = learnings.toLowerCase();
+  return MISTAKE_CATEGORIES.filter(category => category.patterns.some(pattern => pattern.test(text))).map(c => c.id);
+};
+
+// Findings that recur and coincide with lower accuracy come first.
+const impact = (finding: InsightFinding) => finding.entryIds.length * (1 + Math.max(finding.accuracyDrop, 0) / 10);
+
+export function analyzeMistakes(entries: Entry[], now = new Date()): InsightReport {
+  const logged = entries.filter(e => e.learnings.trim() !== '');
+  const categoriesByEntry = new Map(logged.map(e => [e.id, categorize(e.learnings)]));
+
+  const categoryFindings = MISTAKE_CATEGORIES
+    .map(category => {
+      const matched = logged.filter(e => categoriesByEntry.get(e.id)!.includes(category.id));
+      return matched.length > 0 ? buildFinding(category.id, 'category', category.label, category.advice, matched, entries) : null;
+    })
+    .filter((f): f is InsightFinding => f !== null);
+
+  const byId = new Map(logged.map(e => [e.id, e]));
+  const phraseFindings = extractPhrases(logged).map(phrase =>
+    buildFinding(`phrase:${phrase.key}`, 'phrase', phrase.label, null, phrase.entryIds.map(id => byId.get(id)!), entries));
+
+  const topicGroups = new Map<string, Entry[]>();
+  logged.forEach(e => {
+    const key = `${e.subject}:${normalizeTopicKey(e.topic)}`;
+    topicGroups.set(key, [...(topicGroups.get(key) ?? []), e]);
+  });
+  const topics: TopicMistakes[] = Array.from(topicGroups.values())
+    .map(group => ({
+      subject: group[0].subject,
+      topic: topicLabel(group[0]),
+      entryIds: group.map(e => e.id),
+      accuracy: pooledAccuracy(group),
+      categories: Array.from(new Set(group.flatMap(e => categoriesByEntry.get(e.id)!))),
+    }))
+    .sort((a, b) => b.entryIds.length - a.entryIds.length || a.accuracy - b.accuracy);
+
+  return {
+    generatedAt: now.toISOString(),
+    analyzedEntries: logged.length,
+    findings: [...categoryFindings.sort((a, b) => impact(b) - impact(a)), ...phraseFindings.sort((a, b) => impact(b) - impact(a))],
+    topics,
+  };
+}
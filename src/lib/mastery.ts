@@ -0,0 +1,162 @@
+import type { CanonicalTopic, Entry, Subject } from '../types';
+import { DAY_MS, calculateSpeed, calculateTotalSets } from './utils';
+import { groupEntriesByTopic, type TopicGroup } from './topics';
+
+// --- TOPIC MASTERY ---
+// Mastery (0–100) blends recency-weighted accuracy, speed relative to the
+// subject's typical pace, and self-reported confidence. Older sessions count
+// for less: an entry's weight halves every MASTERY_HALF_LIFE_DAYS.
+
+export const MASTERY_HALF_LIFE_DAYS = 14;
+export const MASTERY_WEIGHTS = { accuracy: 0.6, speed: 0.2, confidence: 0.2 };
+
+export const WEAK_THRESHOLDS = {
+  mastery: 55,
+  accuracy: 60,
+  // Minutes per set this much above the subject median counts as slow.
+  slowRatio: 1.25,
+  confidence: 2,
+  // Accuracy drop (in points) between earlier and recent sessions.
+  decline: 10,
+  staleDays: 21,
+};
+
+export type MasterySnapshot = {
+  mastery: number;
+  // Null when no questions were attempted.
+  accuracy: number | null;
+  speed: number | null;
+  confidence: number;
+};
+
+export type TopicMastery = MasterySnapshot & {
+  group: TopicGroup;
+  subjectMedianSpeed: number | null;
+  lastPracticed: string;
+  reasons: string[];
+  isWeak: boolean;
+};
+
+const recencyWeight = (date: string, asOf: Date) => {
+  const ageDays = Math.max((asOf.getTime() - new Date(date).getTime()) / DAY_MS, 0);
+  return Math.pow(0.5, ageDays / MASTERY_HALF_LIFE_DAYS);
+};
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+export function subjectMedianSpeeds(entries: Entry[]) {
+  const speeds = new Map<Subject, number[]>();
+  entries.filter(e => calculateTotalSets(e) > 0).forEach(e => {
+    speeds.set(e.subject, [...(speeds.get(e.subject) ?? []), calculateSpeed(e)]);
+  });
+  return new Map(Array.from(speeds.entries()).map(([subject, values]) => [subject, median(values)]));
+}
+
+const weightedAccuracy = (entries: Entry[], asOf: Date) => {
+  let correct = 0;
+  let attempted = 0;
+  entries.forEach(e => {
+    const w = recencyWeight(e.date, asOf);
+    correct += w * e.correctAnswers;
+    attempted += w * e.questionsAttempted;
+  });
+  return attempted > 0 ? (correct / attempted) * 100 : null;
+};
+
+export function computeMastery(entries: Entry[], asOf: Date, subjectMedianSpeed: number | null): MasterySnapshot {
+  const accuracy = weightedAccuracy(entries, asOf);
+
+  let time = 0;
+  let sets = 0;
+  let confidenceSum = 0;
+  let confidenceWeight = 0;
+  entries.forEach(e => {
+    const w = recencyWeight(e.date, asOf);
+    time += w * e.timeTaken;
+    sets += w * calculateTotalSets(e);
+    confidenceSum += w * e.confidence;
+    confidenceWeight += w;
+  });
+  const speed = sets > 0 ? time / sets : null;
+  const confidence = confidenceWeight > 0 ? confidenceSum / confidenceWeight : 3;
+
+  const confidenceScore = ((confidence - 1) / 4) * 100;
+  const speedScore = speed !== null && subjectMedianSpeed
+    ? Math.min(Math.max(50 + 50 * (subjectMedianSpeed - speed) / subjectMedianSpeed, 0), 100)
+    : null;
+
+  // Components without data (no timing, nothing attempted) are left out and
+  // their weight shared out between the others.
+  const parts = [
+    { score: accuracy, weight: MASTERY_WEIGHTS.accuracy },
+    { score: speedScore, weight: MASTERY_WEIGHTS.speed },
+    { score: confidenceScore, weight: MASTERY_WEIGHTS.confidence },
+  ].filter((p): p is { score: number; weight: number } => p.score !== null);
+  const mastery = parts.reduce((sum, p) => sum + p.score * p.weight, 0) / parts.reduce((sum, p) => sum + p.weight, 0);
+
+  return { mastery, accuracy, speed, confidence };
+}
+
+function weakReasons(group: TopicGroup, snapshot: MasterySnapshot, subjectMedianSpeed: number | null, asOf: Date): string[] {
+  const reasons: string[] = [];
+  const chronological = [...group.entries].sort((a, b) => a.date.localeCompare(b.date));
+
+  // A topic with no attempted questions has nothing to judge mastery by.
+  if (snapshot.accuracy !== null && snapshot.mastery < WEAK_THRESHOLDS.mastery) {
+    reasons.push(`Mastery ${snapshot.mastery.toFixed(0)} is below ${WEAK_THRESHOLDS.mastery}`);
+  }
+  if (snapshot.accuracy !== null && snapshot.accuracy < WEAK_THRESHOLDS.accuracy) {
+    reasons.push(`Recent accuracy ${snapshot.accuracy.toFixed(0)}% (target ${WEAK_THRESHOLDS.accuracy}%)`);
+  }
+  if (chronological.length >= 4) {
+    const half = Math.floor(chronological.length / 2);
+    const earlier = weightedAccuracy(chronological.slice(0, half), asOf);
+    const recent = weightedAccuracy(chronological.slice(half), asOf);
+    if (earlier !== null && recent !== null && earlier - recent >= WEAK_THRESHOLDS.decline) {
+      reasons.push(`Accuracy falling: ${earlier.toFixed(0)}% → ${recent.toFixed(0)}%`);
+    }
+  }
+  if (snapshot.speed !== null && subjectMedianSpeed && snapshot.speed > subjectMedianSpeed * WEAK_THRESHOLDS.slowRatio) {
+    reasons.push(`Slow: ${snapshot.speed.toFixed(1)} min/set vs ${subjectMedianSpeed.toFixed(1)} typical for ${group.subject}`);
+  }
+  if (snapshot.confidence <= WEAK_THRESHOLDS.confidence) {
+    reasons.push(`Low confidence (${snapshot.confidence.toFixed(1)}/5)`);
+  }
+  const latest = chronological[chronological.length - 1];
+  const idleDays = Math.floor((asOf.getTime() - new Date(latest.date).getTime()) / DAY_MS);
+  if (idleDays >= WEAK_THRESHOLDS.staleDays && snapshot.accuracy !== null && snapshot.mastery < 70) {
+    reasons.push(`Not practised in ${idleDays} days`);
+  }
+  if (latest.isWeakTopic) {
+    reasons.push('Marked as weak in the latest entry');
+  }
+  return reasons;
+}
+
+// Weakest topics first.
+export function analyzeTopics(entries: Entry[], catalog: CanonicalTopic[], asOf = new Date()): TopicMastery[] {
+  const medians = subjectMedianSpeeds(entries);
+  return groupEntriesByTopic(entries, catalog)
+    .map(group => {
+      const subjectMedianSpeed = medians.get(group.subject) ?? null;
+      const snapshot = computeMastery(group.entries, asOf, subjectMedianSpeed);
+      const reasons = weakReasons(group, snapshot, subjectMedianSpeed, asOf);
+      const lastPracticed = group.entries.reduce((latest, e) => (e.date > latest ? e.date : latest), '');
+      return { ...snapshot, group, subjectMedianSpeed, lastPracticed, reasons, isWeak: reasons.length > 0 };
+    })
+    .sort((a, b) => a.mastery - b.mastery);
+}
+
+// Mastery as it stood after each practice day, for trend charts.
+export function masteryHistory(group: TopicGroup, subjectMedianSpeed: number | null) {
+  const dates = Array.from(new Set(group.entries.map(e => e.date))).sort();
+  return dates.map(date => {
+    const upTo = group.entries.filter(e => e.date <= date);
+    return { date, mastery: parseFloat(computeMastery(upTo, new Date(date), subjectMedianSpeed).mastery.toFixed(1)) };
+  });
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import type { Entry, MaterialCoverage, StudyMaterial } from '../types';
+import { formatSetList, materialProgress, parseSetList } from './materials';
+
+const book: StudyMaterial = {
+  id: 'm1', name: 'Arun Sharma LR', subject: 'LR', kind: 'book',
+  sections: [{ id: 's1', name: 'Puzzles', sets: 10 }, { id: 's2', name: 'Arrangements', sets: 5 }],
+};
+
+const covered = (id: string, date: string, coverage: MaterialCoverage[]) => ({ id, date, coverage }) as Entry;
+
+const entries = [
+  covered('e1', '2026-03-01', [{ materialId: 'm1', sectionId: 's1', sets: [1, 2, 3] }]),
+  covered('e2', '2026-03-05', [{ materialId: 'm1', sectionId: 's1', sets: [3, 4, 11] }, { materialId: 'm1', sectionId: 's2', sets: [1] }]),
+  covered('e3', '2026-03-06', [{ materialId: 'm2', sectionId: 's1', sets: [5] }]),
+];
+
+describe('parseSetList', () => {
+  it('expands ranges and drops repeats', () => {
+    expect(parseSetList('1-3, 5 8,2', 10)).toEqual({ sets: [1, 2, 3, 5, 8], errors: [] });
+  });
+
+  it('reports parts it cannot use', () => {
+    expect(parseSetList('4-2, 12, x', 10).errors).toEqual(['4-2 runs backwards', '12 is outside sets 1–10', 'Not a set number or range: x']);
+  });
+});
+
+describe('formatSetList', () => {
+  it('collapses runs into ranges', () => {
+    expect(formatSetList([5, 1, 2, 3, 8, 9])).toBe('1–3, 5, 8–9');
+  });
+});
+
+describe('materialProgress', () => {
+  it('counts each set once, from this material only', () => {
+    const progress = materialProgress(book, entries, '2026-03-10', null);
+
+    expect(progress).toMatchObject({ total: 15, done: 5, percent: 33, finishesBeforeExam: null, neededPace: null });
+    expect(progress.untouched.map(u => [u.section.id, formatSetList(u.sets)])).toEqual([['s1', '5–10'], ['s2', '2–5']]);
+  });
+
+  it('paces a recently started material from its first day and projects the finish', () => {
+    const progress = materialProgress(book, entries, '2026-03-10', '2026-04-09');
+
+    expect(progress.pace).toBe(0.5);
+    expect(progress.projectedFinish).toBe('2026-03-30');
+    expect(progress.neededPace).toBeCloseTo(10 / 30);
+    expect(progress.finishesBeforeExam).toBe(true);
+    expect(materialProgress(book, entries, '2026-03-10', '2026-03-20').finishesBeforeExam).toBe(false);
+  });
+
+  it('has no projection when nothing has been covered', () => {
+    expect(materialProgress(book, [], '2026-03-10', '2026-04-09')).toMatchObject({ done: 0, pace: 0, projectedFinish: null, finishesBeforeExam: false });
+  });
+});
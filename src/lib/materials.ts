@@ -0,0 +1,102 @@
+import type { Entry, MaterialSection, StudyMaterial } from '../types';
+import { addDays, daysUntil } from './utils';
+
+// --- STUDY MATERIAL ---
+// Entries name the sets of catalogued material they covered. A set counts as
+// done the first time any entry covers it; the pace is how many new sets were
+// done per day recently, which projects when the rest will be.
+
+const PACE_WINDOW_DAYS = 28;
+
+export const MATERIAL_KINDS: { id: StudyMaterial['kind']; label: string }[] = [
+  { id: 'book', label: 'Book' },
+  { id: 'vault', label: 'Vault' },
+  { id: 'testSeries', label: 'Test series' },
+  { id: 'other', label: 'Other' },
+];
+
+export const materialTotal = (material: StudyMaterial) => material.sections.reduce((sum, s) => sum + s.sets, 0);
+
+// "1-5, 8" → [1, 2, 3, 4, 5, 8]
+export function parseSetList(text: string, max: number): { sets: number[]; errors: string[] } {
+  const sets = new Set<number>();
+  const errors: string[] = [];
+  text.split(/[,\s]+/).filter(Boolean).forEach(part => {
+    const match = part.match(/^(\d+)(?:[-–](\d+))?$/);
+    if (!match) return errors.push(`Not a set number or range: ${part}`);
+    const from = Number(match[1]);
+    const to = Number(match[2] ?? match[1]);
+    if (to < from) return errors.push(`${part} runs backwards`);
+    if (from < 1 || to > max) return errors.push(`${part} is outside sets 1–${max}`);
+    for (let n = from; n <= to; n++) sets.add(n);
+  });
+  return { sets: Array.from(sets).sort((a, b) => a - b), errors };
+}
+
+// [1, 2, 3, 5] → "1–3, 5"
+export function formatSetList(sets: number[]) {
+  const sorted = [...sets].sort((a, b) => a - b);
+  const ranges: string[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i];
+    while (i + 1 < sorted.length && sorted[i + 1] === sorted[i] + 1) i++;
+    ranges.push(start === sorted[i] ? String(start) : `${start}–${sorted[i]}`);
+  }
+  return ranges.join(', ');
+}
+
+export type MaterialProgress = {
+  material: StudyMaterial;
+  total: number;
+  done: number;
+  percent: number;
+  untouched: { section: MaterialSection; sets: number[] }[];
+  // New sets per day over the recent window; 0 when nothing was covered.
+  pace: number;
+  projectedFinish: string | null;
+  // Sets a day needed to finish by the exam, when there is one.
+  neededPace: number | null;
+  finishesBeforeExam: boolean | null;
+};
+
+export function materialProgress(material: StudyMaterial, entries: Entry[], today: string, examDate: string | null): MaterialProgress {
+  const sections = new Map(material.sections.map(s => [s.id, s]));
+  const firstDone = new Map<string, string>();
+  entries.forEach(entry => (entry.coverage ?? []).forEach(({ materialId, sectionId, sets }) => {
+    const section = sections.get(sectionId);
+    if (materialId !== material.id || !section) return;
+    sets.filter(n => n <= section.sets).forEach(n => {
+      const key = `${sectionId}:${n}`;
+      const seen = firstDone.get(key);
+      if (!seen || entry.date < seen) firstDone.set(key, entry.date);
+    });
+  }));
+
+  const total = materialTotal(material);
+  const done = firstDone.size;
+  const remaining = total - done;
+  const untouched = material.sections
+    .map(section => ({ section, sets: Array.from({ length: section.sets }, (_, i) => i + 1).filter(n => !firstDone.has(`${section.id}:${n}`)) }))
+    .filter(s => s.sets.length > 0);
+
+  const dates = Array.from(firstDone.values());
+  const windowStart = addDays(today, -(PACE_WINDOW_DAYS - 1));
+  const started = dates.length > 0 ? dates.reduce((a, b) => (a < b ? a : b)) : null;
+  // A material started within the window is paced from its first day.
+  const paceDays = started ? Math.min(PACE_WINDOW_DAYS, daysUntil(today, started) + 1) : PACE_WINDOW_DAYS;
+  const pace = dates.filter(d => d >= windowStart && d <= today).length / Math.max(paceDays, 1);
+
+  const projectedFinish = remaining === 0 ? null : pace > 0 ? addDays(today, Math.ceil(remaining / pace)) : null;
+  const daysLeft = examDate ? daysUntil(examDate, today) : null;
+  return {
+    material,
+    total,
+    done,
+    percent: total > 0 ? Math.round((done / total) * 100) : 0,
+    untouched,
+    pace,
+    projectedFinish,
+    neededPace: daysLeft !== null && daysLeft > 0 && remaining > 0 ? remaining / daysLeft : null,
+    finishesBeforeExam: !examDate ? null : remaining === 0 ? true : projectedFinish !== null && projectedFinish <= examDate,
+  };
+}
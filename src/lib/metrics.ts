@@ -0,0 +1,91 @@
+import type { Entry, TimePeriod } from '../types';
+import { scoreEntries, scoreEntry, type ScoreBreakdown } from './scoring';
+import { calculateAccuracy, calculateTotalSets } from './utils';
+
+// --- PERFORMANCE METRICS ---
+// The headline numbers and chart buckets behind the dashboard. Progress
+// reports use the same functions so a week reads the same in both places.
+
+export const DAILY_CHART_POINTS = 30;
+
+export type PerformanceMetrics = {
+  entries: number;
+  totalSets: number;
+  totalMinutes: number;
+  // Minutes per set; zero when no sets were logged.
+  avgSpeed: number;
+  score: ScoreBreakdown;
+};
+
+export type ChartBucket = {
+  date: string;
+  name: string;
+  Accuracy: number;
+  'Net Score': number;
+  'Total Sets': number;
+};
+
+export function summarizeMetrics(entries: Entry[]): PerformanceMetrics {
+  const totalSets = entries.reduce((acc, entry) => acc + calculateTotalSets(entry), 0);
+  const totalMinutes = entries.reduce((acc, entry) => acc + entry.timeTaken, 0);
+  return {
+    entries: entries.length,
+    totalSets,
+    totalMinutes,
+    avgSpeed: totalSets > 0 ? totalMinutes / totalSets : 0,
+    score: scoreEntries(entries),
+  };
+}
+
+const getWeekLabel = (date: Date) => {
+  const firstDay = new Date(date.getFullYear(), 0, 1);
+  const pastDays = (date.getTime() - firstDay.getTime()) / 86400000;
+  return `W${Math.ceil((pastDays + firstDay.getDay() + 1) / 7)}`;
+};
+
+const round = (value: number) => parseFloat(value.toFixed(2));
+
+// Daily charts plot one point per entry; weekly and monthly ones pool the
+// entries of each bucket.
+export function bucketEntries(entries: Entry[], timePeriod: TimePeriod): ChartBucket[] {
+  const sorted = [...entries].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  if (timePeriod === 'daily') {
+    return sorted.map(entry => ({
+      date: entry.date,
+      name: new Date(entry.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+      Accuracy: round(calculateAccuracy(entry)),
+      'Net Score': round(scoreEntry(entry).netScorePercent),
+      'Total Sets': calculateTotalSets(entry),
+    }));
+  }
+
+  const groupedData: { [key: string]: Entry[] } = {};
+  sorted.forEach(entry => {
+    const date = new Date(entry.date);
+    const key = timePeriod === 'weekly'
+      ? `${date.getFullYear()}-${getWeekLabel(date)}`
+      : `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    if (!groupedData[key]) groupedData[key] = [];
+    groupedData[key].push(entry);
+  });
+
+  return Object.entries(groupedData).map(([key, groupEntries]) => {
+    const totalSets = groupEntries.reduce((sum, e) => sum + calculateTotalSets(e), 0);
+    const score = scoreEntries(groupEntries);
+
+    let name = key;
+    if (timePeriod === 'monthly') {
+      const [year, month] = key.split('-');
+      name = new Date(parseInt(year), parseInt(month) - 1).toLocaleString('en-US', { month: 'short', year: 'numeric' });
+    }
+
+    return {
+      date: groupEntries[groupEntries.length - 1].date,
+      name,
+      Accuracy: round(score.accuracy),
+      'Net Score': round(score.netScorePercent),
+      'Total Sets': totalSets,
+    };
+  });
+}
@@ -0,0 +1,44 @@
+import type { MockSection, MockSectionResult, MockTest } from '../types';
+
+// --- MOCK SCORING (CAT MARKING) ---
+// +3 for every correct answer, −1 for a wrong MCQ, nothing lost on a wrong
+// TITA (type-in-the-answer) question.
+
+export const MOCK_SECTIONS: MockSection[] = ['VARC', 'DILR', 'QA'];
+
+export const CAT_MARKING = { correct: 3, incorrectMcq: -1, incorrectTita: 0 };
+
+// Question counts from the current CAT pattern; editable per mock.
+export const DEFAULT_SECTION_QUESTIONS: Record<MockSection, number> = { VARC: 24, DILR: 22, QA: 22 };
+export const DEFAULT_SECTION_TIME = 40;
+
+export const sectionAttempted = (s: MockSectionResult) => s.correct + s.incorrectMcq + s.incorrectTita;
+
+export const sectionScore = (s: MockSectionResult) =>
+  s.correct * CAT_MARKING.correct + s.incorrectMcq * CAT_MARKING.incorrectMcq + s.incorrectTita * CAT_MARKING.incorrectTita;
+
+export const sectionAccuracy = (s: MockSectionResult) => {
+  const attempted = sectionAttempted(s);
+  return attempted > 0 ? (s.correct / attempted) * 100 : 0;
+};
+
+export const mockScore = (mock: MockTest) => MOCK_SECTIONS.reduce((sum, section) => sum + sectionScore(mock.sections[section]), 0);
+
+export const mockMaxScore = (mock: MockTest) =>
+  MOCK_SECTIONS.reduce((sum, section) => sum + mock.sections[section].totalQuestions * CAT_MARKING.correct, 0);
+
+export const mockAttempted = (mock: MockTest) => MOCK_SECTIONS.reduce((sum, section) => sum + sectionAttempted(mock.sections[section]), 0);
+
+export const mockAccuracy = (mock: MockTest) => {
+  const attempted = mockAttempted(mock);
+  const correct = MOCK_SECTIONS.reduce((sum, section) => sum + mock.sections[section].correct, 0);
+  return attempted > 0 ? (correct / attempted) * 100 : 0;
+};
+
+export const emptySection = (section: MockSection): MockSectionResult => ({
+  totalQuestions: DEFAULT_SECTION_QUESTIONS[section],
+  correct: 0,
+  incorrectMcq: 0,
+  incorrectTita: 0,
+  timeTaken: DEFAULT_SECTION_TIME,
+});
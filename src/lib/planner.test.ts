@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import type { Entry, PlanTarget, WeeklyPlan } from '../types';
+import { carryOver, progressForDay, todayProgress, weekStartOf } from './planner';
+
+const WEEK = '2026-03-02';
+
+const target = (id: string, fields: Omit<PlanTarget, 'id'>): PlanTarget => ({ id, ...fields });
+
+const logged = (id: string, date: string, subject: string, topic: string, sets: Record<string, number>) =>
+  ({ id, date, subject, topic, sets }) as Entry;
+
+const plan: WeeklyPlan = {
+  weekStart: WEEK,
+  days: [
+    [target('mon-topic', { subject: 'LR', setType: 'lrSets', sets: 3, topic: 'Arrangements' }), target('mon-any', { subject: 'LR', setType: 'lrSets', sets: 2 })],
+    [target('tue', { subject: 'QUANT', setType: 'vaultSets', sets: 2 })],
+    [target('wed', { subject: 'LR', setType: 'lrSets', sets: 1 })],
+    [target('thu', { subject: 'DI', setType: 'diSets', sets: 4 })],
+    [], [], [],
+  ],
+};
+
+const entries = [
+  logged('e1', '2026-03-02', 'LR', 'arrangements ', { lrSets: 2 }),
+  logged('e2', '2026-03-02', 'LR', 'Puzzles', { lrSets: 1 }),
+  logged('e3', '2026-03-04', 'LR', 'Puzzles', { lrSets: 2 }),
+];
+
+describe('weekStartOf', () => {
+  it('returns the Monday of the week', () => {
+    expect(weekStartOf('2026-03-02')).toBe(WEEK);
+    expect(weekStartOf('2026-03-08')).toBe(WEEK);
+    expect(weekStartOf('2026-03-09')).toBe('2026-03-09');
+  });
+});
+
+describe('progressForDay', () => {
+  it('fills topic targets first and never counts a set twice', () => {
+    expect(progressForDay(plan.days[0], entries.slice(0, 2)).map(p => [p.target.id, p.done])).toEqual([['mon-topic', 2], ['mon-any', 1]]);
+  });
+});
+
+describe('carryOver', () => {
+  it('rolls unfinished targets from earlier days into today', () => {
+    expect(carryOver(plan, entries, '2026-03-04')).toEqual([
+      { subject: 'LR', setType: 'lrSets', topic: 'Arrangements', sets: 1, from: ['Mon'] },
+      { subject: 'LR', setType: 'lrSets', topic: undefined, sets: 1, from: ['Mon'] },
+      { subject: 'QUANT', setType: 'vaultSets', topic: undefined, sets: 2, from: ['Tue'] },
+    ]);
+  });
+
+  it('adds up the same target missed on several days', () => {
+    const repeated: WeeklyPlan = { weekStart: WEEK, days: [plan.days[1], plan.days[1], [], [], [], [], []] };
+    expect(carryOver(repeated, [], '2026-03-05')).toEqual([{ subject: 'QUANT', setType: 'vaultSets', topic: undefined, sets: 4, from: ['Mon', 'Tue'] }]);
+  });
+
+  it('carries nothing from today or later', () => {
+    expect(carryOver(plan, entries, WEEK)).toEqual([]);
+  });
+});
+
+describe('todayProgress', () => {
+  it('counts today\'s sets against the plan before the carried-over work', () => {
+    const { planned, carried } = todayProgress(plan, entries, '2026-03-04');
+
+    expect(planned.map(p => [p.target.id, p.done])).toEqual([['wed', 1]]);
+    expect(carried.map(p => [p.target.topic ?? null, p.done, p.from])).toEqual([
+      ['Arrangements', 0, ['Mon']],
+      [null, 1, ['Mon']],
+      [null, 0, ['Tue']],
+    ]);
+  });
+});
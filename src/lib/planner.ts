@@ -0,0 +1,116 @@
+import type { Entry, PlanTarget, PlannerData, SetType, Subject, WeeklyPlan } from '../types';
+import { normalizeTopicKey } from './topics';
+import { addDays, createRecordId } from './utils';
+
+// --- STUDY PLANNER ---
+
+export const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+export function weekStartOf(date: string) {
+  const day = new Date(date).getUTCDay();
+  return addDays(date, -((day + 6) % 7));
+}
+
+export const weekDates = (weekStart: string) => WEEKDAYS.map((_, i) => addDays(weekStart, i));
+
+export const emptyWeek = (weekStart: string): WeeklyPlan => ({ weekStart, days: WEEKDAYS.map(() => []) });
+
+export const getWeekPlan = (planner: PlannerData, weekStart: string) => planner.weeks[weekStart] ?? emptyWeek(weekStart);
+
+export function copyWeek(planner: PlannerData, fromWeek: string, toWeek: string): PlannerData {
+  const source = planner.weeks[fromWeek];
+  if (!source) return planner;
+  const days = source.days.map(day => day.map(target => ({ ...target, id: createRecordId() })));
+  return { ...planner, weeks: { ...planner.weeks, [toWeek]: { weekStart: toWeek, days } } };
+}
+
+export function updateDay(planner: PlannerData, weekStart: string, dayIndex: number, update: (targets: PlanTarget[]) => PlanTarget[]): PlannerData {
+  const plan = getWeekPlan(planner, weekStart);
+  const days = plan.days.map((targets, i) => (i === dayIndex ? update(targets) : targets));
+  return { ...planner, weeks: { ...planner.weeks, [weekStart]: { weekStart, days } } };
+}
+
+// --- PLAN VS ACTUAL ---
+export type TargetProgress = {
+  target: PlanTarget;
+  done: number;
+};
+
+const topicMatches = (entry: Entry, topic?: string) => !topic || normalizeTopicKey(entry.topic) === normalizeTopicKey(topic);
+
+// Sets logged on a day are handed to that day's targets: topic-specific
+// targets take matching sets first, general targets for the same subject and
+// set type share what is left. A set is never counted twice.
+export function progressForDay(targets: PlanTarget[], entries: Entry[]): TargetProgress[] {
+  const remaining = new Map(entries.map(e => [e.id, { ...e, sets: { ...e.sets } }]));
+  const ordered = [...targets].sort((a, b) => Number(!a.topic) - Number(!b.topic));
+  const done = new Map<string, number>();
+
+  ordered.forEach(target => {
+    let count = 0;
+    remaining.forEach(entry => {
+      if (count >= target.sets || entry.subject !== target.subject || !topicMatches(entry, target.topic)) return;
+      const take = Math.min(entry.sets[target.setType] ?? 0, target.sets - count);
+      entry.sets[target.setType] = (entry.sets[target.setType] ?? 0) - take;
+      count += take;
+    });
+    done.set(target.id, count);
+  });
+
+  return targets.map(target => ({ target, done: done.get(target.id) ?? 0 }));
+}
+
+export type CarryOver = {
+  subject: Subject;
+  setType: SetType;
+  topic?: string;
+  sets: number;
+  from: string[];
+};
+
+// Unfinished targets from earlier days of the week roll into today.
+export function carryOver(plan: WeeklyPlan, entries: Entry[], today: string): CarryOver[] {
+  const byKey = new Map<string, CarryOver>();
+  weekDates(plan.weekStart).forEach((date, i) => {
+    if (date >= today) return;
+    const dayEntries = entries.filter(e => e.date === date);
+    progressForDay(plan.days[i], dayEntries).forEach(({ target, done }) => {
+      const missed = target.sets - done;
+      if (missed <= 0) return;
+      const key = `${target.subject}|${target.setType}|${normalizeTopicKey(target.topic ?? '')}`;
+      const existing = byKey.get(key) ?? { subject: target.subject, setType: target.setType, topic: target.topic, sets: 0, from: [] };
+      existing.sets += missed;
+      if (!existing.from.includes(WEEKDAYS[i])) existing.from.push(WEEKDAYS[i]);
+      byKey.set(key, existing);
+    });
+  });
+  return Array.from(byKey.values());
+}
+
+// Today's targets with anything carried over folded in, so progress against
+// missed work comes out of the same pool of logged sets.
+export function todayProgress(plan: WeeklyPlan, entries: Entry[], today: string) {
+  const dayIndex = weekDates(plan.weekStart).indexOf(today);
+  const planned = dayIndex >= 0 ? plan.days[dayIndex] : [];
+  const carried = carryOver(plan, entries, today);
+  const carriedTargets: PlanTarget[] = carried.map((c, i) => ({ id: `carry-${i}`, subject: c.subject, setType: c.setType, topic: c.topic, sets: c.sets }));
+  const todays = entries.filter(e => e.date === today);
+  return {
+    planned: progressForDay(planned, todays),
+    carried: progressForDay([...planned, ...carriedTargets], todays).filter(p => p.target.id.startsWith('carry-')).map((p, i) => ({ ...p, from: carried[i].from })),
+  };
+}
+
+export function weekTotals(plan: WeeklyPlan, entries: Entry[], today: string) {
+  const totals = new Map<Subject, { planned: number; done: number; plannedToDate: number }>();
+  weekDates(plan.weekStart).forEach((date, i) => {
+    progressForDay(plan.days[i], entries.filter(e => e.date === date)).forEach(({ target, done }) => {
+      const total = totals.get(target.subject) ?? { planned: 0, done: 0, plannedToDate: 0 };
+      total.planned += target.sets;
+      total.done += done;
+      if (date <= today) total.plannedToDate += target.sets;
+      totals.set(target.subject, total);
+    });
+  });
+  return totals;
+}
@@ -0,0 +1,122 @@
+import type { ServiceWorkerMessage } from '../workers/service-worker';
+
+// --- INSTALL & UPDATES ---
+// Service worker registration and the browser's install prompt, kept outside
+// React so switching students (which remounts the tracker) loses neither a
+// waiting update nor the deferred install prompt.
+
+export type PwaState = {
+  online: boolean;
+  // The first service worker finished caching: the app now opens offline.
+  offlineReady: boolean;
+  // A newer build is installed and waiting for the page to hand over.
+  updateReady: boolean;
+  canInstall: boolean;
+  installed: boolean;
+};
+
+type InstallPromptEvent = Event & {
+  prompt: () => Promise<void>;
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>;
+};
+
+const UPDATE_CHECK_MS = 60 * 60 * 1000;
+
+let state: PwaState = {
+  online: typeof navigator === 'undefined' ? true : navigator.onLine,
+  offlineReady: false,
+  updateReady: false,
+  canInstall: false,
+  installed: typeof window !== 'undefined' && window.matchMedia?.('(display-mode: standalone)').matches,
+};
+const listeners = new Set<() => void>();
+let waitingWorker: ServiceWorker | null = null;
+let installPrompt: InstallPromptEvent | null = null;
+
+function update(patch: Partial<PwaState>) {
+  state = { ...state, ...patch };
+  listeners.forEach(listener => listener());
+}
+
+export const getPwaState = () => state;
+
+export function subscribePwa(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+async function registerServiceWorker() {
+  const registration = await navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`);
+
+  const offerUpdate = (worker: ServiceWorker) => {
+    waitingWorker = worker;
+    update({ updateReady: true });
+  };
+  // With no controller this is the very first install, not an update.
+  const track = (worker: ServiceWorker) => worker.addEventListener('statechange', () => {
+    if (worker.state !== 'installed') return;
+    if (navigator.serviceWorker.controller) offerUpdate(worker);
+    else update({ offlineReady: true });
+  });
+
+  if (registration.waiting && navigator.serviceWorker.controller) offerUpdate(registration.waiting);
+  if (registration.installing) track(registration.installing);
+  registration.addEventListener('updatefound', () => {
+    if (registration.installing) track(registration.installing);
+  });
+
+  // Phones keep the app open for days; look for a new build now and then,
+  // and whenever it comes back online or into view.
+  const check = () => {
+    registration.update().catch(() => {});
+  };
+  window.setInterval(check, UPDATE_CHECK_MS);
+  window.addEventListener('online', check);
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible') check();
+  });
+}
+
+// Called once from main.tsx. The service worker is only registered in
+// production builds; in dev it would serve stale modules.
+export function startPwa() {
+  window.addEventListener('online', () => update({ online: true }));
+  window.addEventListener('offline', () => update({ online: false }));
+  window.addEventListener('beforeinstallprompt', event => {
+    event.preventDefault();
+    installPrompt = event as InstallPromptEvent;
+    update({ canInstall: true });
+  });
+  window.addEventListener('appinstalled', () => {
+    installPrompt = null;
+    update({ canInstall: false, installed: true });
+  });
+
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    registerServiceWorker().catch(error => console.error('Service worker registration failed', error));
+  });
+}
+
+// Tells the waiting worker to take over; the page reloads once it has.
+export function applyUpdate() {
+  if (!waitingWorker) return;
+  navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+  const message: ServiceWorkerMessage = { type: 'SKIP_WAITING' };
+  waitingWorker.postMessage(message);
+}
+
+export const dismissUpdate = () => update({ updateReady: false });
+export const dismissOfflineReady = () => update({ offlineReady: false });
+
+export async function promptInstall() {
+  if (!installPrompt) return;
+  const prompt = installPrompt;
+  installPrompt = null;
+  update({ canInstall: false });
+  await prompt.prompt();
+  const { outcome } = await prompt.userChoice;
+  if (outcome === 'accepted') update({ installed: true });
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { Entry } from '../types';
+import { classify, entryPoints, medianThresholds, thresholdFor, topicMovements, topicPoints } from './quadrants';
+import { DEFAULT_QUADRANT_THRESHOLD } from './schema';
+
+const makeEntry = (id: string, fields: Partial<Entry> = {}): Entry => ({
+  id, date: '2026-03-02', subject: 'LR', topic: 'Arrangements', sets: { lrSets: 2 }, timeTaken: 20, questionsAttempted: 10, correctAnswers: 8,
+  confidence: 3, learnings: '', isWeakTopic: false, ...fields,
+});
+
+describe('classify', () => {
+  const threshold = { minutesPerSet: 10, accuracy: 70 };
+
+  it('counts a value on the threshold as fast and accurate', () => {
+    expect(classify(10, 70, threshold)).toBe('fast-accurate');
+    expect(classify(10.1, 70, threshold)).toBe('slow-accurate');
+    expect(classify(10, 69.9, threshold)).toBe('fast-careless');
+    expect(classify(10.1, 69.9, threshold)).toBe('slow-struggling');
+  });
+});
+
+describe('thresholdFor', () => {
+  it('uses the subject threshold, or the default when there is none', () => {
+    const thresholds = { DI: { minutesPerSet: 15, accuracy: 60 } };
+    expect(thresholdFor(thresholds, 'DI')).toEqual({ minutesPerSet: 15, accuracy: 60 });
+    expect(thresholdFor(thresholds, 'LR')).toEqual(DEFAULT_QUADRANT_THRESHOLD);
+  });
+});
+
+describe('points', () => {
+  it('places each entry against its subject threshold and skips untimed ones', () => {
+    const points = entryPoints([
+      makeEntry('e1'),
+      makeEntry('e2', { subject: 'DI', sets: { diSets: 1 }, timeTaken: 14 }),
+      makeEntry('e3', { sets: {} }),
+    ], { DI: { minutesPerSet: 15, accuracy: 85 } });
+
+    expect(points.map(p => [p.id, p.minutesPerSet, p.accuracy, p.quadrant])).toEqual([
+      ['e1', 10, 80, 'fast-accurate'],
+      ['e2', 14, 80, 'fast-careless'],
+    ]);
+  });
+
+  it('pools a topic over its sets and questions', () => {
+    const [point] = topicPoints([
+      makeEntry('e1'),
+      makeEntry('e2', { topic: 'arrangements', sets: { lrSets: 1 }, timeTaken: 25, questionsAttempted: 10, correctAnswers: 4 }),
+    ], [], {});
+
+    expect(point).toMatchObject({ minutesPerSet: 15, accuracy: 60, quadrant: 'slow-struggling' });
+    expect(point.entries).toHaveLength(2);
+  });
+});
+
+describe('topicMovements', () => {
+  it('records the quadrant per period and the last move between them', () => {
+    const { periods, topics } = topicMovements([
+      makeEntry('e1', { date: '2026-01-10', timeTaken: 40, correctAnswers: 5 }),
+      makeEntry('e2', { date: '2026-02-10' }),
+      makeEntry('e3', { date: '2026-03-10' }),
+    ], [], {}, 'month');
+
+    expect(periods).toEqual(['2026-01', '2026-02', '2026-03']);
+    expect(topics[0]).toMatchObject({
+      history: { '2026-01': 'slow-struggling', '2026-02': 'fast-accurate', '2026-03': 'fast-accurate' },
+      latest: 'fast-accurate',
+      lastMove: { from: 'slow-struggling', to: 'fast-accurate', period: '2026-02' },
+    });
+  });
+});
+
+describe('medianThresholds', () => {
+  it('sets each subject\'s speed to its median and keeps the accuracy bar', () => {
+    const entries = [
+      makeEntry('e1', { timeTaken: 17 }),
+      makeEntry('e2', { timeTaken: 25 }),
+      makeEntry('e3', { timeTaken: 30 }),
+    ];
+    expect(medianThresholds(entries, { LR: { minutesPerSet: 9, accuracy: 75 } }, ['LR', 'DI'])).toEqual({
+      LR: { minutesPerSet: 12.5, accuracy: 75 },
+      DI: DEFAULT_QUADRANT_THRESHOLD,
+    });
+  });
+});
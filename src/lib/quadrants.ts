@@ -0,0 +1,147 @@
+import type { CanonicalTopic, Entry, Quadrant, QuadrantThreshold, QuadrantThresholds, Subject } from '../types';
+import { subjectMedianSpeeds } from './mastery';
+import { weekStartOf } from './planner';
+import { DEFAULT_QUADRANT_THRESHOLD } from './schema';
+import { groupEntriesByTopic } from './topics';
+import { calculateTotalSets } from './utils';
+
+// --- SPEED VS ACCURACY ---
+// Speed and accuracy only mean something together: 90% at 20 minutes a set
+// and 60% at 8 minutes are different problems with different fixes.
+
+export const QUADRANTS: Quadrant[] = ['fast-accurate', 'slow-accurate', 'fast-careless', 'slow-struggling'];
+
+export const QUADRANT_LABELS: Record<Quadrant, string> = {
+  'fast-accurate': 'Fast & accurate',
+  'slow-accurate': 'Slow & accurate',
+  'fast-careless': 'Fast & careless',
+  'slow-struggling': 'Slow & struggling',
+};
+
+export const QUADRANT_ADVICE: Record<Quadrant, string> = {
+  'fast-accurate': 'Maintain with mixed, timed sets.',
+  'slow-accurate': 'Method is sound; drill under a stricter clock.',
+  'fast-careless': 'Slow down: read twice and verify before marking.',
+  'slow-struggling': 'Rebuild the concepts before timing yourself.',
+};
+
+export type QuadrantPeriod = 'week' | 'month';
+
+export type QuadrantPoint = {
+  id: string;
+  subject: Subject;
+  label: string;
+  minutesPerSet: number;
+  accuracy: number;
+  quadrant: Quadrant;
+  entries: Entry[];
+};
+
+export const thresholdFor = (thresholds: QuadrantThresholds, subject: Subject) => thresholds[subject] ?? DEFAULT_QUADRANT_THRESHOLD;
+
+export function classify(minutesPerSet: number, accuracy: number, threshold: QuadrantThreshold): Quadrant {
+  const fast = minutesPerSet <= threshold.minutesPerSet;
+  const accurate = accuracy >= threshold.accuracy;
+  if (accurate) return fast ? 'fast-accurate' : 'slow-accurate';
+  return fast ? 'fast-careless' : 'slow-struggling';
+}
+
+// Pooled over questions and sets, like the dashboard. Null when the entries
+// have no timed sets or no attempts to place.
+function pooled(entries: Entry[]) {
+  const sets = entries.reduce((sum, e) => sum + calculateTotalSets(e), 0);
+  const attempted = entries.reduce((sum, e) => sum + e.questionsAttempted, 0);
+  if (sets === 0 || attempted === 0) return null;
+  return {
+    minutesPerSet: entries.reduce((sum, e) => sum + e.timeTaken, 0) / sets,
+    accuracy: (entries.reduce((sum, e) => sum + e.correctAnswers, 0) / attempted) * 100,
+  };
+}
+
+export function entryPoints(entries: Entry[], thresholds: QuadrantThresholds): QuadrantPoint[] {
+  return entries.flatMap(entry => {
+    const values = pooled([entry]);
+    if (!values) return [];
+    return [{
+      id: entry.id,
+      subject: entry.subject,
+      label: `${new Date(entry.date).toLocaleDateString()} · ${entry.topic || 'Untagged'}`,
+      ...values,
+      quadrant: classify(values.minutesPerSet, values.accuracy, thresholdFor(thresholds, entry.subject)),
+      entries: [entry],
+    }];
+  });
+}
+
+export function topicPoints(entries: Entry[], catalog: CanonicalTopic[], thresholds: QuadrantThresholds): QuadrantPoint[] {
+  return groupEntriesByTopic(entries, catalog).flatMap(group => {
+    const values = pooled(group.entries);
+    if (!values) return [];
+    return [{
+      id: group.id,
+      subject: group.subject,
+      label: group.name,
+      ...values,
+      quadrant: classify(values.minutesPerSet, values.accuracy, thresholdFor(thresholds, group.subject)),
+      entries: group.entries,
+    }];
+  });
+}
+
+export const periodKey = (date: string, period: QuadrantPeriod) => (period === 'week' ? weekStartOf(date) : date.slice(0, 7));
+
+export type TopicMovement = {
+  id: string;
+  subject: Subject;
+  name: string;
+  // Quadrant per period key; periods without practice are absent.
+  history: Record<string, Quadrant>;
+  latest: Quadrant;
+  // The last change between two practised periods, if any.
+  lastMove: { from: Quadrant; to: Quadrant; period: string } | null;
+  entries: Entry[];
+};
+
+export function topicMovements(entries: Entry[], catalog: CanonicalTopic[], thresholds: QuadrantThresholds, period: QuadrantPeriod): { periods: string[]; topics: TopicMovement[] } {
+  const periods = new Set<string>();
+  const topics = groupEntriesByTopic(entries, catalog).flatMap(group => {
+    const byPeriod = new Map<string, Entry[]>();
+    group.entries.forEach(e => {
+      const key = periodKey(e.date, period);
+      const list = byPeriod.get(key);
+      if (list) list.push(e); else byPeriod.set(key, [e]);
+    });
+
+    const history: Record<string, Quadrant> = {};
+    Array.from(byPeriod.keys()).sort().forEach(key => {
+      const values = pooled(byPeriod.get(key)!);
+      if (!values) return;
+      history[key] = classify(values.minutesPerSet, values.accuracy, thresholdFor(thresholds, group.subject));
+      periods.add(key);
+    });
+
+    const keys = Object.keys(history);
+    if (keys.length === 0) return [];
+    let lastMove: TopicMovement['lastMove'] = null;
+    for (let i = keys.length - 1; i > 0 && !lastMove; i--) {
+      if (history[keys[i]] !== history[keys[i - 1]]) lastMove = { from: history[keys[i - 1]], to: history[keys[i]], period: keys[i] };
+    }
+    return [{ id: group.id, subject: group.subject, name: group.name, history, latest: history[keys[keys.length - 1]], lastMove, entries: group.entries }];
+  });
+
+  // Most recently moved first, then by volume.
+  topics.sort((a, b) => (b.lastMove?.period ?? '').localeCompare(a.lastMove?.period ?? '') || b.entries.length - a.entries.length);
+  return { periods: Array.from(periods).sort(), topics };
+}
+
+// Starting point for thresholds: the student's own median speed per subject.
+export function medianThresholds(entries: Entry[], current: QuadrantThresholds, subjects: Subject[]): QuadrantThresholds {
+  const medians = subjectMedianSpeeds(entries);
+  const next = { ...current };
+  subjects.forEach(subject => {
+    const threshold = thresholdFor(current, subject);
+    const median = medians.get(subject);
+    next[subject] = median ? { ...threshold, minutesPerSet: Math.round(median * 10) / 10 } : threshold;
+  });
+  return next;
+}
@@ -0,0 +1,63 @@
+import type { Entry } from '../types';
+import { IMAGES, openDatabase, promisify, transactionDone } from './adapters/indexedDbAdapter';
+import { createRecordId } from './utils';
+
+// --- QUESTION IMAGES ---
+// Screenshots attached to logged questions live in the student's IndexedDB,
+// not on the entry, so entries stay small enough for localStorage, backups
+// and sync. They are kept on this device only.
+
+const MAX_IMAGE_SIDE = 1600;
+const JPEG_QUALITY = 0.85;
+
+// Phone photos are several megabytes; a question only needs to be legible.
+async function shrinkImage(file: Blob): Promise<Blob> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(bitmap.width, bitmap.height));
+  if (scale === 1 && file.size < 500_000) {
+    bitmap.close();
+    return file;
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return new Promise((resolve, reject) => canvas.toBlob(
+    blob => (blob ? resolve(blob) : reject(new Error('Could not encode the image'))),
+    'image/jpeg',
+    JPEG_QUALITY,
+  ));
+}
+
+async function withImages<T>(studentId: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase(studentId);
+  try {
+    const tx = db.transaction(IMAGES, mode);
+    const result = promisify(run(tx.objectStore(IMAGES)));
+    await transactionDone(tx);
+    return await result;
+  } finally {
+    db.close();
+  }
+}
+
+export async function saveQuestionImage(studentId: string, file: File): Promise<string> {
+  if (!file.type.startsWith('image/')) throw new Error(`${file.name} is not an image`);
+  const id = createRecordId();
+  const image = await shrinkImage(file);
+  await withImages(studentId, 'readwrite', store => store.put(image, id));
+  return id;
+}
+
+export async function loadQuestionImage(studentId: string, id: string): Promise<Blob | null> {
+  const image = await withImages<unknown>(studentId, 'readonly', store => store.get(id));
+  return image instanceof Blob ? image : null;
+}
+
+export async function deleteQuestionImage(studentId: string, id: string): Promise<void> {
+  await withImages(studentId, 'readwrite', store => store.delete(id));
+}
+
+export const questionImageIds = (entries: Entry[]) =>
+  entries.flatMap(entry => (entry.questions ?? []).flatMap(question => (question.imageId ? [question.imageId] : [])));
@@ -0,0 +1,90 @@
+import type { CanonicalTopic, Entry, ErrorCategory, QuestionLog, QuestionResult, QuestionRetry, Subject } from '../types';
+import { groupEntriesByTopic } from './topics';
+
+// --- QUESTION LOG ---
+// Entries can carry a log of individual questions: where each came from, how
+// it went and, when it went wrong, why. Wrong questions queue up for a
+// re-attempt until a retry gets them right.
+
+export const ERROR_CATEGORIES: { id: ErrorCategory; label: string }[] = [
+  { id: 'concept', label: 'Concept gap' },
+  { id: 'method', label: 'Wrong approach' },
+  { id: 'calculation', label: 'Calculation slip' },
+  { id: 'misread', label: 'Misread question' },
+  { id: 'time', label: 'Time pressure' },
+  { id: 'careless', label: 'Careless' },
+  { id: 'other', label: 'Other' },
+];
+
+export const QUESTION_RESULTS: { id: QuestionResult; label: string }[] = [
+  { id: 'correct', label: 'Correct' },
+  { id: 'wrong', label: 'Wrong' },
+  { id: 'skipped', label: 'Skipped' },
+  { id: 'guessed', label: 'Guessed' },
+];
+
+export const errorCategoryLabel = (id: ErrorCategory) => ERROR_CATEGORIES.find(c => c.id === id)?.label ?? id;
+export const questionResultLabel = (id: QuestionResult) => QUESTION_RESULTS.find(r => r.id === id)?.label ?? id;
+
+export const latestResult = (question: QuestionLog) => question.retries[question.retries.length - 1]?.result ?? question.result;
+
+export const needsReattempt = (question: QuestionLog) => question.result === 'wrong' && latestResult(question) !== 'correct';
+
+export type QueuedQuestion = {
+  entry: Entry;
+  question: QuestionLog;
+  lastAttempted: string;
+};
+
+// Longest-untouched first, so every wrong question comes round eventually.
+export function reattemptQueue(entries: Entry[]): QueuedQuestion[] {
+  return entries
+    .flatMap(entry => (entry.questions ?? []).filter(needsReattempt).map(question => ({
+      entry,
+      question,
+      lastAttempted: question.retries[question.retries.length - 1]?.date ?? entry.date,
+    })))
+    .sort((a, b) => a.lastAttempted.localeCompare(b.lastAttempted));
+}
+
+export const withQuestions = (entry: Entry, update: (questions: QuestionLog[]) => QuestionLog[]): Entry => ({
+  ...entry,
+  questions: update(entry.questions ?? []),
+});
+
+export const withRetry = (entry: Entry, questionId: string, retry: QuestionRetry) => withQuestions(entry, questions => questions.map(q => (
+  q.id === questionId ? { ...q, retries: [...q.retries, retry] } : q
+)));
+
+// --- ERROR BREAKDOWN ---
+export type ErrorBreakdownRow = {
+  key: string;
+  subject: Subject;
+  label: string;
+  total: number;
+  counts: Partial<Record<ErrorCategory, number>>;
+};
+
+const countCategories = (entries: Entry[]) => {
+  const counts: Partial<Record<ErrorCategory, number>> = {};
+  let total = 0;
+  entries.forEach(entry => (entry.questions ?? []).forEach(q => {
+    if (!q.errorCategory) return;
+    counts[q.errorCategory] = (counts[q.errorCategory] ?? 0) + 1;
+    total += 1;
+  }));
+  return { counts, total };
+};
+
+// Only questions with an error category count; rows without any are left out.
+export function errorBreakdown(entries: Entry[], by: 'subject' | 'topic', catalog: CanonicalTopic[] = []): ErrorBreakdownRow[] {
+  const groups = by === 'topic'
+    ? groupEntriesByTopic(entries, catalog).map(g => ({ key: g.id, subject: g.subject, label: `${g.subject} · ${g.name}`, entries: g.entries }))
+    : Array.from(new Set(entries.map(e => e.subject))).map(subject => ({
+      key: subject, subject, label: subject, entries: entries.filter(e => e.subject === subject),
+    }));
+  return groups
+    .map(({ entries: grouped, ...group }) => ({ ...group, ...countCategories(grouped) }))
+    .filter(row => row.total > 0)
+    .sort((a, b) => b.total - a.total);
+}
@@ -0,0 +1,129 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { CAT_PROFILE } from './examProfiles';
+import { looksLikeQuickEntry, parseDateWord, parseQuickEntry } from './quickEntry';
+
+const TODAY = new Date(Date.UTC(2026, 9, 18));
+const parse = (input: string) => parseQuickEntry(input, CAT_PROFILE, TODAY);
+
+describe('parseQuickEntry', () => {
+  it('reads the full example line', () => {
+    const { entry, tokens, errors } = parse('LR "Games & Tournaments" 3 lr 1 vault 52m 18/24 c4 weak -- note');
+
+    expect(errors).toEqual([]);
+    expect(entry).toMatchObject({
+      date: '2026-10-18',
+      subject: 'LR',
+      topic: 'Games & Tournaments',
+      sets: { lrSets: 3, diSets: 0, vaultSets: 1, sectionalSets: 0 },
+      timeTaken: 52,
+      correctAnswers: 18,
+      questionsAttempted: 24,
+      confidence: 4,
+      isWeakTopic: true,
+      learnings: 'note',
+    });
+    expect(tokens.map(t => t.field)).toEqual(['Subject', 'Topic', 'LR sets', 'Vault sets', 'Time', 'Correct / attempted', 'Confidence', 'Weak topic', 'Learnings']);
+  });
+
+  it('reads counts written apart or together, and adds them up', () => {
+    expect(parse('DI 3 lr').entry.sets.lrSets).toBe(3);
+    expect(parse('DI 3lr').entry.sets.lrSets).toBe(3);
+    expect(parse('DI 2 lrSets 1lr 1 Vault').entry.sets).toMatchObject({ lrSets: 3, vaultSets: 1 });
+    expect(parse('DI 3 lr').tokens.map(t => t.text)).toEqual(['DI', '3 lr']);
+  });
+
+  it('reads time in minutes, hours or both', () => {
+    expect(parse('QUANT 52m').entry.timeTaken).toBe(52);
+    expect(parse('QUANT 1h').entry.timeTaken).toBe(60);
+    expect(parse('QUANT 1h20m').entry.timeTaken).toBe(80);
+    expect(parse('QUANT 1h 20m').entry.timeTaken).toBe(80);
+  });
+
+  it('takes the first subject and reads other bare words as the topic', () => {
+    const { entry, errors } = parse('DI LR arrangements 2 di');
+
+    expect(errors).toEqual([]);
+    expect(entry.subject).toBe('DI');
+    expect(entry.topic).toBe('LR arrangements');
+    expect(parse('Caselets di').entry).toMatchObject({ subject: 'DI', topic: 'Caselets' });
+  });
+
+  it('prefers a quoted topic over bare words', () => {
+    const { entry, errors } = parse('VARC "Para jumbles" tough');
+
+    expect(entry.topic).toBe('Para jumbles');
+    expect(errors).toEqual(['Not understood: tough']);
+    expect(parse('VARC "RC" "PJ"').errors).toContain('Only one quoted topic is allowed: "PJ"');
+  });
+
+  it('takes everything after a standalone -- as learnings', () => {
+    expect(parse('QUANT Algebra -- slipped on -- signs 3/4').entry).toMatchObject({ topic: 'Algebra', learnings: 'slipped on -- signs 3/4', questionsAttempted: 0 });
+    expect(parse('QUANT --').entry.learnings).toBe('');
+    expect(parse('QUANT well--rounded').entry.topic).toBe('well--rounded');
+  });
+
+  it('rejects confidence and energy outside 1–5 and keeps the defaults', () => {
+    const { entry, errors } = parse('QUANT c0 e6');
+
+    expect(errors).toEqual(['Confidence must be 1–5, got 0', 'Energy must be 1–5, got 6']);
+    expect(entry.confidence).toBe(3);
+    expect(entry.energy).toBeUndefined();
+    expect(parse('QUANT c6').errors).toContain('Confidence must be 1–5, got 6');
+    expect(parse('QUANT c5 e1').entry).toMatchObject({ confidence: 5, energy: 1 });
+  });
+
+  it('reads wrong answers, skips, start time and date', () => {
+    const { entry, errors } = parse('QUANT 8/12 w3 t1 s2 @7:05 yesterday');
+
+    expect(errors).toEqual([]);
+    expect(entry).toMatchObject({ incorrectMcq: 3, incorrectTita: 1, skipped: 2, startTime: '07:05', date: '2026-10-17' });
+    expect(parse('QUANT @24:00').errors).toEqual(['Not a time of day: @24:00']);
+  });
+
+  it('asks for a subject first and checks correct against attempted', () => {
+    expect(parse('Algebra 3/4').errors[0]).toBe('Start with a subject: LR, DI, QUANT, VARC');
+    expect(parse('QUANT 5/4').errors).toContain('Correct (5) exceeds attempted (4)');
+  });
+});
+
+describe('parseDateWord', () => {
+  it('reads relative and ISO dates', () => {
+    expect(parseDateWord('today', TODAY)).toBe('2026-10-18');
+    expect(parseDateWord('Yesterday', TODAY)).toBe('2026-10-17');
+    expect(parseDateWord('-10d', TODAY)).toBe('2026-10-08');
+    expect(parseDateWord('2026-02-01', TODAY)).toBe('2026-02-01');
+    expect(parseDateWord('2026-13-01', TODAY)).toBeNull();
+    expect(parseDateWord('tomorrow', TODAY)).toBeNull();
+  });
+});
+
+// Entry dates are UTC days, so the answer must not depend on the local zone,
+// even across a daylight saving change; Node picks up a changed TZ at once.
+describe('dates away from UTC', () => {
+  const zone = process.env.TZ;
+  beforeAll(() => {
+    process.env.TZ = 'America/New_York';
+  });
+  afterAll(() => {
+    if (zone === undefined) delete process.env.TZ;
+    else process.env.TZ = zone;
+  });
+
+  it('counts days from the same UTC day', () => {
+    // 19:30 on 9 March in New York, the evening after clocks went forward.
+    const evening = new Date(Date.UTC(2026, 2, 9, 23, 30));
+    expect(evening.getTimezoneOffset()).toBe(240);
+    expect(parseDateWord('today', evening)).toBe('2026-03-09');
+    expect(parseDateWord('yesterday', evening)).toBe('2026-03-08');
+    expect(parseDateWord('-2d', evening)).toBe('2026-03-07');
+    expect(parseQuickEntry('QUANT 3/4 yesterday', CAT_PROFILE, evening).entry.date).toBe('2026-03-08');
+  });
+});
+
+describe('looksLikeQuickEntry', () => {
+  it('needs a subject as the first word', () => {
+    expect(looksLikeQuickEntry('quant 3/4', CAT_PROFILE)).toBe(true);
+    expect(looksLikeQuickEntry('open planner', CAT_PROFILE)).toBe(false);
+    expect(looksLikeQuickEntry('', CAT_PROFILE)).toBe(false);
+  });
+});
@@ -0,0 +1,173 @@
+import type { Entry, ExamProfile } from '../types';
+import { emptySets } from './examProfiles';
+import { validateEntry } from './schema';
+import { addDays, formatDate } from './utils';
+
+// --- QUICK ENTRY ---
+// Shorthand for logging a session in one line, e.g.
+//   LR "Games & Tournaments" 3 lr 1 vault 52m 18/24 c4 weak -- misread the rules
+// Tokens can come in any order once the subject leads:
+//   "quoted text" topic (bare unrecognised words also form the topic)
+//   3 lr, 3lr     sets of a category (id or label); custom fields work the same
+//   52m, 1h20m    time taken
+//   18/24         correct / attempted
+//   w3 t2 s1      wrong MCQ, wrong TITA, skipped
+//   c4            confidence 1–5
+//   @21:30        start time
+//   e3            energy 1–5
+//   weak          weak topic flag
+//   today, yesterday, -2d, 2026-10-18   date
+//   -- rest       learnings
+
+export type ParsedToken = {
+  text: string;
+  // What the token was read as; null when it was not understood.
+  field: string | null;
+};
+
+export type QuickEntryResult = {
+  entry: Omit<Entry, 'id'>;
+  tokens: ParsedToken[];
+  errors: string[];
+};
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Quoted strings stay one token, quotes included.
+export const tokenize = (input: string) => input.match(/"[^"]*"?|\S+/g) ?? [];
+
+export function parseDateWord(text: string, today: Date): string | null {
+  const word = text.toLowerCase();
+  const shifted = (days: number) => addDays(formatDate(today), -days);
+  if (word === 'today') return shifted(0);
+  if (word === 'yesterday') return shifted(1);
+  const relative = word.match(/^-(\d{1,3})d$/);
+  if (relative) return shifted(Number(relative[1]));
+  if (/^\d{4}-\d{2}-\d{2}$/.test(word) && !Number.isNaN(new Date(word).getTime())) return word;
+  return null;
+}
+
+export const findSubject = (profile: ExamProfile, text: string) => profile.subjects.find(s => normalize(s) === normalize(text)) ?? null;
+
+// The first token naming a subject is what marks the input as an entry.
+export const looksLikeQuickEntry = (input: string, profile: ExamProfile) => {
+  const [first] = tokenize(input);
+  return first !== undefined && findSubject(profile, first) !== null;
+};
+
+function countTarget(profile: ExamProfile, text: string): { kind: 'sets' | 'custom'; id: string; label: string } | null {
+  const key = normalize(text);
+  if (!key) return null;
+  const category = profile.setCategories.find(c => [normalize(c.id), normalize(c.label), normalize(c.id.replace(/Sets$/, ''))].includes(key));
+  if (category) return { kind: 'sets', id: category.id, label: `${category.label} sets` };
+  const field = profile.customFields.find(f => normalize(f.id) === key || normalize(f.label) === key);
+  return field ? { kind: 'custom', id: field.id, label: field.label } : null;
+}
+
+export function parseQuickEntry(input: string, profile: ExamProfile, today = new Date()): QuickEntryResult {
+  const entry: Omit<Entry, 'id'> = {
+    date: formatDate(today),
+    subject: '',
+    topic: '',
+    sets: emptySets(profile),
+    custom: {},
+    timeTaken: 0,
+    questionsAttempted: 0,
+    correctAnswers: 0,
+    incorrectMcq: 0,
+    incorrectTita: 0,
+    skipped: 0,
+    confidence: 3,
+    learnings: '',
+    isWeakTopic: false,
+  };
+  const tokens: ParsedToken[] = [];
+  const errors: string[] = [];
+  const topicWords: string[] = [];
+  let quotedTopic = false;
+
+  const split = input.search(/(^|\s)--(\s|$)/);
+  const head = split === -1 ? input : input.slice(0, split);
+  if (split !== -1) entry.learnings = input.slice(split).replace(/^\s*--/, '').trim();
+
+  const words = tokenize(head);
+  const addCount = (target: NonNullable<ReturnType<typeof countTarget>>, count: number) => {
+    if (target.kind === 'sets') entry.sets[target.id] = (entry.sets[target.id] ?? 0) + count;
+    else entry.custom![target.id] = (entry.custom![target.id] ?? 0) + count;
+  };
+
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i];
+    const lower = word.toLowerCase();
+    const read = (field: string | null, text = word) => tokens.push({ text, field });
+    let match: RegExpMatchArray | null;
+
+    if (word.startsWith('"')) {
+      if (quotedTopic) errors.push(`Only one quoted topic is allowed: ${word}`);
+      entry.topic = word.replace(/^"|"$/g, '').trim();
+      quotedTopic = true;
+      read('Topic');
+    } else if (/^\d+$/.test(word) && i + 1 < words.length && countTarget(profile, words[i + 1])) {
+      const target = countTarget(profile, words[i + 1])!;
+      addCount(target, Number(word));
+      read(target.label, `${word} ${words[i + 1]}`);
+      i += 1;
+    } else if ((match = lower.match(/^(?:(\d+)h)?(?:(\d+)m)?$/)) && (match[1] || match[2])) {
+      entry.timeTaken += Number(match[1] ?? 0) * 60 + Number(match[2] ?? 0);
+      read('Time');
+    } else if ((match = word.match(/^(\d+)([a-z][a-z0-9]*)$/i)) && countTarget(profile, match[2])) {
+      const target = countTarget(profile, match[2])!;
+      addCount(target, Number(match[1]));
+      read(target.label);
+    } else if ((match = word.match(/^(\d+)\/(\d+)$/))) {
+      entry.correctAnswers = Number(match[1]);
+      entry.questionsAttempted = Number(match[2]);
+      read('Correct / attempted');
+    } else if ((match = lower.match(/^c(\d+)$/))) {
+      const confidence = Number(match[1]);
+      if (confidence < 1 || confidence > 5) errors.push(`Confidence must be 1–5, got ${confidence}`);
+      else entry.confidence = confidence;
+      read('Confidence');
+    } else if ((match = word.match(/^@(\d{1,2}):(\d{2})$/))) {
+      const startTime = `${match[1].padStart(2, '0')}:${match[2]}`;
+      if (Number(match[1]) > 23 || Number(match[2]) > 59) errors.push(`Not a time of day: ${word}`);
+      else entry.startTime = startTime;
+      read('Start time');
+    } else if ((match = lower.match(/^e(\d+)$/))) {
+      const energy = Number(match[1]);
+      if (energy < 1 || energy > 5) errors.push(`Energy must be 1–5, got ${energy}`);
+      else entry.energy = energy;
+      read('Energy');
+    } else if ((match = lower.match(/^([wts])(\d+)$/))) {
+      const field = match[1] === 'w' ? 'incorrectMcq' : match[1] === 't' ? 'incorrectTita' : 'skipped';
+      entry[field] = Number(match[2]);
+      read(match[1] === 'w' ? 'Wrong MCQ' : match[1] === 't' ? 'Wrong TITA' : 'Skipped');
+    } else if (lower === 'weak') {
+      entry.isWeakTopic = true;
+      read('Weak topic');
+    } else if (parseDateWord(word, today)) {
+      entry.date = parseDateWord(word, today)!;
+      read('Date');
+    } else if (!entry.subject && findSubject(profile, word)) {
+      entry.subject = findSubject(profile, word)!;
+      read('Subject');
+    } else if (!quotedTopic && !/\d/.test(word)) {
+      topicWords.push(word);
+      read('Topic');
+    } else {
+      errors.push(`Not understood: ${word}`);
+      read(null);
+    }
+  }
+  if (!quotedTopic) entry.topic = topicWords.join(' ');
+  if (split !== -1) tokens.push({ text: `-- ${entry.learnings}`, field: 'Learnings' });
+
+  if (!entry.subject) errors.unshift(`Start with a subject: ${profile.subjects.join(', ')}`);
+  else {
+    if (entry.correctAnswers > entry.questionsAttempted) errors.push(`Correct (${entry.correctAnswers}) exceeds attempted (${entry.questionsAttempted})`);
+    validateEntry({ ...entry, id: 'new' }).forEach(error => {
+      if (!errors.includes(error)) errors.push(error);
+    });
+  }
+  return { entry, tokens, errors };
+}
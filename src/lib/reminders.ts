@@ -0,0 +1,56 @@
+import type { Entry, ReminderSettings } from '../types';
+import { calculateTotalSets, formatDate } from './utils';
+
+// --- REMINDERS ---
+// Local notifications only: there is no push server, so a reminder fires
+// while the tracker is open or running in the background, and a missed one is
+// shown the next time it is opened that day. "Today" is the same day the
+// daily target card counts.
+
+export const REMINDER_TAG = 'cat-tracker-reminder';
+
+export type NotificationSupport = NotificationPermission | 'unsupported';
+
+export const notificationSupport = (): NotificationSupport => (typeof Notification === 'undefined' ? 'unsupported' : Notification.permission);
+
+export function reminderTimeOn(settings: ReminderSettings, day: Date) {
+  const [hours, minutes] = settings.time.split(':').map(Number);
+  const at = new Date(day);
+  at.setHours(hours, minutes, 0, 0);
+  return at;
+}
+
+export const setsOn = (entries: Entry[], date: string) => entries.filter(e => e.date === date).reduce((sum, e) => sum + calculateTotalSets(e), 0);
+
+export function isReminderDue(settings: ReminderSettings, entries: Entry[], dailyTarget: number, now = new Date()) {
+  if (!settings.enabled || now < reminderTimeOn(settings, now)) return false;
+  const today = formatDate(now);
+  if (settings.lastNotified === today) return false;
+  return !settings.onlyIfBehind || setsOn(entries, today) < dailyTarget;
+}
+
+// Time until today's reminder, or tomorrow's once today's has passed.
+export function msUntilNextReminder(settings: ReminderSettings, now = new Date()) {
+  const next = reminderTimeOn(settings, now);
+  if (next <= now) next.setDate(next.getDate() + 1);
+  return next.getTime() - now.getTime();
+}
+
+export function reminderMessage(entries: Entry[], dailyTarget: number, now = new Date()) {
+  const sets = setsOn(entries, formatDate(now));
+  return {
+    title: "Log today's sessions",
+    body: sets >= dailyTarget
+      ? `Target met with ${sets} sets. Add anything you have not logged yet.`
+      : `${sets} of ${dailyTarget} sets logged today.`,
+  };
+}
+
+// Goes through the service worker when there is one, since mobile browsers
+// only show notifications created there; clicking it focuses the tracker.
+export async function showReminder(title: string, body: string) {
+  const options: NotificationOptions = { body, tag: REMINDER_TAG, icon: `${import.meta.env.BASE_URL}icon.svg` };
+  const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  if (registration) await registration.showNotification(title, options);
+  else new Notification(title, options);
+}
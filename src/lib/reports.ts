@@ -0,0 +1,314 @@
+import type { CanonicalTopic, Entry, ExamProfile, SetType, StreakSettings, Subject, TimePeriod } from '../types';
+import { setCategoryLabel, subjectsInUse } from './examProfiles';
+import { MISTAKE_CATEGORIES, categorize } from './insights';
+import { analyzeTopics } from './mastery';
+import { bucketEntries, summarizeMetrics, type ChartBucket, type PerformanceMetrics } from './metrics';
+import { weekStartOf } from './planner';
+import { dailyActivity, isRestDay } from './streaks';
+import { UNTAGGED_TOPIC } from './topics';
+import { addDays, daysUntil, formatDate } from './utils';
+
+// --- PROGRESS REPORTS ---
+// A report covers a date range and compares it with the period of the same
+// length just before it. Headline numbers and chart buckets come from the
+// dashboard's own metrics so a report never disagrees with the app.
+
+export type ReportRange = { from: string; to: string };
+
+export type ReportPreset = 'last7' | 'last30' | 'lastWeek' | 'lastMonth' | 'custom';
+
+export const REPORT_PRESETS: [ReportPreset, string][] = [
+  ['last7', 'Last 7 days'],
+  ['lastWeek', 'Last week'],
+  ['last30', 'Last 30 days'],
+  ['lastMonth', 'Last month'],
+  ['custom', 'Custom'],
+];
+
+const MAX_WEAK_TOPICS = 5;
+const MAX_HIGHLIGHTS = 8;
+
+export function presetRange(preset: Exclude<ReportPreset, 'custom'>, today = formatDate(new Date())): ReportRange {
+  switch (preset) {
+    case 'last7':
+      return { from: addDays(today, -6), to: today };
+    case 'last30':
+      return { from: addDays(today, -29), to: today };
+    case 'lastWeek': {
+      const from = addDays(weekStartOf(today), -7);
+      return { from, to: addDays(from, 6) };
+    }
+    case 'lastMonth': {
+      const to = addDays(`${today.slice(0, 8)}01`, -1);
+      return { from: `${to.slice(0, 8)}01`, to };
+    }
+  }
+}
+
+export const rangeLength = ({ from, to }: ReportRange) => daysUntil(to, from) + 1;
+
+export function previousRange(range: ReportRange): ReportRange {
+  const to = addDays(range.from, -1);
+  return { from: addDays(to, -(rangeLength(range) - 1)), to };
+}
+
+export type MetricDelta = {
+  current: number | null;
+  previous: number | null;
+  change: number | null;
+};
+
+export type SubjectVolume = {
+  subject: Subject;
+  sets: Record<SetType, number>;
+  totalSets: number;
+  minutes: number;
+  accuracy: number | null;
+};
+
+export type TargetAdherence = {
+  target: number;
+  daysMet: number;
+  // Days that were due: rest days are left out unless the target was met,
+  // and so are days after today.
+  daysCounted: number;
+  restDays: number;
+  missed: string[];
+};
+
+export type ReportHighlight = {
+  date: string;
+  subject: Subject;
+  topic: string;
+  text: string;
+};
+
+export type ProgressReport = {
+  student: string;
+  exam: string;
+  generatedAt: string;
+  range: ReportRange;
+  previous: ReportRange;
+  metrics: PerformanceMetrics;
+  previousMetrics: PerformanceMetrics;
+  deltas: {
+    sets: MetricDelta;
+    hours: MetricDelta;
+    accuracy: MetricDelta;
+    netScore: MetricDelta;
+    // Minutes per set, so a negative change is an improvement.
+    speed: MetricDelta;
+  };
+  setTypes: { id: SetType; label: string; sets: number }[];
+  volume: SubjectVolume[];
+  adherence: TargetAdherence;
+  weakTopics: { subject: Subject; name: string; mastery: number; reasons: string[] }[];
+  highlights: ReportHighlight[];
+  themes: { label: string; count: number }[];
+  chartPeriod: TimePeriod;
+  chart: ChartBucket[];
+};
+
+export type ReportInput = {
+  student: string;
+  profile: ExamProfile;
+  entries: Entry[];
+  catalog: CanonicalTopic[];
+  dailyTarget: number;
+  streakSettings: StreakSettings;
+};
+
+const inRange = (entries: Entry[], { from, to }: ReportRange) => entries.filter(e => e.date >= from && e.date <= to);
+
+const delta = (current: number | null, previous: number | null): MetricDelta => ({
+  current,
+  previous,
+  change: current === null || previous === null ? null : current - previous,
+});
+
+// Accuracy and speed mean nothing for a period with no attempts or sets, so
+// those come back as null rather than zero.
+const accuracyOf = (metrics: PerformanceMetrics) => (metrics.score.attempted > 0 ? metrics.score.accuracy : null);
+const netScoreOf = (metrics: PerformanceMetrics) => (metrics.score.maxScore > 0 ? metrics.score.netScorePercent : null);
+const speedOf = (metrics: PerformanceMetrics) => (metrics.totalSets > 0 ? metrics.avgSpeed : null);
+
+export const chartPeriodFor = (range: ReportRange): TimePeriod => {
+  const days = rangeLength(range);
+  return days <= 31 ? 'daily' : days <= 182 ? 'weekly' : 'monthly';
+};
+
+function adherenceFor(entries: Entry[], range: ReportRange, dailyTarget: number, settings: StreakSettings, today: string): TargetAdherence {
+  const activity = dailyActivity(entries);
+  const adherence: TargetAdherence = { target: dailyTarget, daysMet: 0, daysCounted: 0, restDays: 0, missed: [] };
+  for (let date = range.from; date <= range.to && date <= today; date = addDays(date, 1)) {
+    const met = (activity.get(date)?.sets ?? 0) >= dailyTarget;
+    if (met) {
+      adherence.daysMet += 1;
+      adherence.daysCounted += 1;
+    } else if (isRestDay(date, settings.restDays)) {
+      adherence.restDays += 1;
+    } else if (date !== today) {
+      adherence.daysCounted += 1;
+      adherence.missed.push(date);
+    }
+  }
+  return adherence;
+}
+
+export function buildReport(input: ReportInput, range: ReportRange, now = new Date()): ProgressReport {
+  const { profile, entries, catalog } = input;
+  const today = formatDate(now);
+  const previous = previousRange(range);
+  const current = inRange(entries, range);
+  const metrics = summarizeMetrics(current);
+  const previousMetrics = summarizeMetrics(inRange(entries, previous));
+
+  const setIds = [...profile.setCategories.map(c => c.id)];
+  current.forEach(e => Object.keys(e.sets).forEach(id => {
+    if (!setIds.includes(id)) setIds.push(id);
+  }));
+  const sumSets = (list: Entry[], id: SetType) => list.reduce((sum, e) => sum + (e.sets[id] || 0), 0);
+
+  const volume = subjectsInUse(profile, current)
+    .map(subject => {
+      const forSubject = current.filter(e => e.subject === subject);
+      const subjectMetrics = summarizeMetrics(forSubject);
+      return {
+        subject,
+        sets: Object.fromEntries(setIds.map(id => [id, sumSets(forSubject, id)])) as Record<SetType, number>,
+        totalSets: subjectMetrics.totalSets,
+        minutes: subjectMetrics.totalMinutes,
+        accuracy: accuracyOf(subjectMetrics),
+      };
+    })
+    .filter(row => row.totalSets > 0 || row.minutes > 0);
+
+  // Weakness is judged as of the end of the range, from everything logged up
+  // to then, so an old report reads the same when it is regenerated.
+  const weakTopics = analyzeTopics(entries.filter(e => e.date <= range.to), catalog, new Date(range.to))
+    .filter(t => t.isWeak && t.group.name !== UNTAGGED_TOPIC)
+    .sort((a, b) => a.mastery - b.mastery)
+    .slice(0, MAX_WEAK_TOPICS)
+    .map(t => ({ subject: t.group.subject, name: t.group.name, mastery: Math.round(t.mastery), reasons: t.reasons }));
+
+  const logged = current.filter(e => e.learnings.trim() !== '');
+  const themeCounts = new Map<string, number>();
+  logged.forEach(e => categorize(e.learnings).forEach(id => themeCounts.set(id, (themeCounts.get(id) ?? 0) + 1)));
+
+  const chartPeriod = chartPeriodFor(range);
+
+  return {
+    student: input.student,
+    exam: profile.name,
+    generatedAt: now.toISOString(),
+    range,
+    previous,
+    metrics,
+    previousMetrics,
+    deltas: {
+      sets: delta(metrics.totalSets, previousMetrics.totalSets),
+      hours: delta(metrics.totalMinutes / 60, previousMetrics.totalMinutes / 60),
+      accuracy: delta(accuracyOf(metrics), accuracyOf(previousMetrics)),
+      netScore: delta(netScoreOf(metrics), netScoreOf(previousMetrics)),
+      speed: delta(speedOf(metrics), speedOf(previousMetrics)),
+    },
+    setTypes: setIds
+      .map(id => ({ id, label: setCategoryLabel(profile, id), sets: sumSets(current, id) }))
+      .filter(type => type.sets > 0),
+    volume,
+    adherence: adherenceFor(entries, range, input.dailyTarget, input.streakSettings, today),
+    weakTopics,
+    highlights: [...logged]
+      .sort((a, b) => b.date.localeCompare(a.date))
+      .slice(0, MAX_HIGHLIGHTS)
+      .map(e => ({ date: e.date, subject: e.subject, topic: e.topic, text: e.learnings.trim() })),
+    themes: MISTAKE_CATEGORIES
+      .filter(category => themeCounts.has(category.id))
+      .map(category => ({ label: category.label, count: themeCounts.get(category.id)! }))
+      .sort((a, b) => b.count - a.count),
+    chartPeriod,
+    chart: bucketEntries(current, chartPeriod),
+  };
+}
+
+// --- FORMATTING ---
+
+export const formatReportDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+
+export const formatRange = ({ from, to }: ReportRange) => `${formatReportDate(from)} – ${formatReportDate(to)}`;
+
+export const formatValue = (value: number | null, digits = 1, unit = '') => (value === null ? '—' : `${value.toFixed(digits)}${unit}`);
+
+export const formatChange = (change: number | null, digits = 1, unit = '') =>
+  (change === null ? '—' : `${change > 0 ? '+' : change < 0 ? '−' : '±'}${Math.abs(change).toFixed(digits)}${unit}`);
+
+export const adherenceRate = (adherence: TargetAdherence) => (adherence.daysCounted > 0 ? (adherence.daysMet / adherence.daysCounted) * 100 : null);
+
+// Rows for the summary table, shared by the printed page and the Markdown.
+export function summaryRows(report: ProgressReport): [string, string, string, string][] {
+  const { deltas } = report;
+  return [
+    ['Sets', formatValue(deltas.sets.current, 0), formatValue(deltas.sets.previous, 0), formatChange(deltas.sets.change, 0)],
+    ['Hours', formatValue(deltas.hours.current), formatValue(deltas.hours.previous), formatChange(deltas.hours.change)],
+    ['Accuracy', formatValue(deltas.accuracy.current, 1, '%'), formatValue(deltas.accuracy.previous, 1, '%'), formatChange(deltas.accuracy.change, 1, ' pts')],
+    ['Net score (% of max)', formatValue(deltas.netScore.current, 1, '%'), formatValue(deltas.netScore.previous, 1, '%'), formatChange(deltas.netScore.change, 1, ' pts')],
+    ['Speed (min/set)', formatValue(deltas.speed.current, 2), formatValue(deltas.speed.previous, 2), formatChange(deltas.speed.change, 2)],
+  ];
+}
+
+const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+const table = (headers: string[], rows: string[][]) => [
+  `| ${headers.map(cell).join(' | ')} |`,
+  `| ${headers.map(() => '---').join(' | ')} |`,
+  ...rows.map(row => `| ${row.map(cell).join(' | ')} |`),
+].join('\n');
+
+export function reportToMarkdown(report: ProgressReport): string {
+  const { adherence } = report;
+  const rate = adherenceRate(adherence);
+  const sections = [
+    `# Progress report: ${report.student}`,
+    `**Exam:** ${report.exam}  \n**Period:** ${formatRange(report.range)}  \n**Compared with:** ${formatRange(report.previous)}`,
+    '## Summary',
+    table(['Metric', 'This period', 'Previous period', 'Change'], summaryRows(report)),
+    '## Target adherence',
+    rate === null
+      ? `No days were due against the daily target of ${adherence.target} sets.`
+      : `Daily target of ${adherence.target} sets met on ${adherence.daysMet} of ${adherence.daysCounted} days (${rate.toFixed(0)}%).`
+        + (adherence.restDays > 0 ? ` ${adherence.restDays} rest ${adherence.restDays === 1 ? 'day' : 'days'} not counted.` : '')
+        + (adherence.missed.length > 0 ? `\n\nMissed: ${adherence.missed.map(formatReportDate).join(', ')}.` : ''),
+    '## Volume by subject',
+    report.volume.length > 0
+      ? table(
+        ['Subject', ...report.setTypes.map(t => t.label), 'Total sets', 'Hours', 'Accuracy'],
+        report.volume.map(row => [
+          row.subject,
+          ...report.setTypes.map(t => String(row.sets[t.id] ?? 0)),
+          String(row.totalSets),
+          (row.minutes / 60).toFixed(1),
+          formatValue(row.accuracy, 1, '%'),
+        ]),
+      )
+      : 'Nothing logged in this period.',
+    `## ${report.chartPeriod === 'daily' ? 'Sessions' : report.chartPeriod === 'weekly' ? 'Weekly trend' : 'Monthly trend'}`,
+    report.chart.length > 0
+      ? table(['Period', 'Sets', 'Accuracy', 'Net score'], report.chart.map(b => [b.name, String(b['Total Sets']), `${b.Accuracy.toFixed(1)}%`, `${b['Net Score'].toFixed(1)}%`]))
+      : 'Nothing logged in this period.',
+    '## Weak topics',
+    report.weakTopics.length > 0
+      ? report.weakTopics.map((t, i) => `${i + 1}. **${t.subject} · ${t.name}**: mastery ${t.mastery}${t.reasons.length > 0 ? ` (${t.reasons.join('; ')})` : ''}`).join('\n')
+      : 'No weak topics flagged.',
+    '## Highlights from learnings',
+    report.highlights.length > 0
+      ? report.highlights.map(h => `- ${formatReportDate(h.date)}, ${h.subject}${h.topic ? ` · ${h.topic}` : ''}: ${h.text.replace(/\s*\n\s*/g, ' ')}`).join('\n')
+      : 'No learnings written in this period.',
+    ...(report.themes.length > 0 ? [`Recurring themes: ${report.themes.map(t => `${t.label} (${t.count})`).join(', ')}.`] : []),
+    `_Generated ${new Date(report.generatedAt).toLocaleString('en-US')}._`,
+  ];
+  return `${sections.join('\n\n')}\n`;
+}
+
+export const reportFileName = (report: ProgressReport) =>
+  `${report.student.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'student'}-report-${report.range.from}-to-${report.range.to}.md`;
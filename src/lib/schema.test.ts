@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { ENTRIES_VERSION, entriesStore } from './schema';
+import { runMigrations, type StoreDefinition } from './storage';
+
+const migrate = (data: unknown, from: number) => entriesStore.validate(runMigrations(data, from, entriesStore as StoreDefinition<unknown>));
+
+const common = {
+  id: 'e1', date: '2026-03-02', subject: 'QUANT', topic: 'Ratios', timeTaken: 30, questionsAttempted: 10, correctAnswers: 6,
+  confidence: 3, learnings: '', isWeakTopic: false,
+};
+
+const v2Entry = { ...common, sets: { vaultSets: 2 } };
+
+describe('entriesStore migrations', () => {
+  it('has a migration for every version up to the current one', () => {
+    expect(entriesStore.migrations.map(m => m.version)).toEqual(Array.from({ length: ENTRIES_VERSION }, (_, i) => i + 1));
+  });
+
+  it('moves v1 set counts under sets', () => {
+    const { value, rejected } = migrate([{ ...common, lrSets: 1, diSets: 0, vaultSets: 2, sectionalSets: 0 }], 1);
+
+    expect(rejected).toEqual([]);
+    expect(value[0].sets).toEqual({ lrSets: 1, diSets: 0, vaultSets: 2, sectionalSets: 0 });
+  });
+
+  it('reads v2 entries as they are, and accepts the optional fields added since', () => {
+    const detailed = {
+      ...v2Entry, id: 'e2', incorrectMcq: 3, incorrectTita: 1, skipped: 2, setTimes: [600, 900], startTime: '07:30', energy: 4,
+      questions: [], coverage: [{ materialId: 'm1', sectionId: 's1', sets: [1, 2] }], rev: 3, updatedAt: '2026-03-02T08:00:00Z',
+    };
+    const { value, rejected } = migrate([v2Entry, detailed], 2);
+
+    expect(rejected).toEqual([]);
+    expect(value).toEqual([v2Entry, detailed]);
+  });
+});
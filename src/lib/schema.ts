@@ -0,0 +1,614 @@
+import type { CanonicalTopic, CoachSettings, Entry, ExamProfile, MockTest, PlannerData, StudyMaterial, QuadrantThresholds, ReminderSettings, ReviewData, SavedView, StreakSettings, StudentDirectory, SyncJournal, SyncSettings, TimerSession, Tombstone, TrashedEntry, TrendTargets } from '../types';
+import { CAT_PROFILE } from './examProfiles';
+import { MOCK_SECTIONS } from './mockScoring';
+import { fieldHashes } from './sync/merge';
+import type { StoreDefinition, ValidationResult } from './storage';
+
+// --- SCHEMA ---
+// Bump ENTRIES_VERSION and append a migration whenever the shape of `Entry`
+// changes, including new optional fields that need no rewrite: an older build
+// then sees the data as newer and backs it up before saving over it.
+// Migrations receive whatever the previous version stored and must return
+// data in the next version's shape.
+
+export const ENTRIES_VERSION = 3;
+export const TARGET_VERSION = 1;
+export const MOCKS_VERSION = 1;
+export const TOPICS_VERSION = 1;
+export const REVIEWS_VERSION = 1;
+export const PLANNER_VERSION = 1;
+export const STREAKS_VERSION = 1;
+export const TIMER_VERSION = 1;
+export const VIEWS_VERSION = 1;
+export const TRASH_VERSION = 2;
+export const COACH_VERSION = 1;
+export const TRENDS_VERSION = 1;
+export const QUADRANTS_VERSION = 1;
+export const PROFILE_VERSION = 1;
+export const STUDENTS_VERSION = 1;
+export const REMINDERS_VERSION = 1;
+export const SYNC_VERSION = 1;
+export const SYNC_JOURNAL_VERSION = 2;
+export const MATERIALS_VERSION = 1;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isCount = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+const isIsoDate = (value: unknown) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(new Date(value).getTime());
+const isTimestamp = (value: unknown) => typeof value === 'string' && !Number.isNaN(new Date(value).getTime());
+const isName = (value: unknown) => typeof value === 'string' && value.trim() !== '';
+const isClockTime = (value: unknown) => typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+// Subjects are checked against the profile where entries are created, not
+// here: editing the profile must not quarantine existing data.
+const isSubject = isName;
+const isNumberRecord = (value: unknown, check: (v: unknown) => boolean) => isRecord(value) && Object.values(value).every(check);
+
+// v1 stored CAT's set breakdown as top-level fields.
+const LEGACY_SET_FIELDS = ['lrSets', 'diSets', 'vaultSets', 'sectionalSets'] as const;
+const COUNT_FIELDS = ['timeTaken', 'questionsAttempted', 'correctAnswers'] as const;
+const OPTIONAL_COUNT_FIELDS = ['incorrectMcq', 'incorrectTita', 'skipped', 'rev'] as const;
+
+const QUESTION_RESULTS = ['correct', 'wrong', 'skipped', 'guessed'];
+const ERROR_CATEGORY_IDS = ['concept', 'method', 'calculation', 'misread', 'time', 'careless', 'other'];
+
+function validateQuestion(raw: unknown): string[] {
+  if (!isRecord(raw)) return ['Question is not an object'];
+  const errors: string[] = [];
+  if (!isName(raw.id)) errors.push('Question is missing an id');
+  if (!isRecord(raw.source) || !['book', 'mock', 'set'].includes(String(raw.source.kind)) || typeof raw.source.ref !== 'string') errors.push('Question source is malformed');
+  if (raw.type !== 'mcq' && raw.type !== 'tita') errors.push(`Unknown question type: ${String(raw.type)}`);
+  if (!QUESTION_RESULTS.includes(String(raw.result))) errors.push(`Unknown question result: ${String(raw.result)}`);
+  if (!isCount(raw.timeSpent)) errors.push('Question time must be a non-negative number');
+  if (raw.errorCategory !== undefined && !ERROR_CATEGORY_IDS.includes(String(raw.errorCategory))) errors.push(`Unknown error category: ${String(raw.errorCategory)}`);
+  if (typeof raw.notes !== 'string') errors.push('Question notes must be text');
+  if (raw.imageId !== undefined && !isName(raw.imageId)) errors.push('Question image id must be text');
+  const retriesValid = Array.isArray(raw.retries) && raw.retries.every(r => isRecord(r) && isIsoDate(r.date) && QUESTION_RESULTS.includes(String(r.result)) && isCount(r.timeSpent));
+  if (!retriesValid) errors.push('Question retries are malformed');
+  return errors;
+}
+
+export function validateEntry(raw: unknown): string[] {
+  if (!isRecord(raw)) return ['Record is not an object'];
+  const errors: string[] = [];
+  if (typeof raw.id !== 'string' || raw.id === '') errors.push('Missing id');
+  if (!isIsoDate(raw.date)) errors.push(`Invalid date: ${String(raw.date)}`);
+  if (!isSubject(raw.subject)) errors.push(`Unknown subject: ${String(raw.subject)}`);
+  if (typeof raw.topic !== 'string') errors.push('Topic must be text');
+  if (!isNumberRecord(raw.sets, isCount)) errors.push('Set counts must be non-negative numbers');
+  if (raw.custom !== undefined && !isNumberRecord(raw.custom, v => typeof v === 'number' && Number.isFinite(v))) errors.push('Custom fields must be numbers');
+  COUNT_FIELDS.forEach(field => {
+    if (!isCount(raw[field])) errors.push(`${field} must be a non-negative number`);
+  });
+  OPTIONAL_COUNT_FIELDS.forEach(field => {
+    if (raw[field] !== undefined && !isCount(raw[field])) errors.push(`${field} must be a non-negative number`);
+  });
+  // Only entries that split their wrong answers are checked: older ones may
+  // record more correct than attempted, which scoring clamps.
+  if ((raw.incorrectMcq !== undefined || raw.incorrectTita !== undefined) && isCount(raw.questionsAttempted) && isCount(raw.correctAnswers)) {
+    const classified = Number(raw.incorrectMcq ?? 0) + Number(raw.incorrectTita ?? 0);
+    if (classified > Math.max(Number(raw.questionsAttempted) - Number(raw.correctAnswers), 0)) errors.push('Wrong answers (MCQ + TITA) exceed attempted minus correct');
+  }
+  if (typeof raw.confidence !== 'number' || raw.confidence < 1 || raw.confidence > 5) errors.push('Confidence must be between 1 and 5');
+  if (typeof raw.learnings !== 'string') errors.push('Learnings must be text');
+  if (typeof raw.isWeakTopic !== 'boolean') errors.push('Weak topic flag must be true or false');
+  if (raw.setTimes !== undefined && !(Array.isArray(raw.setTimes) && raw.setTimes.every(isCount))) errors.push('Set times must be a list of seconds');
+  if (raw.startTime !== undefined && !isClockTime(raw.startTime)) errors.push(`Invalid start time: ${String(raw.startTime)}`);
+  if (raw.energy !== undefined && !(Number.isInteger(raw.energy) && Number(raw.energy) >= 1 && Number(raw.energy) <= 5)) errors.push('Energy must be between 1 and 5');
+  if (raw.questions !== undefined) {
+    if (!Array.isArray(raw.questions)) errors.push('Questions must be a list');
+    else raw.questions.forEach((question, i) => validateQuestion(question).forEach(error => errors.push(`Question ${i + 1}: ${error}`)));
+  }
+  if (raw.coverage !== undefined) {
+    const valid = Array.isArray(raw.coverage) && raw.coverage.every(c => isRecord(c) && isName(c.materialId) && isName(c.sectionId)
+      && Array.isArray(c.sets) && c.sets.every(n => Number.isInteger(n) && n >= 1));
+    if (!valid) errors.push('Material coverage is malformed');
+  }
+  if (raw.updatedAt !== undefined && !isTimestamp(raw.updatedAt)) errors.push(`Invalid updatedAt: ${String(raw.updatedAt)}`);
+  return errors;
+}
+
+function migrateEntrySets(raw: unknown) {
+  if (!isRecord(raw) || isRecord(raw.sets)) return raw;
+  const { lrSets, diSets, vaultSets, sectionalSets, ...rest } = raw;
+  return { ...rest, sets: { lrSets, diSets, vaultSets, sectionalSets } };
+}
+
+function validateList<T>(validate: (raw: unknown) => string[]) {
+  return (data: unknown): ValidationResult<T[]> => {
+    if (!Array.isArray(data)) return { value: [], rejected: [{ raw: data, errors: ['Data is not a list'] }] };
+    const result: ValidationResult<T[]> = { value: [], rejected: [] };
+    data.forEach(raw => {
+      const errors = validate(raw);
+      if (errors.length > 0) result.rejected.push({ raw, errors });
+      else result.value.push(raw as T);
+    });
+    return result;
+  };
+}
+
+export const entriesStore: StoreDefinition<Entry[]> = {
+  key: 'cat-tracker-entries',
+  version: ENTRIES_VERSION,
+  migrations: [
+    {
+      // v0 → v1: the unversioned array. Older builds could leave optional
+      // fields unset and stored numbers typed into the form as strings.
+      version: 1,
+      migrate: data => Array.isArray(data) ? data.map(raw => {
+        if (!isRecord(raw)) return raw;
+        const entry: Record<string, unknown> = { topic: '', learnings: '', isWeakTopic: false, confidence: 3, ...raw };
+        [...LEGACY_SET_FIELDS, ...COUNT_FIELDS].forEach(field => {
+          if (entry[field] === undefined || entry[field] === '') entry[field] = 0;
+          else if (typeof entry[field] === 'string') entry[field] = Number(entry[field]);
+        });
+        return entry;
+      }) : data,
+    },
+    {
+      // v1 → v2: set counts move under `sets`, keyed by CAT category id.
+      version: 2,
+      migrate: data => Array.isArray(data) ? data.map(migrateEntrySets) : data,
+    },
+    {
+      // v2 → v3: optional fields, which older entries simply lack, so nothing
+      // is rewritten: wrong answers split into MCQ and TITA (older entries
+      // score as all-MCQ), skipped questions, per-set times, start time,
+      // energy, the question log, material coverage and the sync `rev` and
+      // `updatedAt`.
+      version: 3,
+      migrate: data => data,
+    },
+  ],
+  validate: validateList<Entry>(validateEntry),
+  fallback: [],
+};
+
+export const dailyTargetStore: StoreDefinition<number> = {
+  key: 'cat-tracker-target',
+  version: TARGET_VERSION,
+  migrations: [
+    { version: 1, migrate: data => typeof data === 'string' ? Number(data) : data },
+  ],
+  validate: data => typeof data === 'number' && data > 0
+    ? { value: data, rejected: [] }
+    : { value: 6, rejected: [{ raw: data, errors: ['Daily target must be a positive number'] }] },
+  fallback: 6,
+};
+
+const MOCK_SECTION_FIELDS = ['totalQuestions', 'correct', 'incorrectMcq', 'incorrectTita', 'timeTaken'] as const;
+
+export function validateMock(raw: unknown): string[] {
+  if (!isRecord(raw)) return ['Record is not an object'];
+  const errors: string[] = [];
+  if (typeof raw.id !== 'string' || raw.id === '') errors.push('Missing id');
+  if (!isIsoDate(raw.date)) errors.push(`Invalid date: ${String(raw.date)}`);
+  if (typeof raw.name !== 'string') errors.push('Name must be text');
+  if (raw.percentile !== null && (typeof raw.percentile !== 'number' || raw.percentile < 0 || raw.percentile > 100)) {
+    errors.push('Percentile must be between 0 and 100');
+  }
+  if (typeof raw.notes !== 'string') errors.push('Notes must be text');
+  const sections = isRecord(raw.sections) ? raw.sections : {};
+  MOCK_SECTIONS.forEach(section => {
+    const result = sections[section];
+    if (!isRecord(result)) {
+      errors.push(`Missing ${section} section`);
+      return;
+    }
+    MOCK_SECTION_FIELDS.forEach(field => {
+      if (!isCount(result[field])) errors.push(`${section} ${field} must be a non-negative number`);
+    });
+    const attempted = Number(result.correct) + Number(result.incorrectMcq) + Number(result.incorrectTita);
+    if (attempted > Number(result.totalQuestions)) errors.push(`${section} attempts exceed the number of questions`);
+  });
+  return errors;
+}
+
+export const mocksStore: StoreDefinition<MockTest[]> = {
+  key: 'cat-tracker-mocks',
+  version: MOCKS_VERSION,
+  migrations: [],
+  validate: validateList<MockTest>(validateMock),
+  fallback: [],
+};
+
+export function validateTopic(raw: unknown): string[] {
+  if (!isRecord(raw)) return ['Record is not an object'];
+  const errors: string[] = [];
+  if (typeof raw.id !== 'string' || raw.id === '') errors.push('Missing id');
+  if (!isSubject(raw.subject)) errors.push(`Unknown subject: ${String(raw.subject)}`);
+  if (typeof raw.name !== 'string' || raw.name.trim() === '') errors.push('Topic name is required');
+  if (!Array.isArray(raw.aliases) || raw.aliases.some(a => typeof a !== 'string')) errors.push('Aliases must be a list of text');
+  return errors;
+}
+
+export const topicsStore: StoreDefinition<CanonicalTopic[]> = {
+  key: 'cat-tracker-topics',
+  version: TOPICS_VERSION,
+  migrations: [],
+  validate: validateList<CanonicalTopic>(validateTopic),
+  fallback: [],
+};
+
+const MATERIAL_KINDS = ['book', 'vault', 'testSeries', 'other'];
+
+export function validateMaterial(raw: unknown): string[] {
+  if (!isRecord(raw)) return ['Record is not an object'];
+  const errors: string[] = [];
+  if (typeof raw.id !== 'string' || raw.id === '') errors.push('Missing id');
+  if (!isName(raw.name)) errors.push('Material name is required');
+  if (!isSubject(raw.subject)) errors.push(`Unknown subject: ${String(raw.subject)}`);
+  if (!MATERIAL_KINDS.includes(String(raw.kind))) errors.push(`Unknown material kind: ${String(raw.kind)}`);
+  const sectionsValid = Array.isArray(raw.sections) && raw.sections.every(s => isRecord(s) && isName(s.id) && isName(s.name) && Number.isInteger(s.sets) && Number(s.sets) >= 0);
+  if (!sectionsValid) errors.push('Sections need a name and a whole number of sets');
+  return errors;
+}
+
+export const materialsStore: StoreDefinition<StudyMaterial[]> = {
+  key: 'cat-tracker-materials',
+  version: MATERIALS_VERSION,
+  migrations: [],
+  validate: validateList<StudyMaterial>(validateMaterial),
+  fallback: [],
+};
+
+const REVIEW_GRADES = ['again', 'hard', 'good', 'easy'];
+
+function validateReviews(data: unknown): ValidationResult<ReviewData> {
+  if (!isRecord(data) || !isRecord(data.states) || !Array.isArray(data.log)) {
+    return { value: { states: {}, log: [] }, rejected: [{ raw: data, errors: ['Review data is malformed'] }] };
+  }
+  const result: ValidationResult<ReviewData> = { value: { states: {}, log: [] }, rejected: [] };
+  Object.entries(data.states).forEach(([cardId, state]) => {
+    const valid = isRecord(state) && typeof state.easeFactor === 'number' && isCount(state.interval)
+      && isCount(state.repetitions) && isCount(state.lapses) && isIsoDate(state.due);
+    if (valid) result.value.states[cardId] = state as ReviewData['states'][string];
+    else result.rejected.push({ raw: { cardId, state }, errors: [`Invalid schedule for card ${cardId}`] });
+  });
+  data.log.forEach(raw => {
+    if (isRecord(raw) && typeof raw.cardId === 'string' && REVIEW_GRADES.includes(raw.grade as string)) {
+      result.value.log.push(raw as ReviewData['log'][number]);
+    } else {
+      result.rejected.push({ raw, errors: ['Invalid review log record'] });
+    }
+  });
+  return result;
+}
+
+export const reviewsStore: StoreDefinition<ReviewData> = {
+  key: 'cat-tracker-reviews',
+  version: REVIEWS_VERSION,
+  migrations: [],
+  validate: validateReviews,
+  fallback: { states: {}, log: [] },
+};
+
+function validatePlanner(data: unknown): ValidationResult<PlannerData> {
+  const empty: PlannerData = { examDate: null, weeks: {} };
+  if (!isRecord(data) || !isRecord(data.weeks)) return { value: empty, rejected: [{ raw: data, errors: ['Planner data is malformed'] }] };
+  const result: ValidationResult<PlannerData> = { value: { examDate: isIsoDate(data.examDate) ? data.examDate as string : null, weeks: {} }, rejected: [] };
+  Object.entries(data.weeks).forEach(([weekStart, plan]) => {
+    const valid = isRecord(plan) && isIsoDate(weekStart) && Array.isArray(plan.days) && plan.days.length === 7
+      && plan.days.every(day => Array.isArray(day) && day.every(target => isRecord(target)
+        && typeof target.id === 'string'
+        && isSubject(target.subject)
+        && isName(target.setType)
+        && isCount(target.sets)
+        && (target.topic === undefined || typeof target.topic === 'string')));
+    if (valid) result.value.weeks[weekStart] = plan as PlannerData['weeks'][string];
+    else result.rejected.push({ raw: { weekStart, plan }, errors: [`Invalid plan for week of ${weekStart}`] });
+  });
+  return result;
+}
+
+export const plannerStore: StoreDefinition<PlannerData> = {
+  key: 'cat-tracker-planner',
+  version: PLANNER_VERSION,
+  migrations: [],
+  validate: validatePlanner,
+  fallback: { examDate: null, weeks: {} },
+};
+
+function validateStreakSettings(data: unknown): ValidationResult<StreakSettings> {
+  const fallback: StreakSettings = { restDays: [], metric: 'sets' };
+  if (!isRecord(data)) return { value: fallback, rejected: [{ raw: data, errors: ['Streak settings are malformed'] }] };
+  const errors: string[] = [];
+  const restDays = Array.isArray(data.restDays) ? data.restDays.filter(day => Number.isInteger(day) && day >= 0 && day <= 6) as number[] : [];
+  if (!Array.isArray(data.restDays) || restDays.length !== data.restDays.length) errors.push('Rest days must be weekday numbers 0–6');
+  const metric = data.metric === 'minutes' ? 'minutes' : 'sets';
+  if (data.metric !== metric) errors.push(`Unknown heatmap metric: ${String(data.metric)}`);
+  return { value: { restDays, metric }, rejected: errors.length ? [{ raw: data, errors }] : [] };
+}
+
+export const streakSettingsStore: StoreDefinition<StreakSettings> = {
+  key: 'cat-tracker-streaks',
+  version: STREAKS_VERSION,
+  migrations: [],
+  validate: validateStreakSettings,
+  fallback: { restDays: [], metric: 'sets' },
+};
+
+function validateTimer(data: unknown): ValidationResult<TimerSession | null> {
+  if (data === null) return { value: null, rejected: [] };
+  const valid = isRecord(data)
+    && isSubject(data.subject)
+    && isName(data.setType)
+    && typeof data.topic === 'string'
+    && isCount(data.startedAt)
+    && (data.pausedAt === null || isCount(data.pausedAt))
+    && isCount(data.pausedMs)
+    && Array.isArray(data.laps)
+    && data.laps.every(lap => isRecord(lap) && (lap.kind === 'set' || lap.kind === 'question') && isCount(lap.at));
+  return valid
+    ? { value: data as TimerSession, rejected: [] }
+    : { value: null, rejected: [{ raw: data, errors: ['Timer session is malformed'] }] };
+}
+
+export const timerStore: StoreDefinition<TimerSession | null> = {
+  key: 'cat-tracker-timer',
+  version: TIMER_VERSION,
+  migrations: [],
+  validate: validateTimer,
+  fallback: null,
+};
+
+const SORT_KEYS = ['date', 'subject', 'topic', 'sets', 'score', 'speed'];
+const isDateOrNull = (value: unknown) => value === null || isIsoDate(value);
+const isPercentOrNull = (value: unknown) => value === null || (isCount(value) && (value as number) <= 100);
+
+export function validateSavedView(raw: unknown): string[] {
+  if (!isRecord(raw)) return ['Record is not an object'];
+  const errors: string[] = [];
+  if (typeof raw.id !== 'string' || raw.id === '') errors.push('Missing id');
+  if (typeof raw.name !== 'string' || raw.name.trim() === '') errors.push('Missing name');
+  const filters = raw.filters;
+  if (!isRecord(filters)) {
+    errors.push('Filters are malformed');
+  } else {
+    if (typeof filters.search !== 'string' || typeof filters.topic !== 'string') errors.push('Search and topic must be text');
+    if (!isDateOrNull(filters.dateFrom) || !isDateOrNull(filters.dateTo)) errors.push('Invalid date range');
+    if (!Array.isArray(filters.subjects) || !filters.subjects.every(isSubject)) errors.push('Unknown subject in filter');
+    if (!isPercentOrNull(filters.accuracyMin) || !isPercentOrNull(filters.accuracyMax)) errors.push('Accuracy band must be 0–100');
+    if (!Array.isArray(filters.confidence) || !filters.confidence.every(c => Number.isInteger(c) && c >= 1 && c <= 5)) errors.push('Confidence filter must be 1–5');
+    if (!['any', 'weak', 'notWeak'].includes(filters.weak as string)) errors.push(`Unknown weak filter: ${String(filters.weak)}`);
+  }
+  if (!isRecord(raw.sort) || !SORT_KEYS.includes(raw.sort.key as string) || !['asc', 'desc'].includes(raw.sort.direction as string)) errors.push('Invalid sort');
+  return errors;
+}
+
+export const savedViewsStore: StoreDefinition<SavedView[]> = {
+  key: 'cat-tracker-views',
+  version: VIEWS_VERSION,
+  migrations: [],
+  validate: validateList<SavedView>(validateSavedView),
+  fallback: [],
+};
+
+export function validateTrashedEntry(raw: unknown): string[] {
+  if (!isRecord(raw)) return ['Record is not an object'];
+  const errors = validateEntry(raw.entry);
+  if (typeof raw.deletedAt !== 'string' || Number.isNaN(new Date(raw.deletedAt).getTime())) errors.push('Invalid deletion time');
+  return errors;
+}
+
+export const trashStore: StoreDefinition<TrashedEntry[]> = {
+  key: 'cat-tracker-trash',
+  version: TRASH_VERSION,
+  migrations: [
+    {
+      // v1 → v2: same set-count move as entries v2.
+      version: 2,
+      migrate: data => Array.isArray(data) ? data.map(raw => (isRecord(raw) ? { ...raw, entry: migrateEntrySets(raw.entry) } : raw)) : data,
+    },
+  ],
+  validate: validateList<TrashedEntry>(validateTrashedEntry),
+  fallback: [],
+};
+
+export const DEFAULT_COACH_SETTINGS: CoachSettings = {
+  provider: 'offline',
+  baseUrl: 'http://localhost:11434/v1',
+  model: 'llama3.1',
+  apiKey: '',
+  timeoutSeconds: 60,
+};
+
+function validateCoachSettings(data: unknown): ValidationResult<CoachSettings> {
+  const valid = isRecord(data)
+    && (data.provider === 'offline' || data.provider === 'openai')
+    && typeof data.baseUrl === 'string'
+    && typeof data.model === 'string'
+    && typeof data.apiKey === 'string'
+    && isCount(data.timeoutSeconds) && (data.timeoutSeconds as number) > 0;
+  return valid
+    ? { value: data as CoachSettings, rejected: [] }
+    : { value: DEFAULT_COACH_SETTINGS, rejected: [{ raw: data, errors: ['Coach settings are malformed'] }] };
+}
+
+export const coachSettingsStore: StoreDefinition<CoachSettings> = {
+  key: 'cat-tracker-coach',
+  version: COACH_VERSION,
+  migrations: [],
+  validate: validateCoachSettings,
+  fallback: DEFAULT_COACH_SETTINGS,
+};
+
+export const DEFAULT_TREND_TARGETS: TrendTargets = { accuracy: 80, netScore: 70, minutesPerSet: 12 };
+
+function validateTrendTargets(data: unknown): ValidationResult<TrendTargets> {
+  const valid = isRecord(data) && isCount(data.accuracy) && typeof data.netScore === 'number' && Number.isFinite(data.netScore) && isCount(data.minutesPerSet);
+  return valid
+    ? { value: data as TrendTargets, rejected: [] }
+    : { value: DEFAULT_TREND_TARGETS, rejected: [{ raw: data, errors: ['Trend targets are malformed'] }] };
+}
+
+export const trendTargetsStore: StoreDefinition<TrendTargets> = {
+  key: 'cat-tracker-trend-targets',
+  version: TRENDS_VERSION,
+  migrations: [],
+  validate: validateTrendTargets,
+  fallback: DEFAULT_TREND_TARGETS,
+};
+
+export const DEFAULT_QUADRANT_THRESHOLD = { minutesPerSet: 12, accuracy: 70 };
+
+export const DEFAULT_QUADRANT_THRESHOLDS: QuadrantThresholds = {
+  LR: { minutesPerSet: 12, accuracy: 70 },
+  DI: { minutesPerSet: 12, accuracy: 70 },
+  QUANT: { minutesPerSet: 10, accuracy: 70 },
+  VARC: { minutesPerSet: 10, accuracy: 70 },
+};
+
+function validateQuadrantThresholds(data: unknown): ValidationResult<QuadrantThresholds> {
+  const valid = isRecord(data) && Object.values(data).every(threshold =>
+    isRecord(threshold) && isCount(threshold.minutesPerSet) && isCount(threshold.accuracy) && (threshold.accuracy as number) <= 100);
+  return valid
+    ? { value: data as QuadrantThresholds, rejected: [] }
+    : { value: DEFAULT_QUADRANT_THRESHOLDS, rejected: [{ raw: data, errors: ['Quadrant thresholds are malformed'] }] };
+}
+
+export const quadrantThresholdsStore: StoreDefinition<QuadrantThresholds> = {
+  key: 'cat-tracker-quadrants',
+  version: QUADRANTS_VERSION,
+  migrations: [],
+  validate: validateQuadrantThresholds,
+  fallback: DEFAULT_QUADRANT_THRESHOLDS,
+};
+
+function validateExamProfile(data: unknown): ValidationResult<ExamProfile> {
+  const isUniqueList = (list: unknown[]) => new Set(list).size === list.length;
+  const isNamedList = (value: unknown) => Array.isArray(value)
+    && value.every(item => isRecord(item) && isName(item.id) && isName(item.label))
+    && isUniqueList(value.map(item => item.id));
+  const valid = isRecord(data)
+    && isName(data.id) && isName(data.name)
+    && Array.isArray(data.subjects) && data.subjects.length > 0 && data.subjects.every(isSubject) && isUniqueList(data.subjects)
+    && isNamedList(data.setCategories) && (data.setCategories as unknown[]).length > 0
+    && isNamedList(data.customFields);
+  return valid
+    ? { value: data as ExamProfile, rejected: [] }
+    : { value: CAT_PROFILE, rejected: [{ raw: data, errors: ['Exam profile is malformed'] }] };
+}
+
+export const examProfileStore: StoreDefinition<ExamProfile> = {
+  key: 'cat-tracker-exam-profile',
+  version: PROFILE_VERSION,
+  migrations: [],
+  validate: validateExamProfile,
+  fallback: CAT_PROFILE,
+};
+
+// Global: lists the students and which one is open. Everything else is stored
+// per student (see lib/students).
+export const DEFAULT_STUDENT_ID = 'default';
+
+function validateStudentDirectory(data: unknown): ValidationResult<StudentDirectory> {
+  const students = isRecord(data) && Array.isArray(data.students) ? data.students : [];
+  const valid = isRecord(data) && students.length > 0
+    && students.every(s => isRecord(s) && isName(s.id) && isName(s.name))
+    && new Set(students.map(s => s.id)).size === students.length
+    && students.some(s => s.id === data.activeId);
+  return valid
+    ? { value: data as StudentDirectory, rejected: [] }
+    : { value: studentsStore.fallback, rejected: [{ raw: data, errors: ['Student list is malformed'] }] };
+}
+
+export const studentsStore: StoreDefinition<StudentDirectory> = {
+  key: 'cat-tracker-students',
+  version: STUDENTS_VERSION,
+  migrations: [],
+  validate: validateStudentDirectory,
+  fallback: { students: [{ id: DEFAULT_STUDENT_ID, name: 'Me' }], activeId: DEFAULT_STUDENT_ID },
+};
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = { enabled: false, time: '22:00', onlyIfBehind: true, lastNotified: null };
+
+function validateReminderSettings(data: unknown): ValidationResult<ReminderSettings> {
+  const valid = isRecord(data)
+    && typeof data.enabled === 'boolean'
+    && isClockTime(data.time)
+    && typeof data.onlyIfBehind === 'boolean'
+    && (data.lastNotified === null || isIsoDate(data.lastNotified));
+  return valid
+    ? { value: data as ReminderSettings, rejected: [] }
+    : { value: DEFAULT_REMINDER_SETTINGS, rejected: [{ raw: data, errors: ['Reminder settings are malformed'] }] };
+}
+
+export const remindersStore: StoreDefinition<ReminderSettings> = {
+  key: 'cat-tracker-reminders',
+  version: REMINDERS_VERSION,
+  migrations: [],
+  validate: validateReminderSettings,
+  fallback: DEFAULT_REMINDER_SETTINGS,
+};
+
+// Sync settings, the journal of what the server has seen, and tombstones are
+// per student. An empty device id is filled in the first time sync runs.
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = { enabled: false, serverUrl: 'http://localhost:8788', space: '', token: '', deviceId: '' };
+
+function validateSyncSettings(data: unknown): ValidationResult<SyncSettings> {
+  const valid = isRecord(data)
+    && typeof data.enabled === 'boolean'
+    && typeof data.serverUrl === 'string'
+    && typeof data.space === 'string'
+    && typeof data.token === 'string'
+    && typeof data.deviceId === 'string';
+  return valid
+    ? { value: data as SyncSettings, rejected: [] }
+    : { value: DEFAULT_SYNC_SETTINGS, rejected: [{ raw: data, errors: ['Sync settings are malformed'] }] };
+}
+
+export const syncSettingsStore: StoreDefinition<SyncSettings> = {
+  key: 'cat-tracker-sync-settings',
+  version: SYNC_VERSION,
+  migrations: [],
+  validate: validateSyncSettings,
+  fallback: DEFAULT_SYNC_SETTINGS,
+};
+
+export const EMPTY_SYNC_JOURNAL: SyncJournal = { lastSeq: 0, lastSyncedAt: null, bases: {}, conflicts: [] };
+
+// A journal that does not validate is reset rather than repaired: the next
+// sync rebuilds it, and anything that differs from the server shows up as a
+// conflict instead of being overwritten.
+function validateSyncJournal(data: unknown): ValidationResult<SyncJournal> {
+  const isEntryOrNull = (value: unknown) => value === null || validateEntry(value).length === 0;
+  const isHashesOrNull = (value: unknown) => value === null || isNumberRecord(value, hash => typeof hash === 'string');
+  const valid = isRecord(data)
+    && isCount(data.lastSeq)
+    && (data.lastSyncedAt === null || isTimestamp(data.lastSyncedAt))
+    && isRecord(data.bases) && Object.values(data.bases).every(base => isRecord(base) && isCount(base.rev) && typeof base.updatedAt === 'string' && isHashesOrNull(base.fields))
+    && Array.isArray(data.conflicts) && data.conflicts.every(c => isRecord(c) && isName(c.id) && isEntryOrNull(c.local) && isEntryOrNull(c.remote) && isCount(c.remoteRev) && Array.isArray(c.fields));
+  return valid
+    ? { value: data as SyncJournal, rejected: [] }
+    : { value: EMPTY_SYNC_JOURNAL, rejected: [{ raw: data, errors: ['Sync journal is malformed'] }] };
+}
+
+export const syncJournalStore: StoreDefinition<SyncJournal> = {
+  key: 'cat-tracker-sync-journal',
+  version: SYNC_JOURNAL_VERSION,
+  migrations: [
+    {
+      // v1 → v2: bases keep a hash of each field instead of the whole entry.
+      version: 2,
+      migrate: data => isRecord(data) && isRecord(data.bases) ? {
+        ...data,
+        bases: Object.fromEntries(Object.entries(data.bases).map(([id, base]) => [id, isRecord(base) ? {
+          rev: base.rev,
+          updatedAt: base.updatedAt,
+          fields: isRecord(base.entry) ? fieldHashes(base.entry as Entry) : null,
+        } : base])),
+      } : data,
+    },
+  ],
+  validate: validateSyncJournal,
+  fallback: EMPTY_SYNC_JOURNAL,
+};
+
+const validateTombstone = (raw: unknown) => (isRecord(raw) && isName(raw.id) && isTimestamp(raw.deletedAt) ? [] : ['Tombstone is malformed']);
+
+export const tombstonesStore: StoreDefinition<Tombstone[]> = {
+  key: 'cat-tracker-tombstones',
+  version: SYNC_VERSION,
+  migrations: [],
+  validate: validateList<Tombstone>(validateTombstone),
+  fallback: [],
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { scoreEntries, scoreEntry } from './scoring';
+
+describe('scoreEntry', () => {
+  it('costs a mark for a wrong MCQ and nothing for a wrong TITA', () => {
+    const score = scoreEntry({ questionsAttempted: 10, correctAnswers: 6, incorrectMcq: 3, incorrectTita: 1, skipped: 2 });
+
+    expect(score).toMatchObject({ correct: 6, incorrectMcq: 3, incorrectTita: 1, marksLost: 3, netScore: 15, maxScore: 36, accuracy: 60, isEstimated: false });
+    expect(score.netScorePercent).toBeCloseTo(41.67, 2);
+    expect(score.attemptRate).toBeCloseTo(83.33, 2);
+  });
+
+  it('treats wrong answers without a split as MCQ and marks the score estimated', () => {
+    expect(scoreEntry({ questionsAttempted: 10, correctAnswers: 7 })).toMatchObject({ incorrectMcq: 3, incorrectTita: 0, netScore: 18, isEstimated: true });
+    expect(scoreEntry({ questionsAttempted: 10, correctAnswers: 7, incorrectTita: 1 })).toMatchObject({ incorrectMcq: 2, incorrectTita: 1, netScore: 19, isEstimated: true });
+  });
+
+  it('clamps correct answers to the number attempted', () => {
+    expect(scoreEntry({ questionsAttempted: 5, correctAnswers: 6 })).toMatchObject({ correct: 5, incorrectMcq: 0, netScore: 15, accuracy: 100 });
+  });
+
+  it('scores an empty entry as zero rather than NaN', () => {
+    expect(scoreEntry({})).toMatchObject({ netScore: 0, maxScore: 0, accuracy: 0, netScorePercent: 0, attemptRate: 0, isEstimated: false });
+  });
+});
+
+describe('scoreEntries', () => {
+  it('pools the counts before scoring', () => {
+    const total = scoreEntries([
+      { questionsAttempted: 10, correctAnswers: 8, incorrectMcq: 2, incorrectTita: 0 },
+      { questionsAttempted: 10, correctAnswers: 4, skipped: 5 },
+    ]);
+
+    expect(total).toMatchObject({ attempted: 20, correct: 12, incorrectMcq: 8, skipped: 5, netScore: 28, maxScore: 75, accuracy: 60, isEstimated: true });
+  });
+});
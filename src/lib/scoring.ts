@@ -0,0 +1,73 @@
+import type { Entry } from '../types';
+import { CAT_MARKING } from './mockScoring';
+
+// --- SCORING ---
+// Raw accuracy treats every wrong answer alike. Under CAT marking a wrong MCQ
+// costs a mark and a wrong TITA costs nothing, so the net score is what
+// actually moves a percentile.
+
+export type ScoreBreakdown = {
+  attempted: number;
+  correct: number;
+  incorrectMcq: number;
+  incorrectTita: number;
+  skipped: number;
+  netScore: number;
+  maxScore: number;
+  marksLost: number;
+  accuracy: number;
+  netScorePercent: number;
+  attemptRate: number;
+  // True when some wrong answers had no MCQ/TITA split and were assumed MCQ.
+  isEstimated: boolean;
+};
+
+// Below these an entry is flagged in the table.
+export const RED_FLAG_ACCURACY = 60;
+export const RED_FLAG_NET_SCORE = 45;
+
+const counts = (entry: Partial<Entry>) => {
+  const attempted = entry.questionsAttempted || 0;
+  const correct = Math.min(entry.correctAnswers || 0, attempted);
+  const incorrectTita = entry.incorrectTita || 0;
+  const wrong = attempted - correct;
+  const unclassified = Math.max(wrong - (entry.incorrectMcq || 0) - incorrectTita, 0);
+  return {
+    attempted,
+    correct,
+    incorrectMcq: Math.max(wrong - incorrectTita, 0),
+    incorrectTita: Math.min(incorrectTita, wrong),
+    skipped: entry.skipped || 0,
+    isEstimated: unclassified > 0,
+  };
+};
+
+function summarize(c: ReturnType<typeof counts>): ScoreBreakdown {
+  const marksLost = -c.incorrectMcq * CAT_MARKING.incorrectMcq - c.incorrectTita * CAT_MARKING.incorrectTita;
+  const netScore = c.correct * CAT_MARKING.correct - marksLost;
+  const maxScore = (c.attempted + c.skipped) * CAT_MARKING.correct;
+  const seen = c.attempted + c.skipped;
+  return {
+    ...c,
+    netScore,
+    maxScore,
+    marksLost,
+    accuracy: c.attempted > 0 ? (c.correct / c.attempted) * 100 : 0,
+    netScorePercent: maxScore > 0 ? (netScore / maxScore) * 100 : 0,
+    attemptRate: seen > 0 ? (c.attempted / seen) * 100 : 0,
+  };
+}
+
+export const scoreEntry = (entry: Partial<Entry>) => summarize(counts(entry));
+
+export function scoreEntries(entries: Partial<Entry>[]): ScoreBreakdown {
+  const total = entries.map(counts).reduce((acc, c) => ({
+    attempted: acc.attempted + c.attempted,
+    correct: acc.correct + c.correct,
+    incorrectMcq: acc.incorrectMcq + c.incorrectMcq,
+    incorrectTita: acc.incorrectTita + c.incorrectTita,
+    skipped: acc.skipped + c.skipped,
+    isEstimated: acc.isEstimated || c.isEstimated,
+  }), { attempted: 0, correct: 0, incorrectMcq: 0, incorrectTita: 0, skipped: 0, isEstimated: false });
+  return summarize(total);
+}
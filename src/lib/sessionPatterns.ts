@@ -0,0 +1,169 @@
+import type { Entry, Subject } from '../types';
+import { summarizeMetrics } from './metrics';
+
+// --- SESSION PATTERNS ---
+// Splits practice by when a session started, on which weekday, how long it ran
+// and how fresh the student felt, so the windows that suit them stand out.
+// Entries logged before start times were recorded still count by weekday and
+// length; only the time-of-day breakdown leaves them out.
+
+// Buckets with fewer entries are shown but never recommended.
+export const MIN_BUCKET_ENTRIES = 3;
+// Accuracy gap, in percentage points, worth pointing out.
+const MIN_ACCURACY_GAP = 5;
+
+type Range = { id: string; label: string; from: number; to: number };
+
+// Start hours, [from, to).
+export const TIME_OF_DAY_BUCKETS: Range[] = [
+  { id: 'lateNight', label: 'Late night', from: 0, to: 5 },
+  { id: 'earlyMorning', label: 'Early morning', from: 5, to: 8 },
+  { id: 'morning', label: 'Morning', from: 8, to: 12 },
+  { id: 'afternoon', label: 'Afternoon', from: 12, to: 17 },
+  { id: 'evening', label: 'Evening', from: 17, to: 21 },
+  { id: 'night', label: 'Night', from: 21, to: 24 },
+];
+
+// Minutes, [from, to).
+export const SESSION_LENGTH_BUCKETS: Range[] = [
+  { id: 'under30', label: 'Under 30 min', from: 0, to: 30 },
+  { id: '30to60', label: '30–60 min', from: 30, to: 60 },
+  { id: '60to90', label: '60–90 min', from: 60, to: 90 },
+  { id: '90to120', label: '90–120 min', from: 90, to: 120 },
+  { id: 'over120', label: '120+ min', from: 120, to: Infinity },
+];
+
+// Energy ratings, inclusive.
+export const ENERGY_BUCKETS: Range[] = [
+  { id: 'low', label: 'Drained (1–2)', from: 1, to: 2 },
+  { id: 'okay', label: 'Okay (3)', from: 3, to: 3 },
+  { id: 'high', label: 'Fresh (4–5)', from: 4, to: 5 },
+];
+
+export const ENERGY_LEVELS = [
+  { value: 1, label: 'Exhausted' },
+  { value: 2, label: 'Tired' },
+  { value: 3, label: 'Okay' },
+  { value: 4, label: 'Fresh' },
+  { value: 5, label: 'Sharp' },
+];
+
+// Monday first; values are Date#getUTCDay numbers.
+const WEEKDAYS = [1, 2, 3, 4, 5, 6, 0].map(day => ({
+  day,
+  label: new Date(Date.UTC(2024, 0, 7 + day)).toLocaleDateString('en-US', { weekday: 'short', timeZone: 'UTC' }),
+}));
+
+export const startHour = (entry: Entry) => (entry.startTime ? Number(entry.startTime.slice(0, 2)) : null);
+
+export const hourRange = (bucket: Range) => `${String(bucket.from).padStart(2, '0')}:00–${String(bucket.to).padStart(2, '0')}:00`;
+
+export type PatternBucket = {
+  id: string;
+  label: string;
+  entries: number;
+  // Pooled over the bucket; null when it has no attempted questions or sets.
+  accuracy: number | null;
+  minutesPerSet: number | null;
+  // Average over the entries that have a rating.
+  energy: number | null;
+  sparse: boolean;
+};
+
+function summarizeBucket(id: string, label: string, entries: Entry[]): PatternBucket {
+  const metrics = summarizeMetrics(entries);
+  const rated = entries.filter(e => e.energy !== undefined);
+  return {
+    id,
+    label,
+    entries: entries.length,
+    accuracy: metrics.score.attempted > 0 ? metrics.score.accuracy : null,
+    minutesPerSet: metrics.totalSets > 0 ? metrics.avgSpeed : null,
+    energy: rated.length > 0 ? rated.reduce((sum, e) => sum + e.energy!, 0) / rated.length : null,
+    sparse: entries.length < MIN_BUCKET_ENTRIES,
+  };
+}
+
+const inRange = (value: number, range: Range, inclusive = false) => value >= range.from && (inclusive ? value <= range.to : value < range.to);
+
+export type SessionPatterns = {
+  entries: number;
+  // Entries with no start time, missing from the time-of-day breakdown.
+  untimed: number;
+  timeOfDay: PatternBucket[];
+  weekday: PatternBucket[];
+  length: PatternBucket[];
+  energy: PatternBucket[];
+  recommendations: string[];
+};
+
+const ranked = (buckets: PatternBucket[]) => buckets
+  .filter(b => !b.sparse && b.accuracy !== null)
+  .sort((a, b) => b.accuracy! - a.accuracy! || (a.minutesPerSet ?? Infinity) - (b.minutesPerSet ?? Infinity));
+
+const describe = (bucket: PatternBucket) =>
+  `${bucket.accuracy!.toFixed(0)}% accuracy${bucket.minutesPerSet !== null ? ` at ${bucket.minutesPerSet.toFixed(1)} min/set` : ''} over ${bucket.entries} entries`;
+
+// The best bucket, when it clearly beats the worst one.
+function bestWindow(buckets: PatternBucket[]) {
+  const candidates = ranked(buckets);
+  if (candidates.length < 2) return null;
+  const best = candidates[0];
+  const worst = candidates[candidates.length - 1];
+  return best.accuracy! - worst.accuracy! >= MIN_ACCURACY_GAP ? { best, worst } : null;
+}
+
+// The session length after which accuracy falls the most, if it falls enough;
+// on a tie the longer cutoff wins, as no sessions fell between the two.
+function lengthCutoff(entries: Entry[]) {
+  let found: { minutes: number; before: number; after: number } | null = null;
+  for (const minutes of [60, 90, 120]) {
+    const before = summarizeBucket('before', 'before', entries.filter(e => e.timeTaken < minutes));
+    const after = summarizeBucket('after', 'after', entries.filter(e => e.timeTaken >= minutes));
+    if (before.sparse || after.sparse || before.accuracy === null || after.accuracy === null) continue;
+    const drop = before.accuracy - after.accuracy;
+    if (drop >= MIN_ACCURACY_GAP && (!found || drop >= found.before - found.after)) found = { minutes, before: before.accuracy, after: after.accuracy };
+  }
+  return found;
+}
+
+export function sessionPatterns(entries: Entry[], subject: Subject | 'Overall'): SessionPatterns {
+  const selected = entries.filter(e => subject === 'Overall' || e.subject === subject);
+  const timed = selected.filter(e => startHour(e) !== null);
+  const lengths = selected.filter(e => e.timeTaken > 0);
+  const rated = selected.filter(e => e.energy !== undefined);
+
+  const timeOfDay = TIME_OF_DAY_BUCKETS.map(b => summarizeBucket(b.id, b.label, timed.filter(e => inRange(startHour(e)!, b))));
+  const weekday = WEEKDAYS.map(({ day, label }) => summarizeBucket(String(day), label, selected.filter(e => new Date(e.date).getUTCDay() === day)));
+  const length = SESSION_LENGTH_BUCKETS.map(b => summarizeBucket(b.id, b.label, lengths.filter(e => inRange(e.timeTaken, b))));
+  const energy = ENERGY_BUCKETS.map(b => summarizeBucket(b.id, b.label, rated.filter(e => inRange(e.energy!, b, true))));
+
+  const recommendations: string[] = [];
+  const what = subject === 'Overall' ? 'Practice' : `${subject} practice`;
+
+  const hours = bestWindow(timeOfDay);
+  if (hours) {
+    const range = hourRange(TIME_OF_DAY_BUCKETS.find(b => b.id === hours.best.id)!);
+    recommendations.push(`${what} goes best in the ${hours.best.label.toLowerCase()} (${range}): ${describe(hours.best)}, against ${hours.worst.accuracy!.toFixed(0)}% in the ${hours.worst.label.toLowerCase()}.`);
+  } else if (ranked(timeOfDay).length < 2) {
+    recommendations.push(`Record start times on more ${subject === 'Overall' ? '' : `${subject} `}entries to compare times of day.`);
+  }
+
+  const days = bestWindow(weekday);
+  if (days) recommendations.push(`${days.best.label} is your strongest day: ${describe(days.best)}; ${days.worst.label} is the weakest at ${days.worst.accuracy!.toFixed(0)}%.`);
+
+  const cutoff = lengthCutoff(lengths);
+  if (cutoff) {
+    recommendations.push(`Accuracy falls from ${cutoff.before.toFixed(0)}% to ${cutoff.after.toFixed(0)}% once a session reaches ${cutoff.minutes} minutes; break longer sessions up.`);
+  } else {
+    const best = ranked(length)[0];
+    if (best && ranked(length).length >= 2) recommendations.push(`${best.label} sessions work best: ${describe(best)}.`);
+  }
+
+  const [low, , high] = energy;
+  if (!low.sparse && !high.sparse && low.accuracy !== null && high.accuracy !== null && high.accuracy - low.accuracy >= MIN_ACCURACY_GAP) {
+    recommendations.push(`When drained you score ${low.accuracy.toFixed(0)}% against ${high.accuracy.toFixed(0)}% when fresh; keep tired sessions for review rather than new sets.`);
+  }
+
+  return { entries: selected.length, untimed: selected.length - timed.length, timeOfDay, weekday, length, energy, recommendations };
+}
@@ -0,0 +1,38 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { addLap, sessionToDraft, setDurations, startSession } from './sessionTimer';
+
+const MINUTE_MS = 60000;
+
+describe('setDurations', () => {
+  it('splits at set laps and closes the set in progress', () => {
+    const start = Date.UTC(2026, 9, 18, 10);
+    let session = startSession('QUANT', 'vaultSets', 'Algebra', start);
+    session = addLap(session, 'set', start + 20 * MINUTE_MS);
+    session = addLap(session, 'set', start + 45 * MINUTE_MS);
+
+    expect(setDurations(session, start + 60 * MINUTE_MS)).toEqual([1200, 1500, 900]);
+    // A set lapped moments before finishing is not followed by an empty one.
+    expect(setDurations(session, start + 45 * MINUTE_MS + 10000)).toEqual([1200, 1500]);
+  });
+});
+
+describe('sessionToDraft', () => {
+  const zone = process.env.TZ;
+  beforeAll(() => {
+    process.env.TZ = 'Asia/Kolkata';
+  });
+  afterAll(() => {
+    if (zone === undefined) delete process.env.TZ;
+    else process.env.TZ = zone;
+  });
+
+  it('dates a session by the local day it started on', () => {
+    // 02:00 on 19 October in India is still 18 October in UTC.
+    const start = Date.UTC(2026, 9, 18, 20, 30);
+    const session = addLap(startSession('LR', 'lrSets', 'Games', start), 'question', start + 5 * MINUTE_MS);
+    const draft = sessionToDraft(session, start + 40 * MINUTE_MS);
+
+    expect(draft).toMatchObject({ date: '2026-10-19', startTime: '02:00', subject: 'LR', topic: 'Games', timeTaken: 40, questionsAttempted: 1 });
+    expect(draft.sets).toEqual({ lrSets: 1 });
+  });
+});
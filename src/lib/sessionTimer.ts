@@ -0,0 +1,96 @@
+import type { Entry, SetType, Subject, TimerLap, TimerSession } from '../types';
+import { formatLocalDate, formatStartTime } from './utils';
+
+// --- SESSION TIMER ---
+// The session only stores wall-clock timestamps, so elapsed time is always
+// recomputed from `Date.now()` and keeps counting across reloads.
+
+export type EntryDraft = Partial<Omit<Entry, 'id'>>;
+
+// Finishing closes the set in progress unless a set was lapped moments ago.
+const MIN_TRAILING_SET_MS = 30000;
+
+export const startSession = (subject: Subject, setType: SetType, topic: string, now = Date.now()): TimerSession => ({
+  subject, setType, topic, startedAt: now, pausedAt: null, pausedMs: 0, laps: [],
+});
+
+export const activeMs = (session: TimerSession, now = Date.now()) =>
+  Math.max((session.pausedAt ?? now) - session.startedAt - session.pausedMs, 0);
+
+export const pauseSession = (session: TimerSession, now = Date.now()): TimerSession =>
+  session.pausedAt ? session : { ...session, pausedAt: now };
+
+export const resumeSession = (session: TimerSession, now = Date.now()): TimerSession =>
+  session.pausedAt ? { ...session, pausedAt: null, pausedMs: session.pausedMs + now - session.pausedAt } : session;
+
+export const addLap = (session: TimerSession, kind: TimerLap['kind'], now = Date.now()): TimerSession =>
+  session.pausedAt ? session : { ...session, laps: [...session.laps, { kind, at: activeMs(session, now) }] };
+
+const lapTimes = (session: TimerSession, kind: TimerLap['kind']) => session.laps.filter(l => l.kind === kind).map(l => l.at);
+const lastLap = (session: TimerSession, kind: TimerLap['kind']) => lapTimes(session, kind).pop() ?? 0;
+
+export const currentSetMs = (session: TimerSession, now = Date.now()) => activeMs(session, now) - lastLap(session, 'set');
+
+export const currentQuestionMs = (session: TimerSession, now = Date.now()) =>
+  activeMs(session, now) - Math.max(lastLap(session, 'set'), lastLap(session, 'question'));
+
+// Seconds per set, including the set still in progress when the session ends.
+export function setDurations(session: TimerSession, now = Date.now()) {
+  const marks = lapTimes(session, 'set');
+  const trailing = activeMs(session, now) - (marks[marks.length - 1] ?? 0);
+  if (marks.length === 0 || trailing >= MIN_TRAILING_SET_MS) marks.push(activeMs(session, now));
+  return marks.map((at, i) => Math.round((at - (i > 0 ? marks[i - 1] : 0)) / 1000));
+}
+
+export function sessionToDraft(session: TimerSession, now = Date.now()): EntryDraft {
+  const setTimes = setDurations(session, now);
+  const questions = lapTimes(session, 'question').length;
+  const started = new Date(session.startedAt);
+  // Both from the local clock, so a session just after local midnight is
+  // dated that day and lands in the right weekday and time-of-day buckets.
+  return {
+    date: formatLocalDate(started),
+    startTime: formatStartTime(started),
+    subject: session.subject,
+    topic: session.topic,
+    sets: { [session.setType]: setTimes.length },
+    timeTaken: Math.max(Math.round(activeMs(session, now) / 60000), 1),
+    ...(questions > 0 && { questionsAttempted: questions }),
+    setTimes,
+  };
+}
+
+export const formatClock = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const mmss = `${String(Math.floor((totalSeconds % 3600) / 60)).padStart(2, '0')}:${String(totalSeconds % 60).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+// --- SET TIME DISTRIBUTION ---
+export const SET_TIME_BUCKET_MINUTES = 2;
+
+export function setTimeDistribution(entries: Entry[], subject: Subject | 'Overall') {
+  const minutes = entries
+    .filter(e => e.setTimes?.length && (subject === 'Overall' || e.subject === subject))
+    .flatMap(e => e.setTimes!.map(seconds => seconds / 60));
+  if (minutes.length === 0) return null;
+
+  const sorted = [...minutes].sort((a, b) => a - b);
+  const quantile = (q: number) => sorted[Math.min(Math.floor(q * sorted.length), sorted.length - 1)];
+  const bucketCount = Math.floor(sorted[sorted.length - 1] / SET_TIME_BUCKET_MINUTES) + 1;
+  const buckets = Array.from({ length: bucketCount }, (_, i) => ({
+    name: `${i * SET_TIME_BUCKET_MINUTES}–${(i + 1) * SET_TIME_BUCKET_MINUTES}`,
+    sets: 0,
+  }));
+  sorted.forEach(m => { buckets[Math.floor(m / SET_TIME_BUCKET_MINUTES)].sets += 1; });
+
+  return {
+    buckets,
+    count: sorted.length,
+    median: quantile(0.5),
+    p25: quantile(0.25),
+    p75: quantile(0.75),
+    mean: sorted.reduce((sum, m) => sum + m, 0) / sorted.length,
+  };
+}
@@ -0,0 +1,52 @@
+import type { CanonicalTopic, Entry, ExamProfile, MockTest, Student, StudentSnapshot } from '../types';
+import { openEntryAdapter } from './adapters';
+import { ENTRIES_VERSION, entriesStore, examProfileStore, mocksStore, topicsStore } from './schema';
+import { loadStore, runMigrations, type StoreDefinition } from './storage';
+import { studentStores } from './students';
+
+// --- STUDENT SNAPSHOTS ---
+// A snapshot is everything the comparison view needs about one student,
+// frozen at export time. Opening one never writes it into the tracker, so a
+// shared file stays read-only for whoever receives it.
+
+export function buildSnapshot(student: Student, data: { profile: ExamProfile; entries: Entry[]; topics: CanonicalTopic[]; mocks: MockTest[] }): StudentSnapshot {
+  return { kind: 'cat-tracker-snapshot', version: ENTRIES_VERSION, exportedAt: new Date().toISOString(), student, ...data };
+}
+
+// Reads another student's data straight from storage.
+export async function loadStudentSnapshot(student: Student): Promise<StudentSnapshot> {
+  const stores = studentStores(student.id);
+  const adapter = await openEntryAdapter(student.id);
+  try {
+    const entries = await adapter.load();
+    return buildSnapshot(student, { profile: loadStore(stores.examProfile), entries, topics: loadStore(stores.topics), mocks: loadStore(stores.mocks) });
+  } finally {
+    adapter.close();
+  }
+}
+
+export const snapshotFileName = (snapshot: StudentSnapshot) =>
+  `${snapshot.student.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'student'}-snapshot-${snapshot.exportedAt.slice(0, 10)}.json`;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Entries from an older build are migrated like a stored value; records that
+// fail validation are dropped rather than quarantined, since nothing is saved.
+export function parseSnapshot(text: string): StudentSnapshot {
+  const raw: unknown = JSON.parse(text);
+  if (!isRecord(raw) || raw.kind !== 'cat-tracker-snapshot' || !isRecord(raw.student) || typeof raw.student.name !== 'string') {
+    throw new Error('Not a tracker snapshot');
+  }
+  const version = typeof raw.version === 'number' ? raw.version : 0;
+  const entries = version < ENTRIES_VERSION ? runMigrations(raw.entries, version, entriesStore as StoreDefinition<unknown>) : raw.entries;
+  return {
+    kind: 'cat-tracker-snapshot',
+    version: ENTRIES_VERSION,
+    exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+    student: { id: typeof raw.student.id === 'string' ? raw.student.id : raw.student.name, name: raw.student.name },
+    profile: examProfileStore.validate(raw.profile).value,
+    entries: entriesStore.validate(entries).value,
+    topics: topicsStore.validate(raw.topics ?? []).value,
+    mocks: mocksStore.validate(raw.mocks ?? []).value,
+  };
+}
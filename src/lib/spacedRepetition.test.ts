@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import type { Entry, ReviewCardState, ReviewGrade } from '../types';
+import { MIN_EASE, buildCards, cardIdFor, dueCards, previewIntervals, schedule } from './spacedRepetition';
+
+const TODAY = '2026-01-01';
+
+const review = (grades: ReviewGrade[]) => grades.reduce<ReviewCardState | null>((state, grade) => schedule(state, grade, TODAY), null);
+
+describe('schedule', () => {
+  it('grows the interval by the ease factor after the first two reviews', () => {
+    expect(review(['good'])).toMatchObject({ interval: 1, repetitions: 1, easeFactor: 2.5, due: '2026-01-02' });
+    expect(review(['good', 'good'])).toMatchObject({ interval: 6, repetitions: 2 });
+    expect(review(['good', 'good', 'good'])).toMatchObject({ interval: 15, repetitions: 3, due: '2026-01-16' });
+  });
+
+  it('adjusts the ease by how hard the recall was', () => {
+    expect(review(['easy'])!.easeFactor).toBeCloseTo(2.6);
+    expect(review(['hard'])!.easeFactor).toBeCloseTo(2.36);
+    expect(review(['again'])!.easeFactor).toBeCloseTo(1.96);
+  });
+
+  it('resets a forgotten card to one day and counts the lapse', () => {
+    expect(review(['good', 'good', 'good', 'again'])).toMatchObject({ interval: 1, repetitions: 0, lapses: 1 });
+  });
+
+  it('never lets the ease fall below the minimum', () => {
+    const hardCard: ReviewCardState = { easeFactor: 1.4, interval: 10, repetitions: 4, lapses: 3, due: TODAY, lastReviewed: TODAY };
+    expect(schedule(hardCard, 'again', TODAY).easeFactor).toBe(MIN_EASE);
+  });
+
+  it('stretches hard reviews less and easy reviews more than good ones', () => {
+    const state: ReviewCardState = { easeFactor: 2.5, interval: 10, repetitions: 3, lapses: 0, due: TODAY, lastReviewed: TODAY };
+    expect(previewIntervals(state, TODAY)).toEqual({ again: 1, hard: 12, good: 25, easy: 34 });
+    expect(previewIntervals(null, TODAY)).toEqual({ again: 1, hard: 1, good: 1, easy: 4 });
+  });
+});
+
+describe('buildCards', () => {
+  const entry = { id: 'e1', date: '2025-12-20', subject: 'QUANT', topic: 'Ratios', learnings: '- Draw the grid\n2) Check units\n\n' } as Entry;
+
+  it('makes a card per learning, due the day after the entry until reviewed', () => {
+    const id = cardIdFor('e1', 'Check units');
+    const cards = buildCards([entry], { states: { [id]: { ...review(['good'])!, due: '2026-01-05' } }, log: [] });
+
+    expect(cards.map(c => [c.text, c.due])).toEqual([['Draw the grid', '2025-12-21'], ['Check units', '2026-01-05']]);
+    expect(dueCards(cards, TODAY).map(c => c.text)).toEqual(['Draw the grid']);
+  });
+
+  it('keeps a card id when only case or spacing changes', () => {
+    expect(cardIdFor('e1', 'Draw the grid')).toBe(cardIdFor('e1', 'draw  the Grid'));
+    expect(cardIdFor('e1', 'Draw the grid')).not.toBe(cardIdFor('e2', 'Draw the grid'));
+  });
+});
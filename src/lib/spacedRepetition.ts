@@ -0,0 +1,106 @@
+import type { Entry, ReviewCardState, ReviewData, ReviewGrade, Subject } from '../types';
+import { addDays, formatDate } from './utils';
+
+// --- SPACED REPETITION ---
+// Every line of an entry's `learnings` becomes a card. Cards are identified by
+// entry id plus a hash of their text, so editing one learning only resets that
+// card. Scheduling follows SM-2: a card's interval grows by its ease factor on
+// each successful review and resets to one day when it is forgotten.
+
+export type ReviewCard = {
+  id: string;
+  entryId: string;
+  subject: Subject;
+  topic: string;
+  date: string;
+  text: string;
+  state: ReviewCardState | null;
+  due: string;
+};
+
+export const INITIAL_EASE = 2.5;
+export const MIN_EASE = 1.3;
+
+// SM-2 quality (0–5) for each button.
+const GRADE_QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+const HARD_MULTIPLIER = 1.2;
+const EASY_BONUS = 1.3;
+
+export const splitLearnings = (learnings: string) => learnings
+  .split(/\r?\n/)
+  .map(line => line.replace(/^\s*([-*•]|\d+[.)])\s*/, '').trim())
+  .filter(Boolean);
+
+const hashText = (text: string) => {
+  let hash = 5381;
+  const normalized = text.toLowerCase().replace(/\s+/g, ' ');
+  for (let i = 0; i < normalized.length; i++) hash = ((hash << 5) + hash + normalized.charCodeAt(i)) | 0;
+  return (hash >>> 0).toString(36);
+};
+
+export const cardIdFor = (entryId: string, text: string) => `${entryId}#${hashText(text)}`;
+
+export function buildCards(entries: Entry[], reviews: ReviewData): ReviewCard[] {
+  return entries.flatMap(entry => splitLearnings(entry.learnings).map(text => {
+    const id = cardIdFor(entry.id, text);
+    const state = reviews.states[id] ?? null;
+    return {
+      id,
+      entryId: entry.id,
+      subject: entry.subject,
+      topic: entry.topic,
+      date: entry.date,
+      text,
+      state,
+      due: state ? state.due : addDays(entry.date, 1),
+    };
+  }));
+}
+
+export const isDue = (card: ReviewCard, today = formatDate(new Date())) => card.due <= today;
+
+// Most overdue first, then oldest entry first.
+export const dueCards = (cards: ReviewCard[], today = formatDate(new Date())) =>
+  cards.filter(card => isDue(card, today)).sort((a, b) => a.due.localeCompare(b.due) || a.date.localeCompare(b.date));
+
+export function schedule(state: ReviewCardState | null, grade: ReviewGrade, today = formatDate(new Date())): ReviewCardState {
+  const previous = state ?? { easeFactor: INITIAL_EASE, interval: 0, repetitions: 0, lapses: 0, due: today, lastReviewed: today };
+  const quality = GRADE_QUALITY[grade];
+  const easeFactor = Math.max(MIN_EASE, previous.easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+
+  let interval: number;
+  let repetitions: number;
+  let lapses = previous.lapses;
+  if (quality < 3) {
+    repetitions = 0;
+    interval = 1;
+    lapses += 1;
+  } else {
+    repetitions = previous.repetitions + 1;
+    if (repetitions === 1) interval = grade === 'easy' ? 4 : 1;
+    else if (repetitions === 2) interval = grade === 'hard' ? 3 : 6;
+    else if (grade === 'hard') interval = Math.ceil(previous.interval * HARD_MULTIPLIER);
+    else interval = Math.round(previous.interval * easeFactor * (grade === 'easy' ? EASY_BONUS : 1));
+  }
+
+  return { easeFactor, interval, repetitions, lapses, due: addDays(today, interval), lastReviewed: today };
+}
+
+// Intervals each button would give, shown on the buttons before grading.
+export const previewIntervals = (state: ReviewCardState | null, today = formatDate(new Date())) =>
+  Object.fromEntries((Object.keys(GRADE_QUALITY) as ReviewGrade[]).map(grade => [grade, schedule(state, grade, today).interval])) as Record<ReviewGrade, number>;
+
+export function gradeCard(reviews: ReviewData, card: ReviewCard, grade: ReviewGrade, today = formatDate(new Date())): ReviewData {
+  const next = schedule(card.state, grade, today);
+  return {
+    states: { ...reviews.states, [card.id]: next },
+    log: [...reviews.log, { cardId: card.id, reviewedAt: new Date().toISOString(), grade, interval: next.interval }],
+  };
+}
+
+export function upcomingCounts(cards: ReviewCard[], days: number, today = formatDate(new Date())) {
+  return Array.from({ length: days }, (_, i) => {
+    const date = addDays(today, i);
+    return { date, count: cards.filter(c => (i === 0 ? c.due <= date : c.due === date)).length };
+  });
+}
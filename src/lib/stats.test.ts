@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { bandHalfWidth, linearFit, normalPValue, tCritical, tTestPValue, twoProportionTest, welchTTest } from './stats';
+
+describe('tTestPValue', () => {
+  it('matches two-sided Student t tables', () => {
+    expect(tTestPValue(0, 5)).toBeCloseTo(1, 6);
+    expect(tTestPValue(2.571, 5)).toBeCloseTo(0.05, 3);
+    expect(tTestPValue(2.228, 10)).toBeCloseTo(0.05, 3);
+    expect(tTestPValue(3.169, 10)).toBeCloseTo(0.01, 3);
+    expect(tTestPValue(1.96, 100000)).toBeCloseTo(0.05, 3);
+  });
+
+  it('is symmetric in the sign of t', () => {
+    expect(tTestPValue(-2.1, 7)).toBeCloseTo(tTestPValue(2.1, 7), 12);
+  });
+});
+
+describe('tCritical', () => {
+  it('matches two-sided critical values', () => {
+    expect(tCritical(1)).toBeCloseTo(12.706, 2);
+    expect(tCritical(5)).toBeCloseTo(2.571, 3);
+    expect(tCritical(30)).toBeCloseTo(2.042, 3);
+    expect(tCritical(10, 0.99)).toBeCloseTo(3.169, 3);
+  });
+
+  it('round-trips through the p-value', () => {
+    expect(tTestPValue(tCritical(12, 0.9), 12)).toBeCloseTo(0.1, 8);
+  });
+});
+
+describe('normalPValue', () => {
+  it('matches the standard normal', () => {
+    expect(normalPValue(0)).toBeCloseTo(1, 6);
+    expect(normalPValue(1.96)).toBeCloseTo(0.05, 3);
+    expect(normalPValue(-2.576)).toBeCloseTo(0.01, 3);
+  });
+});
+
+describe('welchTTest', () => {
+  it('needs two values on each side', () => {
+    expect(welchTTest([1], [1, 2])).toBeNull();
+  });
+
+  it('handles samples with no spread', () => {
+    expect(welchTTest([3, 3], [3, 3])).toBe(1);
+    expect(welchTTest([3, 3], [4, 4])).toBe(0);
+  });
+
+  it('matches a worked example', () => {
+    // t = 3, df = 8 for these samples.
+    expect(welchTTest([10, 12, 11, 9, 13], [14, 12, 15, 13, 16])).toBeCloseTo(0.0171, 3);
+  });
+});
+
+describe('twoProportionTest', () => {
+  it('needs attempts on both sides', () => {
+    expect(twoProportionTest(1, 0, 1, 2)).toBeNull();
+  });
+
+  it('matches a worked example', () => {
+    // 45/100 against 60/100: z ≈ 2.12.
+    expect(twoProportionTest(45, 100, 60, 100)).toBeCloseTo(0.0339, 3);
+    expect(twoProportionTest(5, 10, 5, 10)).toBeCloseTo(1, 6);
+  });
+});
+
+describe('linearFit', () => {
+  it('needs three points spread along x', () => {
+    expect(linearFit([{ x: 0, y: 1 }, { x: 1, y: 2 }])).toBeNull();
+    expect(linearFit([{ x: 1, y: 1 }, { x: 1, y: 2 }, { x: 1, y: 3 }])).toBeNull();
+  });
+
+  it('fits a noisy line with a band that widens away from the mean', () => {
+    const fit = linearFit([{ x: 0, y: 1 }, { x: 1, y: 3 }, { x: 2, y: 2 }, { x: 3, y: 5 }, { x: 4, y: 4 }])!;
+
+    expect(fit.slope).toBeCloseTo(0.8, 10);
+    expect(fit.intercept).toBeCloseTo(1.4, 10);
+    expect(fit.critical).toBeCloseTo(3.182, 3);
+    expect(fit.slopePValue).toBeCloseTo(0.1041, 3);
+    expect(bandHalfWidth(fit, 4)).toBeGreaterThan(bandHalfWidth(fit, 2));
+  });
+
+  it('reports an exact line as certain', () => {
+    const fit = linearFit([{ x: 0, y: 1 }, { x: 1, y: 3 }, { x: 2, y: 5 }])!;
+    expect(fit.slopePValue).toBe(0);
+    expect(bandHalfWidth(fit, 1)).toBe(0);
+  });
+});
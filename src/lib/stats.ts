@@ -0,0 +1,129 @@
+// --- STATISTICS ---
+// Just enough distribution maths for trend bands and period comparisons,
+// so the app doesn't pull in a stats library.
+
+// Lanczos approximation (g = 7).
+const LANCZOS = [0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7];
+
+function logGamma(x: number): number {
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  const z = x - 1;
+  let sum = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) sum += LANCZOS[i] / (z + i);
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+// Continued fraction for the incomplete beta function (modified Lentz).
+function betaContinuedFraction(a: number, b: number, x: number): number {
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  d = 1 / (Math.abs(d) < tiny ? tiny : d);
+  let h = d;
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    for (const aa of [(m * (b - m) * x) / ((a + m2 - 1) * (a + m2)), (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1))]) {
+      d = 1 + aa * d;
+      d = 1 / (Math.abs(d) < tiny ? tiny : d);
+      c = 1 + aa / c;
+      if (Math.abs(c) < tiny) c = tiny;
+      h *= d * c;
+    }
+    if (Math.abs(d * c - 1) < 1e-12) break;
+  }
+  return h;
+}
+
+function incompleteBeta(a: number, b: number, x: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(a, b, x)) / a
+    : 1 - (front * betaContinuedFraction(b, a, 1 - x)) / b;
+}
+
+// Two-sided p-value of a Student t statistic.
+export const tTestPValue = (t: number, df: number) => incompleteBeta(df / 2, 0.5, df / (df + t * t));
+
+// Critical value for a two-sided interval, found by bisection.
+export function tCritical(df: number, confidence = 0.95): number {
+  const alpha = 1 - confidence;
+  let lo = 0;
+  let hi = 1000;
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    if (tTestPValue(mid, df) > alpha) lo = mid; else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+// Abramowitz & Stegun 7.1.26; accurate to ~1e-7, plenty for p-values.
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+export const normalPValue = (z: number) => 2 * (1 - normalCdf(Math.abs(z)));
+
+export const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0);
+
+const variance = (values: number[]) => {
+  const m = mean(values);
+  return values.length > 1 ? values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1) : 0;
+};
+
+export function welchTTest(a: number[], b: number[]): number | null {
+  if (a.length < 2 || b.length < 2) return null;
+  const va = variance(a) / a.length;
+  const vb = variance(b) / b.length;
+  if (va + vb === 0) return mean(a) === mean(b) ? 1 : 0;
+  const t = (mean(b) - mean(a)) / Math.sqrt(va + vb);
+  const df = (va + vb) ** 2 / ((va ** 2) / (a.length - 1) + (vb ** 2) / (b.length - 1));
+  return tTestPValue(t, df);
+}
+
+export function twoProportionTest(successA: number, totalA: number, successB: number, totalB: number): number | null {
+  if (totalA === 0 || totalB === 0) return null;
+  const pooled = (successA + successB) / (totalA + totalB);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / totalA + 1 / totalB));
+  if (se === 0) return successA / totalA === successB / totalB ? 1 : 0;
+  return normalPValue((successB / totalB - successA / totalA) / se);
+}
+
+export type LinearFit = {
+  slope: number;
+  intercept: number;
+  n: number;
+  xMean: number;
+  sxx: number;
+  // Residual standard error.
+  se: number;
+  slopePValue: number;
+  // t critical value for the 95% band.
+  critical: number;
+};
+
+// Ordinary least squares; needs three distinct x values for an error estimate.
+export function linearFit(points: { x: number; y: number }[]): LinearFit | null {
+  const n = points.length;
+  if (n < 3) return null;
+  const xMean = mean(points.map(p => p.x));
+  const yMean = mean(points.map(p => p.y));
+  const sxx = points.reduce((sum, p) => sum + (p.x - xMean) ** 2, 0);
+  if (sxx === 0) return null;
+  const slope = points.reduce((sum, p) => sum + (p.x - xMean) * (p.y - yMean), 0) / sxx;
+  const intercept = yMean - slope * xMean;
+  const sse = points.reduce((sum, p) => sum + (p.y - (intercept + slope * p.x)) ** 2, 0);
+  const se = Math.sqrt(sse / (n - 2));
+  const slopeSe = se / Math.sqrt(sxx);
+  const slopePValue = slopeSe === 0 ? (slope === 0 ? 1 : 0) : tTestPValue(slope / slopeSe, n - 2);
+  return { slope, intercept, n, xMean, sxx, se, slopePValue, critical: tCritical(n - 2) };
+}
+
+// 95% confidence band half-width for the fitted mean at x.
+export const bandHalfWidth = (fit: LinearFit, x: number) =>
+  fit.critical * fit.se * Math.sqrt(1 / fit.n + (x - fit.xMean) ** 2 / fit.sxx);
@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ENTRIES_VERSION, entriesStore } from './schema';
+import { listBackups, listQuarantine, loadStore, restoreBackup, saveStore, type Migration, type StoreDefinition } from './storage';
+
+let items: Map<string, string>;
+
+beforeEach(() => {
+  items = new Map();
+  vi.stubGlobal('window', {
+    localStorage: {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => void items.set(key, value),
+      removeItem: (key: string) => void items.delete(key),
+    },
+  });
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+const stored = (key: string) => JSON.parse(items.get(key)!);
+
+// A list of numbers at v2, where v1 → v2 doubled every value.
+const numbersStore = (migrations: Migration[] = [{ version: 2, migrate: data => (data as number[]).map(n => n * 2) }]): StoreDefinition<number[]> => ({
+  key: 'test-numbers',
+  version: 2,
+  migrations,
+  validate: data => {
+    const list = Array.isArray(data) ? data : [];
+    return {
+      value: list.filter((n): n is number => typeof n === 'number'),
+      rejected: list.filter(n => typeof n !== 'number').map(raw => ({ raw, errors: ['Not a number'] })),
+    };
+  },
+  fallback: [],
+});
+
+describe('loadStore', () => {
+  it('migrates unversioned entries to the current version and backs up the original', () => {
+    const legacy = JSON.stringify([{ id: 'e1', date: '2026-01-05', subject: 'QA', lrSets: '2', diSets: 1, timeTaken: '30', questionsAttempted: 10, correctAnswers: 7 }]);
+    items.set(entriesStore.key, legacy);
+
+    expect(loadStore(entriesStore)).toEqual([{
+      id: 'e1', date: '2026-01-05', subject: 'QA', topic: '', learnings: '', isWeakTopic: false, confidence: 3,
+      sets: { lrSets: 2, diSets: 1, vaultSets: 0, sectionalSets: 0 }, timeTaken: 30, questionsAttempted: 10, correctAnswers: 7,
+    }]);
+    expect(stored(entriesStore.key).version).toBe(ENTRIES_VERSION);
+    expect(listBackups(entriesStore.key)).toMatchObject([{ version: 0, raw: legacy, reason: `Before migration v0 → v${ENTRIES_VERSION}` }]);
+    expect(listQuarantine()).toEqual([]);
+  });
+
+  it('keeps the stored data and quarantines it when a migration throws', () => {
+    const store = numbersStore([{ version: 2, migrate: () => { throw new Error('broken'); } }]);
+    const raw = JSON.stringify({ version: 1, savedAt: '2026-01-01T00:00:00Z', data: [1, 2] });
+    items.set(store.key, raw);
+
+    expect(loadStore(store)).toEqual([]);
+    expect(items.get(store.key)).toBe(raw);
+    expect(listQuarantine(store.key)).toMatchObject([{ raw: [1, 2], errors: ['Migration from v1 failed'] }]);
+    expect(listBackups(store.key)).toMatchObject([{ raw }]);
+  });
+
+  it('quarantines records that fail validation and saves the rest', () => {
+    const store = numbersStore();
+    items.set(store.key, JSON.stringify({ version: 2, savedAt: '2026-01-01T00:00:00Z', data: [1, 'two', 3] }));
+
+    expect(loadStore(store)).toEqual([1, 3]);
+    expect(listQuarantine(store.key)).toMatchObject([{ raw: 'two', errors: ['Not a number'] }]);
+    expect(stored(store.key)).toMatchObject({ version: 2, data: [1, 3] });
+  });
+
+  it('reads data from a newer version without writing it back', () => {
+    const store = numbersStore();
+    const raw = JSON.stringify({ version: 3, savedAt: '2026-01-01T00:00:00Z', data: [1, 'two'] });
+    items.set(store.key, raw);
+
+    expect(loadStore(store)).toEqual([1]);
+    expect(items.get(store.key)).toBe(raw);
+    expect(listQuarantine()).toEqual([]);
+
+    saveStore(store, [5]);
+    expect(listBackups(store.key)).toMatchObject([{ version: 3, raw, reason: 'Before overwriting v3 data' }]);
+  });
+});
+
+describe('restoreBackup', () => {
+  it('restores a snapshot after backing up what it replaces', () => {
+    const store = numbersStore();
+    saveStore(store, [1]);
+    saveStore(store, [2]);
+    const [daily] = listBackups(store.key);
+    expect(JSON.parse(daily.raw).data).toEqual([1]);
+
+    restoreBackup(daily.id);
+
+    expect(loadStore(store)).toEqual([1]);
+    const [before] = listBackups(store.key);
+    expect(before.reason).toBe('Before restore');
+    expect(JSON.parse(before.raw).data).toEqual([2]);
+  });
+});
@@ -0,0 +1,294 @@
+import { createRecordId } from './utils';
+
+// --- VERSIONED STORAGE ---
+// Every persisted value is wrapped in an envelope carrying its schema version.
+// On load the envelope is migrated up to the current version, each record is
+// validated, and anything that fails validation is moved to a quarantine list
+// instead of being dropped. Rolling snapshots are kept so a bad write or a bad
+// migration can always be rolled back from the UI.
+
+export type Migration = {
+  version: number;
+  migrate: (data: unknown) => unknown;
+};
+
+export type ValidationResult<T> = {
+  value: T;
+  rejected: { raw: unknown; errors: string[] }[];
+};
+
+export type StoreDefinition<T> = {
+  key: string;
+  version: number;
+  migrations: Migration[];
+  validate: (data: unknown) => ValidationResult<T>;
+  fallback: T;
+};
+
+type Envelope = {
+  version: number;
+  savedAt: string;
+  data: unknown;
+};
+
+export type BackupSnapshot = {
+  id: string;
+  key: string;
+  createdAt: string;
+  reason: string;
+  version: number;
+  raw: string;
+};
+
+export type QuarantinedRecord = {
+  id: string;
+  key: string;
+  quarantinedAt: string;
+  errors: string[];
+  raw: unknown;
+};
+
+export const BACKUPS_KEY = 'cat-tracker-backups';
+export const QUARANTINE_KEY = 'cat-tracker-quarantine';
+
+export const MAX_BACKUPS_PER_KEY = 10;
+const BACKUP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+const listeners = new Map<string, Set<() => void>>();
+
+export function subscribe(key: string, listener: () => void) {
+  if (!listeners.has(key)) listeners.set(key, new Set());
+  listeners.get(key)!.add(listener);
+  return () => {
+    listeners.get(key)?.delete(listener);
+  };
+}
+
+export function notify(key: string) {
+  listeners.get(key)?.forEach(listener => listener());
+}
+
+// --- WRITE FAILURES ---
+// Browser storage can be full or switched off. The last failed write is kept
+// so the UI can tell the user, instead of changes quietly not being saved; it
+// clears once that key saves again.
+export const WRITE_FAILURE_KEY = 'cat-tracker-write-failure';
+
+export type WriteFailure = { key: string; message: string; quota: boolean };
+
+let writeFailure: WriteFailure | null = null;
+
+export const lastWriteFailure = () => writeFailure;
+
+export function reportWriteFailure(key: string, error: unknown) {
+  console.error(error);
+  const quota = error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+  writeFailure = { key, message: error instanceof Error ? error.message : String(error), quota };
+  notify(WRITE_FAILURE_KEY);
+}
+
+export function clearWriteFailure(key?: string) {
+  if (!writeFailure || (key && writeFailure.key !== key)) return;
+  writeFailure = null;
+  notify(WRITE_FAILURE_KEY);
+}
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const item = window.localStorage.getItem(key);
+    return item ? JSON.parse(item) : fallback;
+  } catch (error) {
+    console.error(error);
+    return fallback;
+  }
+}
+
+function writeRaw(key: string, raw: string) {
+  try {
+    window.localStorage.setItem(key, raw);
+    clearWriteFailure(key);
+    return true;
+  } catch (error) {
+    reportWriteFailure(key, error);
+    return false;
+  }
+}
+
+const writeJson = (key: string, value: unknown) => writeRaw(key, JSON.stringify(value));
+
+function isEnvelope(value: unknown): value is Envelope {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    && typeof (value as Envelope).version === 'number' && 'data' in value;
+}
+
+// --- BACKUPS ---
+export function listBackups(key?: string): BackupSnapshot[] {
+  const backups = readJson<BackupSnapshot[]>(BACKUPS_KEY, []);
+  return key ? backups.filter(b => b.key === key) : backups;
+}
+
+function writeBackup(key: string, raw: string, version: number, reason: string) {
+  const backups = listBackups();
+  const snapshot: BackupSnapshot = { id: createRecordId(), key, createdAt: new Date().toISOString(), reason, version, raw };
+  const forKey = [snapshot, ...backups.filter(b => b.key === key)].slice(0, MAX_BACKUPS_PER_KEY);
+  writeJson(BACKUPS_KEY, [...forKey, ...backups.filter(b => b.key !== key)]);
+  notify(BACKUPS_KEY);
+}
+
+export function createBackup(key: string, reason: string) {
+  const raw = window.localStorage.getItem(key);
+  if (raw === null) return;
+  let version = 0;
+  try {
+    const parsed = JSON.parse(raw);
+    if (isEnvelope(parsed)) version = parsed.version;
+  } catch {
+    // Unreadable values are still worth keeping verbatim.
+  }
+  writeBackup(key, raw, version, reason);
+}
+
+// The value being replaced is backed up first. Entries under IndexedDB are
+// restored through their adapter instead (see readSnapshot).
+export function restoreBackup(id: string) {
+  const snapshot = listBackups().find(b => b.id === id);
+  if (!snapshot) return;
+  createBackup(snapshot.key, 'Before restore');
+  if (writeRaw(snapshot.key, snapshot.raw)) notify(snapshot.key);
+}
+
+export function deleteBackup(id: string) {
+  writeJson(BACKUPS_KEY, listBackups().filter(b => b.id !== id));
+  notify(BACKUPS_KEY);
+}
+
+// --- QUARANTINE ---
+export function listQuarantine(key?: string): QuarantinedRecord[] {
+  const records = readJson<QuarantinedRecord[]>(QUARANTINE_KEY, []);
+  return key ? records.filter(r => r.key === key) : records;
+}
+
+export function quarantine(key: string, rejected: ValidationResult<unknown>['rejected']) {
+  if (rejected.length === 0) return;
+  const quarantinedAt = new Date().toISOString();
+  const records = rejected.map(({ raw, errors }) => ({ id: createRecordId(), key, quarantinedAt, errors, raw }));
+  writeJson(QUARANTINE_KEY, [...listQuarantine(), ...records]);
+  notify(QUARANTINE_KEY);
+}
+
+export function discardQuarantined(id: string) {
+  writeJson(QUARANTINE_KEY, listQuarantine().filter(r => r.id !== id));
+  notify(QUARANTINE_KEY);
+}
+
+// Drops the backups and quarantined records kept for these keys, for data that
+// is being removed for good.
+export function forgetKeys(keys: string[]) {
+  const forgotten = new Set(keys);
+  writeJson(BACKUPS_KEY, listBackups().filter(b => !forgotten.has(b.key)));
+  writeJson(QUARANTINE_KEY, listQuarantine().filter(r => !forgotten.has(r.key)));
+  notify(BACKUPS_KEY);
+  notify(QUARANTINE_KEY);
+}
+
+export const isSnapshotDueAfter = (latest: BackupSnapshot | undefined) =>
+  !latest || Date.now() - new Date(latest.createdAt).getTime() > BACKUP_INTERVAL_MS;
+
+export const isSnapshotDue = (key: string) => isSnapshotDueAfter(listBackups(key)[0]);
+
+const toEnvelope = <T,>(store: StoreDefinition<T>, value: T): Envelope => ({ version: store.version, savedAt: new Date().toISOString(), data: value });
+
+export const createSnapshot = <T,>(store: StoreDefinition<T>, value: T, reason: string): BackupSnapshot => ({
+  id: createRecordId(), key: store.key, createdAt: new Date().toISOString(), reason, version: store.version, raw: JSON.stringify(toEnvelope(store, value)),
+});
+
+// Snapshots a value that is not saved as it stands, so it can be restored
+// through the same backup list.
+export function snapshotValue<T>(store: StoreDefinition<T>, value: T, reason: string) {
+  writeBackup(store.key, JSON.stringify(toEnvelope(store, value)), store.version, reason);
+}
+
+// The value a snapshot holds, migrated and validated like a load, or null
+// when it cannot be read. Records that fail validation are left out.
+export function readSnapshot<T>(store: StoreDefinition<T>, snapshot: BackupSnapshot): T | null {
+  try {
+    const parsed: unknown = JSON.parse(snapshot.raw);
+    const { version, data } = isEnvelope(parsed) ? parsed : { version: 0, data: parsed };
+    if (version > store.version) return store.validate(data).value;
+    return store.validate(runMigrations(data, version, store as StoreDefinition<unknown>)).value;
+  } catch (error) {
+    console.error(error);
+    return null;
+  }
+}
+
+// --- LOAD & SAVE ---
+export function runMigrations(data: unknown, from: number, store: StoreDefinition<unknown>) {
+  return [...store.migrations]
+    .filter(m => m.version > from && m.version <= store.version)
+    .sort((a, b) => a.version - b.version)
+    .reduce((current, m) => m.migrate(current), data);
+}
+
+export function loadStore<T>(store: StoreDefinition<T>): T {
+  if (typeof window === 'undefined') return store.fallback;
+
+  const raw = window.localStorage.getItem(store.key);
+  if (raw === null) return store.fallback;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    writeBackup(store.key, raw, 0, 'Unreadable data');
+    quarantine(store.key, [{ raw, errors: ['Stored value is not valid JSON'] }]);
+    window.localStorage.removeItem(store.key);
+    return store.fallback;
+  }
+
+  // Data written before versioning is a bare value: treat it as version 0.
+  const { version, data } = isEnvelope(parsed) ? parsed : { version: 0, data: parsed };
+  let migrated = data;
+  if (version < store.version) {
+    writeBackup(store.key, raw, version, `Before migration v${version} → v${store.version}`);
+    try {
+      migrated = runMigrations(data, version, store as StoreDefinition<unknown>);
+    } catch (error) {
+      console.error(error);
+      quarantine(store.key, [{ raw: data, errors: [`Migration from v${version} failed`] }]);
+      return store.fallback;
+    }
+  } else if (version > store.version) {
+    // Left as stored: rewriting it as the older version would have the newer
+    // build migrate it a second time. Records this build cannot read are
+    // skipped for now rather than quarantined.
+    console.warn(`${store.key} was written by a newer schema (v${version}); reading it as v${store.version} without saving.`);
+    return store.validate(data).value;
+  }
+
+  const { value, rejected } = store.validate(migrated);
+  quarantine(store.key, rejected);
+  if (version !== store.version || rejected.length > 0) {
+    writeJson(store.key, toEnvelope(store, value));
+  }
+  return value;
+}
+
+// Version of the stored envelope, or null when there is none.
+function storedVersion(key: string): number | null {
+  const raw = window.localStorage.getItem(key);
+  if (raw === null) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    return isEnvelope(parsed) ? parsed.version : 0;
+  } catch {
+    return null;
+  }
+}
+
+export function saveStore<T>(store: StoreDefinition<T>, value: T) {
+  const previous = storedVersion(store.key);
+  if (previous !== null && previous > store.version) createBackup(store.key, `Before overwriting v${previous} data`);
+  else if (isSnapshotDue(store.key)) createBackup(store.key, 'Daily snapshot');
+  writeJson(store.key, toEnvelope(store, value));
+}
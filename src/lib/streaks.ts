@@ -0,0 +1,106 @@
+import type { Entry, HeatmapMetric, StreakSettings, Subject } from '../types';
+import { addDays, calculateTotalSets, formatDate } from './utils';
+
+// --- STREAKS & CONSISTENCY ---
+// A day counts towards a streak when its sets reach the daily target. Rest
+// days neither extend nor break a streak unless the target was met anyway,
+// and today only breaks the current streak once it is over.
+
+export type DayActivity = {
+  date: string;
+  sets: number;
+  minutes: number;
+  bySubject: Record<Subject, { sets: number; minutes: number }>;
+};
+
+export type StreakSummary = {
+  current: number;
+  longest: number;
+  consistency: number;
+  daysMet: number;
+  daysCounted: number;
+};
+
+export const CONSISTENCY_WINDOW_DAYS = 28;
+export const HEATMAP_WEEKS = 53;
+
+export function dailyActivity(entries: Entry[]) {
+  const days = new Map<string, DayActivity>();
+  entries.forEach(entry => {
+    const day = days.get(entry.date) ?? { date: entry.date, sets: 0, minutes: 0, bySubject: {} };
+    const sets = calculateTotalSets(entry);
+    const subject = day.bySubject[entry.subject] ?? { sets: 0, minutes: 0 };
+    day.sets += sets;
+    day.minutes += entry.timeTaken;
+    day.bySubject[entry.subject] = { sets: subject.sets + sets, minutes: subject.minutes + entry.timeTaken };
+    days.set(entry.date, day);
+  });
+  return days;
+}
+
+export const isRestDay = (date: string, restDays: number[]) => restDays.includes(new Date(date).getUTCDay());
+
+type DayStatus = 'met' | 'rest' | 'pending' | 'missed';
+
+function dayStatus(date: string, activity: Map<string, DayActivity>, dailyTarget: number, settings: StreakSettings, today: string): DayStatus {
+  if ((activity.get(date)?.sets ?? 0) >= dailyTarget) return 'met';
+  if (isRestDay(date, settings.restDays)) return 'rest';
+  return date === today ? 'pending' : 'missed';
+}
+
+export function summarizeStreaks(activity: Map<string, DayActivity>, dailyTarget: number, settings: StreakSettings, today = formatDate(new Date())): StreakSummary {
+  const status = (date: string) => dayStatus(date, activity, dailyTarget, settings, today);
+  const first = Array.from(activity.keys()).sort()[0];
+
+  let current = 0;
+  for (let date = today; first && date >= first; date = addDays(date, -1)) {
+    const s = status(date);
+    if (s === 'missed') break;
+    if (s === 'met') current += 1;
+  }
+
+  let longest = 0;
+  let run = 0;
+  for (let date = first; first && date <= today; date = addDays(date, 1)) {
+    const s = status(date);
+    if (s === 'met') longest = Math.max(longest, ++run);
+    else if (s === 'missed') run = 0;
+  }
+
+  // Rolling score: the average share of the target reached on each non-rest
+  // day of the window, so a near miss counts for more than a blank day.
+  let credit = 0;
+  let daysMet = 0;
+  let daysCounted = 0;
+  for (let i = 0; i < CONSISTENCY_WINDOW_DAYS; i++) {
+    const date = addDays(today, -i);
+    const s = status(date);
+    if (s === 'rest' || s === 'pending') continue;
+    daysCounted += 1;
+    if (s === 'met') daysMet += 1;
+    credit += Math.min((activity.get(date)?.sets ?? 0) / dailyTarget, 1);
+  }
+
+  return {
+    current,
+    longest: Math.max(longest, current),
+    consistency: daysCounted > 0 ? (credit / daysCounted) * 100 : 0,
+    daysMet,
+    daysCounted,
+  };
+}
+
+// --- HEATMAP ---
+// Columns are weeks starting on Sunday; days after today are null.
+export function heatmapWeeks(today = formatDate(new Date()), weeks = HEATMAP_WEEKS) {
+  const start = addDays(today, -((weeks - 1) * 7 + new Date(today).getUTCDay()));
+  return Array.from({ length: weeks }, (_, w) => Array.from({ length: 7 }, (_, d) => {
+    const date = addDays(start, w * 7 + d);
+    return date <= today ? date : null;
+  }));
+}
+
+export const activityValue = (day: DayActivity | undefined, metric: HeatmapMetric) => (day ? (metric === 'sets' ? day.sets : day.minutes) : 0);
+
+// Shade 0 is an empty day; 1–4 split the range up to the busiest day.
+export const intensityLevel = (value: number, max: number) => (value <= 0 || max <= 0 ? 0 : Math.min(Math.ceil((value / max) * 4), 4));
@@ -0,0 +1,73 @@
+import type { StudentDirectory } from '../types';
+import {
+  DEFAULT_STUDENT_ID, dailyTargetStore, entriesStore, examProfileStore, materialsStore, mocksStore, plannerStore, quadrantThresholdsStore, remindersStore, reviewsStore,
+  savedViewsStore, streakSettingsStore, syncJournalStore, syncSettingsStore, timerStore, tombstonesStore, topicsStore, trashStore, trendTargetsStore,
+} from './schema';
+import { forgetKeys, type StoreDefinition } from './storage';
+import { createRecordId } from './utils';
+
+// --- STUDENTS ---
+// A student's stores are the base definitions with the student id appended to
+// the key. The default student keeps the bare keys, so data written before
+// there were students simply belongs to the first one.
+
+export const studentKey = (key: string, studentId: string) => (studentId === DEFAULT_STUDENT_ID ? key : `${key}:${studentId}`);
+
+const scoped = new Map<string, StoreDefinition<unknown>>();
+
+// Memoised so each student's definition keeps one identity; the persistence
+// hooks resubscribe whenever the definition they are given changes.
+export function forStudent<T>(store: StoreDefinition<T>, studentId: string): StoreDefinition<T> {
+  const key = studentKey(store.key, studentId);
+  if (key === store.key) return store;
+  if (!scoped.has(key)) scoped.set(key, { ...store, key } as StoreDefinition<unknown>);
+  return scoped.get(key) as StoreDefinition<T>;
+}
+
+// Everything that belongs to a student. Coach settings stay shared: they
+// describe the model server on this device, not the person practising.
+const STUDENT_STORES = {
+  entries: entriesStore,
+  dailyTarget: dailyTargetStore,
+  mocks: mocksStore,
+  topics: topicsStore,
+  reviews: reviewsStore,
+  planner: plannerStore,
+  streakSettings: streakSettingsStore,
+  timer: timerStore,
+  savedViews: savedViewsStore,
+  trash: trashStore,
+  trendTargets: trendTargetsStore,
+  quadrantThresholds: quadrantThresholdsStore,
+  examProfile: examProfileStore,
+  reminders: remindersStore,
+  syncSettings: syncSettingsStore,
+  syncJournal: syncJournalStore,
+  tombstones: tombstonesStore,
+  materials: materialsStore,
+};
+
+export type StudentStores = typeof STUDENT_STORES;
+
+export const studentStores = (studentId: string) => Object.fromEntries(
+  Object.entries(STUDENT_STORES).map(([name, store]) => [name, forStudent(store as StoreDefinition<unknown>, studentId)]),
+) as StudentStores;
+
+export function addStudent(directory: StudentDirectory, name: string): StudentDirectory {
+  const student = { id: createRecordId(), name };
+  return { students: [...directory.students, student], activeId: student.id };
+}
+
+export function removeStudent(directory: StudentDirectory, studentId: string): StudentDirectory {
+  const students = directory.students.filter(s => s.id !== studentId);
+  if (students.length === 0) return directory;
+  return { students, activeId: directory.activeId === studentId ? students[0].id : directory.activeId };
+}
+
+// Entries live in IndexedDB (see adapters); this clears the localStorage side,
+// along with the backups and quarantined records taken of the student's stores.
+export function clearStudentStores(studentId: string) {
+  const keys = Object.values(studentStores(studentId)).map(store => store.key);
+  keys.forEach(key => window.localStorage.removeItem(key));
+  forgetKeys(keys);
+}
@@ -0,0 +1,304 @@
+import { describe, expect, it } from 'vitest';
+import type { Entry, SyncJournal, Tombstone } from '../../types';
+import type { EntryChange } from '../adapters';
+import { syncJournalStore } from '../schema';
+import { runMigrations, type StoreDefinition } from '../storage';
+import { createMemorySyncServer } from './memoryServer';
+import { fieldHashes, mergeEntries } from './merge';
+import { reconcileOutcome, resolveConflict, runSync } from './engine';
+import type { SyncTransport } from './types';
+
+const EMPTY_JOURNAL: SyncJournal = { lastSeq: 0, lastSyncedAt: null, bases: {}, conflicts: [] };
+
+let clock = Date.parse('2026-01-01T00:00:00Z');
+const tick = () => new Date(clock += 1000).toISOString();
+
+const makeEntry = (id: string, fields: Partial<Entry> = {}): Entry => ({
+  id, date: '2026-01-01', subject: 'QA', topic: 'Algebra', sets: { easy: 1 }, timeTaken: 30, questionsAttempted: 10, correctAnswers: 6,
+  confidence: 3, learnings: '', isWeakTopic: false, updatedAt: tick(), ...fields,
+});
+
+const applyChange = (entries: Entry[], change: EntryChange) => {
+  const put = new Map(change.put.map(e => [e.id, e]));
+  const removed = new Set(change.remove);
+  const kept = entries.filter(e => !removed.has(e.id)).map(e => put.get(e.id) ?? e);
+  return [...kept, ...change.put.filter(e => !entries.some(k => k.id === e.id))];
+};
+
+// A device as the app sees it: its entries, tombstones and journal, updated
+// from each sync outcome the way useSync applies them.
+function createDevice(deviceId: string, transport: SyncTransport) {
+  const device = {
+    entries: [] as Entry[],
+    tombstones: [] as Tombstone[],
+    journal: EMPTY_JOURNAL,
+    // A local write, stamped as useEntries does.
+    write(entry: Entry) {
+      device.entries = applyChange(device.entries, { put: [{ ...entry, updatedAt: tick() }], remove: [] });
+      device.tombstones = device.tombstones.filter(t => t.id !== entry.id);
+    },
+    remove(id: string) {
+      device.entries = device.entries.filter(e => e.id !== id);
+      device.tombstones = [...device.tombstones, { id, deletedAt: tick() }];
+    },
+    get: (id: string) => device.entries.find(e => e.id === id) ?? null,
+    async sync(using = transport) {
+      const outcome = await runSync({ transport: using, deviceId, entries: device.entries, tombstones: device.tombstones, journal: device.journal });
+      device.entries = applyChange(device.entries, outcome.change);
+      device.tombstones = outcome.tombstones;
+      device.journal = outcome.journal;
+      return outcome;
+    },
+  };
+  return device;
+}
+
+const content = (entry: Entry | null) => entry && { ...entry, rev: undefined, updatedAt: undefined };
+
+describe('runSync', () => {
+  it('carries a new entry from one device to another', async () => {
+    const server = createMemorySyncServer();
+    const a = createDevice('a', server);
+    const b = createDevice('b', server);
+    a.write(makeEntry('e1'));
+
+    expect((await a.sync()).pushed).toBe(1);
+    const outcome = await b.sync();
+
+    expect(outcome.pulled).toBe(1);
+    expect(content(b.get('e1'))).toEqual(content(a.get('e1')));
+    expect(b.get('e1')!.rev).toBe(1);
+    expect(outcome.change.put).toHaveLength(1);
+  });
+
+  it('merges edits to different fields to the same entry on both devices', async () => {
+    const server = createMemorySyncServer();
+    const a = createDevice('a', server);
+    const b = createDevice('b', server);
+    a.write(makeEntry('e1'));
+    await a.sync();
+    await b.sync();
+
+    a.write({ ...a.get('e1')!, topic: 'Geometry' });
+    b.write({ ...b.get('e1')!, learnings: 'Draw the figure first' });
+    await a.sync();
+    await b.sync();
+    await a.sync();
+
+    expect(a.journal.conflicts).toEqual([]);
+    expect(b.journal.conflicts).toEqual([]);
+    expect(a.get('e1')).toMatchObject({ topic: 'Geometry', learnings: 'Draw the figure first' });
+    expect(content(a.get('e1'))).toEqual(content(b.get('e1')));
+  });
+
+  it('retries a push rejected because another device pushed between its pull and push', async () => {
+    const server = createMemorySyncServer();
+    const a = createDevice('a', server);
+    const b = createDevice('b', server);
+    a.write(makeEntry('e1'));
+    await a.sync();
+    await b.sync();
+
+    a.write({ ...a.get('e1')!, topic: 'Geometry' });
+    b.write({ ...b.get('e1')!, isWeakTopic: true });
+    let raced = false;
+    const racing: SyncTransport = {
+      pull: async (since, signal) => {
+        const response = await server.pull(since, signal);
+        if (!raced) {
+          raced = true;
+          await a.sync();
+        }
+        return response;
+      },
+      push: (deviceId, records, signal) => server.push(deviceId, records, signal),
+    };
+    const outcome = await b.sync(racing);
+
+    expect(outcome.pushed).toBe(1);
+    expect(b.journal.conflicts).toEqual([]);
+    expect(b.get('e1')).toMatchObject({ topic: 'Geometry', isWeakTopic: true });
+    expect(server.records()[0]).toMatchObject({ rev: 3, entry: expect.objectContaining({ topic: 'Geometry', isWeakTopic: true }) });
+  });
+
+  it('pushes a deletion from its tombstone and removes the entry elsewhere', async () => {
+    const server = createMemorySyncServer();
+    const a = createDevice('a', server);
+    const b = createDevice('b', server);
+    a.write(makeEntry('e1'));
+    await a.sync();
+    await b.sync();
+
+    a.remove('e1');
+    const pushed = await a.sync();
+    expect(pushed.pushed).toBe(1);
+    expect(pushed.tombstones).toEqual([]);
+    expect(server.records()[0]).toMatchObject({ deleted: true, entry: null });
+
+    const pulled = await b.sync();
+    expect(pulled.change.remove).toEqual(['e1']);
+    expect(b.entries).toEqual([]);
+  });
+
+  it('keeps a tombstone while the deletion is in conflict', async () => {
+    const server = createMemorySyncServer();
+    const a = createDevice('a', server);
+    const b = createDevice('b', server);
+    a.write(makeEntry('e1'));
+    await a.sync();
+    await b.sync();
+
+    a.write({ ...a.get('e1')!, topic: 'Geometry' });
+    await a.sync();
+    b.remove('e1');
+    const outcome = await b.sync();
+
+    expect(outcome.journal.conflicts).toMatchObject([{ id: 'e1', local: null, fields: ['deleted'] }]);
+    expect(outcome.tombstones.map(t => t.id)).toEqual(['e1']);
+    expect(server.records()[0].deleted).toBe(false);
+  });
+});
+
+describe('mergeEntries', () => {
+  const base = makeEntry('e1');
+  const agreed = fieldHashes(base);
+
+  it('gives the same result whichever side is local', () => {
+    const left = { ...base, topic: 'Geometry' };
+    const right = { ...base, learnings: 'Check units' };
+    const one = mergeEntries(agreed, left, right);
+    const other = mergeEntries(agreed, right, left);
+
+    expect(one.kind).toBe('merged');
+    expect(other.kind).toBe('merged');
+    if (one.kind !== 'merged' || other.kind !== 'merged') return;
+    expect(content(one.entry)).toEqual(content(other.entry));
+  });
+
+  it('agrees when both sides made the same change', () => {
+    expect(mergeEntries(agreed, { ...base, topic: 'Geometry' }, { ...base, topic: 'Geometry', updatedAt: tick() })).toEqual({ kind: 'same' });
+  });
+
+  it('reports fields changed differently on both sides', () => {
+    expect(mergeEntries(agreed, { ...base, topic: 'Geometry', learnings: 'x' }, { ...base, topic: 'Arithmetic' }))
+      .toEqual({ kind: 'conflict', fields: ['topic'] });
+  });
+
+  it('drops a field the other side removed', () => {
+    const rated = { ...base, energy: 4 };
+    const result = mergeEntries(fieldHashes(rated), { ...rated, topic: 'Geometry' }, { ...base });
+    expect(result.kind).toBe('merged');
+    if (result.kind !== 'merged') return;
+    expect(result.entry.topic).toBe('Geometry');
+    expect(result.entry).not.toHaveProperty('energy');
+  });
+
+  it('cannot merge differing versions without a base, or an edit against a delete', () => {
+    expect(mergeEntries(undefined, { ...base, topic: 'Geometry' }, base)).toEqual({ kind: 'conflict', fields: ['topic'] });
+    expect(mergeEntries(agreed, null, { ...base, topic: 'Geometry' })).toEqual({ kind: 'conflict', fields: ['deleted'] });
+    expect(mergeEntries(agreed, null, null)).toEqual({ kind: 'same' });
+  });
+});
+
+describe('reconcileOutcome', () => {
+  it('keeps an edit made while the sync was in flight and pulls again next time', async () => {
+    const server = createMemorySyncServer();
+    const a = createDevice('a', server);
+    const b = createDevice('b', server);
+    a.write(makeEntry('e1'));
+    await a.sync();
+    await b.sync();
+    a.write({ ...a.get('e1')!, topic: 'Geometry' });
+    await a.sync();
+
+    const before = { journal: b.journal, entries: b.entries, tombstones: b.tombstones };
+    const outcome = await runSync({ transport: server, deviceId: 'b', ...before });
+    b.write({ ...b.get('e1')!, isWeakTopic: true });
+    b.remove('e2');
+    const reconciled = reconcileOutcome(outcome, before, { entries: b.entries, tombstones: b.tombstones });
+
+    expect(reconciled.change).toEqual({ put: [], remove: [] });
+    expect(reconciled.journal.bases.e1).toEqual(before.journal.bases.e1);
+    expect(reconciled.journal.lastSeq).toBe(before.journal.lastSeq);
+    expect(reconciled.tombstones.map(t => t.id)).toEqual(['e2']);
+
+    b.entries = applyChange(b.entries, reconciled.change);
+    b.journal = reconciled.journal;
+    b.tombstones = reconciled.tombstones;
+    await b.sync();
+    expect(b.get('e1')).toMatchObject({ topic: 'Geometry', isWeakTopic: true });
+  });
+
+  it('passes the outcome through when nothing changed meanwhile', async () => {
+    const server = createMemorySyncServer();
+    const a = createDevice('a', server);
+    a.write(makeEntry('e1'));
+    const before = { journal: a.journal, entries: a.entries, tombstones: a.tombstones };
+    const outcome = await runSync({ transport: server, deviceId: 'a', ...before });
+
+    expect(reconcileOutcome(outcome, before, { entries: a.entries, tombstones: a.tombstones })).toEqual(outcome);
+  });
+});
+
+describe('resolveConflict', () => {
+  async function conflicted() {
+    const server = createMemorySyncServer();
+    const a = createDevice('a', server);
+    const b = createDevice('b', server);
+    a.write(makeEntry('e1'));
+    await a.sync();
+    await b.sync();
+    a.write({ ...a.get('e1')!, topic: 'Geometry' });
+    b.write({ ...b.get('e1')!, topic: 'Arithmetic' });
+    await a.sync();
+    await b.sync();
+    return { server, a, b, conflict: b.journal.conflicts[0] };
+  }
+
+  it('parks a true conflict and leaves it out of the push', async () => {
+    const { server, b, conflict } = await conflicted();
+
+    expect(conflict).toMatchObject({ id: 'e1', fields: ['topic'], remoteRev: 2 });
+    expect(b.get('e1')!.topic).toBe('Arithmetic');
+    expect(server.records()[0].entry!.topic).toBe('Geometry');
+  });
+
+  it('keeping the local version pushes it over the remote one', async () => {
+    const { server, a, b, conflict } = await conflicted();
+    const resolved = resolveConflict(b.journal, conflict, 'local', b.get('e1'));
+    b.journal = resolved.journal;
+    b.entries = applyChange(b.entries, resolved.change);
+
+    expect((await b.sync()).pushed).toBe(1);
+    await a.sync();
+    expect(server.records()[0]).toMatchObject({ rev: 3, entry: expect.objectContaining({ topic: 'Arithmetic' }) });
+    expect(a.get('e1')!.topic).toBe('Arithmetic');
+    expect(b.journal.conflicts).toEqual([]);
+  });
+
+  it('keeping the remote version applies it with nothing left to push', async () => {
+    const { b, conflict } = await conflicted();
+    const resolved = resolveConflict(b.journal, conflict, 'remote', b.get('e1'));
+    b.journal = resolved.journal;
+    b.entries = applyChange(b.entries, resolved.change);
+
+    expect(b.get('e1')!.topic).toBe('Geometry');
+    expect((await b.sync()).pushed).toBe(0);
+  });
+});
+
+describe('syncJournalStore', () => {
+  it('migrates v1 bases holding whole entries to field hashes that still merge', () => {
+    const entry = makeEntry('e1', { rev: 1 });
+    const v1 = { ...EMPTY_JOURNAL, bases: { e1: { rev: 1, updatedAt: entry.updatedAt, entry }, e2: { rev: 2, updatedAt: tick(), entry: null } } };
+    const migrated = runMigrations(v1, 1, syncJournalStore as StoreDefinition<unknown>);
+    const { value, rejected } = syncJournalStore.validate(migrated);
+
+    expect(rejected).toEqual([]);
+    expect(value.bases.e1).toEqual({ rev: 1, updatedAt: entry.updatedAt, fields: fieldHashes(entry) });
+    expect(value.bases.e2.fields).toBeNull();
+    expect(JSON.stringify(value)).not.toContain('Algebra');
+    const merged = mergeEntries(value.bases.e1.fields, { ...entry, topic: 'Geometry' }, { ...entry, learnings: 'Check units' });
+    expect(merged).toMatchObject({ kind: 'merged', entry: { topic: 'Geometry', learnings: 'Check units' } });
+  });
+});
@@ -0,0 +1,194 @@
+import type { Entry, SyncBase, SyncConflict, SyncJournal, Tombstone } from '../../types';
+import type { EntryChange } from '../adapters';
+import { fieldHashes, mergeEntries } from './merge';
+import type { PushRecord, SyncRecord, SyncTransport } from './types';
+
+// --- SYNC ENGINE ---
+// One sync is a pull followed by a push. Pulled records that this device has
+// not touched since the last sync are applied as they are; records changed
+// on both sides go through mergeEntries, and true conflicts are parked in the
+// journal (and left out of the push) until the user picks a side. A push
+// rejected because another device got there first is retried after pulling
+// again.
+
+const MAX_ROUNDS = 3;
+const PUSH_BATCH = 200;
+
+export type SyncInput = {
+  transport: SyncTransport;
+  deviceId: string;
+  entries: Entry[];
+  tombstones: Tombstone[];
+  journal: SyncJournal;
+  signal?: AbortSignal;
+};
+
+export type SyncOutcome = {
+  // Applied to local entries as-is: these writes must not be stamped as
+  // local edits.
+  change: EntryChange;
+  journal: SyncJournal;
+  tombstones: Tombstone[];
+  pulled: number;
+  pushed: number;
+};
+
+const stampOf = (entry: Entry) => entry.updatedAt ?? '';
+
+const agreedOn = (rev: number, updatedAt: string, entry: Entry | null): SyncBase => ({ rev, updatedAt, fields: entry && fieldHashes(entry) });
+
+// Whether the local state of a record differs from the last agreed version:
+// never synced, edited, deleted or brought back since.
+function isDirty(base: SyncBase | undefined, current: Entry | null) {
+  if (!base) return current !== null;
+  if (current === null) return base.fields !== null;
+  return base.fields === null || stampOf(current) !== base.updatedAt;
+}
+
+export function pendingCount(entries: Entry[], journal: SyncJournal) {
+  const local = new Map(entries.map(e => [e.id, e]));
+  const ids = new Set([...local.keys(), ...Object.keys(journal.bases)]);
+  const conflicted = new Set(journal.conflicts.map(c => c.id));
+  return Array.from(ids).filter(id => !conflicted.has(id) && isDirty(journal.bases[id], local.get(id) ?? null)).length;
+}
+
+export async function runSync({ transport, deviceId, entries, tombstones, journal, signal }: SyncInput): Promise<SyncOutcome> {
+  const now = new Date().toISOString();
+  const local = new Map(entries.map(e => [e.id, e]));
+  const written = new Map<string, Entry | null>();
+  const bases: Record<string, SyncBase> = { ...journal.bases };
+  const conflicts = new Map(journal.conflicts.map(c => [c.id, c]));
+  const deletedAt = new Map(tombstones.map(t => [t.id, t.deletedAt]));
+  let lastSeq = journal.lastSeq;
+  let pulled = 0;
+  let pushed = 0;
+
+  const get = (id: string) => (written.has(id) ? written.get(id)! : local.get(id) ?? null);
+  const set = (id: string, entry: Entry | null) => written.set(id, entry);
+  const dirty = (id: string) => isDirty(bases[id], get(id));
+
+  const applyPulled = (record: SyncRecord) => {
+    const base = bases[record.id];
+    // Our own pushes come back on the next pull.
+    if (base && base.rev >= record.rev) return;
+    pulled += 1;
+    const remote = record.deleted || !record.entry ? null : { ...record.entry, id: record.id, rev: record.rev, updatedAt: record.updatedAt };
+    const agreed = agreedOn(record.rev, record.updatedAt, remote);
+
+    if (!conflicts.has(record.id) && !dirty(record.id)) {
+      set(record.id, remote);
+      bases[record.id] = agreed;
+      return;
+    }
+
+    const current = get(record.id);
+    const result = mergeEntries(base?.fields, current, remote);
+    if (result.kind === 'conflict') {
+      conflicts.set(record.id, {
+        id: record.id, local: current, remote, remoteRev: record.rev, remoteUpdatedAt: record.updatedAt, fields: result.fields, detectedAt: now,
+      });
+      return;
+    }
+    conflicts.delete(record.id);
+    bases[record.id] = agreed;
+    if (result.kind === 'same') set(record.id, remote);
+    // Still differs from the server, so the merged version is pushed below.
+    else set(record.id, { ...result.entry, rev: record.rev, updatedAt: now });
+  };
+
+  const toPush = (id: string): PushRecord => {
+    const current = get(id);
+    const baseRev = bases[id]?.rev ?? 0;
+    if (current === null) return { id, baseRev, updatedAt: deletedAt.get(id) ?? now, deleted: true, entry: null };
+    const updatedAt = stampOf(current) || now;
+    return { id, baseRev, updatedAt, deleted: false, entry: { ...current, updatedAt } };
+  };
+
+  for (let round = 0; round < MAX_ROUNDS; round++) {
+    const { seq, records } = await transport.pull(lastSeq, signal);
+    records.forEach(applyPulled);
+    lastSeq = seq;
+
+    const ids = new Set([...local.keys(), ...written.keys(), ...Object.keys(bases)]);
+    const pending = Array.from(ids).filter(id => !conflicts.has(id) && dirty(id)).map(toPush);
+    let rejected = 0;
+    for (let i = 0; i < pending.length; i += PUSH_BATCH) {
+      const batch = pending.slice(i, i + PUSH_BATCH);
+      const sent = new Map(batch.map(r => [r.id, r]));
+      const response = await transport.push(deviceId, batch, signal);
+      response.accepted.forEach(({ id, rev }) => {
+        const record = sent.get(id);
+        if (!record) return;
+        const entry = record.entry && { ...record.entry, rev };
+        bases[id] = agreedOn(rev, record.updatedAt, entry);
+        set(id, entry);
+        pushed += 1;
+      });
+      rejected += response.rejected.length;
+    }
+    if (rejected === 0) break;
+  }
+
+  const change: EntryChange = { put: [], remove: [] };
+  written.forEach((entry, id) => {
+    if (entry) change.put.push(entry);
+    else if (local.has(id)) change.remove.push(id);
+  });
+
+  return {
+    change,
+    journal: { lastSeq, lastSyncedAt: now, bases, conflicts: Array.from(conflicts.values()) },
+    // A tombstone is only needed until the server has the deletion.
+    tombstones: tombstones.filter(t => get(t.id) === null && (conflicts.has(t.id) || dirty(t.id))),
+    pulled,
+    pushed,
+  };
+}
+
+export type ConflictChoice = 'local' | 'remote';
+
+// Keeping the remote version applies it here. Keeping the local one records
+// the remote version as agreed, so the next push (based on it) is accepted
+// and replaces it on the server. `current` is the entry as it is now, which
+// may have been edited since the conflict was found.
+export function resolveConflict(journal: SyncJournal, conflict: SyncConflict, choice: ConflictChoice, current: Entry | null): { journal: SyncJournal; change: EntryChange } {
+  const next: SyncJournal = {
+    ...journal,
+    bases: { ...journal.bases, [conflict.id]: agreedOn(conflict.remoteRev, conflict.remoteUpdatedAt, conflict.remote) },
+    conflicts: journal.conflicts.filter(c => c.id !== conflict.id),
+  };
+  if (choice === 'remote') {
+    return { journal: next, change: conflict.remote ? { put: [conflict.remote], remove: [] } : { put: [], remove: [conflict.id] } };
+  }
+  return { journal: next, change: current ? { put: [{ ...current, updatedAt: new Date().toISOString() }], remove: [] } : { put: [], remove: [] } };
+}
+
+// Entries edited while a sync was in flight keep the edit: the sync's write
+// for them is dropped and their journal entry rolled back, so the next sync
+// pushes the edit against the old revision and, if the server moved on,
+// pulls and merges what it missed. Tombstones written meanwhile are kept.
+export function reconcileOutcome(
+  outcome: SyncOutcome,
+  before: { journal: SyncJournal; entries: Entry[]; tombstones: Tombstone[] },
+  current: { entries: Entry[]; tombstones: Tombstone[] },
+): SyncOutcome {
+  const seenTombstones = new Set(before.tombstones.map(t => t.id));
+  const tombstones = [...outcome.tombstones, ...current.tombstones.filter(t => !seenTombstones.has(t.id))];
+  const seen = new Map(before.entries.map(e => [e.id, e]));
+  const now = new Map(current.entries.map(e => [e.id, e]));
+  const stale = new Set([...seen.keys(), ...now.keys()].filter(id => seen.get(id) !== now.get(id)));
+  if (stale.size === 0) return { ...outcome, tombstones };
+
+  const bases = { ...outcome.journal.bases };
+  stale.forEach(id => {
+    if (before.journal.bases[id]) bases[id] = before.journal.bases[id];
+    else delete bases[id];
+  });
+  return {
+    ...outcome,
+    change: { put: outcome.change.put.filter(e => !stale.has(e.id)), remove: outcome.change.remove.filter(id => !stale.has(id)) },
+    // Pull the same records again next time; ones already applied are skipped.
+    journal: { ...outcome.journal, bases, lastSeq: before.journal.lastSeq },
+    tombstones,
+  };
+}
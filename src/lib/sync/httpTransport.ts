@@ -0,0 +1,28 @@
+import type { SyncSettings } from '../../types';
+import type { PullResponse, PushRecord, PushResponse, SyncTransport } from './types';
+
+export class SyncServerError extends Error {
+  constructor(status: number, statusText: string) {
+    super(status === 401 ? 'The sync server rejected the token' : `Sync server replied ${status} ${statusText}`.trim());
+    this.name = 'SyncServerError';
+  }
+}
+
+export function createHttpTransport(settings: SyncSettings): SyncTransport {
+  const url = `${settings.serverUrl.replace(/\/+$/, '')}/v1/spaces/${encodeURIComponent(settings.space)}/changes`;
+  const headers = {
+    'Content-Type': 'application/json',
+    ...(settings.token && { Authorization: `Bearer ${settings.token}` }),
+  };
+
+  const request = async <T,>(input: string, init: RequestInit): Promise<T> => {
+    const response = await fetch(input, { ...init, headers });
+    if (!response.ok) throw new SyncServerError(response.status, response.statusText);
+    return response.json();
+  };
+
+  return {
+    pull: (since, signal) => request<PullResponse>(`${url}?since=${since}`, { method: 'GET', signal }),
+    push: (deviceId, records: PushRecord[], signal) => request<PushResponse>(url, { method: 'POST', signal, body: JSON.stringify({ deviceId, records }) }),
+  };
+}
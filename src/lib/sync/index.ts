@@ -0,0 +1,5 @@
+export type { PullResponse, PushRecord, PushResponse, SyncRecord, SyncTransport } from './types';
+export { createHttpTransport, SyncServerError } from './httpTransport';
+export { createMemorySyncServer } from './memoryServer';
+export { differingFields, mergeEntries, type MergeResult } from './merge';
+export { pendingCount, reconcileOutcome, resolveConflict, runSync, type ConflictChoice, type SyncInput, type SyncOutcome } from './engine';
@@ -0,0 +1,37 @@
+import type { PushRecord, SyncRecord, SyncTransport } from './types';
+
+// An in-process sync server with the same rules as scripts/sync-server.js.
+// Several engines can share one to stand in for devices syncing through a
+// real server.
+export function createMemorySyncServer(): SyncTransport & { records: () => SyncRecord[] } {
+  let seq = 0;
+  const records = new Map<string, SyncRecord>();
+
+  const accept = (deviceId: string, push: PushRecord) => {
+    const current = records.get(push.id);
+    // A retried push whose first answer was lost is accepted again as-is.
+    if (current && current.updatedAt === push.updatedAt && current.deleted === push.deleted) return current.rev;
+    if ((current?.rev ?? 0) !== push.baseRev) return null;
+    const rev = push.baseRev + 1;
+    records.set(push.id, { id: push.id, rev, seq: ++seq, updatedAt: push.updatedAt, deviceId, deleted: push.deleted, entry: push.deleted ? null : push.entry });
+    return rev;
+  };
+
+  return {
+    records: () => Array.from(records.values()),
+    pull: async since => ({
+      seq,
+      records: Array.from(records.values()).filter(r => r.seq > since).sort((a, b) => a.seq - b.seq),
+    }),
+    push: async (deviceId, pushed) => {
+      const accepted: { id: string; rev: number }[] = [];
+      const rejected: string[] = [];
+      pushed.forEach(record => {
+        const rev = accept(deviceId, record);
+        if (rev === null) rejected.push(record.id);
+        else accepted.push({ id: record.id, rev });
+      });
+      return { accepted, rejected };
+    },
+  };
+}
@@ -0,0 +1,78 @@
+import type { Entry } from '../../types';
+
+// --- MERGING ---
+// Two versions of an entry edited on different devices are merged field by
+// field against the last version both had seen: a field changed on one side
+// only takes that side's value, and a field changed to the same value on both
+// agrees. Only a field changed differently on both sides, or an edit racing a
+// delete, is a true conflict for the user to decide. The result depends only
+// on the three versions, never on which device syncs first.
+//
+// The ancestor is only kept as a hash of each field (see fieldHashes), which
+// is all the comparison needs, so the journal does not hold a second copy of
+// every synced entry.
+
+const META_FIELDS = new Set(['id', 'rev', 'updatedAt']);
+
+export type MergeResult =
+  | { kind: 'same' }
+  | { kind: 'merged'; entry: Entry }
+  | { kind: 'conflict'; fields: string[] };
+
+export type FieldHashes = Record<string, string>;
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// FNV-1a twice over, with different offsets, for 64 bits: a collision would
+// take a changed field for an unchanged one.
+const hash = (input: string) => [0x811c9dc5, 0x050c5d1f].map(seed => {
+  let h = seed;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(36);
+}).join('.');
+
+const hashOf = (value: unknown) => (value === undefined ? undefined : hash(JSON.stringify(value)));
+
+const contentFields = (...entries: (Entry | null | undefined)[]) => Array.from(new Set(
+  entries.flatMap(entry => (entry ? Object.keys(entry) : [])).filter(key => !META_FIELDS.has(key)),
+)).sort();
+
+export function differingFields(a: Entry, b: Entry) {
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  return contentFields(a, b).filter(key => !same(left[key], right[key]));
+}
+
+export function fieldHashes(entry: Entry): FieldHashes {
+  const fields = entry as Record<string, unknown>;
+  return Object.fromEntries(contentFields(entry).filter(key => fields[key] !== undefined).map(key => [key, hashOf(fields[key])!]));
+}
+
+// `base` is undefined when the record has never been synced from this device
+// (null when the agreed version was a deletion), in which case differing
+// versions cannot be merged.
+export function mergeEntries(base: FieldHashes | null | undefined, local: Entry | null, remote: Entry | null): MergeResult {
+  if (local === null || remote === null) {
+    return local === remote ? { kind: 'same' } : { kind: 'conflict', fields: ['deleted'] };
+  }
+  const fields = differingFields(local, remote);
+  if (fields.length === 0) return { kind: 'same' };
+  if (!base) return { kind: 'conflict', fields };
+
+  const mine = local as Record<string, unknown>;
+  const theirs = remote as Record<string, unknown>;
+  const merged: Record<string, unknown> = { ...mine };
+  const conflicting: string[] = [];
+  fields.forEach(key => {
+    if (hashOf(mine[key]) === base[key]) {
+      if (theirs[key] === undefined) delete merged[key];
+      else merged[key] = theirs[key];
+    } else if (hashOf(theirs[key]) !== base[key]) {
+      conflicting.push(key);
+    }
+  });
+  return conflicting.length > 0 ? { kind: 'conflict', fields: conflicting } : { kind: 'merged', entry: merged as Entry };
+}
@@ -0,0 +1,44 @@
+import type { Entry } from '../../types';
+
+// --- SYNC PROTOCOL ---
+// The server keeps the latest version of each record in a space, numbered by
+// a per-space sequence so a device can ask for everything since it last
+// pulled. A push names the revision it was based on; the server only accepts
+// it if that is still the current revision, so two devices can never
+// silently overwrite each other. scripts/sync-server.js is the self-hosted
+// server and createMemorySyncServer the in-process stand-in; both implement
+// this contract.
+
+export type SyncRecord = {
+  id: string;
+  rev: number;
+  seq: number;
+  updatedAt: string;
+  deviceId: string;
+  deleted: boolean;
+  entry: Entry | null;
+};
+
+export type PushRecord = {
+  id: string;
+  baseRev: number;
+  updatedAt: string;
+  deleted: boolean;
+  entry: Entry | null;
+};
+
+export type PullResponse = {
+  seq: number;
+  records: SyncRecord[];
+};
+
+export type PushResponse = {
+  accepted: { id: string; rev: number }[];
+  // Ids whose baseRev was stale; pull again before retrying them.
+  rejected: string[];
+};
+
+export interface SyncTransport {
+  pull(since: number, signal?: AbortSignal): Promise<PullResponse>;
+  push(deviceId: string, records: PushRecord[], signal?: AbortSignal): Promise<PushResponse>;
+}
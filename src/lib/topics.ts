@@ -0,0 +1,145 @@
+import type { CanonicalTopic, Entry, Subject } from '../types';
+import { createRecordId } from './utils';
+
+// --- TOPIC NORMALIZATION ---
+// The `topic` field is free text, so "Games & Tournaments", "games and
+// tournament" and "Games/Tournaments" all describe one topic. Entries are
+// grouped by their canonical topic when the text (or one of its aliases)
+// matches the catalog, and by their normalized text otherwise.
+
+export type TopicGroup = {
+  id: string;
+  subject: Subject;
+  name: string;
+  canonical: CanonicalTopic | null;
+  variants: string[];
+  entries: Entry[];
+};
+
+export const UNTAGGED_TOPIC = 'Untagged';
+
+export const normalizeTopicKey = (text: string) => text
+  .toLowerCase()
+  .replace(/&/g, ' and ')
+  .replace(/[^a-z0-9]+/g, ' ')
+  .trim()
+  .split(' ')
+  // Plural and singular spellings are the same topic.
+  .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word))
+  .join(' ');
+
+const lookupKey = (subject: Subject, text: string) => `${subject}:${normalizeTopicKey(text)}`;
+
+export function buildTopicIndex(catalog: CanonicalTopic[]) {
+  const index = new Map<string, CanonicalTopic>();
+  catalog.forEach(topic => {
+    [topic.name, ...topic.aliases].forEach(text => index.set(lookupKey(topic.subject, text), topic));
+  });
+  return index;
+}
+
+export function resolveTopic(index: Map<string, CanonicalTopic>, subject: Subject, raw: string) {
+  const key = normalizeTopicKey(raw);
+  if (!key) return { id: `${subject}:untagged`, name: UNTAGGED_TOPIC, canonical: null };
+  const canonical = index.get(`${subject}:${key}`) ?? null;
+  return canonical
+    ? { id: canonical.id, name: canonical.name, canonical }
+    : { id: `${subject}:${key}`, name: raw.trim(), canonical: null };
+}
+
+export function groupEntriesByTopic(entries: Entry[], catalog: CanonicalTopic[]): TopicGroup[] {
+  const index = buildTopicIndex(catalog);
+  const groups = new Map<string, TopicGroup>();
+  entries.forEach(entry => {
+    const resolved = resolveTopic(index, entry.subject, entry.topic);
+    let group = groups.get(resolved.id);
+    if (!group) {
+      group = { id: resolved.id, subject: entry.subject, name: resolved.name, canonical: resolved.canonical, variants: [], entries: [] };
+      groups.set(resolved.id, group);
+    }
+    const variant = entry.topic.trim();
+    if (variant && !group.variants.includes(variant)) group.variants.push(variant);
+    group.entries.push(entry);
+  });
+  return Array.from(groups.values());
+}
+
+// --- NEAR-DUPLICATES ---
+function levenshtein(a: string, b: string) {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+export function topicSimilarity(a: string, b: string) {
+  const keyA = normalizeTopicKey(a);
+  const keyB = normalizeTopicKey(b);
+  if (!keyA || !keyB) return 0;
+  const editRatio = 1 - levenshtein(keyA, keyB) / Math.max(keyA.length, keyB.length);
+  const tokensA = new Set(keyA.split(' '));
+  const tokensB = new Set(keyB.split(' '));
+  const shared = [...tokensA].filter(t => tokensB.has(t)).length;
+  const jaccard = shared / new Set([...tokensA, ...tokensB]).size;
+  // "Arrangements" vs "Arrangement puzzles": one name contained in the other
+  // is a likely duplicate, but less certain than a near-identical spelling.
+  const containment = 0.8 * shared / Math.min(tokensA.size, tokensB.size);
+  return Math.max(editRatio, jaccard, containment);
+}
+
+export const NEAR_DUPLICATE_THRESHOLD = 0.75;
+
+export function findNearDuplicates(groups: TopicGroup[], threshold = NEAR_DUPLICATE_THRESHOLD) {
+  const candidates = groups.filter(g => g.name !== UNTAGGED_TOPIC);
+  const pairs: { a: TopicGroup; b: TopicGroup; similarity: number }[] = [];
+  candidates.forEach((a, i) => {
+    candidates.slice(i + 1).forEach(b => {
+      if (a.subject !== b.subject) return;
+      const similarity = topicSimilarity(a.name, b.name);
+      if (similarity >= threshold) pairs.push({ a, b, similarity });
+    });
+  });
+  return pairs.sort((x, y) => y.similarity - x.similarity);
+}
+
+// --- CATALOG EDITS ---
+const uniqueAliases = (name: string, aliases: string[]) => {
+  const seen = new Set([normalizeTopicKey(name)]);
+  return aliases.filter(alias => {
+    const key = normalizeTopicKey(alias);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// Folds `source` into `target`. Either side may still be an implicit group
+// with no catalog record; the target gets one if it needs it.
+export function mergeTopics(catalog: CanonicalTopic[], target: TopicGroup, source: TopicGroup, name = target.name): CanonicalTopic[] {
+  const sourceTexts = [source.name, ...source.variants, ...(source.canonical?.aliases ?? [])];
+  const base = target.canonical ?? { id: createRecordId(), subject: target.subject, name: target.name, aliases: target.variants };
+  const merged: CanonicalTopic = {
+    ...base,
+    name,
+    aliases: uniqueAliases(name, [base.name, ...base.aliases, ...target.variants, ...sourceTexts]),
+  };
+  const rest = catalog.filter(t => t.id !== base.id && t.id !== source.canonical?.id);
+  return [...rest, merged];
+}
+
+export function renameTopic(catalog: CanonicalTopic[], group: TopicGroup, name: string): CanonicalTopic[] {
+  const base = group.canonical ?? { id: createRecordId(), subject: group.subject, name: group.name, aliases: [] };
+  const renamed = { ...base, name, aliases: uniqueAliases(name, [base.name, ...base.aliases, ...group.variants]) };
+  return [...catalog.filter(t => t.id !== base.id), renamed];
+}
+
+export function removeAlias(catalog: CanonicalTopic[], topicId: string, alias: string): CanonicalTopic[] {
+  return catalog.map(t => (t.id === topicId ? { ...t, aliases: t.aliases.filter(a => a !== alias) } : t));
+}
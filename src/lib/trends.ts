@@ -0,0 +1,181 @@
+import type { Entry, Subject, TrendMetric, TrendModel, TrendTargets } from '../types';
+import { scoreEntries, scoreEntry } from './scoring';
+import { bandHalfWidth, linearFit, twoProportionTest, welchTTest, type LinearFit } from './stats';
+import { addDays, calculateTotalSets, daysUntil, formatDate } from './utils';
+
+// --- TRENDS ---
+// Daily numbers are noisy: one bad RC set swings accuracy by 20 points. These
+// helpers smooth, fit and test the log so the charts can say whether a change
+// is real.
+
+export const ROLLING_WINDOWS = [7, 30] as const;
+// The trend line is fitted to this many recent days so old habits don't
+// flatten it.
+export const TREND_WINDOW_DAYS = 90;
+export const COMPARISON_DAYS = 30;
+export const SIGNIFICANCE = 0.05;
+const MIN_PERIOD_ENTRIES = 3;
+const PROJECTION_HORIZON_DAYS = 365;
+
+export const TREND_METRIC_LABELS: Record<TrendMetric, string> = {
+  accuracy: 'accuracy',
+  netScore: 'net score',
+  minutesPerSet: 'time per set',
+};
+
+export const lowerIsBetter = (metric: TrendMetric) => metric === 'minutesPerSet';
+
+const clamp = (metric: TrendMetric, value: number) => (metric === 'minutesPerSet' ? Math.max(value, 0) : Math.min(value, 100));
+
+// Pools the entries like the dashboard does: accuracy over all questions,
+// not an average of per-entry percentages.
+export function metricValue(entries: Entry[], metric: TrendMetric): number | null {
+  if (metric === 'minutesPerSet') {
+    const sets = entries.reduce((sum, e) => sum + calculateTotalSets(e), 0);
+    return sets > 0 ? entries.reduce((sum, e) => sum + e.timeTaken, 0) / sets : null;
+  }
+  const score = scoreEntries(entries);
+  if (score.attempted === 0) return null;
+  return metric === 'accuracy' ? score.accuracy : score.netScorePercent;
+}
+
+// Trailing window ending on (and including) endDate.
+export function rollingValue(entries: Entry[], metric: TrendMetric, endDate: string, windowDays: number): number | null {
+  const from = addDays(endDate, -(windowDays - 1));
+  return metricValue(entries.filter(e => e.date >= from && e.date <= endDate), metric);
+}
+
+export type Trend = {
+  metric: TrendMetric;
+  model: TrendModel;
+  // x = 0 on this date.
+  start: string;
+  end: string;
+  fit: LinearFit;
+};
+
+// Least squares over daily values. The exponential model fits log(value): a
+// constant percentage change per day, which suits time per set better than a
+// straight line that eventually crosses zero.
+export function fitTrend(entries: Entry[], metric: TrendMetric, model: TrendModel, today = formatDate(new Date())): Trend | null {
+  const start = addDays(today, -(TREND_WINDOW_DAYS - 1));
+  const byDate = new Map<string, Entry[]>();
+  entries.forEach(e => {
+    if (e.date < start || e.date > today) return;
+    const day = byDate.get(e.date);
+    if (day) day.push(e); else byDate.set(e.date, [e]);
+  });
+
+  const points: { x: number; y: number }[] = [];
+  byDate.forEach((dayEntries, date) => {
+    const value = metricValue(dayEntries, metric);
+    if (value === null || (model === 'exponential' && value <= 0)) return;
+    points.push({ x: daysUntil(date, start), y: model === 'exponential' ? Math.log(value) : value });
+  });
+
+  const fit = linearFit(points);
+  return fit && { metric, model, start, end: today, fit };
+}
+
+const predict = (trend: Trend, x: number) => {
+  const y = trend.fit.intercept + trend.fit.slope * x;
+  return trend.model === 'exponential' ? Math.exp(y) : y;
+};
+
+export function trendAt(trend: Trend, date: string): { value: number; low: number; high: number } | null {
+  if (date < trend.start || date > trend.end) return null;
+  const x = daysUntil(date, trend.start);
+  const y = trend.fit.intercept + trend.fit.slope * x;
+  const half = bandHalfWidth(trend.fit, x);
+  const toValue = (v: number) => clamp(trend.metric, trend.model === 'exponential' ? Math.exp(v) : v);
+  return { value: toValue(y), low: toValue(y - half), high: toValue(y + half) };
+}
+
+export type PeriodComparison = {
+  metric: TrendMetric;
+  before: number;
+  after: number;
+  delta: number;
+  pValue: number;
+  significant: boolean;
+  improved: boolean;
+};
+
+// Last `days` days against the `days` before them. Accuracy uses a
+// two-proportion test on questions; the other metrics a Welch t-test on
+// per-entry values.
+export function comparePeriods(entries: Entry[], metric: TrendMetric, today = formatDate(new Date()), days = COMPARISON_DAYS): PeriodComparison | null {
+  const split = addDays(today, -(days - 1));
+  const from = addDays(split, -days);
+  const before = entries.filter(e => e.date >= from && e.date < split);
+  const after = entries.filter(e => e.date >= split && e.date <= today);
+  if (before.length < MIN_PERIOD_ENTRIES || after.length < MIN_PERIOD_ENTRIES) return null;
+
+  const beforeValue = metricValue(before, metric);
+  const afterValue = metricValue(after, metric);
+  if (beforeValue === null || afterValue === null) return null;
+
+  let pValue: number | null;
+  if (metric === 'accuracy') {
+    const a = scoreEntries(before);
+    const b = scoreEntries(after);
+    pValue = twoProportionTest(a.correct, a.attempted, b.correct, b.attempted);
+  } else {
+    const perEntry = (list: Entry[]) => list
+      .map(e => (metric === 'netScore' ? (scoreEntry(e).attempted > 0 ? scoreEntry(e).netScorePercent : null) : (calculateTotalSets(e) > 0 ? e.timeTaken / calculateTotalSets(e) : null)))
+      .filter((v): v is number => v !== null);
+    pValue = welchTTest(perEntry(before), perEntry(after));
+  }
+  if (pValue === null) return null;
+
+  const delta = afterValue - beforeValue;
+  return {
+    metric,
+    before: beforeValue,
+    after: afterValue,
+    delta,
+    pValue,
+    significant: pValue < SIGNIFICANCE,
+    improved: lowerIsBetter(metric) ? delta < 0 : delta > 0,
+  };
+}
+
+export type Projection =
+  | { status: 'reached'; current: number }
+  | { status: 'on-track'; current: number; date: string; days: number }
+  // The trend runs away from the target, is not significant, or would take
+  // longer than the horizon.
+  | { status: 'diverging' | 'no-trend' | 'beyond'; current: number };
+
+export function projectTarget(trend: Trend, target: number): Projection {
+  const x = daysUntil(trend.end, trend.start);
+  const current = predict(trend, x);
+  const lower = lowerIsBetter(trend.metric);
+  if (lower ? current <= target : current >= target) return { status: 'reached', current };
+  if (trend.fit.slopePValue >= SIGNIFICANCE) return { status: 'no-trend', current };
+  if (lower ? trend.fit.slope >= 0 : trend.fit.slope <= 0) return { status: 'diverging', current };
+  if (trend.model === 'exponential' && target <= 0) return { status: 'diverging', current };
+
+  const y = trend.model === 'exponential' ? Math.log(target) : target;
+  const days = Math.ceil((y - trend.fit.intercept) / trend.fit.slope - x);
+  if (days > PROJECTION_HORIZON_DAYS) return { status: 'beyond', current };
+  return { status: 'on-track', current, days, date: addDays(trend.end, days) };
+}
+
+export type SubjectTrend = {
+  subject: Subject | 'Overall';
+  comparisons: PeriodComparison[];
+  projections: { metric: TrendMetric; target: number; projection: Projection }[];
+};
+
+export function subjectTrend(entries: Entry[], subject: Subject | 'Overall', metrics: TrendMetric[], targets: TrendTargets, model: TrendModel, today = formatDate(new Date())): SubjectTrend {
+  const scoped = subject === 'Overall' ? entries : entries.filter(e => e.subject === subject);
+  return {
+    subject,
+    comparisons: metrics.map(metric => comparePeriods(scoped, metric, today)).filter((c): c is PeriodComparison => c !== null),
+    projections: metrics.flatMap(metric => {
+      const trend = fitTrend(scoped, metric, model, today);
+      return trend ? [{ metric, target: targets[metric], projection: projectTarget(trend, targets[metric]) }] : [];
+    }),
+  };
+}
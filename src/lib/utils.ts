@@ -0,0 +1,49 @@
+import { clsx, type ClassValue } from 'clsx';
+import { twMerge } from 'tailwind-merge';
+import type { Entry } from '../types';
+
+// Utility for combining Tailwind classes
+export function cn(...inputs: ClassValue[]) {
+  return twMerge(clsx(inputs));
+}
+
+// --- HELPER FUNCTIONS ---
+export const calculateTotalSets = (entry: Partial<Entry>) => Object.values(entry.sets ?? {}).reduce((sum, count) => sum + (count || 0), 0);
+export const calculateAccuracy = (entry: Partial<Entry>) => {
+  if (!entry.questionsAttempted || entry.questionsAttempted === 0) return 0;
+  return ((entry.correctAnswers || 0) / entry.questionsAttempted) * 100;
+};
+export const calculateSpeed = (entry: Partial<Entry>) => {
+  const totalSets = calculateTotalSets(entry);
+  if (!totalSets || totalSets === 0) return 0;
+  return (entry.timeTaken || 0) / totalSets;
+};
+export const formatDate = (date: Date) => date.toISOString().split('T')[0];
+
+// --- DATES ---
+// Entry dates are ISO days ("2026-10-19") read as UTC midnight, so day
+// arithmetic never trips over daylight-saving changes.
+export const DAY_MS = 86400000;
+export const addDays = (date: string, days: number) => formatDate(new Date(new Date(date).getTime() + days * DAY_MS));
+export function daysUntil(date: string, today = formatDate(new Date())) {
+  return Math.round((new Date(date).getTime() - new Date(today).getTime()) / DAY_MS);
+}
+
+// Local "HH:MM", as entries store their start time.
+export const formatStartTime = (date: Date) => `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+// The local calendar day, for dating something alongside its local start time.
+export const formatLocalDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Record ids must not collide across devices that sync to the same server, so
+// they are random UUIDs rather than timestamps. randomUUID needs a secure
+// context; plain-http LAN setups get the same format from getRandomValues.
+export function createRecordId(): string {
+  if (typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
@@ -1,8 +1,11 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
+import { startPwa } from './lib/pwa'
 import './index.css'
 
+startPwa()
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
@@ -0,0 +1,348 @@
+// --- DATA STRUCTURE & TYPES ---
+// Subjects and set categories are declared by the active ExamProfile rather
+// than fixed here.
+export type Subject = string;
+
+// Set category id, e.g. 'lrSets' in the CAT profile.
+export type SetType = string;
+
+export type SetCategory = {
+  id: SetType;
+  label: string;
+};
+
+// Extra numeric measurements an exam cares about (e.g. essays written).
+export type CustomField = {
+  id: string;
+  label: string;
+};
+
+export type ExamProfile = {
+  id: string;
+  name: string;
+  subjects: Subject[];
+  setCategories: SetCategory[];
+  customFields: CustomField[];
+};
+
+export type Entry = {
+  id: string;
+  date: string;
+  subject: Subject;
+  topic: string;
+  // Sets done per category id; missing categories count as zero.
+  sets: Record<SetType, number>;
+  custom?: Record<string, number>;
+  timeTaken: number;
+  questionsAttempted: number;
+  correctAnswers: number;
+  confidence: number;
+  learnings: string;
+  isWeakTopic: boolean;
+  // Question-level breakdown. Older entries predate these fields; any wrong
+  // answers not split into MCQ/TITA are scored as MCQ.
+  incorrectMcq?: number;
+  incorrectTita?: number;
+  skipped?: number;
+  // Seconds spent on each set, recorded by the session timer.
+  setTimes?: number[];
+  // Local "HH:MM" the session began and how fresh the student felt (1–5).
+  // Older entries have neither.
+  startTime?: string;
+  energy?: number;
+  // Optional per-question log; the counts above stay the source of truth for
+  // scoring.
+  questions?: QuestionLog[];
+  // Sets of catalogued study material this entry covered.
+  coverage?: MaterialCoverage[];
+  // Sync metadata: `rev` is the server revision this copy was last agreed at,
+  // set only by sync; `updatedAt` is stamped on every local write.
+  // Entries written before sync existed have neither.
+  rev?: number;
+  updatedAt?: string;
+};
+
+export type QuestionResult = 'correct' | 'wrong' | 'skipped' | 'guessed';
+export type ErrorCategory = 'concept' | 'method' | 'calculation' | 'misread' | 'time' | 'careless' | 'other';
+
+export type QuestionRetry = {
+  date: string;
+  result: QuestionResult;
+  timeSpent: number;
+};
+
+export type QuestionLog = {
+  id: string;
+  // Where the question came from, e.g. a book and page, a mock id or a set.
+  source: { kind: 'book' | 'mock' | 'set'; ref: string };
+  type: 'mcq' | 'tita';
+  result: QuestionResult;
+  // Seconds.
+  timeSpent: number;
+  errorCategory?: ErrorCategory;
+  notes: string;
+  // Key of a screenshot kept in the student's IndexedDB (see questionImages).
+  imageId?: string;
+  retries: QuestionRetry[];
+};
+
+// A canonical topic groups the free-text `topic` strings typed into entries.
+// Merging near-duplicates adds the other spelling to `aliases`; entries keep
+// their original text.
+export type CanonicalTopic = {
+  id: string;
+  subject: Subject;
+  name: string;
+  aliases: string[];
+};
+
+// A book, vault or test series worked through set by set. Sets are numbered
+// from 1 within each section.
+export type MaterialSection = {
+  id: string;
+  name: string;
+  sets: number;
+};
+
+export type StudyMaterial = {
+  id: string;
+  name: string;
+  subject: Subject;
+  kind: 'book' | 'vault' | 'testSeries' | 'other';
+  sections: MaterialSection[];
+};
+
+// The sets of one material section an entry worked through.
+export type MaterialCoverage = {
+  materialId: string;
+  sectionId: string;
+  sets: number[];
+};
+
+export type PlanTarget = {
+  id: string;
+  subject: Subject;
+  setType: SetType;
+  sets: number;
+  topic?: string;
+};
+
+// Plans are stored per week, keyed by the ISO date of that week's Monday.
+// `days[0]` is Monday and `days[6]` is Sunday.
+export type WeeklyPlan = {
+  weekStart: string;
+  days: PlanTarget[][];
+};
+
+export type PlannerData = {
+  examDate: string | null;
+  weeks: Record<string, WeeklyPlan>;
+};
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+// SM-2 scheduling state for one card. Cards that have never been graded have
+// no stored state and are due the day after their entry.
+export type ReviewCardState = {
+  easeFactor: number;
+  interval: number;
+  repetitions: number;
+  lapses: number;
+  due: string;
+  lastReviewed: string;
+};
+
+export type ReviewLogEntry = {
+  cardId: string;
+  reviewedAt: string;
+  grade: ReviewGrade;
+  interval: number;
+};
+
+export type ReviewData = {
+  states: Record<string, ReviewCardState>;
+  log: ReviewLogEntry[];
+};
+
+export type MockSection = 'VARC' | 'DILR' | 'QA';
+
+// Attempts are derived: correct + incorrectMcq + incorrectTita.
+export type MockSectionResult = {
+  totalQuestions: number;
+  correct: number;
+  incorrectMcq: number;
+  incorrectTita: number;
+  timeTaken: number;
+};
+
+export type MockTest = {
+  id: string;
+  date: string;
+  name: string;
+  sections: Record<MockSection, MockSectionResult>;
+  percentile: number | null;
+  notes: string;
+};
+
+export type TrashedEntry = {
+  entry: Entry;
+  deletedAt: string;
+};
+
+// A running practice session. Lap times are measured in active (unpaused)
+// milliseconds since the session started, so a session survives reloads.
+export type TimerLap = {
+  kind: 'set' | 'question';
+  at: number;
+};
+
+export type TimerSession = {
+  subject: Subject;
+  setType: SetType;
+  topic: string;
+  startedAt: number;
+  pausedAt: number | null;
+  pausedMs: number;
+  laps: TimerLap[];
+};
+
+// The API key is kept in localStorage with the rest of the app's data; it is
+// meant for local servers, not shared accounts.
+export type CoachSettings = {
+  provider: 'offline' | 'openai';
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+  timeoutSeconds: number;
+};
+
+export type HeatmapMetric = 'sets' | 'minutes';
+
+// Rest days use Date#getUTCDay numbering (0 = Sunday).
+export type StreakSettings = {
+  restDays: number[];
+  metric: HeatmapMetric;
+};
+
+// --- SYNC ---
+// A deleted entry is remembered until the sync server has been told about it.
+export type Tombstone = {
+  id: string;
+  deletedAt: string;
+};
+
+export type SyncSettings = {
+  enabled: boolean;
+  serverUrl: string;
+  // Records are shared between devices that use the same space on a server.
+  space: string;
+  token: string;
+  deviceId: string;
+};
+
+// The last version of a record both this device and the server agreed on, as
+// a hash of each content field; `fields` is null for a deletion. It is the
+// common ancestor for merges.
+export type SyncBase = {
+  rev: number;
+  updatedAt: string;
+  fields: Record<string, string> | null;
+};
+
+export type SyncConflict = {
+  id: string;
+  local: Entry | null;
+  remote: Entry | null;
+  remoteRev: number;
+  remoteUpdatedAt: string;
+  fields: string[];
+  detectedAt: string;
+};
+
+export type SyncJournal = {
+  lastSeq: number;
+  lastSyncedAt: string | null;
+  bases: Record<string, SyncBase>;
+  conflicts: SyncConflict[];
+};
+
+// A daily nudge at `time` (local, HH:MM). `lastNotified` is the date of the
+// last reminder shown, so reopening the app does not repeat it.
+export type ReminderSettings = {
+  enabled: boolean;
+  time: string;
+  onlyIfBehind: boolean;
+  lastNotified: string | null;
+};
+
+// Empty lists and null bounds mean "no restriction".
+export type EntryFilters = {
+  search: string;
+  dateFrom: string | null;
+  dateTo: string | null;
+  subjects: Subject[];
+  topic: string;
+  accuracyMin: number | null;
+  accuracyMax: number | null;
+  confidence: number[];
+  weak: 'any' | 'weak' | 'notWeak';
+};
+
+export type EntrySortKey = 'date' | 'subject' | 'topic' | 'sets' | 'score' | 'speed';
+
+export type EntrySort = {
+  key: EntrySortKey;
+  direction: 'asc' | 'desc';
+};
+
+export type SavedView = {
+  id: string;
+  name: string;
+  filters: EntryFilters;
+  sort: EntrySort;
+};
+
+export type TimePeriod = 'daily' | 'weekly' | 'monthly';
+export type ScoreView = 'accuracy' | 'netScore';
+
+export type TrendMetric = ScoreView | 'minutesPerSet';
+export type TrendModel = 'linear' | 'exponential';
+
+export type Quadrant = 'fast-accurate' | 'slow-accurate' | 'fast-careless' | 'slow-struggling';
+
+// A set is "fast" at or under minutesPerSet and "accurate" at or over accuracy.
+export type QuadrantThreshold = {
+  minutesPerSet: number;
+  accuracy: number;
+};
+
+// Subjects without an entry use DEFAULT_QUADRANT_THRESHOLD.
+export type QuadrantThresholds = Record<Subject, QuadrantThreshold>;
+
+// Goals the forecast projects towards; minutesPerSet is reached from above.
+export type TrendTargets = Record<TrendMetric, number>;
+// Someone whose practice is tracked. Each student's data lives under its own
+// namespaced keys; the first one keeps the original un-namespaced keys.
+export type Student = {
+  id: string;
+  name: string;
+};
+
+export type StudentDirectory = {
+  students: Student[];
+  activeId: string;
+};
+
+// A read-only export of one student's data for sharing and comparison.
+export type StudentSnapshot = {
+  kind: 'cat-tracker-snapshot';
+  version: number;
+  exportedAt: string;
+  student: Student;
+  profile: ExamProfile;
+  entries: Entry[];
+  topics: CanonicalTopic[];
+  mocks: MockTest[];
+};
+
+export type View = 'dashboard' | 'calendar' | 'mocks' | 'topics' | 'revise' | 'planner' | 'speed' | 'compare' | 'report';
@@ -0,0 +1,14 @@
+import type { Entry } from '../types';
+import { analyzeMistakes, type InsightReport } from '../lib/insights';
+
+// --- INSIGHTS WORKER ---
+export type InsightsRequest = { requestId: number; entries: Entry[] };
+export type InsightsResponse = { requestId: number; report: InsightReport };
+
+const ctx = self as unknown as Worker;
+
+ctx.addEventListener('message', (event: MessageEvent<InsightsRequest>) => {
+  const { requestId, entries } = event.data;
+  const response: InsightsResponse = { requestId, report: analyzeMistakes(entries) };
+  ctx.postMessage(response);
+});
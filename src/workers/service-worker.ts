@@ -0,0 +1,107 @@
+// --- SERVICE WORKER ---
+// Precaches the build so the tracker opens with no connection at all. The
+// asset list and build version are written in by the precache plugin in
+// vite.config.ts; a new deploy changes this file, which is how the browser
+// notices there is an update. The new worker waits until the page asks it
+// to take over, so a half-logged session is never reloaded out from under
+// the user.
+//
+// This file must not import anything: it is served as a classic script.
+
+export type ServiceWorkerMessage = { type: 'SKIP_WAITING' };
+
+type PrecacheManifest = { version: string; urls: string[] };
+
+// The DOM lib has no service worker types; these are the parts used here.
+type ExtendableEvent = Event & { waitUntil: (promise: Promise<unknown>) => void };
+type FetchEvent = ExtendableEvent & { request: Request; respondWith: (response: Promise<Response>) => void };
+type NotificationEvent = ExtendableEvent & { notification: Notification };
+type WindowClient = { url: string; focus: () => Promise<WindowClient> };
+type ServiceWorkerScope = {
+  registration: ServiceWorkerRegistration;
+  clients: {
+    claim: () => Promise<void>;
+    matchAll: (options: { type: 'window'; includeUncontrolled: boolean }) => Promise<WindowClient[]>;
+    openWindow: (url: string) => Promise<WindowClient | null>;
+  };
+  skipWaiting: () => Promise<void>;
+  addEventListener: {
+    (type: 'install' | 'activate', listener: (event: ExtendableEvent) => void): void;
+    (type: 'fetch', listener: (event: FetchEvent) => void): void;
+    (type: 'message', listener: (event: MessageEvent<ServiceWorkerMessage>) => void): void;
+    (type: 'notificationclick', listener: (event: NotificationEvent) => void): void;
+  };
+};
+
+declare const __PRECACHE_MANIFEST__: PrecacheManifest;
+
+const sw = self as unknown as ServiceWorkerScope;
+const manifest = __PRECACHE_MANIFEST__;
+const CACHE_PREFIX = 'cat-tracker-';
+const PRECACHE = `${CACHE_PREFIX}${manifest.version}`;
+// Web fonts come from a CDN; keep whatever was fetched last.
+const RUNTIME = `${CACHE_PREFIX}runtime`;
+const RUNTIME_HOSTS = ['fonts.googleapis.com', 'fonts.gstatic.com'];
+
+const scoped = (path: string) => new URL(path, sw.registration.scope).href;
+const APP_SHELL = scoped('index.html');
+
+sw.addEventListener('install', event => {
+  event.waitUntil(caches.open(PRECACHE).then(cache => cache.addAll(manifest.urls.map(scoped))));
+});
+
+sw.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key.startsWith(CACHE_PREFIX) && key !== PRECACHE && key !== RUNTIME).map(key => caches.delete(key))))
+      .then(() => sw.clients.claim()),
+  );
+});
+
+sw.addEventListener('message', event => {
+  if (event.data?.type === 'SKIP_WAITING') sw.skipWaiting();
+});
+
+async function fromRuntimeCache(request: Request) {
+  const cache = await caches.open(RUNTIME);
+  const cached = await cache.match(request);
+  const fetched = fetch(request)
+    .then(response => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached ?? Response.error());
+  return cached ?? fetched;
+}
+
+// Only the app's own files are served from cache. Requests to the coach or a
+// sync server always go to the network.
+sw.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (RUNTIME_HOSTS.includes(url.hostname)) {
+    event.respondWith(fromRuntimeCache(request));
+    return;
+  }
+  if (url.origin !== new URL(sw.registration.scope).origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(caches.match(APP_SHELL).then(cached => cached ?? fetch(request)));
+    return;
+  }
+  if (manifest.urls.some(path => scoped(path) === url.href)) {
+    event.respondWith(caches.match(request).then(cached => cached ?? fetch(request)));
+  }
+});
+
+sw.addEventListener('notificationclick', event => {
+  event.notification.close();
+  event.waitUntil(
+    sw.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(clients => {
+      const open = clients.find(client => client.url.startsWith(sw.registration.scope));
+      return open ? open.focus() : sw.clients.openWindow(sw.registration.scope);
+    }),
+  );
+});
@@ -1,9 +1,58 @@
-import { defineConfig } from 'vite'
+import { createHash } from 'node:crypto'
+import { readdirSync, readFileSync } from 'node:fs'
+import { join, relative } from 'node:path'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+const SERVICE_WORKER = 'sw.js'
+
+const listFiles = (dir: string): string[] => readdirSync(dir, { withFileTypes: true })
+  .flatMap(item => (item.isDirectory() ? listFiles(join(dir, item.name)) : [join(dir, item.name)]))
+
+// Builds src/workers/service-worker.ts to /sw.js and writes the list of files
+// to precache, plus a version derived from their contents, into it. Any change
+// to the build changes sw.js, which is what makes browsers pick up an update.
+function precache(): Plugin {
+  let publicDir = ''
+  return {
+    name: 'precache',
+    apply: 'build',
+    enforce: 'post',
+    config: () => ({
+      build: {
+        rollupOptions: {
+          input: { main: 'index.html', sw: 'src/workers/service-worker.ts' },
+          output: { entryFileNames: chunk => (chunk.name === 'sw' ? SERVICE_WORKER : 'assets/[name]-[hash].js') },
+        },
+      },
+    }),
+    configResolved: config => {
+      publicDir = config.publicDir
+    },
+    generateBundle(_, bundle) {
+      const hash = createHash('sha256')
+      const urls: string[] = []
+      const add = (url: string, contents: string | Uint8Array) => {
+        urls.push(url)
+        hash.update(url).update(contents)
+      }
+      Object.values(bundle).forEach(file => {
+        if (file.fileName === SERVICE_WORKER || file.fileName.endsWith('.map')) return
+        add(file.fileName, file.type === 'chunk' ? file.code : file.source)
+      })
+      if (publicDir) listFiles(publicDir).forEach(path => add(relative(publicDir, path).split('\\').join('/'), readFileSync(path)))
+
+      const worker = bundle[SERVICE_WORKER]
+      if (worker?.type !== 'chunk') return
+      const manifest = { version: hash.digest('hex').slice(0, 12), urls: urls.sort() }
+      worker.code = worker.code.replace('__PRECACHE_MANIFEST__', JSON.stringify(manifest))
+    },
+  }
+}
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precache()],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },